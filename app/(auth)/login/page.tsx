@@ -92,7 +92,10 @@ export default function LoginPage() {
 
           <div className="mt-6 text-center">
             <p className="text-sm text-gray-500">
-              Contact your administrator for account access
+              New staff member?{" "}
+              <Link href="/register" className="text-primary-600 hover:text-primary-700 font-medium">
+                Request access
+              </Link>
             </p>
           </div>
         </div>
@@ -6,25 +6,39 @@ import {
   getAuctions,
   getGroups,
   getGroupMembers,
-  createAuction,
+  createAuctionWithPayments,
+  repairAuctionCreation,
+  syncAuctionDividends,
+  syncAuctionPayouts,
   updateAuction,
   deleteAuction,
-  createPayment,
   getPayments,
   updatePayment,
   deletePaymentsByAuction,
 } from "@/lib/firestore";
-import { calculateAuctionAmounts } from "@/lib/utils";
-import type { Auction, Group, GroupMember } from "@/types";
+import {
+  calculateAuctionAmounts,
+  getGroupTenure,
+  getGroupStatus,
+  getBiddingEligibility,
+  validateAuctionWinners,
+  validateAuctionBids,
+  resolveAuctionBids,
+  drawLot,
+  getMaxBidAmount,
+  getGroupMaxDiscountPercent,
+} from "@/lib/utils";
+import type { Auction, AuctionBid, AuctionLotDraw, Group, GroupMember, Payment } from "@/types";
 import toast from "react-hot-toast";
 import { formatDate, formatCurrency } from "@/lib/utils";
 import { Timestamp } from "firebase/firestore";
 
 export default function AuctionsPage() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [auctions, setAuctions] = useState<Auction[]>([]);
   const [groups, setGroups] = useState<Group[]>([]);
   const [groupMembers, setGroupMembers] = useState<GroupMember[]>([]);
+  const [groupPayments, setGroupPayments] = useState<Payment[]>([]);
   const [loading, setLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
@@ -49,6 +63,10 @@ export default function AuctionsPage() {
     bidAmount: "",
     isCompanyBid: false,
   });
+  // Bids recorded for the auction session; when present they decide the winner and discount
+  const [bids, setBids] = useState<AuctionBid[]>([]);
+  const [lotDraw, setLotDraw] = useState<AuctionLotDraw | null>(null);
+  const [bidForm, setBidForm] = useState({ memberId: "", amount: "", bidTime: "" });
   const [calculations, setCalculations] = useState({
     payoutAmount: 0,
     agentCommission: 0,
@@ -93,18 +111,59 @@ export default function AuctionsPage() {
       // When editing, show all groups (including the current one)
       return groups;
     }
-    // When creating new auction, filter out groups that already have an auction for the selected chit month
+    // When creating new auction, only active groups can hold auctions
+    const activeGroups = groups.filter(group => getGroupStatus(group) === "Active");
+    // Filter out groups that already have an auction for the selected chit month
     if (!formData.chitMonth) {
-      return groups;
+      return activeGroups;
     }
     const groupsWithAuctionForMonth = new Set(
       auctions
         .filter(auction => auction.chitMonth === formData.chitMonth)
         .map(auction => auction.groupId)
     );
-    return groups.filter(group => !groupsWithAuctionForMonth.has(group.id));
+    return activeGroups.filter(group => !groupsWithAuctionForMonth.has(group.id));
   }, [groups, auctions, formData.chitMonth, editingAuction]);
 
+  // Prized-chit and arrears status of each member of the selected group
+  const biddingEligibility = useMemo(() => {
+    const group = groups.find((g) => g.id === formData.groupId);
+    if (!group) return [];
+    return getBiddingEligibility(
+      group,
+      groupMembers,
+      auctions.filter((auction) => auction.groupId === group.id),
+      groupPayments,
+      editingAuction?.id
+    );
+  }, [groups, formData.groupId, groupMembers, auctions, groupPayments, editingAuction]);
+
+  // Winner picker offers only eligible members (plus winners already saved on the auction being edited)
+  const selectableWinners = biddingEligibility.filter(
+    (entry) => entry.eligible || formData.winnerClientId.includes(entry.member.clientId)
+  );
+  const ineligibleMembers = biddingEligibility.filter((entry) => !entry.eligible);
+
+  const selectedGroup = groups.find((g) => g.id === formData.groupId);
+  const maxBidAmount = selectedGroup ? getMaxBidAmount(selectedGroup) : 0;
+  const bidResolution = useMemo(() => resolveAuctionBids(bids, maxBidAmount), [bids, maxBidAmount]);
+
+  // Winner and discount follow the bids once any are recorded
+  useEffect(() => {
+    if (bids.length === 0) return;
+    const winningClientId = bidResolution.needsLotDraw
+      ? lotDraw?.drawnClientId
+      : bidResolution.winningBid?.clientId;
+    const winningBid = bidResolution.tiedBids.find((bid) => bid.clientId === winningClientId);
+    setFormData((prev) => ({
+      ...prev,
+      winnerClientId: winningBid ? [winningBid.clientId] : [],
+      winnerName: winningBid ? [winningBid.clientName] : [],
+      bidAmount: bidResolution.tiedBids[0].amount.toString(),
+      isCompanyBid: false,
+    }));
+  }, [bids, lotDraw, bidResolution]);
+
   // Filter and sort auctions by selected month
   const filteredAndSortedAuctions = useMemo(() => {
     let filtered = monthFilter ? auctions.filter(auction => auction.chitMonth === monthFilter) : [];
@@ -202,13 +261,11 @@ export default function AuctionsPage() {
       if (formData.groupId && formData.bidAmount && user) {
         const group = groups.find((g) => g.id === formData.groupId);
         if (group) {
-          const members = await getGroupMembers(user.uid, formData.groupId);
-          const actualMemberCount = members.reduce((sum, m) => sum + m.chitCount, 0);
           const amounts = calculateAuctionAmounts(
             group.chitValue,
             parseFloat(formData.bidAmount) || 0,
             group.agentCommissionPercent,
-            actualMemberCount || group.memberCount
+            getGroupTenure(group)
           );
           setCalculations(amounts);
         }
@@ -222,8 +279,12 @@ export default function AuctionsPage() {
     const loadMembers = async () => {
       if (formData.groupId && user) {
         try {
-          const members = await getGroupMembers(user.uid, formData.groupId);
+          const [members, payments] = await Promise.all([
+            getGroupMembers(user.uid, formData.groupId),
+            getPayments(user.uid, { groupId: formData.groupId }),
+          ]);
           setGroupMembers(members);
+          setGroupPayments(payments);
           // Clear winner selection when group changes (only for new auctions)
           if (!editingAuction) {
             setFormData(prev => ({
@@ -231,13 +292,17 @@ export default function AuctionsPage() {
               winnerClientId: [],
               winnerName: []
             }));
+            setBids([]);
+            setLotDraw(null);
           }
         } catch (error) {
           console.error("Error loading group members:", error);
           setGroupMembers([]);
+          setGroupPayments([]);
         }
       } else {
         setGroupMembers([]);
+        setGroupPayments([]);
       }
     };
     loadMembers();
@@ -349,6 +414,9 @@ export default function AuctionsPage() {
       });
       setGroupMembers([]);
     }
+    setBids(auction?.bids || []);
+    setLotDraw(auction?.lotDraw || null);
+    setBidForm({ memberId: "", amount: "", bidTime: "" });
     setCalculations({
       payoutAmount: 0,
       agentCommission: 0,
@@ -372,6 +440,58 @@ export default function AuctionsPage() {
       bidAmount: "",
       isCompanyBid: false,
     });
+    setBids([]);
+    setLotDraw(null);
+  };
+
+  const handleAddBid = () => {
+    const entry = biddingEligibility.find((e) => e.member.id === bidForm.memberId);
+    const amount = parseFloat(bidForm.amount);
+    if (!entry) {
+      toast.error("Please select the bidder");
+      return;
+    }
+    if (!entry.eligible) {
+      toast.error(`${entry.member.clientName} cannot bid: ${entry.reason}`);
+      return;
+    }
+    if (!(amount > 0)) {
+      toast.error("Bid amount must be greater than zero");
+      return;
+    }
+    if (amount > maxBidAmount) {
+      toast.error(`Bid cannot exceed the ceiling of ${formatCurrency(maxBidAmount)}`);
+      return;
+    }
+
+    setBids([
+      ...bids,
+      {
+        memberId: entry.member.id,
+        clientId: entry.member.clientId,
+        clientName: entry.member.clientName,
+        amount,
+        bidTime: Timestamp.fromDate(bidForm.bidTime ? new Date(bidForm.bidTime) : new Date()),
+      },
+    ]);
+    // A new bid changes the tie, so any earlier draw no longer applies
+    setLotDraw(null);
+    setBidForm({ memberId: "", amount: "", bidTime: "" });
+  };
+
+  const handleRemoveBid = (index: number) => {
+    const remaining = bids.filter((_, i) => i !== index);
+    setBids(remaining);
+    setLotDraw(null);
+    if (remaining.length === 0) {
+      setFormData((prev) => ({ ...prev, winnerClientId: [], winnerName: [], bidAmount: "" }));
+    }
+  };
+
+  const handleDrawLot = () => {
+    const draw = drawLot(bidResolution.tiedBids, user!.uid);
+    setLotDraw(draw);
+    toast.success(`Lot drawn: ${draw.candidateNames[draw.drawnIndex]}`);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -390,15 +510,44 @@ export default function AuctionsPage() {
         return;
       }
 
-      // Get actual member count
-      const members = await getGroupMembers(user!.uid, formData.groupId);
-      const actualMemberCount = members.reduce((sum, m) => sum + m.chitCount, 0);
+      const [members, payments] = await Promise.all([
+        getGroupMembers(user!.uid, formData.groupId),
+        getPayments(user!.uid, { groupId: formData.groupId }),
+      ]);
 
+      // Enforce prized-chit, arrears and company bid rules
+      const validationErrors = [
+        ...validateAuctionWinners({
+          group: selectedGroup,
+          members,
+          auctions,
+          payments,
+          chitMonth: formData.chitMonth,
+          winnerClientIds: formData.isCompanyBid ? [] : formData.winnerClientId,
+          isCompanyBid: formData.isCompanyBid,
+          editingAuctionId: editingAuction?.id,
+        }),
+        // Discount ceiling, and winner/discount matching the recorded bids
+        ...validateAuctionBids({
+          group: selectedGroup,
+          bids,
+          bidAmount: parseFloat(formData.bidAmount),
+          winnerClientIds: formData.isCompanyBid ? [] : formData.winnerClientId,
+          isCompanyBid: formData.isCompanyBid,
+          lotDraw,
+        }),
+      ];
+      if (validationErrors.length > 0) {
+        validationErrors.forEach((message) => toast.error(message));
+        return;
+      }
+
+      // Contribution is divided by the group's tenure
       const amounts = calculateAuctionAmounts(
         selectedGroup.chitValue,
         parseFloat(formData.bidAmount),
         selectedGroup.agentCommissionPercent,
-        actualMemberCount || selectedGroup.memberCount
+        getGroupTenure(selectedGroup)
       );
 
       // Ensure winner data is arrays
@@ -423,6 +572,8 @@ export default function AuctionsPage() {
         winnerClientId: winnerClientIds,
         winnerName: winnerNames,
         bidAmount: parseFloat(formData.bidAmount),
+        bids,
+        lotDraw,
         payoutAmount: amounts.payoutAmount,
         agentCommission: amounts.agentCommission,
         totalCollectionAmount: amounts.totalCollectionAmount,
@@ -457,30 +608,25 @@ export default function AuctionsPage() {
           });
         }
 
+        // Bid or winners may have changed, so rewrite the dividend records and payouts
+        await syncAuctionDividends(user!.uid, editingAuction.id);
+        await syncAuctionPayouts(user!.uid, editingAuction.id);
+
         toast.success("Auction updated successfully");
       } else {
-        // Create auction
-        const auctionId = await createAuction(user!.uid, auctionData);
-
-        // Create payments for all members
-        for (const member of members) {
-          const amountExpected =
-            amounts.perMemberContribution * member.chitCount;
-
-          await createPayment(user!.uid, {
-            auctionId,
-            clientId: member.clientId,
-            clientName: member.clientName,
-            groupId: selectedGroup.id,
-            groupName: selectedGroup.groupName,
-            chitMonth: formData.chitMonth,
-            amountExpected,
-            amountPaid: 0,
-            pendingAmount: amountExpected,
-            paymentDueDate: Timestamp.fromDate(new Date(formData.paymentDueDate)),
-            status: "Pending",
-          });
-        }
+        // Create auction and all member payments as one idempotent operation
+        await createAuctionWithPayments(user!.uid, {
+          group: selectedGroup,
+          members,
+          chitMonth: formData.chitMonth,
+          auctionDate: auctionData.auctionDate,
+          paymentDueDate: auctionData.paymentDueDate,
+          winnerClientId: winnerClientIds,
+          winnerName: winnerNames,
+          bidAmount: auctionData.bidAmount,
+          bids,
+          lotDraw,
+        });
 
         toast.success("Auction created successfully");
       }
@@ -494,6 +640,22 @@ export default function AuctionsPage() {
     }
   };
 
+  const handleRepair = async (auction: Auction, action: "complete" | "rollback") => {
+    try {
+      await repairAuctionCreation(user!.uid, auction.id, action);
+      toast.success(
+        action === "complete"
+          ? "Auction payments completed successfully"
+          : "Partially created auction rolled back"
+      );
+      loadData();
+    } catch (error: any) {
+      console.error("Error repairing auction:", error);
+      const errorMessage = error?.message || "Failed to repair auction";
+      toast.error(errorMessage);
+    }
+  };
+
   const handleDeleteClick = (auction: Auction) => {
     setDeletingAuction(auction);
     setShowDeleteModal(true);
@@ -507,13 +669,12 @@ export default function AuctionsPage() {
       const payments = await getPayments(user!.uid, { auctionId: deletingAuction.id });
       const paymentCount = payments.length;
 
-      // Step 2: Delete all related data (payment logs and payment entries)
+      // Step 2: Delete all related data (payment logs, payment entries and dividends)
       // This function deletes:
       // - All payment logs (payment received records) for payments related to this auction
       // - All payment entries related to this auction
-      if (paymentCount > 0) {
-        await deletePaymentsByAuction(user!.uid, deletingAuction.id);
-      }
+      // - All dividend records of this auction
+      await deletePaymentsByAuction(user!.uid, deletingAuction.id);
 
       // Step 3: Delete the auction itself
       await deleteAuction(user!.uid, deletingAuction.id);
@@ -547,9 +708,11 @@ export default function AuctionsPage() {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold text-gray-800">Auctions</h1>
-        <button onClick={() => handleOpenModal()} className="btn-primary">
-          + Add Auction
-        </button>
+        {can("manageAuctions") && (
+          <button onClick={() => handleOpenModal()} className="btn-primary">
+            + Add Auction
+          </button>
+        )}
       </div>
 
       {/* Month Filter */}
@@ -614,7 +777,14 @@ export default function AuctionsPage() {
                 <tbody>
                   {paginatedAuctions.map((auction) => (
                     <tr key={auction.id} className="border-b border-gray-100 hover:bg-gray-50">
-                      <td className="py-3 px-4 font-medium">{auction.groupName}</td>
+                      <td className="py-3 px-4 font-medium">
+                        {auction.groupName}
+                        {auction.creationStatus === "Pending" && (
+                          <span className="ml-2 px-2 py-1 rounded-full text-xs font-medium bg-warning-100 text-warning-800">
+                            Incomplete
+                          </span>
+                        )}
+                      </td>
                       <td className="py-3 px-4">{auction.chitMonth}</td>
                       <td className="py-3 px-4">
                         {Array.isArray(auction.winnerName) 
@@ -628,18 +798,38 @@ export default function AuctionsPage() {
                       <td className="py-3 px-4">{formatDate(auction.paymentDueDate)}</td>
                       <td className="py-3 px-4">
                         <div className="flex gap-2">
-                          <button
-                            onClick={() => handleOpenModal(auction)}
-                            className="text-primary-600 hover:text-primary-700 font-medium"
-                          >
-                            Edit
-                          </button>
-                          <button
-                            onClick={() => handleDeleteClick(auction)}
-                            className="text-danger-600 hover:text-danger-700 font-medium"
-                          >
-                            Delete
-                          </button>
+                          {auction.creationStatus === "Pending" && can("manageAuctions") && (
+                            <>
+                              <button
+                                onClick={() => handleRepair(auction, "complete")}
+                                className="text-success-600 hover:text-success-700 font-medium"
+                              >
+                                Finish
+                              </button>
+                              <button
+                                onClick={() => handleRepair(auction, "rollback")}
+                                className="text-warning-600 hover:text-warning-700 font-medium"
+                              >
+                                Roll Back
+                              </button>
+                            </>
+                          )}
+                          {can("manageAuctions") && (
+                            <button
+                              onClick={() => handleOpenModal(auction)}
+                              className="text-primary-600 hover:text-primary-700 font-medium"
+                            >
+                              Edit
+                            </button>
+                          )}
+                          {can("deleteRecords") && (
+                            <button
+                              onClick={() => handleDeleteClick(auction)}
+                              className="text-danger-600 hover:text-danger-700 font-medium"
+                            >
+                              Delete
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -728,6 +918,7 @@ export default function AuctionsPage() {
                   <input
                     type="month"
                     required
+                    disabled={!!editingAuction}
                     value={formData.chitMonth}
                     onChange={(e) => {
                       const selectedMonth = e.target.value;
@@ -803,6 +994,7 @@ export default function AuctionsPage() {
                     type="checkbox"
                     id="companyBid"
                     checked={formData.isCompanyBid}
+                    disabled={bids.length > 0}
                     onChange={(e) => {
                       setFormData({ 
                         ...formData, 
@@ -819,6 +1011,113 @@ export default function AuctionsPage() {
                 </div>
               </div>
 
+              {/* Bids recorded in the auction session */}
+              {!formData.isCompanyBid && formData.groupId && (
+                <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+                  <div className="flex justify-between items-center">
+                    <h3 className="font-semibold text-gray-700">Bids</h3>
+                    <span className="text-xs text-gray-500">
+                      Ceiling: {formatCurrency(maxBidAmount)} (
+                      {selectedGroup ? getGroupMaxDiscountPercent(selectedGroup) : 0}% of chit value)
+                    </span>
+                  </div>
+                  <div className="grid grid-cols-4 gap-2 items-end">
+                    <div className="col-span-2">
+                      <label className="block text-xs font-medium text-gray-600 mb-1">Bidder</label>
+                      <select
+                        value={bidForm.memberId}
+                        onChange={(e) => setBidForm({ ...bidForm, memberId: e.target.value })}
+                        className="input-field"
+                      >
+                        <option value="">Select bidder</option>
+                        {biddingEligibility
+                          .filter((entry) => entry.eligible)
+                          .map(({ member }) => (
+                            <option key={member.id} value={member.id}>
+                              {member.clientName}
+                            </option>
+                          ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">Discount</label>
+                      <input
+                        type="number"
+                        min="0"
+                        max={maxBidAmount || undefined}
+                        step="0.01"
+                        value={bidForm.amount}
+                        onChange={(e) => setBidForm({ ...bidForm, amount: e.target.value })}
+                        className="input-field"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">Time</label>
+                      <input
+                        type="datetime-local"
+                        value={bidForm.bidTime}
+                        onChange={(e) => setBidForm({ ...bidForm, bidTime: e.target.value })}
+                        className="input-field"
+                      />
+                    </div>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <p className="text-xs text-gray-500">Time defaults to now when left empty.</p>
+                    <button type="button" onClick={handleAddBid} className="btn-secondary text-sm py-1 px-3">
+                      Add Bid
+                    </button>
+                  </div>
+                  {bids.length > 0 && (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-gray-200">
+                          <th className="text-left py-2 px-2 font-semibold text-gray-700">Time</th>
+                          <th className="text-left py-2 px-2 font-semibold text-gray-700">Bidder</th>
+                          <th className="text-right py-2 px-2 font-semibold text-gray-700">Discount</th>
+                          <th className="py-2 px-2"></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {bids.map((bid, index) => (
+                          <tr key={index} className="border-b border-gray-100">
+                            <td className="py-2 px-2">{bid.bidTime.toDate().toLocaleString()}</td>
+                            <td className="py-2 px-2">{bid.clientName}</td>
+                            <td className="py-2 px-2 text-right">{formatCurrency(bid.amount)}</td>
+                            <td className="py-2 px-2 text-right">
+                              <button
+                                type="button"
+                                onClick={() => handleRemoveBid(index)}
+                                className="text-danger-600 hover:text-danger-700 text-xs"
+                              >
+                                Remove
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                  {bidResolution.needsLotDraw && (
+                    <div className="bg-warning-50 border border-warning-200 rounded-lg p-3 text-sm">
+                      <p className="font-medium text-warning-800">
+                        Tied at the ceiling: {bidResolution.tiedBids.map((bid) => bid.clientName).join(", ")}
+                      </p>
+                      {lotDraw ? (
+                        <p className="text-warning-800 mt-1">
+                          Lot drawn on {lotDraw.drawnAt.toDate().toLocaleString()}: random value{" "}
+                          {lotDraw.randomValue} mod {lotDraw.candidateClientIds.length} = {lotDraw.drawnIndex} →{" "}
+                          <span className="font-semibold">{lotDraw.candidateNames[lotDraw.drawnIndex]}</span>
+                        </p>
+                      ) : (
+                        <button type="button" onClick={handleDrawLot} className="btn-primary text-sm py-1 px-3 mt-2">
+                          Draw Lot
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -827,7 +1126,7 @@ export default function AuctionsPage() {
                   <select
                     required={!formData.isCompanyBid}
                     multiple
-                    size={Math.min(6, Math.max(3, groupMembers.length || 3))}
+                    size={Math.min(6, Math.max(3, selectableWinners.length || 3))}
                     value={formData.winnerClientId}
                     onChange={(e) => {
                       const selectedIds = Array.from(e.target.selectedOptions, option => option.value);
@@ -840,14 +1139,25 @@ export default function AuctionsPage() {
                       });
                     }}
                     className="input-field"
-                    disabled={!formData.groupId || groupMembers.length === 0 || formData.isCompanyBid}
+                    disabled={!formData.groupId || groupMembers.length === 0 || formData.isCompanyBid || bids.length > 0}
                   >
-                    {groupMembers.map((member) => (
+                    {selectableWinners.map(({ member, unprizedChitCount }) => (
                       <option key={member.clientId} value={member.clientId}>
                         {member.clientName} {member.chitCount !== 1 ? `(${member.chitCount} ${member.chitCount === 0.5 ? 'chit' : 'chits'})` : ""}
+                        {unprizedChitCount < member.chitCount ? ` - ${unprizedChitCount} unprized` : ""}
                       </option>
                     ))}
                   </select>
+                  {ineligibleMembers.length > 0 && !formData.isCompanyBid && (
+                    <div className="text-xs text-gray-500 mt-1">
+                      <p className="font-medium">Not eligible to win:</p>
+                      {ineligibleMembers.map(({ member, reason }) => (
+                        <p key={member.id}>
+                          {member.clientName} - {reason}
+                        </p>
+                      ))}
+                    </div>
+                  )}
                   {formData.isCompanyBid && (
                     <p className="text-xs text-blue-600 mt-1 font-medium">
                       Company Bid selected - payments will still be collected from all members
@@ -876,11 +1186,16 @@ export default function AuctionsPage() {
                     type="number"
                     required
                     min="0"
+                    max={maxBidAmount || undefined}
                     step="0.01"
                     value={formData.bidAmount}
                     onChange={(e) => setFormData({ ...formData, bidAmount: e.target.value })}
                     className="input-field"
+                    readOnly={bids.length > 0}
                   />
+                  {bids.length > 0 && (
+                    <p className="text-xs text-gray-500 mt-1">Set from the winning bid</p>
+                  )}
                 </div>
               </div>
 
@@ -945,9 +1260,10 @@ export default function AuctionsPage() {
               <strong className="text-red-600">This will permanently delete:</strong>
               <br />• The auction record
               <br />• All payment entries related to this auction
-              <br />• All payment received records (payment logs) for those payments
+              <br />• The reversed payment records (payment logs) for those payments
               <br /><br />
-              This action cannot be undone.
+              Payments received must be reversed on the rollback page first. This action
+              cannot be undone.
             </p>
             <div className="flex gap-3">
               <button onClick={handleDelete} className="btn-danger flex-1">
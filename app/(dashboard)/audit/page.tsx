@@ -0,0 +1,294 @@
+"use client";
+
+import { Fragment, useEffect, useState, useMemo } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useBranch } from "@/contexts/BranchContext";
+import { getAuditLog } from "@/lib/firestore";
+import { formatDateTime, getAuditChanges } from "@/lib/utils";
+import type { AuditLogEntry } from "@/types";
+import Pagination from "@/components/common/Pagination";
+import toast from "react-hot-toast";
+import { format, subDays, startOfDay, endOfDay } from "date-fns";
+
+const ACTION_STYLES: Record<AuditLogEntry["action"], string> = {
+  create: "bg-success-100 text-success-700",
+  update: "bg-primary-100 text-primary-700",
+  delete: "bg-danger-100 text-danger-700",
+};
+
+export default function AuditPage() {
+  const { user, isAdmin } = useAuth();
+  const { allBranches } = useBranch();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [currentPage, setCurrentPage] = useState(1);
+  const itemsPerPage = 20;
+
+  // Filter states - the date range is queried, the rest filters the loaded entries
+  const [fromDate, setFromDate] = useState(format(subDays(new Date(), 7), "yyyy-MM-dd"));
+  const [toDate, setToDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [actorFilter, setActorFilter] = useState("all");
+  const [branchFilter, setBranchFilter] = useState("all");
+  const [entityFilter, setEntityFilter] = useState("all");
+  const [entityIdSearch, setEntityIdSearch] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      loadEntries();
+    }
+  }, [user, isAdmin, fromDate, toDate]);
+
+  const loadEntries = async () => {
+    if (!fromDate || !toDate) return;
+    setLoading(true);
+    try {
+      const data = await getAuditLog(user!.uid, {
+        from: startOfDay(new Date(fromDate)),
+        to: endOfDay(new Date(toDate)),
+      });
+      setEntries(data);
+      setCurrentPage(1);
+    } catch (error: any) {
+      console.error("Error loading audit log:", error);
+      toast.error(error?.message || "Failed to load audit log");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Users and entity types present in the loaded range
+  const actors = useMemo(() => {
+    const byUid = new Map<string, string>();
+    entries.forEach((entry) => byUid.set(entry.actorUid, entry.actorEmail || entry.actorUid));
+    return Array.from(byUid, ([uid, label]) => ({ uid, label })).sort((a, b) => a.label.localeCompare(b.label));
+  }, [entries]);
+
+  const entityTypes = useMemo(
+    () => Array.from(new Set(entries.map((entry) => entry.entityType))).sort(),
+    [entries]
+  );
+
+  const filteredEntries = useMemo(() => {
+    const idQuery = entityIdSearch.trim().toLowerCase();
+    return entries.filter(
+      (entry) =>
+        (actorFilter === "all" || entry.actorUid === actorFilter) &&
+        (branchFilter === "all" || (entry.branchId || "") === branchFilter) &&
+        (entityFilter === "all" || entry.entityType === entityFilter) &&
+        (!idQuery || entry.entityId.toLowerCase().includes(idQuery))
+    );
+  }, [entries, actorFilter, branchFilter, entityFilter, entityIdSearch]);
+
+  const getBranchName = (branchId: string | null | undefined) =>
+    branchId ? allBranches.find((b) => b.id === branchId)?.name || branchId : "-";
+
+  const totalPages = Math.ceil(filteredEntries.length / itemsPerPage);
+  const paginatedEntries = filteredEntries.slice(
+    (currentPage - 1) * itemsPerPage,
+    currentPage * itemsPerPage
+  );
+
+  if (!isAdmin) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold text-gray-800">Audit Log</h1>
+        <div className="card">
+          <p className="text-gray-600">Only administrators can view the audit log.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-800">Audit Log</h1>
+        <p className="text-gray-600 mt-1">Every change to the data, who made it and what it changed</p>
+      </div>
+
+      <div className="card">
+        <div className="grid grid-cols-1 md:grid-cols-6 gap-4 mb-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+            <input
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="input-field"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+            <input
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="input-field"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">User</label>
+            <select
+              value={actorFilter}
+              onChange={(e) => {
+                setActorFilter(e.target.value);
+                setCurrentPage(1);
+              }}
+              className="input-field"
+            >
+              <option value="all">All Users</option>
+              {actors.map((actor) => (
+                <option key={actor.uid} value={actor.uid}>
+                  {actor.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Branch</label>
+            <select
+              value={branchFilter}
+              onChange={(e) => {
+                setBranchFilter(e.target.value);
+                setCurrentPage(1);
+              }}
+              className="input-field"
+            >
+              <option value="all">All Branches</option>
+              {allBranches.map((branch) => (
+                <option key={branch.id} value={branch.id}>
+                  {branch.name}
+                </option>
+              ))}
+              <option value="">No branch (users, branches)</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Entity</label>
+            <select
+              value={entityFilter}
+              onChange={(e) => {
+                setEntityFilter(e.target.value);
+                setCurrentPage(1);
+              }}
+              className="input-field"
+            >
+              <option value="all">All Entities</option>
+              {entityTypes.map((entityType) => (
+                <option key={entityType} value={entityType}>
+                  {entityType}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Entity ID</label>
+            <input
+              type="text"
+              placeholder="Search by ID..."
+              value={entityIdSearch}
+              onChange={(e) => {
+                setEntityIdSearch(e.target.value);
+                setCurrentPage(1);
+              }}
+              className="input-field"
+            />
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+          </div>
+        ) : filteredEntries.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">No changes recorded for these filters.</p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Time</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">User</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Action</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Branch</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Entity</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">ID</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Changes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {paginatedEntries.map((entry) => {
+                    const changes = getAuditChanges(entry);
+                    const expanded = expandedId === entry.id;
+                    return (
+                      <Fragment key={entry.id}>
+                        <tr className="border-b border-gray-100 hover:bg-gray-50">
+                          <td className="py-3 px-4 text-sm text-gray-600 whitespace-nowrap">
+                            {entry.timestamp ? formatDateTime(entry.timestamp) : "-"}
+                          </td>
+                          <td className="py-3 px-4 text-sm">{entry.actorEmail || entry.actorUid}</td>
+                          <td className="py-3 px-4">
+                            <span
+                              className={`px-2 py-1 rounded-full text-xs font-semibold capitalize ${ACTION_STYLES[entry.action]}`}
+                            >
+                              {entry.action}
+                            </span>
+                          </td>
+                          <td className="py-3 px-4 text-sm">{getBranchName(entry.branchId)}</td>
+                          <td className="py-3 px-4 text-sm">{entry.entityType}</td>
+                          <td className="py-3 px-4 text-sm font-mono text-gray-600 break-all">{entry.entityId}</td>
+                          <td className="py-3 px-4">
+                            <button
+                              onClick={() => setExpandedId(expanded ? null : entry.id)}
+                              className="text-primary-600 hover:text-primary-700 font-medium text-sm"
+                            >
+                              {expanded ? "Hide" : `${changes.length} field(s)`}
+                            </button>
+                          </td>
+                        </tr>
+                        {expanded && (
+                          <tr className="border-b border-gray-100 bg-gray-50">
+                            <td colSpan={7} className="py-3 px-4">
+                              <table className="w-full text-sm">
+                                <thead>
+                                  <tr>
+                                    <th className="text-left py-1 pr-4 font-semibold text-gray-600 w-48">Field</th>
+                                    <th className="text-left py-1 pr-4 font-semibold text-gray-600">Before</th>
+                                    <th className="text-left py-1 font-semibold text-gray-600">After</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {changes.map((change) => (
+                                    <tr key={change.field} className="align-top">
+                                      <td className="py-1 pr-4 font-medium text-gray-700">{change.field}</td>
+                                      <td className="py-1 pr-4 text-danger-700 break-all">{change.before || "-"}</td>
+                                      <td className="py-1 text-success-700 break-all">{change.after || "-"}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <Pagination
+              currentPage={currentPage}
+              totalPages={totalPages}
+              totalItems={filteredEntries.length}
+              itemsPerPage={itemsPerPage}
+              onPageChange={setCurrentPage}
+              itemName="entries"
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
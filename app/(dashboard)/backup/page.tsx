@@ -0,0 +1,229 @@
+"use client";
+
+import { useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useBranch } from "@/contexts/BranchContext";
+import { createBackup, findBackupCollisions, restoreBackup } from "@/lib/firestore";
+import {
+  BACKUP_COLLECTIONS,
+  validateBackupArchive,
+  getBackupDocumentCount,
+  type BackupArchive,
+  type BackupCollection,
+} from "@/lib/backup";
+import { downloadFile } from "@/lib/export";
+import { db } from "@/lib/firebase";
+import toast from "react-hot-toast";
+import { format } from "date-fns";
+
+const USING_EMULATORS = process.env.NEXT_PUBLIC_USE_FIREBASE_EMULATORS === "true";
+
+export default function BackupPage() {
+  const { user, isAdmin } = useAuth();
+  const { branch } = useBranch();
+  const [backingUp, setBackingUp] = useState(false);
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [archiveName, setArchiveName] = useState("");
+  const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  const [collisions, setCollisions] = useState<Partial<Record<BackupCollection, string[]>> | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  const projectId = db.app.options.projectId || "";
+  const collisionCount = Object.values(collisions || {}).reduce((sum, ids) => sum + ids.length, 0);
+
+  const handleBackup = async () => {
+    setBackingUp(true);
+    try {
+      const backup = await createBackup(user!.uid, user!.email || "", { id: branch!.id, name: branch!.name });
+      downloadFile(
+        JSON.stringify(backup, null, 2),
+        `backup-${backup.projectId || "chitbook"}-${branch!.code}-${format(new Date(), "yyyy-MM-dd-HHmm")}.json`,
+        "application/json"
+      );
+      toast.success(`Backed up ${getBackupDocumentCount(backup)} documents`);
+    } catch (error: any) {
+      console.error("Error creating backup:", error);
+      toast.error(error?.message || "Failed to create backup");
+    } finally {
+      setBackingUp(false);
+    }
+  };
+
+  // Validates the archive and checks its IDs against this project
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setArchive(null);
+    setValidationErrors([]);
+    setCollisions(null);
+    if (!file) return;
+
+    setChecking(true);
+    try {
+      let json: unknown;
+      try {
+        json = JSON.parse(await file.text());
+      } catch {
+        setValidationErrors(["The file is not valid JSON"]);
+        return;
+      }
+      const result = validateBackupArchive(json);
+      setValidationErrors(result.errors);
+      if (!result.archive) return;
+
+      setArchiveName(file.name);
+      setArchive(result.archive);
+      setCollisions(await findBackupCollisions(user!.uid, result.archive));
+    } catch (error: any) {
+      console.error("Error checking backup:", error);
+      toast.error(error?.message || "Failed to check backup");
+    } finally {
+      setChecking(false);
+      e.target.value = "";
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!archive || collisionCount > 0) return;
+    const target = `branch "${branch?.name}" of ${USING_EMULATORS ? "the local emulator" : `project "${projectId}"`}`;
+    if (!confirm(`Restore ${getBackupDocumentCount(archive)} documents into ${target}?`)) return;
+
+    setRestoring(true);
+    try {
+      const restoredCount = await restoreBackup(user!.uid, archive);
+      toast.success(`Restored ${restoredCount} documents`);
+      setArchive(null);
+      setCollisions(null);
+    } catch (error: any) {
+      console.error("Error restoring backup:", error);
+      toast.error(error?.message || "Failed to restore backup");
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold text-gray-800">Backup &amp; Restore</h1>
+        <div className="card">
+          <p className="text-gray-600">Only administrators can back up or restore data.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-800">Backup &amp; Restore</h1>
+        <p className="text-gray-600 mt-1">
+          Connected to{" "}
+          <span className="font-semibold">{USING_EMULATORS ? "the local Firebase emulator" : projectId}</span>,
+          branch <span className="font-semibold">{branch?.name}</span>
+        </p>
+      </div>
+
+      <div className="card space-y-4">
+        <h2 className="text-xl font-semibold text-gray-800">Backup</h2>
+        <p className="text-sm text-gray-600">
+          Downloads every collection of this branch ({BACKUP_COLLECTIONS.join(", ")}) as a JSON archive. Dates
+          are kept exactly as stored. Switch branch in the header to back up another one.
+        </p>
+        <button
+          onClick={handleBackup}
+          disabled={backingUp}
+          className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {backingUp ? "Backing up..." : "Download Backup"}
+        </button>
+      </div>
+
+      <div className="card space-y-4">
+        <h2 className="text-xl font-semibold text-gray-800">Restore</h2>
+        <p className="text-sm text-gray-600">
+          Writes a backup into this branch with its original document IDs. Existing documents are never
+          overwritten: restore into an empty branch, or run the app against the emulator
+          (NEXT_PUBLIC_USE_FIREBASE_EMULATORS=true) to investigate a backup locally. A backup taken before
+          branches were introduced restores this way into a new branch.
+        </p>
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={handleFileChange}
+          disabled={checking || restoring}
+          className="input-field"
+        />
+        {checking && <p className="text-sm text-gray-500">Checking backup...</p>}
+
+        {validationErrors.length > 0 && (
+          <div className="p-4 bg-danger-50 border border-danger-200 rounded-lg">
+            <p className="font-semibold text-danger-700 mb-2">The backup cannot be restored:</p>
+            <ul className="list-disc list-inside text-sm text-danger-600 space-y-1">
+              {validationErrors.slice(0, 20).map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+              {validationErrors.length > 20 && <li>and {validationErrors.length - 20} more</li>}
+            </ul>
+          </div>
+        )}
+
+        {archive && collisions && (
+          <>
+            <div className="text-sm text-gray-700 space-y-1">
+              <p>
+                <span className="font-medium">File:</span> {archiveName}
+              </p>
+              <p>
+                <span className="font-medium">Taken:</span> {format(new Date(archive.createdAt), "dd MMM yyyy HH:mm")}
+                {archive.createdBy && ` by ${archive.createdBy}`} from {archive.projectId || "unknown project"}
+                {archive.branch && `, branch ${archive.branch.name}`}
+              </p>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Collection</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Documents</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Already Exist</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {BACKUP_COLLECTIONS.map((name) => (
+                    <tr key={name} className="border-b border-gray-100">
+                      <td className="py-3 px-4 font-medium">{name}</td>
+                      <td className="py-3 px-4 text-right">{archive.collections[name].length}</td>
+                      <td
+                        className={`py-3 px-4 text-right ${collisions[name] ? "text-danger-600 font-semibold" : "text-gray-500"}`}
+                      >
+                        {collisions[name]?.length || 0}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {collisionCount > 0 && (
+              <p className="text-sm text-danger-600">
+                {collisionCount} document ID(s) already exist in this branch, for example{" "}
+                {Object.entries(collisions)
+                  .flatMap(([name, ids]) => ids.slice(0, 3).map((id) => `${name}/${id}`))
+                  .slice(0, 5)
+                  .join(", ")}
+                . Restore into an empty branch instead.
+              </p>
+            )}
+            <button
+              onClick={handleRestore}
+              disabled={collisionCount > 0 || restoring}
+              className="btn-danger disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {restoring ? "Restoring..." : `Restore ${getBackupDocumentCount(archive)} Documents`}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useBranch } from "@/contexts/BranchContext";
+import { createBranch, updateBranch } from "@/lib/firestore";
+import { formatDate } from "@/lib/utils";
+import type { Branch } from "@/types";
+import toast from "react-hot-toast";
+
+export default function BranchesPage() {
+  const { user, isAdmin } = useAuth();
+  const { allBranches, branch: activeBranch, reloadBranches } = useBranch();
+  const [showModal, setShowModal] = useState(false);
+  const [editingBranch, setEditingBranch] = useState<Branch | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({ name: "", code: "", address: "" });
+
+  const handleOpenModal = (branch?: Branch) => {
+    setEditingBranch(branch || null);
+    setFormData(
+      branch ? { name: branch.name, code: branch.code, address: branch.address } : { name: "", code: "", address: "" }
+    );
+    setShowModal(true);
+  };
+
+  const handleCloseModal = () => {
+    setShowModal(false);
+    setEditingBranch(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = {
+      name: formData.name.trim(),
+      code: formData.code.trim().toUpperCase(),
+      address: formData.address.trim(),
+    };
+    if (allBranches.some((b) => b.code === data.code && b.id !== editingBranch?.id)) {
+      toast.error(`Another branch already uses the code ${data.code}`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editingBranch) {
+        await updateBranch(user!.uid, editingBranch.id, data);
+        toast.success("Branch updated successfully");
+      } else {
+        await createBranch(user!.uid, data);
+        toast.success("Branch created. Assign staff to it on the Users page.");
+      }
+      handleCloseModal();
+      await reloadBranches();
+    } catch (error: any) {
+      console.error("Error saving branch:", error);
+      toast.error(error?.message || "Failed to save branch");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold text-gray-800">Branches</h1>
+        <div className="card">
+          <p className="text-gray-600">Only administrators can manage branches.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800">Branches</h1>
+          <p className="text-gray-600 mt-1">
+            Each branch keeps its own clients, groups, payments and receipt numbers
+          </p>
+        </div>
+        <button onClick={() => handleOpenModal()} className="btn-primary">
+          + Add Branch
+        </button>
+      </div>
+
+      <div className="card">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="text-left py-3 px-4 font-semibold text-gray-700">Code</th>
+                <th className="text-left py-3 px-4 font-semibold text-gray-700">Name</th>
+                <th className="text-left py-3 px-4 font-semibold text-gray-700">Address</th>
+                <th className="text-left py-3 px-4 font-semibold text-gray-700">Created</th>
+                <th className="text-left py-3 px-4 font-semibold text-gray-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {allBranches.map((branch) => (
+                <tr key={branch.id} className="border-b border-gray-100 hover:bg-gray-50">
+                  <td className="py-3 px-4 font-mono text-sm">{branch.code}</td>
+                  <td className="py-3 px-4 font-medium">
+                    {branch.name}
+                    {branch.id === activeBranch?.id && (
+                      <span className="ml-2 px-2 py-1 rounded-full text-xs font-semibold bg-primary-100 text-primary-700">
+                        Current
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-3 px-4 text-sm text-gray-600 whitespace-pre-wrap">{branch.address || "-"}</td>
+                  <td className="py-3 px-4 text-sm text-gray-600">{formatDate(branch.createdAt)}</td>
+                  <td className="py-3 px-4">
+                    <button
+                      onClick={() => handleOpenModal(branch)}
+                      className="text-primary-600 hover:text-primary-700 font-medium"
+                    >
+                      Edit
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Add/Edit Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+            <h2 className="text-2xl font-bold text-gray-800 mb-4">
+              {editingBranch ? "Edit Branch" : "Add New Branch"}
+            </h2>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Branch Name *</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  required
+                  className="input-field"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Code *</label>
+                <input
+                  type="text"
+                  value={formData.code}
+                  onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                  required
+                  maxLength={6}
+                  className="input-field"
+                  placeholder="e.g. MDU"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Address</label>
+                <textarea
+                  value={formData.address}
+                  onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                  className="input-field"
+                  rows={3}
+                />
+              </div>
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="btn-primary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {editingBranch ? "Update" : "Create"}
+                </button>
+                <button type="button" onClick={handleCloseModal} className="btn-secondary flex-1">
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,21 +5,28 @@ import { useAuth } from "@/contexts/AuthContext";
 import {
   getClients,
   getPayments,
-  updatePayment,
-  createPaymentLog,
+  getPaymentLogs,
+  accruePenaltyCharges,
+  getPenaltyCharges,
+  recordBulkPayment,
+  markReceiptPrinted,
+  MAX_BULK_PAYMENT_LINES,
 } from "@/lib/firestore";
-import type { Client, Payment } from "@/types";
+import { printReceipt } from "@/lib/receipt";
+import type { Client, Payment, PaymentLog, PenaltyCharge } from "@/types";
 import toast from "react-hot-toast";
 import { formatDate, formatCurrency, isOverdue } from "@/lib/utils";
 import { Timestamp } from "firebase/firestore";
 
 export default function BulkPayPage() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [clients, setClients] = useState<Client[]>([]);
   const [selectedClientId, setSelectedClientId] = useState("");
   const [clientSearch, setClientSearch] = useState("");
   const [showDropdown, setShowDropdown] = useState(false);
   const [pendingPayments, setPendingPayments] = useState<Payment[]>([]);
+  const [pendingPenalties, setPendingPenalties] = useState<PenaltyCharge[]>([]);
+  const [includePenalties, setIncludePenalties] = useState(true);
   const [loading, setLoading] = useState(true);
   const [bulkAmount, setBulkAmount] = useState("");
   const [paymentDate, setPaymentDate] = useState(() => {
@@ -27,6 +34,7 @@ export default function BulkPayPage() {
     return today.toISOString().split("T")[0];
   });
   const [isOnline, setIsOnline] = useState(false);
+  const [printReceiptAfter, setPrintReceiptAfter] = useState(true);
   const [processing, setProcessing] = useState(false);
 
   useEffect(() => {
@@ -40,6 +48,7 @@ export default function BulkPayPage() {
       loadPendingPayments();
     } else {
       setPendingPayments([]);
+      setPendingPenalties([]);
     }
   }, [user, selectedClientId]);
 
@@ -68,7 +77,13 @@ export default function BulkPayPage() {
 
   const loadPendingPayments = async () => {
     try {
-      const allPayments = await getPayments(user!.uid, { clientId: selectedClientId });
+      await accruePenaltyCharges(user!.uid, { clientId: selectedClientId });
+      const [allPayments, charges] = await Promise.all([
+        getPayments(user!.uid, { clientId: selectedClientId }),
+        getPenaltyCharges(user!.uid, { clientId: selectedClientId }),
+      ]);
+      // Charges are sorted oldest month first
+      setPendingPenalties(charges.filter((charge) => charge.pendingAmount > 0));
       const pending = allPayments.filter((p) => p.status !== "Paid");
       
       // Get current month (first day of current month)
@@ -108,8 +123,13 @@ export default function BulkPayPage() {
     }
   };
 
+  const calculateTotalPenalties = () => {
+    return pendingPenalties.reduce((sum, charge) => sum + charge.pendingAmount, 0);
+  };
+
   const calculateTotalOutstanding = () => {
-    return pendingPayments.reduce((sum, p) => sum + p.pendingAmount, 0);
+    const installments = pendingPayments.reduce((sum, p) => sum + p.pendingAmount, 0);
+    return installments + (includePenalties ? calculateTotalPenalties() : 0);
   };
 
   const handleBulkPayment = async () => {
@@ -130,52 +150,60 @@ export default function BulkPayPage() {
       return;
     }
 
+    // Lines this amount settles, oldest first; they all go on one receipt
+    const penaltiesToPay = includePenalties ? pendingPenalties : [];
+    let remainingAmount = amount;
+    let lineCount = 0;
+    for (const pendingAmount of [
+      ...penaltiesToPay.map((charge) => charge.pendingAmount),
+      ...pendingPayments.map((payment) => payment.pendingAmount),
+    ]) {
+      if (remainingAmount <= 0) break;
+      remainingAmount -= Math.min(remainingAmount, pendingAmount);
+      lineCount++;
+    }
+    if (lineCount > MAX_BULK_PAYMENT_LINES) {
+      toast.error(
+        `One receipt can settle at most ${MAX_BULK_PAYMENT_LINES} installments and penalties. Enter a smaller amount.`
+      );
+      return;
+    }
+
+    // Open the window before awaiting so the browser does not block it
+    const printWindow = printReceiptAfter ? window.open("", "_blank") : null;
     setProcessing(true);
 
     try {
-      let remainingAmount = amount;
-
-      // Process payments in order (oldest first)
-      for (const payment of pendingPayments) {
-        if (remainingAmount <= 0) break;
-
-        const amountToPay = Math.min(remainingAmount, payment.pendingAmount);
-        const newAmountPaid = payment.amountPaid + amountToPay;
-        const newPendingAmount = payment.pendingAmount - amountToPay;
+      // Penalties, installments, receipt number and logs are recorded together or not at all
+      const logIds = await recordBulkPayment(user!.uid, {
+        amount,
+        penaltyChargeIds: penaltiesToPay.map((charge) => charge.id),
+        paymentIds: pendingPayments.map((payment) => payment.id),
+        paymentDate: Timestamp.fromDate(new Date(paymentDate)),
+        paymentMethod: isOnline ? "Online" : "Cash",
+        collectorName: user!.displayName || user!.email || "",
+      });
 
-        let newStatus: "Pending" | "Partial" | "Paid" = "Partial";
-        if (newPendingAmount <= 0) {
-          newStatus = "Paid";
+      toast.success("Bulk payment processed successfully");
+      if (printWindow) {
+        const logs = await getPaymentLogs(user!.uid, { clientId: selectedClientId });
+        const receiptLogs = logIds
+          .map((logId) => logs.find((log) => log.id === logId))
+          .filter((log): log is PaymentLog => !!log);
+        if (receiptLogs.length > 0) {
+          const duplicate = await markReceiptPrinted(user!.uid, logIds);
+          printReceipt(printWindow, receiptLogs, { duplicate });
+        } else {
+          printWindow.close();
         }
-
-        // Update payment
-        await updatePayment(user!.uid, payment.id, {
-          amountPaid: newAmountPaid,
-          pendingAmount: Math.max(0, newPendingAmount),
-          status: newStatus,
-        });
-
-        // Create payment log with specified payment date and method
-        const paymentTimestamp = Timestamp.fromDate(new Date(paymentDate));
-        await createPaymentLog(user!.uid, {
-          paymentId: payment.id,
-          clientId: payment.clientId,
-          clientName: payment.clientName,
-          groupName: payment.groupName,
-          chitMonth: payment.chitMonth,
-          amountPaid: amountToPay,
-          paymentDate: paymentTimestamp,
-          paymentMethod: isOnline ? "Online" : "Cash",
-        });
-
-        remainingAmount -= amountToPay;
       }
-
-      toast.success("Bulk payment processed successfully");
       setBulkAmount("");
       loadPendingPayments();
-    } catch (error) {
-      toast.error("Failed to process bulk payment");
+    } catch (error: any) {
+      printWindow?.close();
+      console.error("Error processing bulk payment:", error);
+      toast.error(error?.message || "Failed to process bulk payment");
+      loadPendingPayments();
     } finally {
       setProcessing(false);
     }
@@ -184,13 +212,25 @@ export default function BulkPayPage() {
   const selectedClient = clients.find((c) => c.id === selectedClientId);
   const totalOutstanding = calculateTotalOutstanding();
 
+  if (!can("recordPayments")) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold text-gray-800">Bulk Payment</h1>
+        <div className="card">
+          <p className="text-gray-600">Your role cannot record payments.</p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       <div>
         <h1 className="text-3xl font-bold text-gray-800">Bulk Payment</h1>
         <p className="text-gray-600 mt-2">
           Select a client and enter a bulk payment amount. Payments will be automatically
-          distributed to clear old backlog first, then current month pending, sorted by due date.
+          distributed to clear old backlog first, then current month pending, sorted by due date,
+          and recorded together under a single receipt.
         </p>
       </div>
 
@@ -271,89 +311,143 @@ export default function BulkPayPage() {
                 </div>
               </div>
 
-              {pendingPayments.length > 0 && (
-                <>
-                  <div>
-                    <h3 className="text-lg font-semibold text-gray-800 mb-3">
-                      Pending Payments (Backlog First, Then Current Month)
-                    </h3>
-                    <div className="overflow-x-auto">
-                      <table className="w-full">
-                        <thead>
-                          <tr className="border-b border-gray-200">
-                            <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">
-                              Group
-                            </th>
-                            <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">
-                              Month
-                            </th>
-                            <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">
-                              Due Date
-                            </th>
-                            <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">
-                              Total Due
-                            </th>
-                            <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">
-                              Paid
-                            </th>
-                            <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">
-                              Pending
-                            </th>
-                            <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">
-                              Status
-                            </th>
+              {pendingPenalties.length > 0 && (
+                <div>
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-lg font-semibold text-gray-800">Late Payment Penalties</h3>
+                    <div className="flex items-center">
+                      <input
+                        type="checkbox"
+                        id="includePenalties"
+                        checked={includePenalties}
+                        onChange={(e) => setIncludePenalties(e.target.checked)}
+                        className="w-4 h-4 text-primary-600 rounded focus:ring-primary-500"
+                      />
+                      <label htmlFor="includePenalties" className="ml-2 text-sm text-gray-700">
+                        Collect penalties first
+                      </label>
+                    </div>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="border-b border-gray-200">
+                          <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">
+                            Group
+                          </th>
+                          <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">
+                            Month
+                          </th>
+                          <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">
+                            Charged
+                          </th>
+                          <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">
+                            Pending
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {pendingPenalties.map((charge) => (
+                          <tr key={charge.id} className="border-b border-gray-100">
+                            <td className="py-2 px-3 text-sm">{charge.groupName}</td>
+                            <td className="py-2 px-3 text-sm">{charge.chitMonth}</td>
+                            <td className="py-2 px-3 text-sm">{formatCurrency(charge.amount)}</td>
+                            <td className="py-2 px-3 text-sm font-semibold text-danger-600">
+                              {formatCurrency(charge.pendingAmount)}
+                            </td>
                           </tr>
-                        </thead>
-                        <tbody>
-                          {pendingPayments.map((payment) => {
-                            const overdue = isOverdue(payment.paymentDueDate);
-                            return (
-                              <tr
-                                key={payment.id}
-                                className={`border-b border-gray-100 ${
-                                  overdue ? "bg-red-50" : ""
-                                }`}
-                              >
-                                <td className="py-2 px-3 text-sm">{payment.groupName}</td>
-                                <td className="py-2 px-3 text-sm">{payment.chitMonth}</td>
-                                <td
-                                  className={`py-2 px-3 text-sm ${
-                                    overdue ? "text-danger-600 font-semibold" : ""
-                                  }`}
-                                >
-                                  {formatDate(payment.paymentDueDate)}
-                                </td>
-                                <td className="py-2 px-3 text-sm">
-                                  {formatCurrency(payment.amountExpected)}
-                                </td>
-                                <td className="py-2 px-3 text-sm">
-                                  {formatCurrency(payment.amountPaid)}
-                                </td>
-                                <td
-                                  className={`py-2 px-3 text-sm font-semibold ${
-                                    overdue ? "text-danger-600" : ""
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
+              {(pendingPayments.length > 0 || pendingPenalties.length > 0) && (
+                <>
+                  {pendingPayments.length > 0 && (
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-800 mb-3">
+                        Pending Payments (Backlog First, Then Current Month)
+                      </h3>
+                      <div className="overflow-x-auto">
+                        <table className="w-full">
+                          <thead>
+                            <tr className="border-b border-gray-200">
+                              <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">
+                                Group
+                              </th>
+                              <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">
+                                Month
+                              </th>
+                              <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">
+                                Due Date
+                              </th>
+                              <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">
+                                Total Due
+                              </th>
+                              <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">
+                                Paid
+                              </th>
+                              <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">
+                                Pending
+                              </th>
+                              <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">
+                                Status
+                              </th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {pendingPayments.map((payment) => {
+                              const overdue = isOverdue(payment.paymentDueDate);
+                              return (
+                                <tr
+                                  key={payment.id}
+                                  className={`border-b border-gray-100 ${
+                                    overdue ? "bg-red-50" : ""
                                   }`}
                                 >
-                                  {formatCurrency(payment.pendingAmount)}
-                                </td>
-                                <td className="py-2 px-3 text-sm">
-                                  <span
-                                    className={`px-2 py-1 rounded-full text-xs font-medium ${
-                                      payment.status === "Partial"
-                                        ? "bg-warning-100 text-warning-800"
-                                        : "bg-gray-100 text-gray-800"
+                                  <td className="py-2 px-3 text-sm">{payment.groupName}</td>
+                                  <td className="py-2 px-3 text-sm">{payment.chitMonth}</td>
+                                  <td
+                                    className={`py-2 px-3 text-sm ${
+                                      overdue ? "text-danger-600 font-semibold" : ""
                                     }`}
                                   >
-                                    {payment.status}
-                                  </span>
-                                </td>
-                              </tr>
-                            );
-                          })}
-                        </tbody>
-                      </table>
+                                    {formatDate(payment.paymentDueDate)}
+                                  </td>
+                                  <td className="py-2 px-3 text-sm">
+                                    {formatCurrency(payment.amountExpected)}
+                                  </td>
+                                  <td className="py-2 px-3 text-sm">
+                                    {formatCurrency(payment.amountPaid)}
+                                  </td>
+                                  <td
+                                    className={`py-2 px-3 text-sm font-semibold ${
+                                      overdue ? "text-danger-600" : ""
+                                    }`}
+                                  >
+                                    {formatCurrency(payment.pendingAmount)}
+                                  </td>
+                                  <td className="py-2 px-3 text-sm">
+                                    <span
+                                      className={`px-2 py-1 rounded-full text-xs font-medium ${
+                                        payment.status === "Partial"
+                                          ? "bg-warning-100 text-warning-800"
+                                          : "bg-gray-100 text-gray-800"
+                                      }`}
+                                    >
+                                      {payment.status}
+                                    </span>
+                                  </td>
+                                </tr>
+                              );
+                            })}
+                          </tbody>
+                        </table>
+                      </div>
                     </div>
-                  </div>
+                  )}
 
                   <div className="border-t border-gray-200 pt-4">
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -380,6 +474,18 @@ export default function BulkPayPage() {
                             Online Payment
                           </label>
                         </div>
+                        <div className="flex items-center mt-2">
+                          <input
+                            type="checkbox"
+                            id="printReceiptBulk"
+                            checked={printReceiptAfter}
+                            onChange={(e) => setPrintReceiptAfter(e.target.checked)}
+                            className="w-4 h-4 text-primary-600 rounded focus:ring-primary-500"
+                          />
+                          <label htmlFor="printReceiptBulk" className="ml-2 text-sm text-gray-700">
+                            Print receipt
+                          </label>
+                        </div>
                       </div>
                       <div className="flex flex-col">
                         <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -418,7 +524,7 @@ export default function BulkPayPage() {
                 </>
               )}
 
-              {pendingPayments.length === 0 && (
+              {pendingPayments.length === 0 && pendingPenalties.length === 0 && (
                 <div className="text-center py-8">
                   <p className="text-gray-500">No pending payments for this client.</p>
                 </div>
@@ -9,17 +9,23 @@ import {
   deleteClient,
   getPayments,
   getGroupMembersByClientId,
+  getCollectors,
 } from "@/lib/firestore";
-import type { Client } from "@/types";
+import type { Client, StaffMember } from "@/types";
 import toast from "react-hot-toast";
+import { format } from "date-fns";
 import { formatDate } from "@/lib/utils";
+import { exportRows, type ExportFormat } from "@/lib/export";
+import ExportButtons from "@/components/common/ExportButtons";
 import Link from "next/link";
 
 export default function ClientsPage() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [clients, setClients] = useState<Client[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
+  const [collectors, setCollectors] = useState<StaffMember[]>([]);
+  const [collectorFilter, setCollectorFilter] = useState("all");
   const [sortField, setSortField] = useState<"name" | "phone">("name");
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("asc");
   const [currentPage, setCurrentPage] = useState(1);
@@ -36,6 +42,7 @@ export default function ClientsPage() {
     phone: "",
     email: "",
     notes: "",
+    collectorId: "",
   });
 
   useEffect(() => {
@@ -53,6 +60,12 @@ export default function ClientsPage() {
     } finally {
       setLoading(false);
     }
+    try {
+      setCollectors(await getCollectors(user!.uid));
+    } catch (error) {
+      // Clients still load without the collector list
+      console.error("Error loading collectors:", error);
+    }
   };
 
   const handleOpenModal = (client?: Client) => {
@@ -63,10 +76,11 @@ export default function ClientsPage() {
         phone: client.phone,
         email: client.email,
         notes: client.notes,
+        collectorId: client.collectorId || "",
       });
     } else {
       setEditingClient(null);
-      setFormData({ name: "", phone: "", email: "", notes: "" });
+      setFormData({ name: "", phone: "", email: "", notes: "", collectorId: "" });
     }
     setShowModal(true);
   };
@@ -74,7 +88,7 @@ export default function ClientsPage() {
   const handleCloseModal = () => {
     setShowModal(false);
     setEditingClient(null);
-    setFormData({ name: "", phone: "", email: "", notes: "" });
+    setFormData({ name: "", phone: "", email: "", notes: "", collectorId: "" });
   };
 
   const handleViewClient = (client: Client) => {
@@ -89,12 +103,18 @@ export default function ClientsPage() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const collector = collectors.find((c) => c.id === formData.collectorId);
+    const clientData = {
+      ...formData,
+      collectorId: collector?.id || null,
+      collectorName: collector?.displayName || "",
+    };
     try {
       if (editingClient) {
-        await updateClient(user!.uid, editingClient.id, formData);
+        await updateClient(user!.uid, editingClient.id, clientData);
         toast.success("Client updated successfully");
       } else {
-        await createClient(user!.uid, formData);
+        await createClient(user!.uid, clientData);
         toast.success("Client created successfully");
       }
       handleCloseModal();
@@ -168,9 +188,11 @@ export default function ClientsPage() {
   const filteredAndSortedClients = useMemo(() => {
     let filtered = clients.filter(
       (client) =>
-        client.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        client.phone.includes(searchTerm) ||
-        client.email.toLowerCase().includes(searchTerm.toLowerCase())
+        (client.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+          client.phone.includes(searchTerm) ||
+          client.email.toLowerCase().includes(searchTerm.toLowerCase())) &&
+        (collectorFilter === "all" ||
+          (collectorFilter === "unassigned" ? !client.collectorId : client.collectorId === collectorFilter))
     );
 
     // Sort clients
@@ -194,7 +216,7 @@ export default function ClientsPage() {
     });
 
     return filtered;
-  }, [clients, searchTerm, sortField, sortDirection]);
+  }, [clients, searchTerm, collectorFilter, sortField, sortDirection]);
 
   // Paginate sorted clients
   const totalPages = Math.ceil(filteredAndSortedClients.length / itemsPerPage);
@@ -206,7 +228,33 @@ export default function ClientsPage() {
   // Reset to page 1 when filters or sort change
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchTerm, sortField, sortDirection]);
+  }, [searchTerm, collectorFilter, sortField, sortDirection]);
+
+  const handleExport = (exportFormat: ExportFormat) => {
+    exportRows(exportFormat, {
+      filename: `clients-${format(new Date(), "yyyy-MM-dd")}`,
+      title: "Clients",
+      filters: {
+        ...(searchTerm && { Search: searchTerm }),
+        ...(collectorFilter !== "all" && {
+          Collector:
+            collectorFilter === "unassigned"
+              ? "Unassigned"
+              : collectors.find((c) => c.id === collectorFilter)?.displayName || collectorFilter,
+        }),
+        "Sorted by": `${sortField === "name" ? "Name" : "Phone"} (${sortDirection})`,
+      },
+      columns: [
+        { header: "Name", value: (client) => client.name },
+        { header: "Phone", value: (client) => client.phone },
+        { header: "Email", value: (client) => client.email },
+        { header: "Collector", value: (client) => client.collectorName },
+        { header: "Notes", value: (client) => client.notes },
+        { header: "Created", value: (client) => client.createdAt },
+      ],
+      rows: filteredAndSortedClients,
+    });
+  };
 
   const handleSort = (field: "name" | "phone") => {
     if (sortField === field) {
@@ -243,13 +291,18 @@ export default function ClientsPage() {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold text-gray-800">Clients</h1>
-        <button onClick={() => handleOpenModal()} className="btn-primary">
-          + Add Client
-        </button>
+        <div className="flex gap-2">
+          <ExportButtons onExport={handleExport} disabled={filteredAndSortedClients.length === 0} />
+          {can("manageMasterData") && (
+            <button onClick={() => handleOpenModal()} className="btn-primary">
+              + Add Client
+            </button>
+          )}
+        </div>
       </div>
 
       <div className="card">
-        <div className="mb-4">
+        <div className="flex gap-4 mb-4">
           <input
             type="text"
             placeholder="Search clients..."
@@ -257,6 +310,19 @@ export default function ClientsPage() {
             onChange={(e) => setSearchTerm(e.target.value)}
             className="input-field w-auto max-w-xs"
           />
+          <select
+            value={collectorFilter}
+            onChange={(e) => setCollectorFilter(e.target.value)}
+            className="input-field w-auto max-w-xs"
+          >
+            <option value="all">All Collectors</option>
+            <option value="unassigned">Unassigned</option>
+            {collectors.map((collector) => (
+              <option key={collector.id} value={collector.id}>
+                {collector.displayName}
+              </option>
+            ))}
+          </select>
         </div>
 
         {filteredAndSortedClients.length === 0 ? (
@@ -275,6 +341,7 @@ export default function ClientsPage() {
                     <th className="text-left py-3 px-4 font-semibold text-gray-700">
                       <SortButton field="phone">Phone</SortButton>
                     </th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Collector</th>
                     <th className="text-left py-3 px-4 font-semibold text-gray-700">Actions</th>
                   </tr>
                 </thead>
@@ -290,20 +357,25 @@ export default function ClientsPage() {
                       </button>
                     </td>
                     <td className="py-3 px-4">{client.phone}</td>
+                    <td className="py-3 px-4 text-sm text-gray-600">{client.collectorName || "-"}</td>
                     <td className="py-3 px-4">
                       <div className="flex gap-2">
-                        <button
-                          onClick={() => handleOpenModal(client)}
-                          className="text-primary-600 hover:text-primary-700 font-medium"
-                        >
-                          Edit
-                        </button>
-                        <button
-                          onClick={() => handleDeleteClick(client)}
-                          className="text-danger-600 hover:text-danger-700 font-medium"
-                        >
-                          Delete
-                        </button>
+                        {can("manageMasterData") && (
+                          <button
+                            onClick={() => handleOpenModal(client)}
+                            className="text-primary-600 hover:text-primary-700 font-medium"
+                          >
+                            Edit
+                          </button>
+                        )}
+                        {can("deleteRecords") && (
+                          <button
+                            onClick={() => handleDeleteClick(client)}
+                            className="text-danger-600 hover:text-danger-700 font-medium"
+                          >
+                            Delete
+                          </button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -394,6 +466,25 @@ export default function ClientsPage() {
                   className="input-field"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Collector</label>
+                <select
+                  value={formData.collectorId}
+                  onChange={(e) => setFormData({ ...formData, collectorId: e.target.value })}
+                  className="input-field"
+                >
+                  <option value="">Not assigned</option>
+                  {collectors.map((collector) => (
+                    <option key={collector.id} value={collector.id}>
+                      {collector.displayName}
+                    </option>
+                  ))}
+                  {/* Keep a collector who has since left the branch */}
+                  {formData.collectorId && !collectors.some((c) => c.id === formData.collectorId) && (
+                    <option value={formData.collectorId}>{editingClient?.collectorName || formData.collectorId}</option>
+                  )}
+                </select>
+              </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
                 <textarea
@@ -438,6 +529,10 @@ export default function ClientsPage() {
                 <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
                 <p className="text-gray-900">{viewingClient.email || "-"}</p>
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Collector</label>
+                <p className="text-gray-900">{viewingClient.collectorName || "-"}</p>
+              </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
                 <p className="text-gray-900 whitespace-pre-wrap">{viewingClient.notes || "-"}</p>
@@ -447,15 +542,17 @@ export default function ClientsPage() {
                 <p className="text-gray-900 text-sm">{formatDate(viewingClient.createdAt)}</p>
               </div>
               <div className="flex gap-3 pt-4">
-                <button
-                  onClick={() => {
-                    handleCloseViewModal();
-                    handleOpenModal(viewingClient);
-                  }}
-                  className="btn-primary flex-1"
-                >
-                  Edit
-                </button>
+                {can("manageMasterData") && (
+                  <button
+                    onClick={() => {
+                      handleCloseViewModal();
+                      handleOpenModal(viewingClient);
+                    }}
+                    className="btn-primary flex-1"
+                  >
+                    Edit
+                  </button>
+                )}
                 <button
                   type="button"
                   onClick={handleCloseViewModal}
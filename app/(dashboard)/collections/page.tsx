@@ -0,0 +1,647 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  getClients,
+  getPayments,
+  getPaymentLogs,
+  recordPayment,
+  markReceiptPrinted,
+  getCollectors,
+  getCollectionVisits,
+  recordCollectionVisit,
+  getCollectorRoute,
+  saveCollectorRoute,
+} from "@/lib/firestore";
+import { printReceipt } from "@/lib/receipt";
+import { formatCurrency, formatDate, getPaymentLogReversals } from "@/lib/utils";
+import type { Client, CollectionVisit, Payment, PaymentLog, StaffMember } from "@/types";
+import { Timestamp } from "firebase/firestore";
+import { endOfDay, startOfDay } from "date-fns";
+import toast from "react-hot-toast";
+
+// One stop on the round: an assigned client and their dues up to today
+interface RouteStop {
+  client: Client;
+  payments: Payment[];
+  pendingAmount: number;
+  collectedToday: number;
+  visitToday: CollectionVisit | null;
+  lastPromise: CollectionVisit | null;
+}
+
+export default function CollectionsPage() {
+  const { user, can } = useAuth();
+  const [collectors, setCollectors] = useState<StaffMember[]>([]);
+  const [collectorId, setCollectorId] = useState(user?.uid || "");
+  const [clients, setClients] = useState<Client[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [todayLogs, setTodayLogs] = useState<PaymentLog[]>([]);
+  const [visits, setVisits] = useState<CollectionVisit[]>([]);
+  const [routeOrder, setRouteOrder] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Route editing
+  const [editingRoute, setEditingRoute] = useState(false);
+  const [draftOrder, setDraftOrder] = useState<string[]>([]);
+  const [savingRoute, setSavingRoute] = useState(false);
+
+  // Payment taken at a stop
+  const [selectedPayment, setSelectedPayment] = useState<Payment | null>(null);
+  const [paymentData, setPaymentData] = useState({ amount: "", isOnline: false, printReceipt: true });
+  const [savingPayment, setSavingPayment] = useState(false);
+
+  // Visit without a payment
+  const [visitClient, setVisitClient] = useState<Client | null>(null);
+  const [visitData, setVisitData] = useState<{
+    outcome: CollectionVisit["outcome"];
+    promisedDate: string;
+    notes: string;
+  }>({ outcome: "Not available", promisedDate: "", notes: "" });
+  const [savingVisit, setSavingVisit] = useState(false);
+
+  // Managers can open any collector's round; collectors only their own
+  const canViewOthers = can("manageMasterData");
+  const isOwnRound = collectorId === user?.uid;
+
+  useEffect(() => {
+    if (user && !collectorId) {
+      setCollectorId(user.uid);
+    } else if (user && can("recordPayments")) {
+      loadData();
+    }
+  }, [user, collectorId]);
+
+  useEffect(() => {
+    if (user && canViewOthers) {
+      getCollectors(user.uid)
+        .then(setCollectors)
+        .catch((error) => console.error("Error loading collectors:", error));
+    }
+  }, [user]);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [clientsData, paymentsData, logsData, visitsData, route] = await Promise.all([
+        getClients(user!.uid),
+        getPayments(user!.uid),
+        getPaymentLogs(user!.uid),
+        getCollectionVisits(user!.uid, { collectorId }),
+        getCollectorRoute(user!.uid, collectorId),
+      ]);
+      const assigned = clientsData.filter((client) => client.collectorId === collectorId);
+      const assignedIds = new Set(assigned.map((client) => client.id));
+      const todayStart = startOfDay(new Date());
+      const todayEnd = endOfDay(new Date());
+      const reversals = getPaymentLogReversals(logsData);
+
+      setClients(assigned);
+      setPayments(
+        paymentsData.filter(
+          (payment) =>
+            assignedIds.has(payment.clientId) &&
+            payment.status !== "Paid" &&
+            payment.paymentDueDate.toDate() <= todayEnd
+        )
+      );
+      // Receipts the collector took today that still stand
+      setTodayLogs(
+        logsData.filter((log) => {
+          const paymentDate = log.paymentDate.toDate();
+          return (
+            log.collectedBy === collectorId &&
+            assignedIds.has(log.clientId) &&
+            !log.reversalOf &&
+            !reversals.has(log.id) &&
+            paymentDate >= todayStart &&
+            paymentDate <= todayEnd
+          );
+        })
+      );
+      setVisits(visitsData);
+      setRouteOrder(route?.clientIds || []);
+      setEditingRoute(false);
+    } catch (error: any) {
+      console.error("Error loading collections:", error);
+      toast.error(error?.message || "Failed to load collections");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Assigned clients in route order; clients not on the saved route go last by name
+  const orderClients = (order: string[]): Client[] => {
+    const position = new Map(order.map((id, index) => [id, index]));
+    return [...clients].sort((a, b) => {
+      const aPos = position.get(a.id) ?? Number.MAX_SAFE_INTEGER;
+      const bPos = position.get(b.id) ?? Number.MAX_SAFE_INTEGER;
+      return aPos - bPos || a.name.localeCompare(b.name);
+    });
+  };
+
+  const stops = useMemo((): RouteStop[] => {
+    const todayStart = startOfDay(new Date());
+    return orderClients(routeOrder)
+      .map((client) => {
+        const clientPayments = payments
+          .filter((payment) => payment.clientId === client.id)
+          .sort((a, b) => a.paymentDueDate.toMillis() - b.paymentDueDate.toMillis());
+        const clientVisits = visits.filter((visit) => visit.clientId === client.id);
+        return {
+          client,
+          payments: clientPayments,
+          pendingAmount: clientPayments.reduce((sum, payment) => sum + payment.pendingAmount, 0),
+          collectedToday: todayLogs
+            .filter((log) => log.clientId === client.id)
+            .reduce((sum, log) => sum + log.amountPaid, 0),
+          visitToday: clientVisits.find((visit) => visit.visitDate.toDate() >= todayStart) || null,
+          lastPromise: clientVisits.find((visit) => visit.outcome === "Promised to pay") || null,
+        };
+      })
+      .filter((stop) => stop.payments.length > 0 || stop.collectedToday > 0);
+  }, [clients, payments, todayLogs, visits, routeOrder]);
+
+  const totals = useMemo(
+    () => ({
+      stops: stops.length,
+      pending: stops.reduce((sum, stop) => sum + stop.pendingAmount, 0),
+      collected: stops.reduce((sum, stop) => sum + stop.collectedToday, 0),
+      visited: stops.filter((stop) => stop.collectedToday > 0 || stop.visitToday).length,
+    }),
+    [stops]
+  );
+
+  const handleStartRouteEdit = () => {
+    setDraftOrder(orderClients(routeOrder).map((client) => client.id));
+    setEditingRoute(true);
+  };
+
+  const handleMoveStop = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= draftOrder.length) return;
+    const next = [...draftOrder];
+    [next[index], next[target]] = [next[target], next[index]];
+    setDraftOrder(next);
+  };
+
+  const handleSaveRoute = async () => {
+    setSavingRoute(true);
+    try {
+      await saveCollectorRoute(user!.uid, collectorId, draftOrder);
+      setRouteOrder(draftOrder);
+      setEditingRoute(false);
+      toast.success("Route saved");
+    } catch (error: any) {
+      console.error("Error saving route:", error);
+      toast.error(error?.message || "Failed to save route");
+    } finally {
+      setSavingRoute(false);
+    }
+  };
+
+  // Name printed as the collector on receipts
+  const collectorName = user?.displayName || user?.email || "";
+
+  const handleOpenPayment = (payment: Payment) => {
+    setSelectedPayment(payment);
+    setPaymentData({ amount: payment.pendingAmount.toString(), isOnline: false, printReceipt: true });
+  };
+
+  const handleMakePayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedPayment) return;
+
+    const amountPaid = parseFloat(paymentData.amount);
+    if (!(amountPaid > 0) || amountPaid > selectedPayment.pendingAmount) {
+      toast.error("Payment amount must be more than zero and at most the pending amount");
+      return;
+    }
+
+    // Open the window before awaiting so the browser does not block it
+    const printWindow = paymentData.printReceipt ? window.open("", "_blank") : null;
+    setSavingPayment(true);
+    try {
+      const logId = await recordPayment(user!.uid, selectedPayment.id, {
+        amount: amountPaid,
+        paymentDate: Timestamp.now(),
+        paymentMethod: paymentData.isOnline ? "Online" : "Cash",
+        collectorName,
+      });
+      toast.success("Payment recorded successfully");
+      if (printWindow) {
+        const logs = await getPaymentLogs(user!.uid, { paymentId: selectedPayment.id });
+        const log = logs.find((l) => l.id === logId);
+        if (log) {
+          const duplicate = await markReceiptPrinted(user!.uid, [log.id]);
+          printReceipt(printWindow, [log], { duplicate });
+        } else {
+          printWindow.close();
+        }
+      }
+      setSelectedPayment(null);
+      loadData();
+    } catch (error: any) {
+      printWindow?.close();
+      console.error("Error recording payment:", error);
+      toast.error(error?.message || "Failed to record payment");
+    } finally {
+      setSavingPayment(false);
+    }
+  };
+
+  const handleOpenVisit = (client: Client, outcome: CollectionVisit["outcome"]) => {
+    setVisitClient(client);
+    setVisitData({ outcome, promisedDate: "", notes: "" });
+  };
+
+  const handleRecordVisit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!visitClient) return;
+
+    setSavingVisit(true);
+    try {
+      await recordCollectionVisit(user!.uid, {
+        clientId: visitClient.id,
+        clientName: visitClient.name,
+        collectorName,
+        visitDate: Timestamp.now(),
+        outcome: visitData.outcome,
+        promisedDate: visitData.promisedDate ? Timestamp.fromDate(new Date(visitData.promisedDate)) : null,
+        notes: visitData.notes,
+      });
+      toast.success("Visit recorded");
+      setVisitClient(null);
+      loadData();
+    } catch (error: any) {
+      console.error("Error recording visit:", error);
+      toast.error(error?.message || "Failed to record visit");
+    } finally {
+      setSavingVisit(false);
+    }
+  };
+
+  const getStopStatus = (stop: RouteStop): { label: string; className: string } => {
+    if (stop.collectedToday > 0) {
+      return { label: "Paid today", className: "bg-green-100 text-green-700" };
+    }
+    if (stop.visitToday?.outcome === "Promised to pay" && stop.visitToday.promisedDate) {
+      return {
+        label: `Promised ${formatDate(stop.visitToday.promisedDate)}`,
+        className: "bg-blue-100 text-blue-700",
+      };
+    }
+    if (stop.visitToday) {
+      return { label: "Not available", className: "bg-yellow-100 text-yellow-700" };
+    }
+    return { label: "Pending", className: "bg-gray-100 text-gray-700" };
+  };
+
+  if (!can("recordPayments")) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold text-gray-800">My Collections</h1>
+        <div className="card">
+          <p className="text-gray-600">Your role cannot record payments.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  const clientsById = new Map(clients.map((client) => [client.id, client]));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800">
+            {isOwnRound ? "My Collections Today" : "Collections Today"}
+          </h1>
+          <p className="text-gray-600 mt-1">
+            Assigned clients with dues up to {formatDate(new Date())}, in route order
+          </p>
+        </div>
+        <div className="flex gap-3">
+          {canViewOthers && (
+            <select
+              value={collectorId}
+              onChange={(e) => setCollectorId(e.target.value)}
+              className="input-field w-auto"
+            >
+              <option value={user!.uid}>My round</option>
+              {collectors
+                .filter((collector) => collector.id !== user!.uid)
+                .map((collector) => (
+                  <option key={collector.id} value={collector.id}>
+                    {collector.displayName}
+                  </option>
+                ))}
+            </select>
+          )}
+          {!editingRoute && clients.length > 0 && (
+            <button onClick={handleStartRouteEdit} className="btn-secondary">
+              Edit Route
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="card">
+          <p className="text-sm text-gray-600">Clients to Visit</p>
+          <p className="text-2xl font-bold text-gray-800">{totals.stops}</p>
+        </div>
+        <div className="card">
+          <p className="text-sm text-gray-600">Visited</p>
+          <p className="text-2xl font-bold text-gray-800">{totals.visited}</p>
+        </div>
+        <div className="card">
+          <p className="text-sm text-gray-600">Collected Today</p>
+          <p className="text-2xl font-bold text-green-600">{formatCurrency(totals.collected)}</p>
+        </div>
+        <div className="card">
+          <p className="text-sm text-gray-600">Still Due</p>
+          <p className="text-2xl font-bold text-red-600">{formatCurrency(totals.pending)}</p>
+        </div>
+      </div>
+
+      {editingRoute ? (
+        <div className="card">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-bold text-gray-800">Route Order</h2>
+            <div className="flex gap-3">
+              <button
+                onClick={handleSaveRoute}
+                disabled={savingRoute}
+                className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {savingRoute ? "Saving..." : "Save Route"}
+              </button>
+              <button onClick={() => setEditingRoute(false)} className="btn-secondary">
+                Cancel
+              </button>
+            </div>
+          </div>
+          <ol className="space-y-2">
+            {draftOrder.map((clientId, index) => {
+              const client = clientsById.get(clientId);
+              if (!client) return null;
+              return (
+                <li
+                  key={clientId}
+                  className="flex items-center justify-between p-3 border border-gray-200 rounded-lg"
+                >
+                  <div>
+                    <span className="text-gray-500 mr-3">{index + 1}.</span>
+                    <span className="font-medium">{client.name}</span>
+                    <span className="text-sm text-gray-500 ml-2">{client.phone}</span>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleMoveStop(index, -1)}
+                      disabled={index === 0}
+                      className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-30"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => handleMoveStop(index, 1)}
+                      disabled={index === draftOrder.length - 1}
+                      className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-30"
+                    >
+                      ↓
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      ) : stops.length === 0 ? (
+        <div className="card">
+          <p className="text-gray-600 text-center py-8">
+            {clients.length === 0
+              ? "No clients are assigned to this collector. Assign them on the Clients page."
+              : "No dues to collect today."}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {stops.map((stop, index) => {
+            const status = getStopStatus(stop);
+            return (
+              <div key={stop.client.id} className="card">
+                <div className="flex items-start justify-between mb-3">
+                  <div>
+                    <h3 className="text-lg font-bold text-gray-800">
+                      <span className="text-gray-500 mr-2">{index + 1}.</span>
+                      {stop.client.name}
+                    </h3>
+                    <p className="text-sm text-gray-600">{stop.client.phone}</p>
+                    {stop.lastPromise?.promisedDate && stop.lastPromise.id !== stop.visitToday?.id && (
+                      <p className="text-sm text-blue-700 mt-1">
+                        Promised on {formatDate(stop.lastPromise.visitDate)} to pay by{" "}
+                        {formatDate(stop.lastPromise.promisedDate)}
+                      </p>
+                    )}
+                    {stop.visitToday?.notes && (
+                      <p className="text-sm text-gray-500 mt-1">Note: {stop.visitToday.notes}</p>
+                    )}
+                  </div>
+                  <div className="text-right">
+                    <span className={`px-2 py-1 rounded-full text-xs font-semibold ${status.className}`}>
+                      {status.label}
+                    </span>
+                    {stop.collectedToday > 0 && (
+                      <p className="text-sm text-green-700 mt-2">{formatCurrency(stop.collectedToday)} collected</p>
+                    )}
+                  </div>
+                </div>
+
+                {stop.payments.length > 0 && (
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="border-b border-gray-200">
+                          <th className="text-left py-2 px-4 font-semibold text-gray-700">Group</th>
+                          <th className="text-left py-2 px-4 font-semibold text-gray-700">Month</th>
+                          <th className="text-left py-2 px-4 font-semibold text-gray-700">Due Date</th>
+                          <th className="text-right py-2 px-4 font-semibold text-gray-700">Pending</th>
+                          <th className="text-left py-2 px-4 font-semibold text-gray-700"></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {stop.payments.map((payment) => (
+                          <tr key={payment.id} className="border-b border-gray-100 hover:bg-gray-50">
+                            <td className="py-2 px-4">{payment.groupName}</td>
+                            <td className="py-2 px-4">{payment.chitMonth}</td>
+                            <td className="py-2 px-4">
+                              {formatDate(payment.paymentDueDate)}
+                              {payment.paymentDueDate.toDate() < startOfDay(new Date()) && (
+                                <span className="ml-2 px-2 py-1 rounded-full text-xs font-semibold bg-red-100 text-red-700">
+                                  Overdue
+                                </span>
+                              )}
+                            </td>
+                            <td className="py-2 px-4 text-right font-semibold">
+                              {formatCurrency(payment.pendingAmount)}
+                            </td>
+                            <td className="py-2 px-4 text-right">
+                              <button
+                                onClick={() => handleOpenPayment(payment)}
+                                className="text-primary-600 hover:text-primary-700 font-medium"
+                              >
+                                Collect
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {isOwnRound && stop.payments.length > 0 && stop.collectedToday === 0 && (
+                  <div className="flex gap-3 mt-3">
+                    <button onClick={() => handleOpenVisit(stop.client, "Not available")} className="btn-secondary">
+                      Not Available
+                    </button>
+                    <button
+                      onClick={() => handleOpenVisit(stop.client, "Promised to pay")}
+                      className="btn-secondary"
+                    >
+                      Promised to Pay
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Collect Payment Modal */}
+      {selectedPayment && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+            <h2 className="text-2xl font-bold text-gray-800 mb-4">Collect Payment</h2>
+            <div className="mb-4 p-4 bg-gray-50 rounded-lg">
+              <p className="text-sm text-gray-600 mb-1">Client: {selectedPayment.clientName}</p>
+              <p className="text-sm text-gray-600 mb-1">Group: {selectedPayment.groupName}</p>
+              <p className="text-sm text-gray-600 mb-1">Month: {selectedPayment.chitMonth}</p>
+              <p className="text-sm font-semibold text-gray-800 mt-2">
+                Pending Amount: {formatCurrency(selectedPayment.pendingAmount)}
+              </p>
+            </div>
+            <form onSubmit={handleMakePayment} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Payment Amount *</label>
+                <input
+                  type="number"
+                  required
+                  min="0.01"
+                  max={selectedPayment.pendingAmount}
+                  step="0.01"
+                  value={paymentData.amount}
+                  onChange={(e) => setPaymentData({ ...paymentData, amount: e.target.value })}
+                  className="input-field"
+                />
+              </div>
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="isOnline"
+                  checked={paymentData.isOnline}
+                  onChange={(e) => setPaymentData({ ...paymentData, isOnline: e.target.checked })}
+                  className="w-4 h-4 text-primary-600 rounded focus:ring-primary-500"
+                />
+                <label htmlFor="isOnline" className="ml-2 text-sm text-gray-700">
+                  Online Payment
+                </label>
+              </div>
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="printReceipt"
+                  checked={paymentData.printReceipt}
+                  onChange={(e) => setPaymentData({ ...paymentData, printReceipt: e.target.checked })}
+                  className="w-4 h-4 text-primary-600 rounded focus:ring-primary-500"
+                />
+                <label htmlFor="printReceipt" className="ml-2 text-sm text-gray-700">
+                  Print receipt
+                </label>
+              </div>
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="submit"
+                  disabled={savingPayment}
+                  className="btn-primary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Record Payment
+                </button>
+                <button type="button" onClick={() => setSelectedPayment(null)} className="btn-secondary flex-1">
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Visit Outcome Modal */}
+      {visitClient && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+            <h2 className="text-2xl font-bold text-gray-800 mb-4">{visitData.outcome}</h2>
+            <p className="text-sm text-gray-600 mb-4">Client: {visitClient.name}</p>
+            <form onSubmit={handleRecordVisit} className="space-y-4">
+              {visitData.outcome === "Promised to pay" && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Promised Date *</label>
+                  <input
+                    type="date"
+                    required
+                    min={new Date().toISOString().split("T")[0]}
+                    value={visitData.promisedDate}
+                    onChange={(e) => setVisitData({ ...visitData, promisedDate: e.target.value })}
+                    className="input-field"
+                  />
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+                <textarea
+                  value={visitData.notes}
+                  onChange={(e) => setVisitData({ ...visitData, notes: e.target.value })}
+                  className="input-field"
+                  rows={3}
+                />
+              </div>
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="submit"
+                  disabled={savingVisit}
+                  className="btn-primary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Save
+                </button>
+                <button type="button" onClick={() => setVisitClient(null)} className="btn-secondary flex-1">
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,499 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { getDayReceipts, getDayClosings, closeDay } from "@/lib/firestore";
+import {
+  formatCurrency,
+  formatDate,
+  formatDateTime,
+  getDayKey,
+  getCountedCash,
+  summarizeDayReceipts,
+  CASH_DENOMINATIONS,
+} from "@/lib/utils";
+import { exportRows, type ExportFormat } from "@/lib/export";
+import ExportButtons from "@/components/common/ExportButtons";
+import type { DayClosing, PaymentLog } from "@/types";
+import toast from "react-hot-toast";
+
+// Receipts of one collector on the day; collectorId is null for receipts no
+// one collected (payout adjustments, imports), which only the office closes
+interface CollectorDay {
+  collectorId: string | null;
+  collectorName: string;
+  totals: ReturnType<typeof summarizeDayReceipts>;
+  closing: DayClosing | null;
+}
+
+const emptyCount = () => Object.fromEntries(CASH_DENOMINATIONS.map((value) => [value, ""]));
+
+export default function DayEndPage() {
+  const { user, can } = useAuth();
+  const [date, setDate] = useState(getDayKey(new Date()));
+  const [receipts, setReceipts] = useState<PaymentLog[]>([]);
+  const [closings, setClosings] = useState<DayClosing[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Closing being counted; collectorId null closes the office
+  const [closingTarget, setClosingTarget] = useState<{
+    collectorId: string | null;
+    collectorName: string;
+    cashTotal: number;
+  } | null>(null);
+  const [counts, setCounts] = useState<Record<string, string>>(emptyCount());
+  const [handedOverTo, setHandedOverTo] = useState("");
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [viewingClosing, setViewingClosing] = useState<DayClosing | null>(null);
+
+  const closedByName = user?.displayName || user?.email || "";
+
+  useEffect(() => {
+    if (user && can("closeDay")) {
+      loadData();
+    }
+  }, [user, date]);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [receiptsData, closingsData] = await Promise.all([
+        getDayReceipts(user!.uid, date),
+        getDayClosings(user!.uid, { date }),
+      ]);
+      setReceipts(receiptsData);
+      setClosings(closingsData);
+    } catch (error: any) {
+      console.error("Error loading day-end:", error);
+      toast.error(error?.message || "Failed to load the day's receipts");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const officeClosing = closings.find((closing) => closing.scope === "office") || null;
+  const officeTotals = useMemo(() => summarizeDayReceipts(receipts), [receipts]);
+
+  const collectorDays = useMemo((): CollectorDay[] => {
+    const byCollector = new Map<string, { name: string; logs: PaymentLog[] }>();
+    receipts.forEach((log) => {
+      const key = log.collectedBy || "";
+      const entry = byCollector.get(key) || { name: log.collectorName || "", logs: [] };
+      entry.logs.push(log);
+      byCollector.set(key, entry);
+    });
+    // A collector whose receipts were all reversed elsewhere still shows their closing
+    closings
+      .filter((closing) => closing.scope === "collector" && !byCollector.has(closing.collectorId!))
+      .forEach((closing) => byCollector.set(closing.collectorId!, { name: closing.collectorName, logs: [] }));
+
+    return Array.from(byCollector, ([key, entry]): CollectorDay => ({
+      collectorId: key || null,
+      collectorName: key ? entry.name || "Unknown" : "Not collected by staff",
+      totals: summarizeDayReceipts(entry.logs),
+      closing: closings.find((closing) => closing.scope === "collector" && closing.collectorId === key) || null,
+    })).sort((a, b) =>
+      a.collectorId === null ? 1 : b.collectorId === null ? -1 : a.collectorName.localeCompare(b.collectorName)
+    );
+  }, [receipts, closings]);
+
+  const openCollectors = collectorDays.filter(
+    (day) => day.collectorId !== null && !day.closing && day.totals.cashTotal !== 0
+  );
+
+  const countedCash = getCountedCash(
+    Object.fromEntries(Object.entries(counts).map(([value, count]) => [value, parseInt(count) || 0]))
+  );
+  const variance = closingTarget ? countedCash - closingTarget.cashTotal : 0;
+
+  const handleOpenClose = (target: { collectorId: string | null; collectorName: string; cashTotal: number }) => {
+    setClosingTarget(target);
+    setCounts(emptyCount());
+    setHandedOverTo(closedByName);
+    setNotes("");
+  };
+
+  const handleClose = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!closingTarget) return;
+
+    if (
+      variance !== 0 &&
+      !confirm(
+        `The counted cash is ${variance < 0 ? "short" : "over"} by ${formatCurrency(Math.abs(variance))}. Close the day anyway?`
+      )
+    ) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await closeDay(user!.uid, {
+        date,
+        collectorId: closingTarget.collectorId,
+        collectorName: closingTarget.collectorName,
+        denominations: Object.fromEntries(
+          Object.entries(counts).map(([value, count]) => [value, count === "" ? 0 : Number(count)])
+        ),
+        handedOverTo,
+        notes,
+        closedByName,
+      });
+      toast.success(
+        closingTarget.collectorId === null
+          ? "Office day closed"
+          : `Day closed for ${closingTarget.collectorName}`
+      );
+      setClosingTarget(null);
+      loadData();
+    } catch (error: any) {
+      console.error("Error closing day:", error);
+      toast.error(error?.message || "Failed to close the day");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleExport = (exportFormat: ExportFormat) => {
+    exportRows(exportFormat, {
+      filename: `day-end-${date}`,
+      title: `Day-End Closing ${formatDate(date)}`,
+      filters: { Office: officeClosing ? `Closed by ${officeClosing.closedByName}` : "Open" },
+      columns: [
+        { header: "Collector", value: (day) => day.collectorName },
+        { header: "Receipts", value: (day) => day.totals.receiptCount, type: "number" },
+        { header: "Cash", value: (day) => day.totals.cashTotal, type: "currency" },
+        { header: "Online", value: (day) => day.totals.onlineTotal, type: "currency" },
+        { header: "Adjusted", value: (day) => day.totals.adjustedTotal, type: "currency" },
+        { header: "Counted Cash", value: (day) => day.closing?.countedCash, type: "currency" },
+        { header: "Variance", value: (day) => day.closing?.variance, type: "currency" },
+        { header: "Handed Over To", value: (day) => day.closing?.handedOverTo },
+        { header: "Closed By", value: (day) => day.closing?.closedByName },
+        { header: "Closed At", value: (day) => day.closing?.closedAt, type: "date" },
+      ],
+      rows: collectorDays,
+    });
+  };
+
+  const renderVariance = (value: number) => (
+    <span
+      className={`px-2 py-1 rounded-full text-xs font-semibold ${
+        value === 0 ? "bg-green-100 text-green-700" : value < 0 ? "bg-red-100 text-red-700" : "bg-yellow-100 text-yellow-700"
+      }`}
+    >
+      {value === 0 ? "Tallied" : `${value < 0 ? "Short" : "Over"} ${formatCurrency(Math.abs(value))}`}
+    </span>
+  );
+
+  if (!can("closeDay")) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold text-gray-800">Day-End Closing</h1>
+        <div className="card">
+          <p className="text-gray-600">Only cashiers, managers and administrators can close the day.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800">Day-End Closing</h1>
+          <p className="text-gray-600 mt-1">
+            Count the cash handed in against the day&apos;s receipts. A closed day&apos;s receipts can no longer
+            be added to or reversed.
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <input
+            type="date"
+            value={date}
+            max={getDayKey(new Date())}
+            onChange={(e) => e.target.value && setDate(e.target.value)}
+            className="input-field w-auto"
+          />
+          <ExportButtons onExport={handleExport} disabled={loading || collectorDays.length === 0} />
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="card">
+              <p className="text-sm text-gray-600">Receipts</p>
+              <p className="text-2xl font-bold text-gray-800">{officeTotals.receiptCount}</p>
+            </div>
+            <div className="card">
+              <p className="text-sm text-gray-600">Cash</p>
+              <p className="text-2xl font-bold text-gray-800">{formatCurrency(officeTotals.cashTotal)}</p>
+            </div>
+            <div className="card">
+              <p className="text-sm text-gray-600">Online</p>
+              <p className="text-2xl font-bold text-gray-800">{formatCurrency(officeTotals.onlineTotal)}</p>
+            </div>
+            <div className="card">
+              <p className="text-sm text-gray-600">Adjusted from Payouts</p>
+              <p className="text-2xl font-bold text-gray-800">{formatCurrency(officeTotals.adjustedTotal)}</p>
+            </div>
+          </div>
+
+          <div className="card">
+            <h2 className="text-xl font-bold text-gray-800 mb-4">Collectors</h2>
+            {collectorDays.length === 0 ? (
+              <p className="text-gray-600 text-center py-8">No receipts on {formatDate(date)}.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-3 px-4 font-semibold text-gray-700">Collector</th>
+                      <th className="text-right py-3 px-4 font-semibold text-gray-700">Receipts</th>
+                      <th className="text-right py-3 px-4 font-semibold text-gray-700">Cash</th>
+                      <th className="text-right py-3 px-4 font-semibold text-gray-700">Online</th>
+                      <th className="text-right py-3 px-4 font-semibold text-gray-700">Counted</th>
+                      <th className="text-left py-3 px-4 font-semibold text-gray-700">Status</th>
+                      <th className="text-left py-3 px-4 font-semibold text-gray-700">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {collectorDays.map((day) => (
+                      <tr key={day.collectorId || "none"} className="border-b border-gray-100 hover:bg-gray-50">
+                        <td className="py-3 px-4 font-medium">{day.collectorName}</td>
+                        <td className="py-3 px-4 text-right">{day.totals.receiptCount}</td>
+                        <td className="py-3 px-4 text-right">{formatCurrency(day.totals.cashTotal)}</td>
+                        <td className="py-3 px-4 text-right">{formatCurrency(day.totals.onlineTotal)}</td>
+                        <td className="py-3 px-4 text-right">
+                          {day.closing ? formatCurrency(day.closing.countedCash) : "-"}
+                        </td>
+                        <td className="py-3 px-4">
+                          {day.closing ? (
+                            renderVariance(day.closing.variance)
+                          ) : (
+                            <span className="px-2 py-1 rounded-full text-xs font-semibold bg-gray-100 text-gray-700">
+                              {officeClosing ? "Closed with office" : "Open"}
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-3 px-4">
+                          {day.closing ? (
+                            <button
+                              onClick={() => setViewingClosing(day.closing)}
+                              className="text-primary-600 hover:text-primary-700 font-medium"
+                            >
+                              View
+                            </button>
+                          ) : (
+                            day.collectorId !== null &&
+                            !officeClosing && (
+                              <button
+                                onClick={() =>
+                                  handleOpenClose({
+                                    collectorId: day.collectorId,
+                                    collectorName: day.collectorName,
+                                    cashTotal: day.totals.cashTotal,
+                                  })
+                                }
+                                className="text-primary-600 hover:text-primary-700 font-medium"
+                              >
+                                Count &amp; Close
+                              </button>
+                            )
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div className="card">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-xl font-bold text-gray-800">Office</h2>
+                {officeClosing ? (
+                  <p className="text-gray-600 mt-1">
+                    Closed by {officeClosing.closedByName} at {formatDateTime(officeClosing.closedAt)}, cash handed
+                    over to {officeClosing.handedOverTo}
+                  </p>
+                ) : (
+                  <p className="text-gray-600 mt-1">
+                    Closing the office locks every receipt of {formatDate(date)}.
+                    {openCollectors.length > 0 &&
+                      ` ${openCollectors.length} collector(s) with cash have not been closed yet.`}
+                  </p>
+                )}
+              </div>
+              {officeClosing ? (
+                <div className="flex items-center gap-3">
+                  {renderVariance(officeClosing.variance)}
+                  <button onClick={() => setViewingClosing(officeClosing)} className="btn-secondary">
+                    View
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() =>
+                    handleOpenClose({ collectorId: null, collectorName: "Office", cashTotal: officeTotals.cashTotal })
+                  }
+                  className="btn-primary"
+                >
+                  Close Office Day
+                </button>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+
+      {/* Count & Close Modal */}
+      {closingTarget && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6 max-h-[90vh] overflow-y-auto">
+            <h2 className="text-2xl font-bold text-gray-800 mb-4">
+              {closingTarget.collectorId === null ? "Close Office Day" : `Close ${closingTarget.collectorName}`}
+            </h2>
+            <div className="mb-4 p-4 bg-gray-50 rounded-lg">
+              <p className="text-sm text-gray-600 mb-1">Date: {formatDate(date)}</p>
+              <p className="text-sm font-semibold text-gray-800">
+                Cash as per receipts: {formatCurrency(closingTarget.cashTotal)}
+              </p>
+            </div>
+            <form onSubmit={handleClose} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Cash Count</label>
+                <div className="space-y-2">
+                  {CASH_DENOMINATIONS.map((value) => (
+                    <div key={value} className="flex items-center gap-3">
+                      <span className="w-16 text-right text-gray-700">₹{value} ×</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={counts[value]}
+                        onChange={(e) => setCounts({ ...counts, [value]: e.target.value })}
+                        className="input-field w-24"
+                      />
+                      <span className="flex-1 text-right text-gray-600">
+                        {formatCurrency(value * (parseInt(counts[value]) || 0))}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-between mt-3 pt-3 border-t border-gray-200">
+                  <span className="font-semibold text-gray-800">Counted: {formatCurrency(countedCash)}</span>
+                  {renderVariance(variance)}
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Handed Over To *</label>
+                <input
+                  type="text"
+                  required
+                  value={handedOverTo}
+                  onChange={(e) => setHandedOverTo(e.target.value)}
+                  className="input-field"
+                  placeholder="Cashier receiving the cash"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  className="input-field"
+                  rows={2}
+                  placeholder="Reason for any shortage or excess"
+                />
+              </div>
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="btn-primary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {saving ? "Closing..." : "Close Day"}
+                </button>
+                <button type="button" onClick={() => setClosingTarget(null)} className="btn-secondary flex-1">
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Closing Details Modal */}
+      {viewingClosing && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+            <h2 className="text-2xl font-bold text-gray-800 mb-4">
+              {viewingClosing.scope === "office" ? "Office" : viewingClosing.collectorName} -{" "}
+              {formatDate(viewingClosing.date)}
+            </h2>
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Receipts</span>
+                <span>{viewingClosing.receiptCount}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Cash</span>
+                <span>{formatCurrency(viewingClosing.cashTotal)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Online</span>
+                <span>{formatCurrency(viewingClosing.onlineTotal)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Adjusted from payouts</span>
+                <span>{formatCurrency(viewingClosing.adjustedTotal)}</span>
+              </div>
+              <div className="border-t border-gray-200 pt-2">
+                {CASH_DENOMINATIONS.filter((value) => viewingClosing.denominations[value]).map((value) => (
+                  <div key={value} className="flex justify-between text-gray-600">
+                    <span>
+                      ₹{value} × {viewingClosing.denominations[value]}
+                    </span>
+                    <span>{formatCurrency(value * viewingClosing.denominations[value])}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between font-semibold">
+                <span>Counted Cash</span>
+                <span>{formatCurrency(viewingClosing.countedCash)}</span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-gray-600">Variance</span>
+                {renderVariance(viewingClosing.variance)}
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Handed over to</span>
+                <span>{viewingClosing.handedOverTo}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Closed by</span>
+                <span>
+                  {viewingClosing.closedByName}, {formatDateTime(viewingClosing.closedAt)}
+                </span>
+              </div>
+              {viewingClosing.notes && <p className="text-gray-600 whitespace-pre-wrap">{viewingClosing.notes}</p>}
+            </div>
+            <div className="flex pt-4">
+              <button onClick={() => setViewingClosing(null)} className="btn-secondary flex-1">
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
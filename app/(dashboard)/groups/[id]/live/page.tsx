@@ -0,0 +1,429 @@
+"use client";
+
+import { useEffect, useState, useMemo } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useParams, useRouter } from "next/navigation";
+import {
+  getGroup,
+  getGroupMembers,
+  getAuctionIdempotencyKey,
+  subscribeToAuctionSession,
+  openAuctionSession,
+  placeLiveBid,
+  cancelAuctionSession,
+  closeAuctionSession,
+} from "@/lib/firestore";
+import type { AuctionSession, Group, GroupMember } from "@/types";
+import toast from "react-hot-toast";
+import {
+  formatCurrency,
+  getCurrentMonth,
+  getGroupStatus,
+  resolveAuctionBids,
+} from "@/lib/utils";
+import GroupStatusBadge from "@/components/common/GroupStatusBadge";
+
+const formatCountdown = (milliseconds: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+};
+
+export default function LiveAuctionPage() {
+  const { user, can } = useAuth();
+  const params = useParams();
+  const router = useRouter();
+  const groupId = params.id as string;
+
+  const [group, setGroup] = useState<Group | null>(null);
+  const [members, setMembers] = useState<GroupMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [chitMonth, setChitMonth] = useState(getCurrentMonth());
+  const [durationMinutes, setDurationMinutes] = useState("10");
+  const [session, setSession] = useState<AuctionSession | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [bidForm, setBidForm] = useState({ memberId: "", amount: "" });
+  const [processing, setProcessing] = useState(false);
+
+  useEffect(() => {
+    if (user && groupId) {
+      loadData();
+    }
+  }, [user, groupId]);
+
+  // Live updates of the session for the selected month
+  useEffect(() => {
+    if (!user || !groupId || !chitMonth) return;
+    const unsubscribe = subscribeToAuctionSession(
+      getAuctionIdempotencyKey(groupId, chitMonth),
+      setSession,
+      (error) => {
+        console.error("Error listening to auction session:", error);
+        toast.error(error.message || "Lost connection to the auction session");
+      }
+    );
+    return unsubscribe;
+  }, [user, groupId, chitMonth]);
+
+  // Countdown ticker
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [groupData, membersData] = await Promise.all([
+        getGroup(user!.uid, groupId),
+        getGroupMembers(user!.uid, groupId),
+      ]);
+      if (!groupData) {
+        toast.error("Group not found");
+        router.push("/groups");
+        return;
+      }
+      setGroup(groupData);
+      setMembers(membersData);
+    } catch (error: any) {
+      console.error("Error loading group data:", error);
+      toast.error(error?.message || "Failed to load group data");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const remainingMs = session ? session.endsAt.toMillis() - now : 0;
+  const isBiddingOpen = session?.status === "Open" && remainingMs > 0;
+  const highestBid = session?.bids.reduce((max, bid) => Math.max(max, bid.amount), 0) || 0;
+  const resolution = useMemo(
+    () => (session ? resolveAuctionBids(session.bids, session.maxBidAmount) : null),
+    [session]
+  );
+  const eligibleMembers = members.filter((member) => session?.eligibleMemberIds.includes(member.id));
+  const winningBid = resolution?.needsLotDraw
+    ? resolution.tiedBids.find((bid) => bid.clientId === session?.lotDraw?.drawnClientId)
+    : resolution?.winningBid;
+
+  const handleOpenSession = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!group) return;
+    setProcessing(true);
+    try {
+      await openAuctionSession(user!.uid, {
+        group,
+        members,
+        chitMonth,
+        durationMinutes: parseFloat(durationMinutes),
+      });
+      toast.success("Live auction opened");
+    } catch (error: any) {
+      console.error("Error opening auction session:", error);
+      toast.error(error?.message || "Failed to open auction session");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handlePlaceBid = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session) return;
+    const member = members.find((m) => m.id === bidForm.memberId);
+    if (!member) {
+      toast.error("Please select the bidder");
+      return;
+    }
+    setProcessing(true);
+    try {
+      await placeLiveBid(user!.uid, session.id, member, parseFloat(bidForm.amount));
+      setBidForm({ memberId: bidForm.memberId, amount: "" });
+    } catch (error: any) {
+      console.error("Error placing bid:", error);
+      toast.error(error?.message || "Failed to place bid");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleCancelSession = async () => {
+    if (!session || !confirm("Cancel this live auction? All bids will be discarded.")) return;
+    setProcessing(true);
+    try {
+      await cancelAuctionSession(user!.uid, session.id);
+      toast.success("Live auction cancelled");
+    } catch (error: any) {
+      console.error("Error cancelling auction session:", error);
+      toast.error(error?.message || "Failed to cancel auction session");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleCloseSession = async () => {
+    if (!session || !group) return;
+    setProcessing(true);
+    try {
+      await closeAuctionSession(user!.uid, session.id, { group, members });
+      toast.success("Auction and member payments created");
+    } catch (error: any) {
+      console.error("Error closing auction session:", error);
+      toast.error(error?.message || "Failed to close auction session");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (!group) return null;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <button
+          onClick={() => router.push(`/groups/${group.id}`)}
+          className="text-primary-600 hover:text-primary-700 mb-2"
+        >
+          ← Back to {group.groupName}
+        </button>
+        <div className="flex items-center gap-3">
+          <h1 className="text-3xl font-bold text-gray-800">Live Auction - {group.groupName}</h1>
+          <GroupStatusBadge status={getGroupStatus(group)} />
+        </div>
+        <p className="text-gray-600 mt-2">
+          The auction manager enters each bid on behalf of the member calling it out in the room or
+          on the phone; members have no accounts and do not bid from their own devices. Bids update
+          in real time on every screen showing this page. Each bid must offer a higher discount than
+          the leading bid, up to the ceiling.
+        </p>
+      </div>
+
+      <div className="card">
+        <label className="block text-sm font-medium text-gray-700 mb-2">Chit Month</label>
+        <input
+          type="month"
+          value={chitMonth}
+          onChange={(e) => setChitMonth(e.target.value)}
+          className="input-field max-w-xs"
+        />
+      </div>
+
+      {/* No session yet, or the last one was cancelled */}
+      {(!session || session.status === "Cancelled") && can("manageAuctions") && (
+        <div className="card">
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">Open Session</h2>
+          {session?.status === "Cancelled" && (
+            <p className="text-sm text-gray-500 mb-4">
+              The previous session for {chitMonth} was cancelled. Opening a new one discards its bids.
+            </p>
+          )}
+          <form onSubmit={handleOpenSession} className="flex items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Duration (minutes) *
+              </label>
+              <input
+                type="number"
+                required
+                min="1"
+                step="1"
+                value={durationMinutes}
+                onChange={(e) => setDurationMinutes(e.target.value)}
+                className="input-field"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={processing || getGroupStatus(group) !== "Active"}
+              className="btn-primary"
+            >
+              {processing ? "Opening..." : "Open Live Auction"}
+            </button>
+          </form>
+          {getGroupStatus(group) !== "Active" && (
+            <p className="text-xs text-danger-600 mt-2">Only active groups can hold auctions.</p>
+          )}
+        </div>
+      )}
+
+      {session && session.status !== "Cancelled" && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="card">
+              <p className="text-sm text-gray-600 mb-1">Time Left</p>
+              <p
+                className={`text-3xl font-bold ${
+                  isBiddingOpen && remainingMs <= 60000 ? "text-danger-600" : "text-gray-800"
+                }`}
+              >
+                {session.status === "Open" ? formatCountdown(remainingMs) : "Closed"}
+              </p>
+            </div>
+            <div className="card">
+              <p className="text-sm text-gray-600 mb-1">Leading Discount</p>
+              <p className="text-2xl font-bold text-primary-600">{formatCurrency(highestBid)}</p>
+              <p className="text-xs text-gray-500 mt-1">
+                Prize: {formatCurrency(group.chitValue - highestBid)}
+              </p>
+            </div>
+            <div className="card">
+              <p className="text-sm text-gray-600 mb-1">Ceiling</p>
+              <p className="text-2xl font-bold">{formatCurrency(session.maxBidAmount)}</p>
+            </div>
+            <div className="card">
+              <p className="text-sm text-gray-600 mb-1">Bids</p>
+              <p className="text-2xl font-bold">{session.bids.length}</p>
+            </div>
+          </div>
+
+          {/* Bidding */}
+          {session.status === "Open" && can("manageAuctions") && (
+            <div className="card">
+              {isBiddingOpen ? (
+                <form onSubmit={handlePlaceBid} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Bidding on behalf of *</label>
+                    <select
+                      required
+                      value={bidForm.memberId}
+                      onChange={(e) => setBidForm({ ...bidForm, memberId: e.target.value })}
+                      className="input-field"
+                    >
+                      <option value="">Select member</option>
+                      {eligibleMembers.map((member) => (
+                        <option key={member.id} value={member.id}>
+                          {member.clientName}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Discount *</label>
+                    <input
+                      type="number"
+                      required
+                      min="0"
+                      max={session.maxBidAmount}
+                      step="0.01"
+                      value={bidForm.amount}
+                      onChange={(e) => setBidForm({ ...bidForm, amount: e.target.value })}
+                      className="input-field"
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <button type="submit" disabled={processing} className="btn-primary flex-1">
+                      Bid
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setBidForm({ ...bidForm, amount: session.maxBidAmount.toString() })}
+                      className="btn-secondary"
+                    >
+                      Ceiling
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <p className="text-gray-700">
+                  Bidding time is over.{" "}
+                  {session.bids.length === 0
+                    ? "No bids were placed - cancel the session and record a Company Bid if needed."
+                    : resolution?.needsLotDraw
+                    ? "Bids are tied at the ceiling; a lot will be drawn when the session is closed."
+                    : `${resolution?.winningBid?.clientName} wins with a discount of ${formatCurrency(
+                        resolution?.winningBid?.amount || 0
+                      )}.`}
+                </p>
+              )}
+              <div className="flex gap-3 mt-4">
+                {!isBiddingOpen && session.bids.length > 0 && (
+                  <button onClick={handleCloseSession} disabled={processing} className="btn-primary">
+                    {processing ? "Closing..." : "Close & Create Auction"}
+                  </button>
+                )}
+                <button onClick={handleCancelSession} disabled={processing} className="btn-danger">
+                  Cancel Session
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Result */}
+          {session.status === "Closed" && (
+            <div className="card">
+              <h2 className="text-xl font-semibold text-gray-800 mb-2">Result</h2>
+              {winningBid && (
+                <p className="text-gray-700">
+                  Winner: <span className="font-semibold">{winningBid.clientName}</span> with a discount
+                  of {formatCurrency(winningBid.amount)} (prize{" "}
+                  {formatCurrency(group.chitValue - winningBid.amount)})
+                </p>
+              )}
+              {session.lotDraw && (
+                <p className="text-sm text-gray-600 mt-2">
+                  Lot drawn between {session.lotDraw.candidateNames.join(", ")}: random value{" "}
+                  {session.lotDraw.randomValue} mod {session.lotDraw.candidateClientIds.length} ={" "}
+                  {session.lotDraw.drawnIndex} → {session.lotDraw.candidateNames[session.lotDraw.drawnIndex]}
+                </p>
+              )}
+              {session.auctionId ? (
+                <button onClick={() => router.push("/auctions")} className="btn-secondary mt-4">
+                  View Auctions
+                </button>
+              ) : can("manageAuctions") && (
+                <div className="mt-4">
+                  <p className="text-sm text-danger-600 mb-2">
+                    The session is closed but its auction has not been created yet.
+                  </p>
+                  <button onClick={handleCloseSession} disabled={processing} className="btn-primary">
+                    {processing ? "Creating..." : "Create Auction"}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Bid history */}
+          <div className="card">
+            <h2 className="text-xl font-semibold text-gray-800 mb-4">Bid History</h2>
+            {session.bids.length === 0 ? (
+              <p className="text-gray-500 text-center py-8">No bids yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-3 px-4 font-semibold text-gray-700">Time</th>
+                      <th className="text-left py-3 px-4 font-semibold text-gray-700">Bidder</th>
+                      <th className="text-right py-3 px-4 font-semibold text-gray-700">Discount</th>
+                      <th className="text-right py-3 px-4 font-semibold text-gray-700">Prize</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...session.bids].reverse().map((bid, index) => (
+                      <tr key={index} className="border-b border-gray-100 hover:bg-gray-50">
+                        <td className="py-3 px-4">{bid.bidTime.toDate().toLocaleTimeString()}</td>
+                        <td className="py-3 px-4 font-medium">{bid.clientName}</td>
+                        <td className="py-3 px-4 text-right">{formatCurrency(bid.amount)}</td>
+                        <td className="py-3 px-4 text-right">
+                          {formatCurrency(group.chitValue - bid.amount)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
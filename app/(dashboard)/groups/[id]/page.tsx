@@ -12,15 +12,26 @@ import {
   deleteGroupMember,
   getPayments,
   getAuctions,
+  getPayouts,
   deletePayment,
   updatePayment,
+  updateGroupStatus,
 } from "@/lib/firestore";
-import type { Group, GroupMember, Client, Auction } from "@/types";
+import type { Group, GroupMember, Client, Auction, GroupStatus, Payout } from "@/types";
 import toast from "react-hot-toast";
-import { formatDate, formatCurrency } from "@/lib/utils";
+import {
+  formatDate,
+  formatCurrency,
+  getGroupTenure,
+  getGroupStatus,
+  getGroupEndDate,
+  generateGroupSchedule,
+  GROUP_STATUS_TRANSITIONS,
+} from "@/lib/utils";
+import GroupStatusBadge from "@/components/common/GroupStatusBadge";
 
 export default function GroupDetailPage() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const params = useParams();
   const router = useRouter();
   const groupId = params.id as string;
@@ -28,9 +39,10 @@ export default function GroupDetailPage() {
   const [group, setGroup] = useState<Group | null>(null);
   const [members, setMembers] = useState<GroupMember[]>([]);
   const [auctions, setAuctions] = useState<Auction[]>([]);
+  const [payouts, setPayouts] = useState<Payout[]>([]);
   const [allClients, setAllClients] = useState<Client[]>([]);
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<"members" | "auctions">("members");
+  const [activeTab, setActiveTab] = useState<"members" | "auctions" | "schedule">("members");
   const [showAddModal, setShowAddModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
@@ -59,11 +71,12 @@ export default function GroupDetailPage() {
   const loadData = async () => {
     try {
       setLoading(true);
-      const [groupData, membersData, auctionsData, clientsData] = await Promise.all([
+      const [groupData, membersData, auctionsData, clientsData, payoutsData] = await Promise.all([
         getGroup(user!.uid, groupId),
         getGroupMembers(user!.uid, groupId),
         getAuctions(user!.uid, groupId),
         getClients(user!.uid),
+        getPayouts(user!.uid, { groupId }),
       ]);
 
       if (!groupData) {
@@ -76,6 +89,7 @@ export default function GroupDetailPage() {
       setMembers(membersData);
       setAuctions(auctionsData);
       setAllClients(clientsData);
+      setPayouts(payoutsData);
     } catch (error: any) {
       console.error("Error loading group data:", error);
       const errorMessage = error?.message || "Failed to load group data";
@@ -105,6 +119,24 @@ export default function GroupDetailPage() {
     });
   }, [availableClients, clientSearch]);
 
+  // Month-by-month auction schedule derived from start date and tenure
+  const schedule = useMemo(
+    () => (group ? generateGroupSchedule(group, auctions) : []),
+    [group, auctions]
+  );
+
+  const handleStatusChange = async (nextStatus: GroupStatus) => {
+    if (!group) return;
+    try {
+      await updateGroupStatus(user!.uid, group.id, nextStatus);
+      toast.success(`Group marked as ${nextStatus}`);
+      loadData();
+    } catch (error: any) {
+      console.error("Error changing group status:", error);
+      toast.error(error?.message || "Failed to change group status");
+    }
+  };
+
   // Calculate total member count (sum of chitCount)
   const totalMemberCount = members.reduce((sum, m) => sum + m.chitCount, 0);
 
@@ -359,11 +391,33 @@ export default function GroupDetailPage() {
           >
             ← Back to Groups
           </button>
-          <h1 className="text-3xl font-bold text-gray-800">{group.groupName}</h1>
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-bold text-gray-800">{group.groupName}</h1>
+            <GroupStatusBadge status={getGroupStatus(group)} />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          {getGroupStatus(group) === "Active" && can("manageAuctions") && (
+            <button
+              onClick={() => router.push(`/groups/${group.id}/live`)}
+              className="btn-secondary"
+            >
+              Live Auction
+            </button>
+          )}
+          {can("manageMasterData") && GROUP_STATUS_TRANSITIONS[getGroupStatus(group)].map((nextStatus) => (
+            <button
+              key={nextStatus}
+              onClick={() => handleStatusChange(nextStatus)}
+              className="btn-primary"
+            >
+              {nextStatus === "Active" ? "Start Group" : `Mark as ${nextStatus}`}
+            </button>
+          ))}
         </div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
         <div className="card">
           <p className="text-sm text-gray-600 mb-1">Start Date</p>
           <p className="text-lg font-semibold">{formatDate(group.startDate)}</p>
@@ -380,6 +434,11 @@ export default function GroupDetailPage() {
           <p className="text-sm text-gray-600 mb-1">Commission</p>
           <p className="text-lg font-semibold">{group.agentCommissionPercent}%</p>
         </div>
+        <div className="card">
+          <p className="text-sm text-gray-600 mb-1">Tenure</p>
+          <p className="text-lg font-semibold">{getGroupTenure(group)} months</p>
+          <p className="text-xs text-gray-500 mt-1">Ends {formatDate(getGroupEndDate(group))}</p>
+        </div>
       </div>
 
       {/* Tabs */}
@@ -406,6 +465,16 @@ export default function GroupDetailPage() {
             >
               Auctions
             </button>
+            <button
+              onClick={() => setActiveTab("schedule")}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === "schedule"
+                  ? "border-primary-500 text-primary-600"
+                  : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+              }`}
+            >
+              Schedule
+            </button>
           </nav>
         </div>
 
@@ -414,9 +483,11 @@ export default function GroupDetailPage() {
           <div>
             <div className="flex justify-between items-center mb-4">
               <h2 className="text-xl font-semibold text-gray-800">Group Members</h2>
-              <button onClick={handleOpenAddModal} className="btn-primary" disabled={availableClients.length === 0}>
-                + Add Member
-              </button>
+              {can("manageMasterData") && (
+                <button onClick={handleOpenAddModal} className="btn-primary" disabled={availableClients.length === 0}>
+                  + Add Member
+                </button>
+              )}
             </div>
             {members.length === 0 ? (
               <p className="text-gray-500 text-center py-8">No members yet. Add your first member!</p>
@@ -443,18 +514,22 @@ export default function GroupDetailPage() {
                         <td className="py-3 px-4 text-gray-600">{member.notes || "-"}</td>
                         <td className="py-3 px-4">
                           <div className="flex gap-2">
-                            <button
-                              onClick={() => handleOpenEditModal(member)}
-                              className="text-primary-600 hover:text-primary-700 font-medium"
-                            >
-                              Edit
-                            </button>
-                            <button
-                              onClick={() => handleDeleteClick(member)}
-                              className="text-danger-600 hover:text-danger-700 font-medium"
-                            >
-                              Delete
-                            </button>
+                            {can("manageMasterData") && (
+                              <button
+                                onClick={() => handleOpenEditModal(member)}
+                                className="text-primary-600 hover:text-primary-700 font-medium"
+                              >
+                                Edit
+                              </button>
+                            )}
+                            {can("deleteRecords") && (
+                              <button
+                                onClick={() => handleDeleteClick(member)}
+                                className="text-danger-600 hover:text-danger-700 font-medium"
+                              >
+                                Delete
+                              </button>
+                            )}
                           </div>
                         </td>
                       </tr>
@@ -487,6 +562,7 @@ export default function GroupDetailPage() {
                       <th className="text-left py-3 px-4 font-semibold text-gray-700">
                         <AuctionSortButton field="bidAmount">Bid Amount</AuctionSortButton>
                       </th>
+                      <th className="text-left py-3 px-4 font-semibold text-gray-700">Payout</th>
                     </tr>
                   </thead>
                   <tbody>
@@ -502,6 +578,35 @@ export default function GroupDetailPage() {
                             : auction.winnerName || "-"}
                         </td>
                         <td className="py-3 px-4">{formatCurrency(auction.bidAmount)}</td>
+                        <td className="py-3 px-4">
+                          {payouts.filter((payout) => payout.auctionId === auction.id).length === 0 ? (
+                            <span className="text-gray-400">-</span>
+                          ) : (
+                            <div className="space-y-1">
+                              {payouts
+                                .filter((payout) => payout.auctionId === auction.id)
+                                .map((payout) => (
+                                  <div key={payout.id} className="text-sm">
+                                    <span
+                                      className={`px-2 py-1 rounded-full text-xs font-medium ${
+                                        payout.status === "Paid"
+                                          ? "bg-success-100 text-success-800"
+                                          : "bg-warning-100 text-warning-800"
+                                      }`}
+                                    >
+                                      {payout.status}
+                                    </span>
+                                    <span className="ml-2 text-gray-600">
+                                      {formatCurrency(payout.amount)}
+                                      {payout.status === "Paid" && payout.payoutDate
+                                        ? ` · ${formatDate(payout.payoutDate)} · ${payout.method}`
+                                        : ""}
+                                    </span>
+                                  </div>
+                                ))}
+                            </div>
+                          )}
+                        </td>
                       </tr>
                     ))}
                   </tbody>
@@ -510,6 +615,63 @@ export default function GroupDetailPage() {
             )}
           </div>
         )}
+
+        {/* Schedule Tab */}
+        {activeTab === "schedule" && (
+          <div>
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-semibold text-gray-800">Auction Schedule</h2>
+              <div className="text-sm text-gray-600">
+                {schedule.filter((entry) => entry.status === "Done").length} done ·{" "}
+                {schedule.filter((entry) => entry.status === "Upcoming").length} upcoming ·{" "}
+                <span className="text-danger-600">
+                  {schedule.filter((entry) => entry.status === "Missed").length} missed
+                </span>
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Month No.</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Chit Month</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Auction Date</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Due Date</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {schedule.map((entry) => (
+                    <tr
+                      key={entry.installment}
+                      className={`border-b border-gray-100 hover:bg-gray-50 ${
+                        entry.status === "Missed" ? "bg-red-50" : ""
+                      }`}
+                    >
+                      <td className="py-3 px-4">{entry.installment}</td>
+                      <td className="py-3 px-4">{entry.chitMonth}</td>
+                      <td className="py-3 px-4">{formatDate(entry.auctionDate)}</td>
+                      <td className="py-3 px-4">{formatDate(entry.paymentDueDate)}</td>
+                      <td className="py-3 px-4">
+                        <span
+                          className={`px-2 py-1 rounded-full text-xs font-medium ${
+                            entry.status === "Done"
+                              ? "bg-success-100 text-success-800"
+                              : entry.status === "Missed"
+                              ? "bg-danger-100 text-danger-800"
+                              : "bg-gray-100 text-gray-800"
+                          }`}
+                        >
+                          {entry.status}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Add Member Modal */}
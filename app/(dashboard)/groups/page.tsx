@@ -2,18 +2,33 @@
 
 import { useEffect, useState, useMemo } from "react";
 import { useAuth } from "@/contexts/AuthContext";
-import { getGroups, createGroup, updateGroup, deleteGroup, getAuctions, getPayments } from "@/lib/firestore";
-import type { Group } from "@/types";
+import { getGroups, createGroup, updateGroup, deleteGroup, getAuctions, getPayments, previewGroupTenureChange } from "@/lib/firestore";
+import type { Group, Auction, PenaltyRule } from "@/types";
 import toast from "react-hot-toast";
-import { formatDate, formatCurrency } from "@/lib/utils";
+import { format } from "date-fns";
+import {
+  formatDate,
+  formatCurrency,
+  getGroupTenure,
+  getGroupStatus,
+  getGroupEndDate,
+  generateGroupSchedule,
+  DEFAULT_TENURE_MONTHS,
+  DEFAULT_MAX_DISCOUNT_PERCENT,
+  getGroupMaxDiscountPercent,
+} from "@/lib/utils";
+import { exportRows, type ExportFormat } from "@/lib/export";
 import Link from "next/link";
+import GroupStatusBadge from "@/components/common/GroupStatusBadge";
+import ExportButtons from "@/components/common/ExportButtons";
 
 export default function GroupsPage() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [groups, setGroups] = useState<Group[]>([]);
+  const [auctions, setAuctions] = useState<Auction[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
-  const [sortField, setSortField] = useState<"groupName" | "startDate" | "memberCount" | "chitValue" | "agentCommissionPercent">("groupName");
+  const [sortField, setSortField] = useState<"groupName" | "startDate" | "memberCount" | "chitValue" | "agentCommissionPercent" | "tenureMonths">("groupName");
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("asc");
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 10;
@@ -22,12 +37,22 @@ export default function GroupsPage() {
   const [editingGroup, setEditingGroup] = useState<Group | null>(null);
   const [deletingGroup, setDeletingGroup] = useState<Group | null>(null);
   const [deletionStats, setDeletionStats] = useState<{ auctionCount: number; paymentCount: number } | null>(null);
+  const [tenurePreview, setTenurePreview] = useState<Awaited<ReturnType<typeof previewGroupTenureChange>> | null>(null);
+  const [loadingTenurePreview, setLoadingTenurePreview] = useState(false);
   const [formData, setFormData] = useState({
     groupName: "",
     startDate: "",
     memberCount: "",
     chitValue: "",
     agentCommissionPercent: "",
+    tenureMonths: String(DEFAULT_TENURE_MONTHS),
+    companyBidInstallment: "1",
+    allowBiddingWithArrears: false,
+    maxDiscountPercent: String(DEFAULT_MAX_DISCOUNT_PERCENT),
+    penaltyType: "None" as PenaltyRule["type"],
+    penaltyGraceDays: "0",
+    penaltyFlatAmount: "",
+    penaltyRatePercent: "",
   });
 
   useEffect(() => {
@@ -38,8 +63,12 @@ export default function GroupsPage() {
 
   const loadGroups = async () => {
     try {
-      const data = await getGroups(user!.uid);
+      const [data, auctionsData] = await Promise.all([
+        getGroups(user!.uid),
+        getAuctions(user!.uid),
+      ]);
       setGroups(data);
+      setAuctions(auctionsData);
     } catch (error) {
       toast.error("Failed to load groups");
     } finally {
@@ -57,6 +86,14 @@ export default function GroupsPage() {
         memberCount: group.memberCount.toString(),
         chitValue: group.chitValue.toString(),
         agentCommissionPercent: group.agentCommissionPercent.toString(),
+        tenureMonths: getGroupTenure(group).toString(),
+        companyBidInstallment: group.companyBidInstallment ? group.companyBidInstallment.toString() : "",
+        allowBiddingWithArrears: !!group.allowBiddingWithArrears,
+        maxDiscountPercent: getGroupMaxDiscountPercent(group).toString(),
+        penaltyType: group.penaltyRule?.type || "None",
+        penaltyGraceDays: (group.penaltyRule?.graceDays ?? 0).toString(),
+        penaltyFlatAmount: group.penaltyRule?.flatAmount ? group.penaltyRule.flatAmount.toString() : "",
+        penaltyRatePercent: group.penaltyRule?.ratePercent ? group.penaltyRule.ratePercent.toString() : "",
       });
     } else {
       setEditingGroup(null);
@@ -66,6 +103,14 @@ export default function GroupsPage() {
         memberCount: "",
         chitValue: "",
         agentCommissionPercent: "",
+        tenureMonths: String(DEFAULT_TENURE_MONTHS),
+        companyBidInstallment: "1",
+        allowBiddingWithArrears: false,
+        maxDiscountPercent: String(DEFAULT_MAX_DISCOUNT_PERCENT),
+        penaltyType: "None",
+        penaltyGraceDays: "0",
+        penaltyFlatAmount: "",
+        penaltyRatePercent: "",
       });
     }
     setShowModal(true);
@@ -80,7 +125,16 @@ export default function GroupsPage() {
       memberCount: "",
       chitValue: "",
       agentCommissionPercent: "",
+      tenureMonths: String(DEFAULT_TENURE_MONTHS),
+      companyBidInstallment: "1",
+      allowBiddingWithArrears: false,
+      maxDiscountPercent: String(DEFAULT_MAX_DISCOUNT_PERCENT),
+      penaltyType: "None",
+      penaltyGraceDays: "0",
+      penaltyFlatAmount: "",
+      penaltyRatePercent: "",
     });
+    setTenurePreview(null);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -93,13 +147,30 @@ export default function GroupsPage() {
         memberCount: parseInt(formData.memberCount),
         chitValue: parseFloat(formData.chitValue),
         agentCommissionPercent: parseFloat(formData.agentCommissionPercent),
+        tenureMonths: parseInt(formData.tenureMonths),
+        // Empty means the group takes no Company Bid
+        companyBidInstallment: formData.companyBidInstallment
+          ? parseInt(formData.companyBidInstallment)
+          : null,
+        allowBiddingWithArrears: formData.allowBiddingWithArrears,
+        maxDiscountPercent: parseFloat(formData.maxDiscountPercent),
+        penaltyRule:
+          formData.penaltyType === "None"
+            ? null
+            : {
+                type: formData.penaltyType,
+                graceDays: parseInt(formData.penaltyGraceDays) || 0,
+                flatAmount: parseFloat(formData.penaltyFlatAmount) || 0,
+                ratePercent: parseFloat(formData.penaltyRatePercent) || 0,
+              },
       };
 
       if (editingGroup) {
         await updateGroup(user!.uid, editingGroup.id, data);
         toast.success("Group updated successfully");
       } else {
-        await createGroup(user!.uid, data);
+        // New groups start forming; they are activated from the group page
+        await createGroup(user!.uid, { ...data, status: "Forming" });
         toast.success("Group created successfully");
       }
       handleCloseModal();
@@ -111,6 +182,43 @@ export default function GroupsPage() {
     }
   };
 
+  // Preview how the edited tenure would reprice the group's unpaid payments
+  const handlePreviewTenure = async () => {
+    if (!editingGroup) return;
+    const newTenure = parseInt(formData.tenureMonths);
+    if (!newTenure || newTenure < 1) {
+      toast.error("Please enter a valid tenure");
+      return;
+    }
+    try {
+      setLoadingTenurePreview(true);
+      const preview = await previewGroupTenureChange(user!.uid, editingGroup.id, newTenure);
+      setTenurePreview(preview);
+    } catch (error: any) {
+      console.error("Error previewing tenure change:", error);
+      toast.error(error?.message || "Failed to preview tenure change");
+    } finally {
+      setLoadingTenurePreview(false);
+    }
+  };
+
+  // Schedule progress per group: months done and missed so far
+  const scheduleSummaries = useMemo(() => {
+    const summaries = new Map<string, { done: number; missed: number; nextMonth: string | null }>();
+    groups.forEach((group) => {
+      const schedule = generateGroupSchedule(
+        group,
+        auctions.filter((auction) => auction.groupId === group.id)
+      );
+      summaries.set(group.id, {
+        done: schedule.filter((entry) => entry.status === "Done").length,
+        missed: schedule.filter((entry) => entry.status === "Missed").length,
+        nextMonth: schedule.find((entry) => entry.status === "Upcoming")?.chitMonth || null,
+      });
+    });
+    return summaries;
+  }, [groups, auctions]);
+
   const handleDeleteClick = async (group: Group) => {
     setDeletingGroup(group);
     
@@ -199,6 +307,10 @@ export default function GroupsPage() {
           aValue = a.agentCommissionPercent;
           bValue = b.agentCommissionPercent;
           break;
+        case "tenureMonths":
+          aValue = getGroupTenure(a);
+          bValue = getGroupTenure(b);
+          break;
         default:
           return 0;
       }
@@ -227,6 +339,39 @@ export default function GroupsPage() {
     setCurrentPage(1);
   }, [searchTerm, sortField, sortDirection]);
 
+  const sortFieldLabels: Record<typeof sortField, string> = {
+    groupName: "Group Name",
+    startDate: "Start Date",
+    memberCount: "Members",
+    chitValue: "Chit Value",
+    agentCommissionPercent: "Commission %",
+    tenureMonths: "Tenure",
+  };
+
+  const handleExport = (exportFormat: ExportFormat) => {
+    exportRows(exportFormat, {
+      filename: `groups-${format(new Date(), "yyyy-MM-dd")}`,
+      title: "Groups",
+      filters: {
+        ...(searchTerm && { Search: searchTerm }),
+        "Sorted by": `${sortFieldLabels[sortField]} (${sortDirection})`,
+      },
+      columns: [
+        { header: "Group Name", value: (group) => group.groupName },
+        { header: "Status", value: (group) => getGroupStatus(group) },
+        { header: "Start Date", value: (group) => group.startDate },
+        { header: "End Date", value: (group) => getGroupEndDate(group) },
+        { header: "Members", value: (group) => group.memberCount, type: "number" },
+        { header: "Chit Value", value: (group) => group.chitValue, type: "currency" },
+        { header: "Commission %", value: (group) => group.agentCommissionPercent, type: "number" },
+        { header: "Tenure (months)", value: (group) => getGroupTenure(group), type: "number" },
+        { header: "Auctions Done", value: (group) => scheduleSummaries.get(group.id)?.done ?? 0, type: "number" },
+        { header: "Auctions Missed", value: (group) => scheduleSummaries.get(group.id)?.missed ?? 0, type: "number" },
+      ],
+      rows: filteredAndSortedGroups,
+    });
+  };
+
   const handleSort = (field: typeof sortField) => {
     if (sortField === field) {
       setSortDirection(sortDirection === "asc" ? "desc" : "asc");
@@ -262,9 +407,14 @@ export default function GroupsPage() {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold text-gray-800">Groups</h1>
-        <button onClick={() => handleOpenModal()} className="btn-primary">
-          + Add Group
-        </button>
+        <div className="flex gap-2">
+          <ExportButtons onExport={handleExport} disabled={filteredAndSortedGroups.length === 0} />
+          {can("manageMasterData") && (
+            <button onClick={() => handleOpenModal()} className="btn-primary">
+              + Add Group
+            </button>
+          )}
+        </div>
       </div>
 
       <div className="card">
@@ -307,6 +457,11 @@ export default function GroupsPage() {
                     <th className="text-left py-3 px-4 font-semibold text-gray-700">
                       <SortButton field="agentCommissionPercent">Commission %</SortButton>
                     </th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">
+                      <SortButton field="tenureMonths">Tenure</SortButton>
+                    </th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Status</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Schedule</th>
                     <th className="text-left py-3 px-4 font-semibold text-gray-700">Actions</th>
                   </tr>
                 </thead>
@@ -325,6 +480,34 @@ export default function GroupsPage() {
                       <td className="py-3 px-4">{group.memberCount}</td>
                       <td className="py-3 px-4">{formatCurrency(group.chitValue)}</td>
                       <td className="py-3 px-4">{group.agentCommissionPercent}%</td>
+                      <td className="py-3 px-4">
+                        {getGroupTenure(group)} months
+                        <p className="text-xs text-gray-500">Ends {formatDate(getGroupEndDate(group))}</p>
+                      </td>
+                      <td className="py-3 px-4">
+                        <GroupStatusBadge status={getGroupStatus(group)} />
+                      </td>
+                      <td className="py-3 px-4 text-sm">
+                        {(() => {
+                          const summary = scheduleSummaries.get(group.id);
+                          if (!summary) return "-";
+                          return (
+                            <>
+                              <span>
+                                {summary.done}/{getGroupTenure(group)} done
+                              </span>
+                              {summary.missed > 0 && (
+                                <span className="ml-2 text-danger-600 font-medium">
+                                  {summary.missed} missed
+                                </span>
+                              )}
+                              {summary.nextMonth && (
+                                <p className="text-xs text-gray-500">Next: {summary.nextMonth}</p>
+                              )}
+                            </>
+                          );
+                        })()}
+                      </td>
                       <td className="py-3 px-4">
                         <div className="flex gap-2">
                           <Link
@@ -333,18 +516,22 @@ export default function GroupsPage() {
                           >
                             View
                           </Link>
-                          <button
-                            onClick={() => handleOpenModal(group)}
-                            className="text-primary-600 hover:text-primary-700 font-medium"
-                          >
-                            Edit
-                          </button>
-                          <button
-                            onClick={() => handleDeleteClick(group)}
-                            className="text-danger-600 hover:text-danger-700 font-medium"
-                          >
-                            Delete
-                          </button>
+                          {can("manageMasterData") && (
+                            <button
+                              onClick={() => handleOpenModal(group)}
+                              className="text-primary-600 hover:text-primary-700 font-medium"
+                            >
+                              Edit
+                            </button>
+                          )}
+                          {can("deleteRecords") && (
+                            <button
+                              onClick={() => handleDeleteClick(group)}
+                              className="text-danger-600 hover:text-danger-700 font-medium"
+                            >
+                              Delete
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -400,8 +587,8 @@ export default function GroupsPage() {
 
       {/* Create/Edit Modal */}
       {showModal && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4 overflow-y-auto">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6 my-8">
             <h2 className="text-2xl font-bold text-gray-800 mb-4">
               {editingGroup ? "Edit Group" : "Add Group"}
             </h2>
@@ -474,6 +661,198 @@ export default function GroupsPage() {
                   className="input-field"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Tenure (Months) *
+                </label>
+                <input
+                  type="number"
+                  required
+                  min="1"
+                  step="1"
+                  value={formData.tenureMonths}
+                  onChange={(e) => {
+                    setFormData({ ...formData, tenureMonths: e.target.value });
+                    setTenurePreview(null);
+                  }}
+                  className="input-field"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Per member contribution is the total collection divided by the tenure.
+                </p>
+                {editingGroup &&
+                  parseInt(formData.tenureMonths) > 0 &&
+                  parseInt(formData.tenureMonths) !== getGroupTenure(editingGroup) && (
+                    <div className="mt-2">
+                      <button
+                        type="button"
+                        onClick={handlePreviewTenure}
+                        disabled={loadingTenurePreview}
+                        className="text-primary-600 hover:text-primary-700 text-sm font-medium"
+                      >
+                        {loadingTenurePreview ? "Loading..." : "Preview repricing of unpaid payments"}
+                      </button>
+                    </div>
+                  )}
+                {tenurePreview && (
+                  <div className="mt-2 p-3 bg-gray-50 rounded-lg max-h-48 overflow-y-auto">
+                    {tenurePreview.length === 0 ? (
+                      <p className="text-sm text-gray-500">No unpaid payments would be affected.</p>
+                    ) : (
+                      <>
+                        <p className="text-xs text-gray-600 mb-2">
+                          Saving changes the divisor for future auctions. Existing payments are
+                          repriced when their auction is edited.
+                        </p>
+                        <table className="w-full text-xs">
+                          <thead>
+                            <tr className="border-b border-gray-200">
+                              <th className="text-left py-1">Client</th>
+                              <th className="text-left py-1">Month</th>
+                              <th className="text-right py-1">Current</th>
+                              <th className="text-right py-1">New</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {tenurePreview.map((row) => (
+                              <tr key={row.payment.id} className="border-b border-gray-100">
+                                <td className="py-1">{row.payment.clientName}</td>
+                                <td className="py-1">{row.payment.chitMonth}</td>
+                                <td className="py-1 text-right">{formatCurrency(row.currentAmountExpected)}</td>
+                                <td className="py-1 text-right font-semibold">{formatCurrency(row.newAmountExpected)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Company Bid Month
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  max={formData.tenureMonths || undefined}
+                  step="1"
+                  value={formData.companyBidInstallment}
+                  onChange={(e) => setFormData({ ...formData, companyBidInstallment: e.target.value })}
+                  className="input-field"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Month number in which a Company Bid is allowed. Leave empty if the group takes no Company Bid.
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Maximum Discount (%) *
+                </label>
+                <input
+                  type="number"
+                  required
+                  min="0.01"
+                  max="100"
+                  step="0.01"
+                  value={formData.maxDiscountPercent}
+                  onChange={(e) => setFormData({ ...formData, maxDiscountPercent: e.target.value })}
+                  className="input-field"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Highest discount a bid may offer, as a percentage of the chit value
+                  {formData.chitValue && formData.maxDiscountPercent
+                    ? ` (${formatCurrency(
+                        (parseFloat(formData.chitValue) * parseFloat(formData.maxDiscountPercent)) / 100
+                      )})`
+                    : ""}
+                  .
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Late Payment Penalty
+                </label>
+                <select
+                  value={formData.penaltyType}
+                  onChange={(e) =>
+                    setFormData({ ...formData, penaltyType: e.target.value as PenaltyRule["type"] })
+                  }
+                  className="input-field"
+                >
+                  <option value="None">No penalty</option>
+                  <option value="Flat">Flat fee</option>
+                  <option value="DailyInterest">Daily interest on pending amount</option>
+                  <option value="MonthlyInterest">Monthly interest on pending amount</option>
+                </select>
+                {formData.penaltyType !== "None" && (
+                  <div className="grid grid-cols-2 gap-4 mt-3">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">
+                        Grace Days *
+                      </label>
+                      <input
+                        type="number"
+                        required
+                        min="0"
+                        step="1"
+                        value={formData.penaltyGraceDays}
+                        onChange={(e) => setFormData({ ...formData, penaltyGraceDays: e.target.value })}
+                        className="input-field"
+                      />
+                    </div>
+                    {formData.penaltyType === "Flat" ? (
+                      <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">
+                          Flat Fee *
+                        </label>
+                        <input
+                          type="number"
+                          required
+                          min="0.01"
+                          step="0.01"
+                          value={formData.penaltyFlatAmount}
+                          onChange={(e) => setFormData({ ...formData, penaltyFlatAmount: e.target.value })}
+                          className="input-field"
+                        />
+                      </div>
+                    ) : (
+                      <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">
+                          Rate (% per {formData.penaltyType === "DailyInterest" ? "day" : "month"}) *
+                        </label>
+                        <input
+                          type="number"
+                          required
+                          min="0.0001"
+                          step="0.0001"
+                          value={formData.penaltyRatePercent}
+                          onChange={(e) => setFormData({ ...formData, penaltyRatePercent: e.target.value })}
+                          className="input-field"
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
+                <p className="text-xs text-gray-500 mt-1">
+                  Charged on payments still unpaid after the due date plus the grace days.
+                </p>
+              </div>
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="allowBiddingWithArrears"
+                  checked={formData.allowBiddingWithArrears}
+                  onChange={(e) =>
+                    setFormData({ ...formData, allowBiddingWithArrears: e.target.checked })
+                  }
+                  className="w-4 h-4 text-primary-600 rounded focus:ring-primary-500"
+                />
+                <label htmlFor="allowBiddingWithArrears" className="ml-2 text-sm text-gray-700">
+                  Allow members with overdue payments to win auctions
+                </label>
+              </div>
               <div className="flex gap-3 pt-4">
                 <button type="submit" className="btn-primary flex-1">
                   {editingGroup ? "Update" : "Create"}
@@ -510,11 +889,12 @@ export default function GroupsPage() {
               {deletionStats && deletionStats.paymentCount > 0 && (
                 <>
                   <br />• {deletionStats.paymentCount} payment(s) related to those auctions
-                  <br />• All payment received records (payment logs) for those payments
+                  <br />• The reversed payment records (payment logs) for those payments
                 </>
               )}
               <br /><br />
-              This action cannot be undone.
+              Payments received must be reversed on the rollback page first. This action
+              cannot be undone.
             </p>
             <div className="flex gap-3">
               <button onClick={handleDelete} className="btn-danger flex-1">
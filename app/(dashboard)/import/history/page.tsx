@@ -0,0 +1,424 @@
+"use client";
+
+import { useEffect, useState, useMemo } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  getGroups,
+  getGroupMembers,
+  getClients,
+  getAuctions,
+  commitHistoricalImport,
+} from "@/lib/firestore";
+import {
+  parseCsv,
+  planHistoricalImport,
+  type HistoricalAuctionPlan,
+  type HistoricalImportIssue,
+} from "@/lib/import";
+import { exportToCsv } from "@/lib/export";
+import { formatCurrency, getGroupStatus } from "@/lib/utils";
+import type { Group, PaymentLog } from "@/types";
+import toast from "react-hot-toast";
+import { format } from "date-fns";
+import Link from "next/link";
+
+interface SheetFile {
+  name: string;
+  rows: string[][];
+}
+
+// Member payment that differs from the computed expected amount
+interface Mismatch {
+  chitMonth: string;
+  clientName: string;
+  amountExpected: number;
+  amountPaid: number;
+  difference: number;
+  imported: boolean;
+}
+
+export default function HistoricalImportPage() {
+  const { user, can } = useAuth();
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [groupId, setGroupId] = useState("");
+  const [auctionSheet, setAuctionSheet] = useState<SheetFile | null>(null);
+  const [collectionSheet, setCollectionSheet] = useState<SheetFile | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentLog["paymentMethod"]>("Cash");
+  const [plans, setPlans] = useState<HistoricalAuctionPlan[] | null>(null);
+  const [issues, setIssues] = useState<HistoricalImportIssue[]>([]);
+  const [planning, setPlanning] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      loadGroups();
+    }
+  }, [user]);
+
+  const loadGroups = async () => {
+    try {
+      const groupsData = await getGroups(user!.uid);
+      setGroups(groupsData.filter((group) => getGroupStatus(group) !== "Forming"));
+    } catch (error) {
+      toast.error("Failed to load groups");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectedGroup = groups.find((group) => group.id === groupId) || null;
+
+  const handleFileChange =
+    (setSheet: (sheet: SheetFile | null) => void) => async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      setPlans(null);
+      if (!file) {
+        setSheet(null);
+        return;
+      }
+      try {
+        setSheet({ name: file.name, rows: parseCsv(await file.text()) });
+      } catch (error: any) {
+        console.error("Error reading import file:", error);
+        toast.error(error?.message || "Failed to read file");
+      }
+    };
+
+  // Dry run against the group's current members and auctions
+  const handlePreview = async () => {
+    if (!selectedGroup || !auctionSheet || !collectionSheet) return;
+    setPlanning(true);
+    try {
+      const [members, clients, auctions] = await Promise.all([
+        getGroupMembers(user!.uid, selectedGroup.id),
+        getClients(user!.uid),
+        getAuctions(user!.uid, selectedGroup.id),
+      ]);
+      const result = planHistoricalImport({
+        group: selectedGroup,
+        members,
+        clients,
+        auctions,
+        auctionRows: auctionSheet.rows,
+        collectionRows: collectionSheet.rows,
+      });
+      setPlans(result.plans);
+      setIssues(result.issues);
+    } catch (error: any) {
+      console.error("Error preparing historical import:", error);
+      toast.error(error?.message || "Failed to prepare import");
+    } finally {
+      setPlanning(false);
+    }
+  };
+
+  const validPlans = useMemo(() => (plans || []).filter((plan) => plan.errors.length === 0), [plans]);
+
+  const mismatches = useMemo<Mismatch[]>(
+    () =>
+      (plans || []).flatMap((plan) =>
+        plan.payments
+          .filter((payment) => payment.difference !== 0)
+          .map((payment) => ({
+            chitMonth: plan.chitMonth,
+            clientName: payment.member.clientName,
+            amountExpected: payment.amountExpected,
+            amountPaid: payment.amountPaid,
+            difference: payment.difference,
+            imported: plan.errors.length === 0,
+          }))
+      ),
+    [plans]
+  );
+
+  const handleImport = async () => {
+    if (!selectedGroup || validPlans.length === 0) return;
+    if (!confirm(`Import ${validPlans.length} month(s) of ${selectedGroup.groupName}? Rejected months will be skipped.`)) {
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const result = await commitHistoricalImport(user!.uid, selectedGroup, validPlans, paymentMethod);
+      toast.success(
+        `Imported ${result.auctionsCreated} auction(s), ${result.paymentsCreated} payment(s) and ${result.paymentLogsCreated} collection(s)`
+      );
+      setPlans(null);
+    } catch (error: any) {
+      console.error("Error importing chit book:", error);
+      toast.error(error?.message || "Failed to import. Run the preview again before retrying.");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  // Mismatches, rejected months and sheet problems in one file
+  const handleDownloadReport = () => {
+    if (!selectedGroup || !plans) return;
+    type ReportRow = { section: string; chitMonth: string; member: string; expected?: number; paid?: number; difference?: number; message: string };
+    const rows: ReportRow[] = [
+      ...mismatches.map((m) => ({
+        section: "Mismatch",
+        chitMonth: m.chitMonth,
+        member: m.clientName,
+        expected: m.amountExpected,
+        paid: m.amountPaid,
+        difference: m.difference,
+        message: m.difference < 0 ? "Paid less than expected" : "Paid more than expected",
+      })),
+      ...plans
+        .filter((plan) => plan.errors.length > 0)
+        .map((plan) => ({ section: "Rejected month", chitMonth: plan.chitMonth, member: "", message: plan.errors.join("; ") })),
+      ...issues.map((issue) => ({
+        section: `${issue.sheet} row ${issue.rowNumber}`,
+        chitMonth: "",
+        member: "",
+        message: issue.message,
+      })),
+    ];
+    exportToCsv<ReportRow>({
+      filename: `chit-book-import-${selectedGroup.groupName.replace(/\s+/g, "-").toLowerCase()}-${format(new Date(), "yyyy-MM-dd")}`,
+      title: "Chit Book Import Report",
+      filters: {
+        Group: selectedGroup.groupName,
+        "Auction sheet": auctionSheet?.name || "",
+        "Collection sheet": collectionSheet?.name || "",
+      },
+      columns: [
+        { header: "Section", value: (row) => row.section },
+        { header: "Month", value: (row) => row.chitMonth },
+        { header: "Member", value: (row) => row.member },
+        { header: "Expected", value: (row) => row.expected, type: "currency" },
+        { header: "Paid", value: (row) => row.paid, type: "currency" },
+        { header: "Difference", value: (row) => row.difference, type: "currency" },
+        { header: "Details", value: (row) => row.message },
+      ],
+      rows,
+    });
+  };
+
+  if (!can("manageMasterData")) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold text-gray-800">Import Chit Book History</h1>
+        <div className="card">
+          <p className="text-gray-600">Only managers and administrators can import data.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-gray-800">Import Chit Book History</h1>
+        <Link href="/import" className="btn-secondary">
+          Client Import
+        </Link>
+      </div>
+
+      <div className="card space-y-4">
+        <p className="text-sm text-gray-600">
+          For groups that were already running before they were moved here. The <strong>auction sheet</strong> has
+          one row per past month with Month, Winner and Bid columns (winner &quot;Company Bid&quot; when the company
+          took the month; several winners separated by &quot;;&quot;). The <strong>collection sheet</strong> is the
+          member-by-month grid: member name or phone in the first column, one column per month, and the amount paid
+          in each cell. Months can be written as 2025-04, Apr 2025 or the installment number.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Group</label>
+            <select
+              value={groupId}
+              onChange={(e) => {
+                setGroupId(e.target.value);
+                setPlans(null);
+              }}
+              className="input-field"
+            >
+              <option value="">Select a group</option>
+              {groups.map((group) => (
+                <option key={group.id} value={group.id}>
+                  {group.groupName}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Payment Method for Collections</label>
+            <select
+              value={paymentMethod}
+              onChange={(e) => setPaymentMethod(e.target.value as PaymentLog["paymentMethod"])}
+              className="input-field"
+            >
+              <option value="Cash">Cash</option>
+              <option value="Online">Online</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Auction Sheet (CSV)</label>
+            <input type="file" accept=".csv,text/csv" onChange={handleFileChange(setAuctionSheet)} className="input-field" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Collection Grid (CSV)</label>
+            <input type="file" accept=".csv,text/csv" onChange={handleFileChange(setCollectionSheet)} className="input-field" />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <button
+            onClick={handlePreview}
+            disabled={!selectedGroup || !auctionSheet || !collectionSheet || planning}
+            className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {planning ? "Checking..." : "Preview Import"}
+          </button>
+        </div>
+      </div>
+
+      {plans && (
+        <>
+          <div className="card space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-gray-800">Dry Run</h2>
+              <div className="flex gap-2">
+                <button
+                  onClick={handleDownloadReport}
+                  disabled={mismatches.length === 0 && issues.length === 0 && validPlans.length === plans.length}
+                  className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Download Report
+                </button>
+                <button
+                  onClick={handleImport}
+                  disabled={validPlans.length === 0 || importing}
+                  className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {importing ? "Importing..." : `Import ${validPlans.length} Month(s)`}
+                </button>
+              </div>
+            </div>
+            <p className="text-sm text-gray-600">
+              Nothing has been saved yet. Amounts use the same calculation as auctions recorded in the app. Prize
+              payouts are created as pending; mark the ones already paid on the Payouts page.
+            </p>
+
+            {plans.length === 0 ? (
+              <p className="text-gray-500 text-center py-8">No months found in the auction sheet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-3 px-4 font-semibold text-gray-700">Month</th>
+                      <th className="text-left py-3 px-4 font-semibold text-gray-700">Winner</th>
+                      <th className="text-right py-3 px-4 font-semibold text-gray-700">Bid</th>
+                      <th className="text-right py-3 px-4 font-semibold text-gray-700">Per Chit</th>
+                      <th className="text-right py-3 px-4 font-semibold text-gray-700">Expected</th>
+                      <th className="text-right py-3 px-4 font-semibold text-gray-700">Paid</th>
+                      <th className="text-left py-3 px-4 font-semibold text-gray-700">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {plans.map((plan) => {
+                      const expected = plan.payments.reduce((sum, p) => sum + p.amountExpected, 0);
+                      const paid = plan.payments.reduce((sum, p) => sum + p.amountPaid, 0);
+                      const rejected = plan.errors.length > 0;
+                      return (
+                        <tr
+                          key={plan.chitMonth}
+                          className={`border-b border-gray-100 ${rejected ? "bg-danger-50" : "hover:bg-gray-50"}`}
+                        >
+                          <td className="py-3 px-4 font-medium">
+                            {plan.chitMonth}
+                            <span className="text-xs text-gray-500"> (#{plan.installment})</span>
+                          </td>
+                          <td className="py-3 px-4">{plan.winnerNames.join(", ") || "-"}</td>
+                          <td className="py-3 px-4 text-right">{formatCurrency(plan.bidAmount)}</td>
+                          <td className="py-3 px-4 text-right">{formatCurrency(plan.amounts.perMemberContribution)}</td>
+                          <td className="py-3 px-4 text-right">{formatCurrency(expected)}</td>
+                          <td className={`py-3 px-4 text-right ${paid < expected ? "text-warning-600" : ""}`}>
+                            {formatCurrency(paid)}
+                          </td>
+                          <td className="py-3 px-4 text-sm">
+                            {rejected ? (
+                              <div className="text-danger-600">
+                                {plan.errors.map((message) => (
+                                  <div key={message}>{message}</div>
+                                ))}
+                              </div>
+                            ) : (
+                              <span className="text-success-600 font-medium">Ready</span>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {issues.length > 0 && (
+            <div className="card">
+              <h2 className="text-xl font-semibold text-gray-800 mb-4">Sheet Problems</h2>
+              <ul className="space-y-1 text-sm text-danger-600">
+                {issues.map((issue, index) => (
+                  <li key={index}>
+                    {issue.sheet} row {issue.rowNumber}: {issue.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {mismatches.length > 0 && (
+            <div className="card">
+              <h2 className="text-xl font-semibold text-gray-800 mb-2">Paid vs Expected Mismatches</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                Short payments are imported as partial or pending and remain due.
+              </p>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-3 px-4 font-semibold text-gray-700">Month</th>
+                      <th className="text-left py-3 px-4 font-semibold text-gray-700">Member</th>
+                      <th className="text-right py-3 px-4 font-semibold text-gray-700">Expected</th>
+                      <th className="text-right py-3 px-4 font-semibold text-gray-700">Paid</th>
+                      <th className="text-right py-3 px-4 font-semibold text-gray-700">Difference</th>
+                      <th className="text-left py-3 px-4 font-semibold text-gray-700">Imported</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {mismatches.map((m) => (
+                      <tr key={`${m.chitMonth}_${m.clientName}`} className="border-b border-gray-100 hover:bg-gray-50">
+                        <td className="py-3 px-4">{m.chitMonth}</td>
+                        <td className="py-3 px-4 font-medium">{m.clientName}</td>
+                        <td className="py-3 px-4 text-right">{formatCurrency(m.amountExpected)}</td>
+                        <td className="py-3 px-4 text-right">{formatCurrency(m.amountPaid)}</td>
+                        <td className={`py-3 px-4 text-right ${m.difference < 0 ? "text-warning-600" : "text-danger-600"}`}>
+                          {formatCurrency(m.difference)}
+                        </td>
+                        <td className="py-3 px-4">{m.imported ? "Yes" : "No"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
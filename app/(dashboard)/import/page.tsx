@@ -0,0 +1,367 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { getClients, getGroups, getGroupMembers, commitClientImport } from "@/lib/firestore";
+import {
+  parseCsv,
+  guessClientImportMapping,
+  planClientImport,
+  CLIENT_IMPORT_FIELDS,
+  type ClientImportMapping,
+  type ClientImportRow,
+  type ImportAction,
+} from "@/lib/import";
+import { exportToCsv } from "@/lib/export";
+import toast from "react-hot-toast";
+import { format } from "date-fns";
+import Link from "next/link";
+
+type ImportStep = "upload" | "mapping" | "preview" | "done";
+
+const ACTION_STYLES: Record<ImportAction, string> = {
+  create: "bg-success-100 text-success-700",
+  update: "bg-primary-100 text-primary-700",
+  unchanged: "bg-gray-100 text-gray-600",
+};
+
+export default function ImportPage() {
+  const { user, can } = useAuth();
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ClientImportMapping | null>(null);
+  const [plan, setPlan] = useState<ClientImportRow[]>([]);
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [planning, setPlanning] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState<Awaited<ReturnType<typeof commitClientImport>> | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const rows = parseCsv(await file.text());
+      if (rows.length < 2) {
+        toast.error("The file needs a header row and at least one data row");
+        return;
+      }
+      setFileName(file.name);
+      setHeaders(rows[0].map((header) => header.trim()));
+      setDataRows(rows.slice(1));
+      setMapping(guessClientImportMapping(rows[0]));
+      setStep("mapping");
+    } catch (error: any) {
+      console.error("Error reading import file:", error);
+      toast.error(error?.message || "Failed to read file");
+    } finally {
+      e.target.value = "";
+    }
+  };
+
+  const missingRequiredFields = useMemo(
+    () => CLIENT_IMPORT_FIELDS.filter((field) => field.required && (!mapping || mapping[field.key] < 0)),
+    [mapping]
+  );
+
+  // Dry run: validate against the current clients, groups and memberships
+  const handlePreview = async () => {
+    if (!mapping) return;
+    setPlanning(true);
+    try {
+      const [clients, groups, memberships] = await Promise.all([
+        getClients(user!.uid),
+        getGroups(user!.uid),
+        getGroupMembers(user!.uid),
+      ]);
+      setPlan(planClientImport({ rows: dataRows, mapping, clients, groups, memberships }));
+      setShowErrorsOnly(false);
+      setStep("preview");
+    } catch (error: any) {
+      console.error("Error preparing import:", error);
+      toast.error(error?.message || "Failed to prepare import");
+    } finally {
+      setPlanning(false);
+    }
+  };
+
+  const summary = useMemo(() => {
+    const count = (predicate: (row: ClientImportRow) => boolean) =>
+      plan.filter((row) => row.errors.length === 0 && predicate(row)).length;
+    return {
+      clientsCreated: count((row) => row.clientAction === "create"),
+      clientsUpdated: count((row) => row.clientAction === "update"),
+      membershipsCreated: count((row) => row.membershipAction === "create"),
+      membershipsUpdated: count((row) => row.membershipAction === "update"),
+      valid: count(() => true),
+      rejected: plan.filter((row) => row.errors.length > 0).length,
+    };
+  }, [plan]);
+
+  const visibleRows = useMemo(
+    () => (showErrorsOnly ? plan.filter((row) => row.errors.length > 0) : plan),
+    [plan, showErrorsOnly]
+  );
+
+  const handleImport = async () => {
+    if (summary.valid === 0) return;
+    if (!confirm(`Import ${summary.valid} valid row(s)? Rejected rows will be skipped.`)) return;
+
+    setImporting(true);
+    try {
+      const importResult = await commitClientImport(user!.uid, plan);
+      setResult(importResult);
+      setStep("done");
+      toast.success("Import completed");
+    } catch (error: any) {
+      console.error("Error importing clients:", error);
+      toast.error(error?.message || "Failed to import. Run the preview again before retrying.");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  // Rejected rows as they were in the file, with the reasons appended
+  const handleDownloadErrors = () => {
+    const rejected = plan.filter((row) => row.errors.length > 0);
+    exportToCsv<ClientImportRow>({
+      filename: `import-errors-${format(new Date(), "yyyy-MM-dd")}`,
+      title: "Rejected Import Rows",
+      filters: { File: fileName },
+      columns: [
+        { header: "Row", value: (row) => row.rowNumber, type: "number" },
+        ...headers.map((header, index) => ({ header, value: (row: ClientImportRow) => row.values[index] })),
+        { header: "Errors", value: (row) => row.errors.join("; ") },
+      ],
+      rows: rejected,
+    });
+  };
+
+  const handleReset = () => {
+    setStep("upload");
+    setFileName("");
+    setHeaders([]);
+    setDataRows([]);
+    setMapping(null);
+    setPlan([]);
+    setResult(null);
+  };
+
+  const renderAction = (action: ImportAction | null) =>
+    action ? (
+      <span className={`px-2 py-1 rounded-full text-xs font-semibold capitalize ${ACTION_STYLES[action]}`}>
+        {action}
+      </span>
+    ) : (
+      <span className="text-gray-400">-</span>
+    );
+
+  if (!can("manageMasterData")) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold text-gray-800">Import Clients</h1>
+        <div className="card">
+          <p className="text-gray-600">Only managers and administrators can import data.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-gray-800">Import Clients</h1>
+        <div className="flex gap-2">
+          <Link href="/import/history" className="btn-secondary">
+            Chit Book History
+          </Link>
+          {step !== "upload" && (
+            <button onClick={handleReset} className="btn-secondary">
+              Start Over
+            </button>
+          )}
+        </div>
+      </div>
+
+      {step === "upload" && (
+        <div className="card space-y-4">
+          <h2 className="text-xl font-semibold text-gray-800">1. Upload CSV</h2>
+          <p className="text-sm text-gray-600">
+            One row per client, or per client and group to add memberships. Columns can be in any
+            order and are matched in the next step. Expected columns: {CLIENT_IMPORT_FIELDS.map((f) => f.label).join(", ")}.
+          </p>
+          <input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="input-field" />
+        </div>
+      )}
+
+      {step === "mapping" && mapping && (
+        <div className="card space-y-4">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800">2. Map Columns</h2>
+            <p className="text-sm text-gray-600">
+              {fileName}: {dataRows.length} data row(s)
+            </p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {CLIENT_IMPORT_FIELDS.map((field) => (
+              <div key={field.key}>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {field.label}
+                  {field.required && <span className="text-danger-600"> *</span>}
+                </label>
+                <select
+                  value={mapping[field.key]}
+                  onChange={(e) => setMapping({ ...mapping, [field.key]: parseInt(e.target.value) })}
+                  className="input-field"
+                >
+                  <option value={-1}>Not in file</option>
+                  {headers.map((header, index) => (
+                    <option key={index} value={index}>
+                      {header || `Column ${index + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          {missingRequiredFields.length > 0 && (
+            <p className="text-sm text-danger-600">
+              Map the required fields: {missingRequiredFields.map((f) => f.label).join(", ")}
+            </p>
+          )}
+          <div className="flex justify-end">
+            <button
+              onClick={handlePreview}
+              disabled={missingRequiredFields.length > 0 || planning}
+              className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {planning ? "Checking..." : "Preview Import"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === "preview" && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <div className="card">
+              <p className="text-sm text-gray-600">New Clients</p>
+              <p className="text-2xl font-bold text-success-600">{summary.clientsCreated}</p>
+            </div>
+            <div className="card">
+              <p className="text-sm text-gray-600">Updated Clients</p>
+              <p className="text-2xl font-bold text-primary-600">{summary.clientsUpdated}</p>
+            </div>
+            <div className="card">
+              <p className="text-sm text-gray-600">New Memberships</p>
+              <p className="text-2xl font-bold text-success-600">{summary.membershipsCreated}</p>
+            </div>
+            <div className="card">
+              <p className="text-sm text-gray-600">Updated Memberships</p>
+              <p className="text-2xl font-bold text-primary-600">{summary.membershipsUpdated}</p>
+            </div>
+            <div className="card">
+              <p className="text-sm text-gray-600">Rejected Rows</p>
+              <p className="text-2xl font-bold text-danger-600">{summary.rejected}</p>
+            </div>
+          </div>
+
+          <div className="card space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-gray-800">3. Dry Run</h2>
+              <div className="flex gap-2">
+                <button onClick={() => setStep("mapping")} className="btn-secondary">
+                  Back to Mapping
+                </button>
+                {summary.rejected > 0 && (
+                  <button onClick={handleDownloadErrors} className="btn-secondary">
+                    Download Error Report
+                  </button>
+                )}
+                <button
+                  onClick={handleImport}
+                  disabled={summary.valid === 0 || importing}
+                  className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {importing ? "Importing..." : `Import ${summary.valid} Row(s)`}
+                </button>
+              </div>
+            </div>
+            <p className="text-sm text-gray-600">
+              Nothing has been saved yet. Rejected rows are skipped; fix them in the file and import it again.
+            </p>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={showErrorsOnly}
+                onChange={(e) => setShowErrorsOnly(e.target.checked)}
+              />
+              Show rejected rows only
+            </label>
+
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Row</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Client</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Phone</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Client Action</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Group</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Chits</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Membership Action</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Errors</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.map((row) => {
+                    const rejected = row.errors.length > 0;
+                    return (
+                      <tr
+                        key={row.rowNumber}
+                        className={`border-b border-gray-100 ${rejected ? "bg-danger-50" : "hover:bg-gray-50"}`}
+                      >
+                        <td className="py-3 px-4 text-sm text-gray-500">{row.rowNumber}</td>
+                        <td className="py-3 px-4 font-medium">{row.name || "-"}</td>
+                        <td className="py-3 px-4">{row.phone || "-"}</td>
+                        <td className="py-3 px-4">{rejected ? "-" : renderAction(row.clientAction)}</td>
+                        <td className="py-3 px-4">{row.group?.groupName || "-"}</td>
+                        <td className="py-3 px-4">{row.group ? row.chitCount : "-"}</td>
+                        <td className="py-3 px-4">{rejected ? "-" : renderAction(row.membershipAction)}</td>
+                        <td className="py-3 px-4 text-sm text-danger-600">
+                          {row.errors.map((message) => (
+                            <div key={message}>{message}</div>
+                          ))}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+
+      {step === "done" && result && (
+        <div className="card space-y-4">
+          <h2 className="text-xl font-semibold text-gray-800">Import Complete</h2>
+          <ul className="text-gray-700 space-y-1">
+            <li>Clients created: {result.clientsCreated}</li>
+            <li>Clients updated: {result.clientsUpdated}</li>
+            <li>Memberships created: {result.membershipsCreated}</li>
+            <li>Memberships updated: {result.membershipsUpdated}</li>
+            <li>Rows rejected: {summary.rejected}</li>
+          </ul>
+          {summary.rejected > 0 && (
+            <button onClick={handleDownloadErrors} className="btn-secondary">
+              Download Error Report
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
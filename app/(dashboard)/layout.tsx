@@ -1,17 +1,21 @@
 "use client";
 
 import { useAuth } from "@/contexts/AuthContext";
+import { useBranch } from "@/contexts/BranchContext";
 import { useRouter } from "next/navigation";
 import { useEffect } from "react";
 import Sidebar from "@/components/layout/Sidebar";
 import Header from "@/components/layout/Header";
+import PendingApproval from "@/components/layout/PendingApproval";
+import NoBranch from "@/components/layout/NoBranch";
 
 export default function DashboardLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
-  const { user, loading } = useAuth();
+  const { user, role, loading } = useAuth();
+  const { branch, loading: branchLoading } = useBranch();
   const router = useRouter();
 
   useEffect(() => {
@@ -20,7 +24,7 @@ export default function DashboardLayout({
     }
   }, [user, loading, router]);
 
-  if (loading) {
+  if (loading || (role && branchLoading)) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-50 via-white to-gray-50">
         <div className="text-center">
@@ -40,12 +44,24 @@ export default function DashboardLayout({
     return null;
   }
 
+  // Registered but not approved yet: no access to the books
+  if (!role) {
+    return <PendingApproval />;
+  }
+
+  if (!branch) {
+    return <NoBranch />;
+  }
+
   return (
     <div className="flex min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-50">
       <Sidebar />
       <div className="flex-1 flex flex-col overflow-hidden">
         <Header />
-        <main className="flex-1 p-6 overflow-y-auto">{children}</main>
+        {/* Keyed by branch so every page reloads its data after a switch */}
+        <main key={branch.id} className="flex-1 p-6 overflow-y-auto">
+          {children}
+        </main>
       </div>
     </div>
   );
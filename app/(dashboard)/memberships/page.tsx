@@ -13,11 +13,14 @@ import {
 } from "@/lib/firestore";
 import type { GroupMember, Client, Group } from "@/types";
 import toast from "react-hot-toast";
+import { format } from "date-fns";
 import { formatDate } from "@/lib/utils";
+import { exportRows, type ExportFormat } from "@/lib/export";
+import ExportButtons from "@/components/common/ExportButtons";
 import Link from "next/link";
 
 export default function MembershipsPage() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [memberships, setMemberships] = useState<GroupMember[]>([]);
   const [allClients, setAllClients] = useState<Client[]>([]);
   const [allGroups, setAllGroups] = useState<Group[]>([]);
@@ -257,6 +260,30 @@ export default function MembershipsPage() {
     currentPage * itemsPerPage
   );
 
+  const handleExport = (exportFormat: ExportFormat) => {
+    exportRows(exportFormat, {
+      filename: `memberships-${format(new Date(), "yyyy-MM-dd")}`,
+      title: "Memberships",
+      filters: {
+        ...(searchTerm && { Search: searchTerm }),
+        ...(groupFilter !== "all" && {
+          Group: allGroups.find((g) => g.id === groupFilter)?.groupName || groupFilter,
+        }),
+        ...(clientFilter !== "all" && {
+          Client: allClients.find((c) => c.id === clientFilter)?.name || clientFilter,
+        }),
+      },
+      columns: [
+        { header: "Client", value: (m) => m.clientName },
+        { header: "Group", value: (m) => m.groupName },
+        { header: "Chit Count", value: (m) => m.chitCount, type: "number" },
+        { header: "Notes", value: (m) => m.notes },
+        { header: "Joined", value: (m) => m.createdAt },
+      ],
+      rows: filteredAndSortedMemberships,
+    });
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -269,9 +296,14 @@ export default function MembershipsPage() {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold text-gray-800">Memberships</h1>
-        <button onClick={() => handleOpenModal()} className="btn-primary">
-          + Add Membership
-        </button>
+        <div className="flex gap-2">
+          <ExportButtons onExport={handleExport} disabled={filteredAndSortedMemberships.length === 0} />
+          {can("manageMasterData") && (
+            <button onClick={() => handleOpenModal()} className="btn-primary">
+              + Add Membership
+            </button>
+          )}
+        </div>
       </div>
 
       <div className="card">
@@ -422,18 +454,22 @@ export default function MembershipsPage() {
                       </td>
                       <td className="py-3 px-4">
                         <div className="flex gap-2">
-                          <button
-                            onClick={() => handleOpenModal(membership)}
-                            className="text-primary-600 hover:text-primary-700 font-medium"
-                          >
-                            Edit
-                          </button>
-                          <button
-                            onClick={() => handleDeleteClick(membership)}
-                            className="text-danger-600 hover:text-danger-700 font-medium"
-                          >
-                            Delete
-                          </button>
+                          {can("manageMasterData") && (
+                            <button
+                              onClick={() => handleOpenModal(membership)}
+                              className="text-primary-600 hover:text-primary-700 font-medium"
+                            >
+                              Edit
+                            </button>
+                          )}
+                          {can("deleteRecords") && (
+                            <button
+                              onClick={() => handleDeleteClick(membership)}
+                              className="text-danger-600 hover:text-danger-700 font-medium"
+                            >
+                              Delete
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -2,18 +2,34 @@
 
 import { useEffect, useState, useMemo } from "react";
 import { useAuth } from "@/contexts/AuthContext";
-import { getPayments, getPaymentLogs, updatePayment, createPaymentLog, getGroupMembers } from "@/lib/firestore";
-import type { Payment, PaymentLog, GroupMember } from "@/types";
+import {
+  getPayments,
+  getPaymentLogs,
+  recordPayment,
+  getGroupMembers,
+  accruePenaltyCharges,
+  getPenaltyCharges,
+  recordPenaltyPayment,
+  waivePenaltyCharge,
+  getReceiptLogs,
+  markReceiptPrinted,
+} from "@/lib/firestore";
+import { printReceipt } from "@/lib/receipt";
+import { exportRows, type ExportFormat } from "@/lib/export";
+import ExportButtons from "@/components/common/ExportButtons";
+import type { Payment, PaymentLog, GroupMember, PenaltyCharge } from "@/types";
 import toast from "react-hot-toast";
-import { formatDate, formatCurrency, isOverdue } from "@/lib/utils";
+import { format } from "date-fns";
+import { formatDate, formatCurrency, isOverdue, getPaymentLogReversals } from "@/lib/utils";
 import { Timestamp } from "firebase/firestore";
 
 type SortField = "clientName" | "groupName" | "chitMonth" | "amountExpected" | "amountPaid" | "pendingAmount" | "paymentDueDate" | "status";
 type SortDirection = "asc" | "desc";
 
 export default function PaymentsPage() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [allPayments, setAllPayments] = useState<Payment[]>([]);
+  const [penaltyCharges, setPenaltyCharges] = useState<PenaltyCharge[]>([]);
   const [paidPaymentLogs, setPaidPaymentLogs] = useState<PaymentLog[]>([]);
   const [loading, setLoading] = useState(true);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
@@ -22,6 +38,17 @@ export default function PaymentsPage() {
     amount: "",
     isOnline: false,
     paymentDate: new Date().toISOString().split("T")[0],
+    penaltyAmount: "",
+    printReceipt: true,
+  });
+  // Penalty collection and waiver
+  const [selectedCharge, setSelectedCharge] = useState<PenaltyCharge | null>(null);
+  const [penaltyAction, setPenaltyAction] = useState<"collect" | "waive" | null>(null);
+  const [penaltyForm, setPenaltyForm] = useState({
+    amount: "",
+    isOnline: false,
+    paymentDate: new Date().toISOString().split("T")[0],
+    reason: "",
   });
 
   // Filter and search states
@@ -56,15 +83,35 @@ export default function PaymentsPage() {
   const loadData = async () => {
     try {
       setLoading(true);
-      const [paymentsData, logsData] = await Promise.all([
+      // Bring late-payment penalties up to date before showing dues
+      if (can("recordPayments")) {
+        try {
+          await accruePenaltyCharges(user!.uid);
+        } catch (error: any) {
+          console.error("Error accruing penalties:", error);
+          toast.error(error?.message || "Failed to update penalties");
+        }
+      }
+      const [paymentsData, logsData, chargesData] = await Promise.all([
         getPayments(user!.uid),
         getPaymentLogs(user!.uid),
+        getPenaltyCharges(user!.uid),
       ]);
       setAllPayments(paymentsData);
+      setPenaltyCharges(chargesData);
       // Get latest payment log for each payment (paid payments only)
       const paidPayments = paymentsData.filter(p => p.status === "Paid");
+      const reversals = getPaymentLogReversals(logsData);
       const paidLogs = paidPayments.map(payment => {
-        const paymentLogs = logsData.filter(log => log.paymentId === payment.id);
+        // Penalty collections are listed with the penalties, not as installment payments;
+        // reversals and the receipts they cancel did not settle the payment
+        const paymentLogs = logsData.filter(
+          log =>
+            log.paymentId === payment.id &&
+            !log.penaltyChargeId &&
+            !log.reversalOf &&
+            !reversals.has(log.id)
+        );
         // Get the latest payment log for this payment
         const latestLog = paymentLogs.sort((a, b) => 
           b.paymentDate.toMillis() - a.paymentDate.toMillis()
@@ -262,6 +309,51 @@ export default function PaymentsPage() {
     return filtered;
   }, [paidPaymentLogs, statusFilter, groupFilter, clientFilter, monthFilter, searchQuery]);
 
+  // Sort paid payment logs
+  const sortedPaidLogs = useMemo(() => {
+    return [...filteredPaidLogs].sort((a, b) => {
+      let aValue: any;
+      let bValue: any;
+
+      switch (paidSortField) {
+        case "clientName":
+          aValue = a.clientName.toLowerCase();
+          bValue = b.clientName.toLowerCase();
+          break;
+        case "groupName":
+          aValue = a.groupName.toLowerCase();
+          bValue = b.groupName.toLowerCase();
+          break;
+        case "chitMonth":
+          aValue = a.chitMonth;
+          bValue = b.chitMonth;
+          break;
+        case "amountPaid":
+          aValue = a.amountPaid;
+          bValue = b.amountPaid;
+          break;
+        case "paymentMethod":
+          aValue = (a.paymentMethod || "Cash").toLowerCase();
+          bValue = (b.paymentMethod || "Cash").toLowerCase();
+          break;
+        case "paymentDate":
+          aValue = a.paymentDate.toMillis();
+          bValue = b.paymentDate.toMillis();
+          break;
+        default:
+          return 0;
+      }
+
+      if (typeof aValue === "string" && typeof bValue === "string") {
+        return paidSortDirection === "asc"
+          ? aValue.localeCompare(bValue)
+          : bValue.localeCompare(aValue);
+      }
+
+      return paidSortDirection === "asc" ? aValue - bValue : bValue - aValue;
+    });
+  }, [filteredPaidLogs, paidSortField, paidSortDirection]);
+
   // Reset to page 1 when filters change
   useEffect(() => {
     setCurrentPage(1);
@@ -294,12 +386,21 @@ export default function PaymentsPage() {
     </button>
   );
 
+  const getPendingPenalty = (paymentId: string): number =>
+    penaltyCharges.find((charge) => charge.paymentId === paymentId)?.pendingAmount || 0;
+
+  const outstandingCharges = penaltyCharges.filter((charge) => charge.pendingAmount > 0);
+  const closedCharges = penaltyCharges.filter((charge) => charge.pendingAmount <= 0);
+
   const handleOpenPaymentModal = (payment: Payment) => {
+    const pendingPenalty = getPendingPenalty(payment.id);
     setSelectedPayment(payment);
     setPaymentData({
       amount: payment.pendingAmount.toString(),
       isOnline: false,
       paymentDate: new Date().toISOString().split("T")[0],
+      penaltyAmount: pendingPenalty > 0 ? pendingPenalty.toString() : "",
+      printReceipt: true,
     });
     setShowPaymentModal(true);
   };
@@ -307,7 +408,114 @@ export default function PaymentsPage() {
   const handleClosePaymentModal = () => {
     setShowPaymentModal(false);
     setSelectedPayment(null);
-    setPaymentData({ amount: "", isOnline: false, paymentDate: new Date().toISOString().split("T")[0] });
+    setPaymentData({ amount: "", isOnline: false, paymentDate: new Date().toISOString().split("T")[0], penaltyAmount: "", printReceipt: true });
+  };
+
+  const handleOpenPenaltyModal = (charge: PenaltyCharge, action: "collect" | "waive") => {
+    setSelectedCharge(charge);
+    setPenaltyAction(action);
+    setPenaltyForm({
+      amount: charge.pendingAmount.toString(),
+      isOnline: false,
+      paymentDate: new Date().toISOString().split("T")[0],
+      reason: "",
+    });
+  };
+
+  const handleClosePenaltyModal = () => {
+    setSelectedCharge(null);
+    setPenaltyAction(null);
+  };
+
+  const handlePenaltySubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedCharge) return;
+
+    try {
+      if (penaltyAction === "waive") {
+        await waivePenaltyCharge(user!.uid, selectedCharge.id, penaltyForm.reason);
+        toast.success("Penalty waived");
+      } else {
+        await recordPenaltyPayment(user!.uid, selectedCharge.id, {
+          amount: parseFloat(penaltyForm.amount),
+          paymentDate: Timestamp.fromDate(new Date(penaltyForm.paymentDate)),
+          paymentMethod: penaltyForm.isOnline ? "Online" : "Cash",
+          collectorName,
+        });
+        toast.success("Penalty collected");
+      }
+      handleClosePenaltyModal();
+      loadData();
+    } catch (error: any) {
+      console.error("Error updating penalty:", error);
+      toast.error(error?.message || "Failed to update penalty");
+    }
+  };
+
+  // Active filters, written above exported tables
+  const getExportFilters = (): Record<string, string> => ({
+    ...(searchQuery && { Search: searchQuery }),
+    ...(statusFilter !== "all" && { Status: statusFilter }),
+    ...(monthFilter !== "all" && { Month: monthFilter }),
+    ...(groupFilter !== "all" && { Group: groupFilter }),
+    ...(clientFilter !== "all" && { Client: clientFilter }),
+  });
+
+  const handleExportPending = (exportFormat: ExportFormat) => {
+    exportRows(exportFormat, {
+      filename: `pending-payments-${format(new Date(), "yyyy-MM-dd")}`,
+      title: "Pending & Partial Payments",
+      filters: { ...getExportFilters(), "Sorted by": `${sortField} (${sortDirection})` },
+      columns: [
+        { header: "Client", value: (p) => p.clientName },
+        { header: "Group", value: (p) => p.groupName },
+        { header: "Month", value: (p) => p.chitMonth },
+        { header: "Total Due", value: (p) => p.amountExpected, type: "currency" },
+        { header: "Paid", value: (p) => p.amountPaid, type: "currency" },
+        { header: "Pending", value: (p) => p.pendingAmount, type: "currency" },
+        { header: "Penalty", value: (p) => getPendingPenalty(p.id), type: "currency" },
+        { header: "Due Date", value: (p) => p.paymentDueDate },
+        { header: "Status", value: (p) => p.status },
+      ],
+      rows: pendingPayments,
+    });
+  };
+
+  const handleExportPaid = (exportFormat: ExportFormat) => {
+    exportRows(exportFormat, {
+      filename: `paid-payments-${format(new Date(), "yyyy-MM-dd")}`,
+      title: "Paid Payments",
+      filters: { ...getExportFilters(), "Sorted by": `${paidSortField} (${paidSortDirection})` },
+      columns: [
+        { header: "Client", value: (log) => log.clientName },
+        { header: "Group", value: (log) => log.groupName },
+        { header: "Auction Month", value: (log) => log.chitMonth },
+        { header: "Payment Amount", value: (log) => log.amountPaid, type: "currency" },
+        { header: "Payment Method", value: (log) => log.paymentMethod || "Cash" },
+        { header: "Payment Date", value: (log) => log.paymentDate },
+        { header: "Receipt No", value: (log) => log.receiptNumber },
+      ],
+      rows: sortedPaidLogs,
+    });
+  };
+
+  // Name printed as the collector on receipts
+  const collectorName = user?.displayName || user?.email || "";
+
+  const handlePrintReceipt = async (log: PaymentLog, printWindow?: Window | null) => {
+    // Open the window before awaiting so the browser does not block it
+    const receiptWindow = printWindow ?? window.open("", "_blank");
+    if (!receiptWindow) return;
+
+    try {
+      const receiptLogs = await getReceiptLogs(user!.uid, log);
+      const duplicate = await markReceiptPrinted(user!.uid, receiptLogs.map((l) => l.id));
+      printReceipt(receiptWindow, receiptLogs, { duplicate });
+    } catch (error: any) {
+      receiptWindow.close();
+      console.error("Error printing receipt:", error);
+      toast.error(error?.message || "Failed to print receipt");
+    }
   };
 
   const handleMakePayment = async (e: React.FormEvent) => {
@@ -326,41 +534,49 @@ export default function PaymentsPage() {
       return;
     }
 
-    try {
-      const newAmountPaid = selectedPayment.amountPaid + amountPaid;
-      const newPendingAmount = selectedPayment.pendingAmount - amountPaid;
-      let newStatus: "Pending" | "Partial" | "Paid" = "Partial";
-
-      if (newPendingAmount <= 0) {
-        newStatus = "Paid";
-      } else if (newAmountPaid === 0) {
-        newStatus = "Pending";
-      }
+    const penaltyAmount = parseFloat(paymentData.penaltyAmount) || 0;
+    const pendingPenalty = getPendingPenalty(selectedPayment.id);
+    if (penaltyAmount < 0 || penaltyAmount > pendingPenalty) {
+      toast.error("Penalty amount cannot exceed the pending penalty");
+      return;
+    }
 
-      // Update payment
-      await updatePayment(user!.uid, selectedPayment.id, {
-        amountPaid: newAmountPaid,
-        pendingAmount: Math.max(0, newPendingAmount),
-        status: newStatus,
-      });
+    const printWindow = paymentData.printReceipt ? window.open("", "_blank") : null;
 
-      // Create payment log with specified payment date
+    try {
+      // Payment update, receipt number and payment log are written in one
+      // transaction, validated against the live pending amount
       const paymentTimestamp = Timestamp.fromDate(new Date(paymentData.paymentDate));
-      await createPaymentLog(user!.uid, {
-        paymentId: selectedPayment.id,
-        clientId: selectedPayment.clientId,
-        clientName: selectedPayment.clientName,
-        groupName: selectedPayment.groupName,
-        chitMonth: selectedPayment.chitMonth,
-        amountPaid,
+      const logId = await recordPayment(user!.uid, selectedPayment.id, {
+        amount: amountPaid,
         paymentDate: paymentTimestamp,
         paymentMethod: paymentData.isOnline ? "Online" : "Cash",
+        collectorName,
       });
 
+      if (penaltyAmount > 0) {
+        await recordPenaltyPayment(user!.uid, selectedPayment.id, {
+          amount: penaltyAmount,
+          paymentDate: paymentTimestamp,
+          paymentMethod: paymentData.isOnline ? "Online" : "Cash",
+          collectorName,
+        });
+      }
+
       toast.success("Payment recorded successfully");
+      if (printWindow) {
+        const logs = await getPaymentLogs(user!.uid, { paymentId: selectedPayment.id });
+        const log = logs.find((l) => l.id === logId);
+        if (log) {
+          await handlePrintReceipt(log, printWindow);
+        } else {
+          printWindow.close();
+        }
+      }
       handleClosePaymentModal();
       loadData();
     } catch (error: any) {
+      printWindow?.close();
       console.error("Error recording payment:", error);
       const errorMessage = error?.message || "Failed to record payment";
       toast.error(errorMessage);
@@ -508,7 +724,10 @@ export default function PaymentsPage() {
 
       {/* Pending Payments Table */}
       <div className="card">
-        <h2 className="text-xl font-semibold text-gray-800 mb-4">Pending & Partial Payments</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-800">Pending & Partial Payments</h2>
+          <ExportButtons onExport={handleExportPending} disabled={pendingPayments.length === 0} />
+        </div>
         {pendingPayments.length === 0 ? (
           <p className="text-gray-500 text-center py-8">No pending payments found.</p>
         ) : (
@@ -535,6 +754,7 @@ export default function PaymentsPage() {
                     <th className="text-left py-3 px-4 font-semibold text-gray-700">
                       <SortButton field="pendingAmount">Pending</SortButton>
                     </th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Penalty</th>
                     <th className="text-left py-3 px-4 font-semibold text-gray-700">
                       <SortButton field="paymentDueDate">Due Date</SortButton>
                     </th>
@@ -562,6 +782,13 @@ export default function PaymentsPage() {
                         <td className={`py-3 px-4 font-semibold ${overdue ? "text-danger-600" : ""}`}>
                           {formatCurrency(payment.pendingAmount)}
                         </td>
+                        <td className="py-3 px-4">
+                          {getPendingPenalty(payment.id) > 0 ? (
+                            <span className="text-danger-600">{formatCurrency(getPendingPenalty(payment.id))}</span>
+                          ) : (
+                            <span className="text-gray-400">-</span>
+                          )}
+                        </td>
                         <td
                           className={`py-3 px-4 ${overdue ? "text-danger-600 font-semibold" : ""}`}
                         >
@@ -581,7 +808,7 @@ export default function PaymentsPage() {
                           </span>
                         </td>
                         <td className="py-3 px-4">
-                          {payment.status !== "Paid" && (
+                          {payment.status !== "Paid" && can("recordPayments") && (
                             <button
                               onClick={() => handleOpenPaymentModal(payment)}
                               className="btn-primary text-sm py-1 px-3"
@@ -664,58 +891,92 @@ export default function PaymentsPage() {
         )}
       </div>
 
+      {/* Penalties Section */}
+      {penaltyCharges.length > 0 && (
+        <div className="card">
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">Late Payment Penalties</h2>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Client</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Group</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Month</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Charged</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Collected</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Pending</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Status</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...outstandingCharges, ...closedCharges].map((charge) => (
+                  <tr key={charge.id} className="border-b border-gray-100 hover:bg-gray-50">
+                    <td className="py-3 px-4 font-medium">{charge.clientName}</td>
+                    <td className="py-3 px-4">{charge.groupName}</td>
+                    <td className="py-3 px-4">{charge.chitMonth}</td>
+                    <td className="py-3 px-4">{formatCurrency(charge.amount)}</td>
+                    <td className="py-3 px-4">{formatCurrency(charge.amountPaid)}</td>
+                    <td className={`py-3 px-4 font-semibold ${charge.pendingAmount > 0 ? "text-danger-600" : ""}`}>
+                      {formatCurrency(charge.pendingAmount)}
+                    </td>
+                    <td className="py-3 px-4">
+                      <span
+                        className={`px-2 py-1 rounded-full text-xs font-medium ${
+                          charge.status === "Paid"
+                            ? "bg-success-100 text-success-800"
+                            : charge.status === "Partial"
+                            ? "bg-warning-100 text-warning-800"
+                            : "bg-gray-100 text-gray-800"
+                        }`}
+                        title={charge.status === "Waived" ? `Waived: ${charge.waivedReason}` : undefined}
+                      >
+                        {charge.status}
+                      </span>
+                      {charge.status === "Waived" && (
+                        <p className="text-xs text-gray-500 mt-1">{charge.waivedReason}</p>
+                      )}
+                    </td>
+                    <td className="py-3 px-4">
+                      {charge.pendingAmount > 0 && can("recordPayments") && (
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => handleOpenPenaltyModal(charge, "collect")}
+                            className="btn-primary text-sm py-1 px-3"
+                          >
+                            Collect
+                          </button>
+                          {can("waivePenalties") && (
+                            <button
+                              onClick={() => handleOpenPenaltyModal(charge, "waive")}
+                              className="btn-secondary text-sm py-1 px-3"
+                            >
+                              Waive
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Paid Payments Section */}
       <div className="card">
-        <h2 className="text-xl font-semibold text-gray-800 mb-4">Paid Payments</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-800">Paid Payments</h2>
+          <ExportButtons onExport={handleExportPaid} disabled={sortedPaidLogs.length === 0} />
+        </div>
         {filteredPaidLogs.length === 0 ? (
           <p className="text-gray-500 text-center py-8">No paid payments found.</p>
         ) : (
           <>
-            {/* Sort and paginate paid payments */}
+            {/* Paginate paid payments */}
             {(() => {
-              // Sort paid payment logs
-              const sortedPaidLogs = [...filteredPaidLogs].sort((a, b) => {
-                let aValue: any;
-                let bValue: any;
-
-                switch (paidSortField) {
-                  case "clientName":
-                    aValue = a.clientName.toLowerCase();
-                    bValue = b.clientName.toLowerCase();
-                    break;
-                  case "groupName":
-                    aValue = a.groupName.toLowerCase();
-                    bValue = b.groupName.toLowerCase();
-                    break;
-                  case "chitMonth":
-                    aValue = a.chitMonth;
-                    bValue = b.chitMonth;
-                    break;
-                  case "amountPaid":
-                    aValue = a.amountPaid;
-                    bValue = b.amountPaid;
-                    break;
-                  case "paymentMethod":
-                    aValue = (a.paymentMethod || "Cash").toLowerCase();
-                    bValue = (b.paymentMethod || "Cash").toLowerCase();
-                    break;
-                  case "paymentDate":
-                    aValue = a.paymentDate.toMillis();
-                    bValue = b.paymentDate.toMillis();
-                    break;
-                  default:
-                    return 0;
-                }
-
-                if (typeof aValue === "string" && typeof bValue === "string") {
-                  return paidSortDirection === "asc"
-                    ? aValue.localeCompare(bValue)
-                    : bValue.localeCompare(aValue);
-                }
-
-                return paidSortDirection === "asc" ? aValue - bValue : bValue - aValue;
-              });
-
               // Paginate sorted logs
               const paidTotalPages = Math.ceil(sortedPaidLogs.length / itemsPerPage);
               const paginatedPaidLogs = sortedPaidLogs.slice(
@@ -771,6 +1032,7 @@ export default function PaymentsPage() {
                           <th className="text-left py-3 px-4 font-semibold text-gray-700">
                             <PaidSortButton field="paymentDate">Payment Date</PaidSortButton>
                           </th>
+                          <th className="text-left py-3 px-4 font-semibold text-gray-700">Receipt</th>
                         </tr>
                       </thead>
                       <tbody>
@@ -785,6 +1047,8 @@ export default function PaymentsPage() {
                                 className={`px-2.5 py-1 rounded-full text-xs font-semibold inline-flex items-center ${
                                   log.paymentMethod === "Online"
                                     ? "bg-primary-100 text-primary-800"
+                                    : log.paymentMethod === "Adjusted from payout"
+                                    ? "bg-warning-100 text-warning-800"
                                     : "bg-success-100 text-success-800"
                                 }`}
                               >
@@ -792,6 +1056,21 @@ export default function PaymentsPage() {
                               </span>
                             </td>
                             <td className="py-3 px-4 text-gray-600">{formatDate(log.paymentDate)}</td>
+                            <td className="py-3 px-4">
+                              {log.receiptNumber && !can("recordPayments") ? (
+                                <span className="text-gray-600 text-sm">{log.receiptNumber}</span>
+                              ) : log.receiptNumber ? (
+                                <button
+                                  onClick={() => handlePrintReceipt(log)}
+                                  className="text-primary-600 hover:text-primary-700 text-sm font-medium"
+                                  title="Reprints are marked DUPLICATE"
+                                >
+                                  {log.receiptNumber}
+                                </button>
+                              ) : (
+                                <span className="text-gray-400">-</span>
+                              )}
+                            </td>
                           </tr>
                         ))}
                       </tbody>
@@ -897,6 +1176,25 @@ export default function PaymentsPage() {
                   Maximum: {formatCurrency(selectedPayment.pendingAmount)}
                 </p>
               </div>
+              {getPendingPenalty(selectedPayment.id) > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Penalty Collected
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max={getPendingPenalty(selectedPayment.id)}
+                    step="0.01"
+                    value={paymentData.penaltyAmount}
+                    onChange={(e) => setPaymentData({ ...paymentData, penaltyAmount: e.target.value })}
+                    className="input-field"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Late payment penalty due: {formatCurrency(getPendingPenalty(selectedPayment.id))}
+                  </p>
+                </div>
+              )}
               <div className="flex items-center">
                 <input
                   type="checkbox"
@@ -911,6 +1209,20 @@ export default function PaymentsPage() {
                   Online Payment
                 </label>
               </div>
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="printReceipt"
+                  checked={paymentData.printReceipt}
+                  onChange={(e) =>
+                    setPaymentData({ ...paymentData, printReceipt: e.target.checked })
+                  }
+                  className="w-4 h-4 text-primary-600 rounded focus:ring-primary-500"
+                />
+                <label htmlFor="printReceipt" className="ml-2 text-sm text-gray-700">
+                  Print receipt
+                </label>
+              </div>
               <div className="flex gap-3 pt-4">
                 <button type="submit" className="btn-primary flex-1">
                   Record Payment
@@ -927,6 +1239,91 @@ export default function PaymentsPage() {
           </div>
         </div>
       )}
+
+      {/* Collect / Waive Penalty Modal */}
+      {selectedCharge && penaltyAction && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+            <h2 className="text-2xl font-bold text-gray-800 mb-4">
+              {penaltyAction === "waive" ? "Waive Penalty" : "Collect Penalty"}
+            </h2>
+            <div className="mb-4 p-4 bg-gray-50 rounded-lg">
+              <p className="text-sm text-gray-600 mb-1">Client: {selectedCharge.clientName}</p>
+              <p className="text-sm text-gray-600 mb-1">Group: {selectedCharge.groupName}</p>
+              <p className="text-sm text-gray-600 mb-1">Month: {selectedCharge.chitMonth}</p>
+              <p className="text-sm font-semibold text-gray-800 mt-2">
+                Pending Penalty: {formatCurrency(selectedCharge.pendingAmount)}
+              </p>
+            </div>
+            <form onSubmit={handlePenaltySubmit} className="space-y-4">
+              {penaltyAction === "waive" ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Reason *</label>
+                  <textarea
+                    required
+                    rows={3}
+                    value={penaltyForm.reason}
+                    onChange={(e) => setPenaltyForm({ ...penaltyForm, reason: e.target.value })}
+                    className="input-field"
+                  />
+                </div>
+              ) : (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Payment Date *
+                    </label>
+                    <input
+                      type="date"
+                      required
+                      value={penaltyForm.paymentDate}
+                      onChange={(e) => setPenaltyForm({ ...penaltyForm, paymentDate: e.target.value })}
+                      className="input-field"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Amount *</label>
+                    <input
+                      type="number"
+                      required
+                      min="0.01"
+                      max={selectedCharge.pendingAmount}
+                      step="0.01"
+                      value={penaltyForm.amount}
+                      onChange={(e) => setPenaltyForm({ ...penaltyForm, amount: e.target.value })}
+                      className="input-field"
+                    />
+                  </div>
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      id="penaltyIsOnline"
+                      checked={penaltyForm.isOnline}
+                      onChange={(e) => setPenaltyForm({ ...penaltyForm, isOnline: e.target.checked })}
+                      className="w-4 h-4 text-primary-600 rounded focus:ring-primary-500"
+                    />
+                    <label htmlFor="penaltyIsOnline" className="ml-2 text-sm text-gray-700">
+                      Online Payment
+                    </label>
+                  </div>
+                </>
+              )}
+              <div className="flex gap-3 pt-4">
+                <button type="submit" className="btn-primary flex-1">
+                  {penaltyAction === "waive" ? "Waive Penalty" : "Record Collection"}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleClosePenaltyModal}
+                  className="btn-secondary flex-1"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,707 @@
+"use client";
+
+import { useEffect, useState, useMemo } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { getPayouts, getOutstandingPayments, recordPayoutDisbursement } from "@/lib/firestore";
+import type { Payment, Payout } from "@/types";
+import toast from "react-hot-toast";
+import { formatDate, formatCurrency } from "@/lib/utils";
+import { Timestamp } from "firebase/firestore";
+import Pagination from "@/components/common/Pagination";
+import SortButton from "@/components/common/SortButton";
+
+type PayoutSortField = "clientName" | "groupName" | "chitMonth" | "amount" | "payoutDate";
+
+export default function PayoutsPage() {
+  const { user, can } = useAuth();
+  const [payouts, setPayouts] = useState<Payout[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Filter states
+  const [searchTerm, setSearchTerm] = useState("");
+  const [groupFilter, setGroupFilter] = useState("all");
+
+  // Sorting and pagination
+  const [sortField, setSortField] = useState<PayoutSortField>("chitMonth");
+  const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
+  const [pendingCurrentPage, setPendingCurrentPage] = useState(1);
+  const [paidCurrentPage, setPaidCurrentPage] = useState(1);
+  const itemsPerPage = 10;
+
+  // Disbursement modal
+  const [showModal, setShowModal] = useState(false);
+  const [selectedPayout, setSelectedPayout] = useState<Payout | null>(null);
+  const [processing, setProcessing] = useState(false);
+  const [formData, setFormData] = useState({
+    payoutDate: new Date().toISOString().split("T")[0],
+    method: "Cash" as NonNullable<Payout["method"]>,
+    referenceNumber: "",
+  });
+  // Winner's unpaid dues across all groups and the amount to deduct from each
+  const [outstandingPayments, setOutstandingPayments] = useState<Payment[]>([]);
+  const [loadingArrears, setLoadingArrears] = useState(false);
+  const [deductions, setDeductions] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    if (user) {
+      loadPayouts();
+    }
+  }, [user]);
+
+  const loadPayouts = async () => {
+    try {
+      setLoading(true);
+      const data = await getPayouts(user!.uid);
+      setPayouts(data);
+    } catch (error: any) {
+      console.error("Error loading payouts:", error);
+      toast.error(error?.message || "Failed to load payouts");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const uniqueGroups = useMemo(() => {
+    return [...new Set(payouts.map((payout) => payout.groupName))].sort();
+  }, [payouts]);
+
+  // Filter and sort payouts
+  const filteredAndSortedPayouts = useMemo(() => {
+    const filtered = payouts.filter((payout) => {
+      if (groupFilter !== "all" && payout.groupName !== groupFilter) {
+        return false;
+      }
+      if (searchTerm) {
+        const query = searchTerm.toLowerCase();
+        return (
+          payout.clientName.toLowerCase().includes(query) ||
+          payout.groupName.toLowerCase().includes(query) ||
+          payout.chitMonth.toLowerCase().includes(query) ||
+          payout.referenceNumber.toLowerCase().includes(query)
+        );
+      }
+      return true;
+    });
+
+    filtered.sort((a, b) => {
+      let aValue: any;
+      let bValue: any;
+
+      switch (sortField) {
+        case "clientName":
+          aValue = a.clientName.toLowerCase();
+          bValue = b.clientName.toLowerCase();
+          break;
+        case "groupName":
+          aValue = a.groupName.toLowerCase();
+          bValue = b.groupName.toLowerCase();
+          break;
+        case "chitMonth":
+          aValue = a.chitMonth;
+          bValue = b.chitMonth;
+          break;
+        case "amount":
+          aValue = a.amount;
+          bValue = b.amount;
+          break;
+        case "payoutDate":
+          aValue = a.payoutDate?.toMillis() || 0;
+          bValue = b.payoutDate?.toMillis() || 0;
+          break;
+        default:
+          return 0;
+      }
+
+      if (typeof aValue === "string" && typeof bValue === "string") {
+        return sortDirection === "asc"
+          ? aValue.localeCompare(bValue)
+          : bValue.localeCompare(aValue);
+      }
+
+      return sortDirection === "asc" ? aValue - bValue : bValue - aValue;
+    });
+
+    return filtered;
+  }, [payouts, searchTerm, groupFilter, sortField, sortDirection]);
+
+  const pendingPayouts = filteredAndSortedPayouts.filter((payout) => payout.status === "Pending");
+  const paidPayouts = filteredAndSortedPayouts.filter((payout) => payout.status === "Paid");
+
+  const pendingTotalPages = Math.ceil(pendingPayouts.length / itemsPerPage);
+  const paginatedPendingPayouts = pendingPayouts.slice(
+    (pendingCurrentPage - 1) * itemsPerPage,
+    pendingCurrentPage * itemsPerPage
+  );
+  const paidTotalPages = Math.ceil(paidPayouts.length / itemsPerPage);
+  const paginatedPaidPayouts = paidPayouts.slice(
+    (paidCurrentPage - 1) * itemsPerPage,
+    paidCurrentPage * itemsPerPage
+  );
+
+  // Reset to page 1 when filters or sort change
+  useEffect(() => {
+    setPendingCurrentPage(1);
+    setPaidCurrentPage(1);
+  }, [searchTerm, groupFilter, sortField, sortDirection]);
+
+  const handleSort = (field: PayoutSortField) => {
+    if (sortField === field) {
+      setSortDirection(sortDirection === "asc" ? "desc" : "asc");
+    } else {
+      setSortField(field);
+      setSortDirection("asc");
+    }
+  };
+
+  const handleOpenModal = async (payout: Payout) => {
+    setSelectedPayout(payout);
+    setFormData({
+      payoutDate: new Date().toISOString().split("T")[0],
+      method: "Cash",
+      referenceNumber: "",
+    });
+    setOutstandingPayments([]);
+    setDeductions({});
+    setShowModal(true);
+
+    try {
+      setLoadingArrears(true);
+      const arrears = await getOutstandingPayments(user!.uid, payout.clientId);
+      setOutstandingPayments(arrears);
+
+      // Deduct the oldest dues first, up to the payout amount
+      let remaining = payout.amount;
+      const initialDeductions: Record<string, number> = {};
+      arrears.forEach((payment) => {
+        const amount = Math.min(payment.pendingAmount, remaining);
+        if (amount > 0) {
+          initialDeductions[payment.id] = amount;
+          remaining -= amount;
+        }
+      });
+      setDeductions(initialDeductions);
+    } catch (error: any) {
+      console.error("Error loading outstanding payments:", error);
+      toast.error(error?.message || "Failed to load outstanding payments");
+    } finally {
+      setLoadingArrears(false);
+    }
+  };
+
+  const handleCloseModal = () => {
+    setShowModal(false);
+    setSelectedPayout(null);
+    setOutstandingPayments([]);
+    setDeductions({});
+  };
+
+  const handleToggleDeduction = (payment: Payment) => {
+    const next = { ...deductions };
+    if (next[payment.id] !== undefined) {
+      delete next[payment.id];
+    } else {
+      next[payment.id] = payment.pendingAmount;
+    }
+    setDeductions(next);
+  };
+
+  const totalDeduction = Object.values(deductions).reduce((sum, amount) => sum + (amount || 0), 0);
+  const netPayout = selectedPayout ? selectedPayout.amount - totalDeduction : 0;
+
+  const handleDisburse = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedPayout) return;
+
+    setProcessing(true);
+    try {
+      await recordPayoutDisbursement(user!.uid, selectedPayout.id, {
+        payoutDate: Timestamp.fromDate(new Date(formData.payoutDate)),
+        method: formData.method,
+        referenceNumber: formData.referenceNumber,
+        adjustments: Object.entries(deductions).map(([paymentId, amount]) => ({
+          paymentId,
+          amount,
+        })),
+      });
+      toast.success("Payout recorded successfully");
+      handleCloseModal();
+      loadPayouts();
+    } catch (error: any) {
+      console.error("Error recording payout:", error);
+      const errorMessage = error?.message || "Failed to record payout";
+      toast.error(errorMessage);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handlePrintVoucher = (payout: Payout) => {
+    const printWindow = window.open("", "_blank");
+    if (!printWindow) return;
+
+    const adjustments = payout.adjustments || [];
+    const netAmount = payout.netAmount ?? payout.amount;
+
+    const printContent = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <title>Payout Voucher</title>
+          <style>
+            body { font-family: Arial, sans-serif; padding: 20px; }
+            h1 { color: #333; border-bottom: 2px solid #333; padding-bottom: 10px; }
+            table { width: 100%; border-collapse: collapse; margin-top: 20px; }
+            th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
+            th { background-color: #f2f2f2; font-weight: bold; }
+            .amount { text-align: right; }
+            .total-row { font-weight: bold; background-color: #e3f2fd; }
+            .signatures { margin-top: 60px; display: flex; justify-content: space-between; }
+            .footer { margin-top: 20px; font-size: 12px; color: #666; }
+          </style>
+        </head>
+        <body>
+          <h1>Payout Voucher</h1>
+          <p><strong>Voucher No:</strong> ${payout.id}</p>
+          <p><strong>Winner:</strong> ${payout.clientName}</p>
+          <p><strong>Group:</strong> ${payout.groupName}</p>
+          <p><strong>Auction Month:</strong> ${payout.chitMonth}</p>
+          <p><strong>Paid On:</strong> ${payout.payoutDate ? formatDate(payout.payoutDate) : "-"}</p>
+          <p><strong>Method:</strong> ${payout.method || "-"}${payout.referenceNumber ? ` (Ref: ${payout.referenceNumber})` : ""}</p>
+          <table>
+            <thead>
+              <tr>
+                <th>Particulars</th>
+                <th class="amount">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td>Prize money</td>
+                <td class="amount">${formatCurrency(payout.amount)}</td>
+              </tr>
+              ${adjustments.map((adjustment) => `
+                <tr>
+                  <td>Less: Dues adjusted - ${adjustment.groupName} (${adjustment.chitMonth})</td>
+                  <td class="amount">- ${formatCurrency(adjustment.amount)}</td>
+                </tr>
+              `).join('')}
+              <tr class="total-row">
+                <td><strong>Net Payout</strong></td>
+                <td class="amount"><strong>${formatCurrency(netAmount)}</strong></td>
+              </tr>
+            </tbody>
+          </table>
+          <div class="signatures">
+            <p>Authorised Signatory</p>
+            <p>Received by</p>
+          </div>
+          <div class="footer">
+            <p>Generated: ${new Date().toLocaleString()}</p>
+          </div>
+        </body>
+      </html>
+    `;
+
+    printWindow.document.write(printContent);
+    printWindow.document.close();
+    printWindow.focus();
+    setTimeout(() => {
+      printWindow.print();
+      printWindow.close();
+    }, 250);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-800">Payouts</h1>
+        <p className="text-gray-600 mt-2">
+          Prize money payable to auction winners. Record each disbursement with its date, method
+          and reference number.
+        </p>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="card">
+          <p className="text-sm text-gray-600 mb-1">Pending Disbursements</p>
+          <p className="text-2xl font-bold text-danger-600">
+            {formatCurrency(pendingPayouts.reduce((sum, payout) => sum + payout.amount, 0))}
+          </p>
+          <p className="text-xs text-gray-500 mt-1">{pendingPayouts.length} payout(s)</p>
+        </div>
+        <div className="card">
+          <p className="text-sm text-gray-600 mb-1">Completed Disbursements</p>
+          <p className="text-2xl font-bold text-success-600">
+            {formatCurrency(
+              paidPayouts.reduce((sum, payout) => sum + (payout.netAmount ?? payout.amount), 0)
+            )}
+          </p>
+          <p className="text-xs text-gray-500 mt-1">{paidPayouts.length} payout(s)</p>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="card">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Search</label>
+            <input
+              type="text"
+              placeholder="Search by client, group, month or reference..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="input-field"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Filter by Group</label>
+            <select
+              value={groupFilter}
+              onChange={(e) => setGroupFilter(e.target.value)}
+              className="input-field"
+            >
+              <option value="all">All Groups</option>
+              {uniqueGroups.map((group) => (
+                <option key={group} value={group}>
+                  {group}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* Pending Payouts */}
+      <div className="card">
+        <h2 className="text-xl font-semibold text-gray-800 mb-4">Pending Payouts</h2>
+        {pendingPayouts.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">No pending payouts.</p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">
+                      <SortButton field="clientName" currentField={sortField} direction={sortDirection} onSort={handleSort}>
+                        Winner
+                      </SortButton>
+                    </th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">
+                      <SortButton field="groupName" currentField={sortField} direction={sortDirection} onSort={handleSort}>
+                        Group
+                      </SortButton>
+                    </th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">
+                      <SortButton field="chitMonth" currentField={sortField} direction={sortDirection} onSort={handleSort}>
+                        Auction Month
+                      </SortButton>
+                    </th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">
+                      <SortButton field="amount" currentField={sortField} direction={sortDirection} onSort={handleSort}>
+                        Amount
+                      </SortButton>
+                    </th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {paginatedPendingPayouts.map((payout) => (
+                    <tr key={payout.id} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-3 px-4 font-medium">{payout.clientName}</td>
+                      <td className="py-3 px-4">{payout.groupName}</td>
+                      <td className="py-3 px-4">{payout.chitMonth}</td>
+                      <td className="py-3 px-4 text-right font-semibold">
+                        {formatCurrency(payout.amount)}
+                      </td>
+                      <td className="py-3 px-4">
+                        {can("managePayouts") && (
+                          <button
+                            onClick={() => handleOpenModal(payout)}
+                            className="btn-primary text-sm py-1 px-3"
+                          >
+                            Disburse
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <Pagination
+              currentPage={pendingCurrentPage}
+              totalPages={pendingTotalPages}
+              totalItems={pendingPayouts.length}
+              itemsPerPage={itemsPerPage}
+              onPageChange={setPendingCurrentPage}
+              itemName="payouts"
+            />
+          </>
+        )}
+      </div>
+
+      {/* Completed Payouts */}
+      <div className="card">
+        <h2 className="text-xl font-semibold text-gray-800 mb-4">Completed Payouts</h2>
+        {paidPayouts.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">No completed payouts.</p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">
+                      <SortButton field="clientName" currentField={sortField} direction={sortDirection} onSort={handleSort}>
+                        Winner
+                      </SortButton>
+                    </th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">
+                      <SortButton field="groupName" currentField={sortField} direction={sortDirection} onSort={handleSort}>
+                        Group
+                      </SortButton>
+                    </th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">
+                      <SortButton field="chitMonth" currentField={sortField} direction={sortDirection} onSort={handleSort}>
+                        Auction Month
+                      </SortButton>
+                    </th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">
+                      <SortButton field="amount" currentField={sortField} direction={sortDirection} onSort={handleSort}>
+                        Amount
+                      </SortButton>
+                    </th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">
+                      <SortButton field="payoutDate" currentField={sortField} direction={sortDirection} onSort={handleSort}>
+                        Paid On
+                      </SortButton>
+                    </th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Method</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Adjusted</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Net Paid</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Reference</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {paginatedPaidPayouts.map((payout) => (
+                    <tr key={payout.id} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-3 px-4 font-medium">{payout.clientName}</td>
+                      <td className="py-3 px-4">{payout.groupName}</td>
+                      <td className="py-3 px-4">{payout.chitMonth}</td>
+                      <td className="py-3 px-4 text-right font-semibold">
+                        {formatCurrency(payout.amount)}
+                      </td>
+                      <td className="py-3 px-4">
+                        {payout.payoutDate ? formatDate(payout.payoutDate) : "-"}
+                      </td>
+                      <td className="py-3 px-4">
+                        <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                          {payout.method}
+                        </span>
+                      </td>
+                      <td className="py-3 px-4 text-right text-danger-600">
+                        {formatCurrency(payout.amount - (payout.netAmount ?? payout.amount))}
+                      </td>
+                      <td className="py-3 px-4 text-right font-semibold">
+                        {formatCurrency(payout.netAmount ?? payout.amount)}
+                      </td>
+                      <td className="py-3 px-4 text-gray-600">{payout.referenceNumber || "-"}</td>
+                      <td className="py-3 px-4">
+                        <button
+                          onClick={() => handlePrintVoucher(payout)}
+                          className="btn-secondary text-sm py-1 px-3"
+                        >
+                          Voucher
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <Pagination
+              currentPage={paidCurrentPage}
+              totalPages={paidTotalPages}
+              totalItems={paidPayouts.length}
+              itemsPerPage={itemsPerPage}
+              onPageChange={setPaidCurrentPage}
+              itemName="payouts"
+            />
+          </>
+        )}
+      </div>
+
+      {/* Disbursement Modal */}
+      {showModal && selectedPayout && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full p-6 max-h-[90vh] overflow-y-auto">
+            <h2 className="text-2xl font-bold text-gray-800 mb-4">Disburse Payout</h2>
+            <div className="mb-4 p-4 bg-gray-50 rounded-lg">
+              <p className="text-sm text-gray-600 mb-1">Winner: {selectedPayout.clientName}</p>
+              <p className="text-sm text-gray-600 mb-1">Group: {selectedPayout.groupName}</p>
+              <p className="text-sm text-gray-600 mb-1">Month: {selectedPayout.chitMonth}</p>
+              <p className="text-sm font-semibold text-gray-800 mt-2">
+                Amount: {formatCurrency(selectedPayout.amount)}
+              </p>
+            </div>
+            <form onSubmit={handleDisburse} className="space-y-4">
+              <div>
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">
+                  Outstanding Dues (all groups)
+                </h3>
+                {loadingArrears ? (
+                  <p className="text-sm text-gray-500">Loading outstanding dues...</p>
+                ) : outstandingPayments.length === 0 ? (
+                  <p className="text-sm text-gray-500">No outstanding dues for this winner.</p>
+                ) : (
+                  <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-gray-200 bg-gray-50">
+                          <th className="py-2 px-3"></th>
+                          <th className="text-left py-2 px-3 font-semibold text-gray-700">Group</th>
+                          <th className="text-left py-2 px-3 font-semibold text-gray-700">Month</th>
+                          <th className="text-right py-2 px-3 font-semibold text-gray-700">Pending</th>
+                          <th className="text-right py-2 px-3 font-semibold text-gray-700">Deduct</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {outstandingPayments.map((payment) => {
+                          const selected = deductions[payment.id] !== undefined;
+                          return (
+                            <tr key={payment.id} className="border-b border-gray-100">
+                              <td className="py-2 px-3">
+                                <input
+                                  type="checkbox"
+                                  checked={selected}
+                                  onChange={() => handleToggleDeduction(payment)}
+                                />
+                              </td>
+                              <td className="py-2 px-3">{payment.groupName}</td>
+                              <td className="py-2 px-3">{payment.chitMonth}</td>
+                              <td className="py-2 px-3 text-right">
+                                {formatCurrency(payment.pendingAmount)}
+                              </td>
+                              <td className="py-2 px-3 text-right">
+                                <input
+                                  type="number"
+                                  min="0"
+                                  max={payment.pendingAmount}
+                                  step="0.01"
+                                  disabled={!selected}
+                                  value={selected ? deductions[payment.id] : ""}
+                                  onChange={(e) =>
+                                    setDeductions({
+                                      ...deductions,
+                                      [payment.id]: parseFloat(e.target.value) || 0,
+                                    })
+                                  }
+                                  className="input-field text-right py-1 w-28"
+                                />
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+              <div className="p-4 bg-gray-50 rounded-lg space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Prize money</span>
+                  <span>{formatCurrency(selectedPayout.amount)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Less: dues adjusted</span>
+                  <span className="text-danger-600">- {formatCurrency(totalDeduction)}</span>
+                </div>
+                <div className="flex justify-between font-semibold text-gray-800 pt-1 border-t border-gray-200">
+                  <span>Net payout</span>
+                  <span className={netPayout < 0 ? "text-danger-600" : ""}>
+                    {formatCurrency(netPayout)}
+                  </span>
+                </div>
+                {netPayout < 0 && (
+                  <p className="text-xs text-danger-600">
+                    Deductions cannot exceed the prize money.
+                  </p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Payout Date *
+                </label>
+                <input
+                  type="date"
+                  required
+                  value={formData.payoutDate}
+                  onChange={(e) => setFormData({ ...formData, payoutDate: e.target.value })}
+                  className="input-field"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Method *</label>
+                <select
+                  value={formData.method}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      method: e.target.value as NonNullable<Payout["method"]>,
+                    })
+                  }
+                  className="input-field"
+                >
+                  <option value="Cash">Cash</option>
+                  <option value="Cheque">Cheque</option>
+                  <option value="NEFT">NEFT</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Reference Number {formData.method !== "Cash" && "*"}
+                </label>
+                <input
+                  type="text"
+                  required={formData.method !== "Cash"}
+                  placeholder={formData.method === "Cheque" ? "Cheque number" : "UTR / transaction ID"}
+                  value={formData.referenceNumber}
+                  onChange={(e) => setFormData({ ...formData, referenceNumber: e.target.value })}
+                  className="input-field"
+                />
+              </div>
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="submit"
+                  disabled={processing || loadingArrears || netPayout < 0}
+                  className="btn-primary flex-1"
+                >
+                  {processing ? "Saving..." : "Record Payout"}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCloseModal}
+                  disabled={processing}
+                  className="btn-secondary flex-1"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
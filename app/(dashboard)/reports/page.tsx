@@ -2,26 +2,55 @@
 
 import { useEffect, useState, useMemo, useRef } from "react";
 import { useAuth } from "@/contexts/AuthContext";
+import { useBranch } from "@/contexts/BranchContext";
 import {
+  getBranchSummaries,
   getPayments,
   getClients,
   getGroups,
   getGroupMembers,
   getPaymentLogs,
   getAuctions,
+  getDividends,
+  getPenaltyCharges,
+  getPayouts,
 } from "@/lib/firestore";
-import type { Payment, Client, PaymentLog, Group, Auction, GroupMember } from "@/types";
+import type {
+  Payment,
+  Client,
+  PaymentLog,
+  Group,
+  Auction,
+  GroupMember,
+  Dividend,
+  PenaltyCharge,
+  Payout,
+  BranchSummary,
+} from "@/types";
 import toast from "react-hot-toast";
-import { formatDate, formatCurrency, isOverdue, getCurrentMonth } from "@/lib/utils";
+import { format, startOfDay, endOfDay } from "date-fns";
+import {
+  formatDate,
+  formatCurrency,
+  isOverdue,
+  getCurrentMonth,
+  buildClientStatement,
+  getFinancialYearStart,
+} from "@/lib/utils";
+import { printClientStatement, exportClientStatement, formatStatementBalance } from "@/lib/statement";
+import { exportRows, type ExportFormat } from "@/lib/export";
 import Pagination from "@/components/common/Pagination";
 import SortButton from "@/components/common/SortButton";
+import ExportButtons from "@/components/common/ExportButtons";
 
 export default function ReportsPage() {
-  const { user } = useAuth();
-  const [activeTab, setActiveTab] = useState<"pending" | "client">("pending");
+  const { user, isHeadOffice } = useAuth();
+  const { allBranches } = useBranch();
+  const [activeTab, setActiveTab] = useState<"pending" | "client" | "branches">("pending");
 
   // Pending Payments Report
   const [allPayments, setAllPayments] = useState<Payment[]>([]);
+  const [allPenaltyCharges, setAllPenaltyCharges] = useState<PenaltyCharge[]>([]);
   const [allGroups, setAllGroups] = useState<Group[]>([]);
   const [pendingFilters, setPendingFilters] = useState({
     groupId: "",
@@ -57,12 +86,25 @@ export default function ReportsPage() {
     totalPending: number;
   }>>([]);
   const [clientPaymentHistory, setClientPaymentHistory] = useState<PaymentLog[]>([]);
+  // Account statement: every demand, receipt, penalty and payout of the client
+  const [clientPayments, setClientPayments] = useState<Payment[]>([]);
+  const [clientPaymentLogs, setClientPaymentLogs] = useState<PaymentLog[]>([]);
+  const [clientPayouts, setClientPayouts] = useState<Payout[]>([]);
+  const [statementFrom, setStatementFrom] = useState(() => format(getFinancialYearStart(), "yyyy-MM-dd"));
+  const [statementTo, setStatementTo] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [clientDividends, setClientDividends] = useState<Dividend[]>([]);
   const [allAuctions, setAllAuctions] = useState<Auction[]>([]);
   const [clientGroupMembers, setClientGroupMembers] = useState<GroupMember[]>([]);
   const [clientGroupsSortField, setClientGroupsSortField] = useState<"groupName" | "chitCount">("groupName");
   const [clientGroupsSortDirection, setClientGroupsSortDirection] = useState<"asc" | "desc">("asc");
   const [loading, setLoading] = useState(true);
 
+  // Consolidated report across branches (head office only)
+  const [branchSummaries, setBranchSummaries] = useState<BranchSummary[]>([]);
+  const [branchReportFrom, setBranchReportFrom] = useState(() => format(new Date(), "yyyy-MM-01"));
+  const [branchReportTo, setBranchReportTo] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [loadingBranchReport, setLoadingBranchReport] = useState(false);
+
   useEffect(() => {
     if (user) {
       loadData();
@@ -146,6 +188,60 @@ export default function ReportsPage() {
   }, [clientGroups, clientGroupsSortField, clientGroupsSortDirection]);
 
   // Calculate totals for pending by group footer
+  // Cumulative dividend per group for the selected client
+  const clientDividendsByGroup = useMemo(() => {
+    const byGroup = new Map<string, {
+      groupName: string;
+      auctionCount: number;
+      prizedDividend: number;
+      nonPrizedDividend: number;
+      totalDividend: number;
+    }>();
+    clientDividends.forEach((dividend) => {
+      const existing = byGroup.get(dividend.groupId) || {
+        groupName: dividend.groupName,
+        auctionCount: 0,
+        prizedDividend: 0,
+        nonPrizedDividend: 0,
+        totalDividend: 0,
+      };
+      existing.auctionCount += 1;
+      if (dividend.isPrized) {
+        existing.prizedDividend += dividend.dividendAmount;
+      } else {
+        existing.nonPrizedDividend += dividend.dividendAmount;
+      }
+      existing.totalDividend += dividend.dividendAmount;
+      byGroup.set(dividend.groupId, existing);
+    });
+    return Array.from(byGroup.values()).sort((a, b) => a.groupName.localeCompare(b.groupName));
+  }, [clientDividends]);
+
+  const clientStatement = useMemo(() => {
+    if (!selectedClientId || !statementFrom || !statementTo) return null;
+    const client = allClients.find((c) => c.id === selectedClientId);
+    const to = new Date(statementTo);
+    to.setHours(23, 59, 59, 999);
+    return buildClientStatement({
+      clientId: selectedClientId,
+      clientName: client?.name || "",
+      from: new Date(`${statementFrom}T00:00:00`),
+      to,
+      payments: clientPayments,
+      paymentLogs: clientPaymentLogs,
+      penaltyCharges: allPenaltyCharges,
+      payouts: clientPayouts,
+      auctions: allAuctions,
+    });
+  }, [selectedClientId, allClients, statementFrom, statementTo, clientPayments, clientPaymentLogs, allPenaltyCharges, clientPayouts, allAuctions]);
+
+  const handlePrintStatement = () => {
+    if (!clientStatement) return;
+    const printWindow = window.open("", "_blank");
+    if (!printWindow) return;
+    printClientStatement(printWindow, clientStatement);
+  };
+
   const pendingByGroupTotals = useMemo(() => {
     const totalAmountPaid = clientPendingByGroup.reduce((sum, item) => sum + item.amountPaid, 0);
     const totalPending = clientPendingByGroup.reduce((sum, item) => sum + item.totalPending, 0);
@@ -155,14 +251,16 @@ export default function ReportsPage() {
   const loadData = async () => {
     try {
       setLoading(true);
-      const [payments, groups, clients, auctions] = await Promise.all([
+      const [payments, groups, clients, auctions, penaltyCharges] = await Promise.all([
         getPayments(user!.uid),
         getGroups(user!.uid),
         getClients(user!.uid),
         getAuctions(user!.uid),
+        getPenaltyCharges(user!.uid),
       ]);
 
       setAllPayments(payments);
+      setAllPenaltyCharges(penaltyCharges);
       setAllGroups(groups);
       setAllClients(clients);
       setAllAuctions(auctions);
@@ -252,6 +350,27 @@ export default function ReportsPage() {
     return filtered;
   }, [allPayments, pendingFilters, pendingSortField, pendingSortDirection]);
 
+  // Pending late-payment penalty of each payment
+  const pendingPenaltyByPayment = useMemo(() => {
+    const map = new Map<string, number>();
+    allPenaltyCharges.forEach((charge) => {
+      if (charge.pendingAmount > 0) map.set(charge.paymentId, charge.pendingAmount);
+    });
+    return map;
+  }, [allPenaltyCharges]);
+
+  const clientPenaltyCharges = useMemo(
+    () => allPenaltyCharges.filter((charge) => charge.clientId === selectedClientId),
+    [allPenaltyCharges, selectedClientId]
+  );
+
+  const totalPendingPenalty = useMemo(() => {
+    return processedPendingPayments.reduce(
+      (sum, payment) => sum + (pendingPenaltyByPayment.get(payment.id) || 0),
+      0
+    );
+  }, [processedPendingPayments, pendingPenaltyByPayment]);
+
   // Calculate total pending amount
   const totalPendingAmount = useMemo(() => {
     return processedPendingPayments.reduce((sum, p) => sum + p.pendingAmount, 0);
@@ -311,6 +430,7 @@ export default function ReportsPage() {
                 <th>Group</th>
                 <th>Month</th>
                 <th>Pending Amount</th>
+                <th>Penalty</th>
                 <th>Due Date</th>
                 <th>Status</th>
               </tr>
@@ -324,6 +444,7 @@ export default function ReportsPage() {
                     <td>${payment.groupName}</td>
                     <td>${payment.chitMonth}</td>
                     <td>${formatCurrency(payment.pendingAmount)}</td>
+                    <td>${formatCurrency(pendingPenaltyByPayment.get(payment.id) || 0)}</td>
                     <td>${formatDate(payment.paymentDueDate)}</td>
                     <td>${payment.status}</td>
                   </tr>
@@ -332,6 +453,7 @@ export default function ReportsPage() {
               <tr class="total-row">
                 <td colspan="3"><strong>Total</strong></td>
                 <td><strong>${formatCurrency(totalPendingAmount)}</strong></td>
+                <td><strong>${formatCurrency(totalPendingPenalty)}</strong></td>
                 <td colspan="2"></td>
               </tr>
             </tbody>
@@ -352,6 +474,106 @@ export default function ReportsPage() {
     }, 250);
   };
 
+  const handleExportPending = (exportFormat: ExportFormat) => {
+    exportRows(exportFormat, {
+      filename: `pending-payments-report-${format(new Date(), "yyyy-MM-dd")}`,
+      title: "Pending Payments Report",
+      filters: {
+        ...(pendingFilters.groupId && {
+          Group: allGroups.find((g) => g.id === pendingFilters.groupId)?.groupName || pendingFilters.groupId,
+        }),
+        ...(pendingFilters.month && { Month: pendingFilters.month }),
+        ...(pendingFilters.daysOverdue && { "Days Overdue": `${pendingFilters.daysOverdue}+ days` }),
+        "Sorted by": `${pendingSortField} (${pendingSortDirection})`,
+      },
+      columns: [
+        { header: "Client", value: (p) => p.clientName },
+        { header: "Group", value: (p) => p.groupName },
+        { header: "Month", value: (p) => p.chitMonth },
+        { header: "Pending Amount", value: (p) => p.pendingAmount, type: "currency" },
+        { header: "Penalty", value: (p) => pendingPenaltyByPayment.get(p.id) || 0, type: "currency" },
+        { header: "Due Date", value: (p) => p.paymentDueDate },
+        { header: "Status", value: (p) => p.status },
+      ],
+      rows: processedPendingPayments,
+    });
+  };
+
+  useEffect(() => {
+    if (activeTab === "branches" && isHeadOffice && branchReportFrom && branchReportTo) {
+      loadBranchReport();
+    }
+  }, [activeTab, isHeadOffice, allBranches, branchReportFrom, branchReportTo]);
+
+  const loadBranchReport = async () => {
+    setLoadingBranchReport(true);
+    try {
+      const summaries = await getBranchSummaries(allBranches, {
+        from: startOfDay(new Date(branchReportFrom)),
+        to: endOfDay(new Date(branchReportTo)),
+      });
+      setBranchSummaries(summaries);
+    } catch (error: any) {
+      console.error("Error loading branch report:", error);
+      toast.error(error?.message || "Failed to load branch report");
+    } finally {
+      setLoadingBranchReport(false);
+    }
+  };
+
+  const branchTotals = useMemo(
+    () =>
+      branchSummaries.reduce(
+        (totals, summary) => ({
+          clientCount: totals.clientCount + summary.clientCount,
+          activeGroupCount: totals.activeGroupCount + summary.activeGroupCount,
+          collected: totals.collected + summary.collected,
+          pendingDues: totals.pendingDues + summary.pendingDues,
+          overdueDues: totals.overdueDues + summary.overdueDues,
+          pendingPayouts: totals.pendingPayouts + summary.pendingPayouts,
+        }),
+        { clientCount: 0, activeGroupCount: 0, collected: 0, pendingDues: 0, overdueDues: 0, pendingPayouts: 0 }
+      ),
+    [branchSummaries]
+  );
+
+  const handleExportBranches = (exportFormat: ExportFormat) => {
+    exportRows(exportFormat, {
+      filename: `branch-summary-${branchReportFrom}-to-${branchReportTo}`,
+      title: "Consolidated Branch Report",
+      filters: { From: branchReportFrom, To: branchReportTo },
+      columns: [
+        { header: "Branch", value: (row) => row.branchName },
+        { header: "Clients", value: (row) => row.clientCount, type: "number" },
+        { header: "Active Groups", value: (row) => row.activeGroupCount, type: "number" },
+        { header: "Collected", value: (row) => row.collected, type: "currency" },
+        { header: "Pending Dues", value: (row) => row.pendingDues, type: "currency" },
+        { header: "Overdue", value: (row) => row.overdueDues, type: "currency" },
+        { header: "Payouts Pending", value: (row) => row.pendingPayouts, type: "currency" },
+      ],
+      rows: [...branchSummaries, { branchId: "", branchName: "Total", ...branchTotals }],
+    });
+  };
+
+  const handleExportPaymentHistory = (exportFormat: ExportFormat) => {
+    const clientName = allClients.find((c) => c.id === selectedClientId)?.name || "";
+    exportRows(exportFormat, {
+      filename: `payment-history-${clientName.replace(/\s+/g, "-").toLowerCase()}-${selectedMonth}`,
+      title: "Payment History",
+      filters: { Client: clientName, Month: selectedMonth },
+      columns: [
+        { header: "Date", value: (log) => log.paymentDate },
+        { header: "Receipt No", value: (log) => log.receiptNumber },
+        { header: "Group", value: (log) => log.groupName },
+        { header: "Type", value: (log) => (log.penaltyChargeId ? "Penalty" : "Installment") },
+        { header: "Amount", value: (log) => log.amountPaid, type: "currency" },
+        { header: "Method", value: (log) => log.paymentMethod },
+        { header: "Reversal Reason", value: (log) => log.reversalReason },
+      ],
+      rows: clientPaymentHistory,
+    });
+  };
+
   const loadClientReport = async () => {
     try {
       // Get all groups for this client
@@ -463,24 +685,32 @@ export default function ReportsPage() {
 
       setClientPendingByGroup(pendingByGroup);
 
+      // Dividend ledger for all of the client's memberships
+      const dividends = await getDividends(user!.uid, { clientId: selectedClientId });
+      setClientDividends(dividends);
+
+      const payouts = await getPayouts(user!.uid, { clientId: selectedClientId });
+      setClientPayments(allPaymentsForClient);
+      setClientPayouts(payouts);
+
       // Get payment history for selected month
-      if (selectedMonth) {
-        try {
-          const logs = await getPaymentLogs(user!.uid, {
-            clientId: selectedClientId,
-          });
-          // Filter by month manually since getPaymentLogs month filter might not work correctly
-          const filteredLogs = logs.filter((log) => {
-            const logMonth = log.paymentDate.toDate().toISOString().slice(0, 7);
-            return logMonth === selectedMonth;
-          });
-          setClientPaymentHistory(filteredLogs);
-        } catch (logError: any) {
-          console.error("Error loading payment logs:", logError);
-          toast.error(logError?.message || "Failed to load payment history");
-          setClientPaymentHistory([]);
-        }
-      } else {
+      try {
+        const logs = await getPaymentLogs(user!.uid, {
+          clientId: selectedClientId,
+        });
+        setClientPaymentLogs(logs);
+        // Filter by month manually since getPaymentLogs month filter might not work correctly
+        const filteredLogs = selectedMonth
+          ? logs.filter((log) => {
+              const logMonth = log.paymentDate.toDate().toISOString().slice(0, 7);
+              return logMonth === selectedMonth;
+            })
+          : [];
+        setClientPaymentHistory(filteredLogs);
+      } catch (logError: any) {
+        console.error("Error loading payment logs:", logError);
+        toast.error(logError?.message || "Failed to load payment history");
+        setClientPaymentLogs([]);
         setClientPaymentHistory([]);
       }
     } catch (error: any) {
@@ -522,6 +752,18 @@ export default function ReportsPage() {
         >
           Client Activity Report
         </button>
+        {isHeadOffice && (
+          <button
+            onClick={() => setActiveTab("branches")}
+            className={`px-4 py-2 font-medium transition-colors ${
+              activeTab === "branches"
+                ? "border-b-2 border-primary-600 text-primary-600"
+                : "text-gray-600 hover:text-gray-800"
+            }`}
+          >
+            All Branches
+          </button>
+        )}
       </div>
 
       {/* Pending Payments Report */}
@@ -529,13 +771,16 @@ export default function ReportsPage() {
         <div className="card">
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-xl font-semibold text-gray-800">Pending Payments Report</h2>
-            <button
-              onClick={handlePrint}
-              className="btn-primary flex items-center gap-2"
-            >
-              <span>🖨️</span>
-              Print Report
-            </button>
+            <div className="flex gap-2">
+              <ExportButtons onExport={handleExportPending} disabled={processedPendingPayments.length === 0} />
+              <button
+                onClick={handlePrint}
+                className="btn-primary flex items-center gap-2"
+              >
+                <span>🖨️</span>
+                Print Report
+              </button>
+            </div>
           </div>
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
             <div>
@@ -647,6 +892,7 @@ export default function ReportsPage() {
                           Pending Amount
                         </SortButton>
                       </th>
+                      <th className="text-left py-3 px-4 font-semibold text-gray-700">Penalty</th>
                       <th className="text-left py-3 px-4 font-semibold text-gray-700">
                         <SortButton
                           field="paymentDueDate"
@@ -687,6 +933,11 @@ export default function ReportsPage() {
                           >
                             {formatCurrency(payment.pendingAmount)}
                           </td>
+                          <td className="py-3 px-4">
+                            {pendingPenaltyByPayment.get(payment.id)
+                              ? formatCurrency(pendingPenaltyByPayment.get(payment.id)!)
+                              : "-"}
+                          </td>
                           <td
                             className={`py-3 px-4 ${overdue ? "text-danger-600 font-semibold" : ""}`}
                           >
@@ -714,6 +965,9 @@ export default function ReportsPage() {
                       <td className="py-3 px-4 font-bold text-primary-700 text-lg">
                         {formatCurrency(totalPendingAmount)}
                       </td>
+                      <td className="py-3 px-4 font-bold text-danger-600">
+                        {formatCurrency(totalPendingPenalty)}
+                      </td>
                       <td className="py-3 px-4" colSpan={2}></td>
                     </tr>
                   </tbody>
@@ -989,9 +1243,116 @@ export default function ReportsPage() {
                 )}
               </div>
 
+              {/* Cumulative Dividends */}
+              <div>
+                <h3 className="text-lg font-semibold text-gray-800 mb-3">Cumulative Dividend</h3>
+                {clientDividendsByGroup.length === 0 ? (
+                  <p className="text-gray-500">No dividends recorded.</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="border-b border-gray-200">
+                          <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">
+                            Group Name
+                          </th>
+                          <th className="text-right py-2 px-3 text-sm font-semibold text-gray-700">
+                            Auctions
+                          </th>
+                          <th className="text-right py-2 px-3 text-sm font-semibold text-gray-700">
+                            Before Prize
+                          </th>
+                          <th className="text-right py-2 px-3 text-sm font-semibold text-gray-700">
+                            After Prize
+                          </th>
+                          <th className="text-right py-2 px-3 text-sm font-semibold text-gray-700">
+                            Total Dividend
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {clientDividendsByGroup.map((item, index) => (
+                          <tr key={index} className="border-b border-gray-100">
+                            <td className="py-2 px-3 text-sm">{item.groupName}</td>
+                            <td className="py-2 px-3 text-sm text-right">{item.auctionCount}</td>
+                            <td className="py-2 px-3 text-sm text-right">
+                              {formatCurrency(item.nonPrizedDividend)}
+                            </td>
+                            <td className="py-2 px-3 text-sm text-right">
+                              {formatCurrency(item.prizedDividend)}
+                            </td>
+                            <td className="py-2 px-3 text-sm font-semibold text-right">
+                              {formatCurrency(item.totalDividend)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                      <tfoot>
+                        <tr className="border-t-2 border-gray-300 bg-primary-50">
+                          <td className="py-2 px-3 text-sm font-bold" colSpan={4}>Total</td>
+                          <td className="py-2 px-3 text-sm text-right font-bold text-primary-700">
+                            {formatCurrency(
+                              clientDividendsByGroup.reduce((sum, item) => sum + item.totalDividend, 0)
+                            )}
+                          </td>
+                        </tr>
+                      </tfoot>
+                    </table>
+                  </div>
+                )}
+              </div>
+
+              {/* Late Payment Penalties */}
+              {clientPenaltyCharges.length > 0 && (
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-800 mb-3">Late Payment Penalties</h3>
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="border-b border-gray-200">
+                          <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">Group</th>
+                          <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">Month</th>
+                          <th className="text-right py-2 px-3 text-sm font-semibold text-gray-700">Charged</th>
+                          <th className="text-right py-2 px-3 text-sm font-semibold text-gray-700">Collected</th>
+                          <th className="text-right py-2 px-3 text-sm font-semibold text-gray-700">Waived</th>
+                          <th className="text-right py-2 px-3 text-sm font-semibold text-gray-700">Pending</th>
+                          <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">Status</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {clientPenaltyCharges.map((charge) => (
+                          <tr key={charge.id} className="border-b border-gray-100">
+                            <td className="py-2 px-3 text-sm">{charge.groupName}</td>
+                            <td className="py-2 px-3 text-sm">{charge.chitMonth}</td>
+                            <td className="py-2 px-3 text-sm text-right">{formatCurrency(charge.amount)}</td>
+                            <td className="py-2 px-3 text-sm text-right">{formatCurrency(charge.amountPaid)}</td>
+                            <td className="py-2 px-3 text-sm text-right">{formatCurrency(charge.waivedAmount)}</td>
+                            <td className="py-2 px-3 text-sm text-right font-semibold">
+                              {formatCurrency(charge.pendingAmount)}
+                            </td>
+                            <td className="py-2 px-3 text-sm">
+                              {charge.status}
+                              {charge.status === "Waived" && charge.waivedReason && (
+                                <span className="text-xs text-gray-500"> - {charge.waivedReason}</span>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
               {/* Payment History */}
               <div>
-                <h3 className="text-lg font-semibold text-gray-800 mb-3">Payment History</h3>
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-lg font-semibold text-gray-800">Payment History</h3>
+                  <ExportButtons
+                    onExport={handleExportPaymentHistory}
+                    disabled={clientPaymentHistory.length === 0}
+                  />
+                </div>
                 {clientPaymentHistory.length === 0 ? (
                   <p className="text-gray-500">No payments found for selected month.</p>
                 ) : (
@@ -1021,8 +1382,20 @@ export default function ReportsPage() {
                               </td>
                               <td className="py-2 px-3 text-sm">
                                 {log.groupName}
+                                {log.penaltyChargeId && (
+                                  <span className="ml-2 text-xs text-danger-600">(Penalty)</span>
+                                )}
+                                {log.reversalOf && (
+                                  <span className="ml-2 text-xs text-danger-600" title={log.reversalReason}>
+                                    (Reversal)
+                                  </span>
+                                )}
                               </td>
-                              <td className="py-2 px-3 text-sm font-semibold">
+                              <td
+                                className={`py-2 px-3 text-sm font-semibold ${
+                                  log.amountPaid < 0 ? "text-danger-600" : ""
+                                }`}
+                              >
                                 {formatCurrency(log.amountPaid)}
                               </td>
                               <td className="py-2 px-3 text-sm">
@@ -1043,6 +1416,114 @@ export default function ReportsPage() {
                     </div>
                   )}
               </div>
+
+              {/* Account Statement */}
+              <div>
+                <div className="flex flex-wrap items-end justify-between gap-4 mb-3">
+                  <h3 className="text-lg font-semibold text-gray-800">Account Statement</h3>
+                  <div className="flex flex-wrap items-end gap-3">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">From</label>
+                      <input
+                        type="date"
+                        value={statementFrom}
+                        max={statementTo}
+                        onChange={(e) => setStatementFrom(e.target.value)}
+                        className="input-field"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">To</label>
+                      <input
+                        type="date"
+                        value={statementTo}
+                        min={statementFrom}
+                        onChange={(e) => setStatementTo(e.target.value)}
+                        className="input-field"
+                      />
+                    </div>
+                    <button
+                      onClick={handlePrintStatement}
+                      disabled={!clientStatement}
+                      className="btn-secondary disabled:opacity-50"
+                      title="Use Save as PDF in the print dialog"
+                    >
+                      Export PDF
+                    </button>
+                    <ExportButtons
+                      onExport={(exportFormat) => clientStatement && exportClientStatement(clientStatement, exportFormat)}
+                      disabled={!clientStatement}
+                    />
+                  </div>
+                </div>
+                {clientStatement && (
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="border-b border-gray-200">
+                          <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">Date</th>
+                          <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">Group</th>
+                          <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">Month</th>
+                          <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">Particulars</th>
+                          <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700">Reference</th>
+                          <th className="text-right py-2 px-3 text-sm font-semibold text-gray-700">Debit</th>
+                          <th className="text-right py-2 px-3 text-sm font-semibold text-gray-700">Credit</th>
+                          <th className="text-right py-2 px-3 text-sm font-semibold text-gray-700">Balance</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        <tr className="border-b border-gray-200 bg-gray-50 font-semibold">
+                          <td className="py-2 px-3 text-sm">{formatDate(clientStatement.from)}</td>
+                          <td className="py-2 px-3 text-sm" colSpan={6}>Opening balance</td>
+                          <td className="py-2 px-3 text-sm text-right">
+                            {formatStatementBalance(clientStatement.openingBalance)}
+                          </td>
+                        </tr>
+                        {clientStatement.entries.length === 0 ? (
+                          <tr>
+                            <td colSpan={8} className="py-4 text-center text-sm text-gray-500">
+                              No transactions in this period.
+                            </td>
+                          </tr>
+                        ) : (
+                          clientStatement.entries.map((entry, index) => (
+                            <tr key={index} className="border-b border-gray-100">
+                              <td className="py-2 px-3 text-sm">{formatDate(entry.date)}</td>
+                              <td className="py-2 px-3 text-sm">{entry.groupName}</td>
+                              <td className="py-2 px-3 text-sm">{entry.chitMonth}</td>
+                              <td className="py-2 px-3 text-sm">{entry.description}</td>
+                              <td className="py-2 px-3 text-sm text-gray-600">{entry.reference || "-"}</td>
+                              <td className="py-2 px-3 text-sm text-right">
+                                {entry.debit ? formatCurrency(entry.debit) : ""}
+                              </td>
+                              <td className="py-2 px-3 text-sm text-right text-success-700">
+                                {entry.credit ? formatCurrency(entry.credit) : ""}
+                              </td>
+                              <td className="py-2 px-3 text-sm text-right font-medium">
+                                {formatStatementBalance(entry.balance)}
+                              </td>
+                            </tr>
+                          ))
+                        )}
+                      </tbody>
+                      <tfoot>
+                        <tr className="border-t-2 border-gray-300 bg-gray-50 font-semibold">
+                          <td className="py-2 px-3 text-sm">{formatDate(clientStatement.to)}</td>
+                          <td className="py-2 px-3 text-sm" colSpan={4}>Closing balance</td>
+                          <td className="py-2 px-3 text-sm text-right">{formatCurrency(clientStatement.totalDebit)}</td>
+                          <td className="py-2 px-3 text-sm text-right">{formatCurrency(clientStatement.totalCredit)}</td>
+                          <td className="py-2 px-3 text-sm text-right">
+                            {formatStatementBalance(clientStatement.closingBalance)}
+                          </td>
+                        </tr>
+                      </tfoot>
+                    </table>
+                    <p className="text-xs text-gray-500 mt-2">
+                      Dr: payable by the client. Cr: payable to the client.
+                    </p>
+                  </div>
+                )}
+              </div>
             </div>
           )}
 
@@ -1051,6 +1532,87 @@ export default function ReportsPage() {
           )}
         </div>
       )}
+
+      {/* Consolidated Branch Report */}
+      {activeTab === "branches" && isHeadOffice && (
+        <div className="card">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-800">All Branches</h2>
+              <p className="text-sm text-gray-600 mt-1">
+                Collections in the period, and dues and payouts outstanding today, per branch
+              </p>
+            </div>
+            <ExportButtons onExport={handleExportBranches} disabled={branchSummaries.length === 0} />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Collected From</label>
+              <input
+                type="date"
+                value={branchReportFrom}
+                onChange={(e) => setBranchReportFrom(e.target.value)}
+                className="input-field"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+              <input
+                type="date"
+                value={branchReportTo}
+                onChange={(e) => setBranchReportTo(e.target.value)}
+                className="input-field"
+              />
+            </div>
+          </div>
+
+          {loadingBranchReport ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Branch</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Clients</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Active Groups</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Collected</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Pending Dues</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Overdue</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Payouts Pending</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {branchSummaries.map((summary) => (
+                    <tr key={summary.branchId} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-3 px-4 font-medium">{summary.branchName}</td>
+                      <td className="py-3 px-4 text-right">{summary.clientCount}</td>
+                      <td className="py-3 px-4 text-right">{summary.activeGroupCount}</td>
+                      <td className="py-3 px-4 text-right text-success-600">{formatCurrency(summary.collected)}</td>
+                      <td className="py-3 px-4 text-right">{formatCurrency(summary.pendingDues)}</td>
+                      <td className="py-3 px-4 text-right text-danger-600">{formatCurrency(summary.overdueDues)}</td>
+                      <td className="py-3 px-4 text-right">{formatCurrency(summary.pendingPayouts)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="border-t-2 border-gray-300 font-semibold">
+                    <td className="py-3 px-4">Total</td>
+                    <td className="py-3 px-4 text-right">{branchTotals.clientCount}</td>
+                    <td className="py-3 px-4 text-right">{branchTotals.activeGroupCount}</td>
+                    <td className="py-3 px-4 text-right text-success-600">{formatCurrency(branchTotals.collected)}</td>
+                    <td className="py-3 px-4 text-right">{formatCurrency(branchTotals.pendingDues)}</td>
+                    <td className="py-3 px-4 text-right text-danger-600">{formatCurrency(branchTotals.overdueDues)}</td>
+                    <td className="py-3 px-4 text-right">{formatCurrency(branchTotals.pendingPayouts)}</td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
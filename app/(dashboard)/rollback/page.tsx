@@ -1,15 +1,40 @@
 "use client";
 
-import { useEffect, useState, useMemo } from "react";
+import { Fragment, useEffect, useState, useMemo } from "react";
 import { useAuth } from "@/contexts/AuthContext";
-import { getPaymentLogs, rollbackPaymentTransaction } from "@/lib/firestore";
-import type { PaymentLog } from "@/types";
+import {
+  getPaymentLogs,
+  getDayClosings,
+  rollbackPaymentTransaction,
+  rollbackBulkPayment,
+  getReceiptLogs,
+  markReceiptPrinted,
+} from "@/lib/firestore";
+import { printReceipt } from "@/lib/receipt";
+import type { DayClosing, PaymentLog } from "@/types";
 import toast from "react-hot-toast";
-import { formatDate, formatCurrency } from "@/lib/utils";
+import { format } from "date-fns";
+import { formatDate, formatCurrency, getPaymentLogReversals, findDayClosing } from "@/lib/utils";
+import { exportRows, type ExportFormat } from "@/lib/export";
+import ExportButtons from "@/components/common/ExportButtons";
+
+// Logs of one bulk payment, grouped by their bulkBatchId
+interface BulkBatch {
+  id: string;
+  clientName: string;
+  paymentDate: PaymentLog["paymentDate"];
+  paymentMethod: PaymentLog["paymentMethod"];
+  collectorName: string;
+  entries: PaymentLog[]; // original allocations, oldest receipt first
+  amount: number;
+  reversedCount: number;
+  netAmount: number;
+}
 
 export default function RollbackPage() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [paymentLogs, setPaymentLogs] = useState<PaymentLog[]>([]);
+  const [dayClosings, setDayClosings] = useState<DayClosing[]>([]);
   const [loading, setLoading] = useState(true);
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 10;
@@ -22,10 +47,15 @@ export default function RollbackPage() {
   const [showClientFilterDropdown, setShowClientFilterDropdown] = useState(false);
   const [monthFilter, setMonthFilter] = useState("all");
   
-  const [showDeleteModal, setShowDeleteModal] = useState(false);
-  const [deletingLog, setDeletingLog] = useState<PaymentLog | null>(null);
+  const [showReverseModal, setShowReverseModal] = useState(false);
+  const [reversingLog, setReversingLog] = useState<PaymentLog | null>(null);
+  const [reversalReason, setReversalReason] = useState("");
   const [processing, setProcessing] = useState(false);
 
+  const [view, setView] = useState<"entries" | "batches">("entries");
+  const [expandedBatchId, setExpandedBatchId] = useState<string | null>(null);
+  const [reversingBatch, setReversingBatch] = useState<BulkBatch | null>(null);
+
   const [sortField, setSortField] = useState<"clientName" | "groupName" | "chitMonth" | "amountPaid" | "paymentDate">("paymentDate");
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
 
@@ -38,8 +68,9 @@ export default function RollbackPage() {
   const loadPaymentLogs = async () => {
     try {
       setLoading(true);
-      const data = await getPaymentLogs(user!.uid);
+      const [data, closingsData] = await Promise.all([getPaymentLogs(user!.uid), getDayClosings(user!.uid)]);
       setPaymentLogs(data);
+      setDayClosings(closingsData);
     } catch (error: any) {
       console.error("Error loading payment logs:", error);
       toast.error(error?.message || "Failed to load payment logs");
@@ -48,24 +79,85 @@ export default function RollbackPage() {
     }
   };
 
-  const handleDeleteClick = (log: PaymentLog) => {
-    setDeletingLog(log);
-    setShowDeleteModal(true);
+  const handlePrintReceipt = async (log: PaymentLog) => {
+    // Open the window before awaiting so the browser does not block it
+    const printWindow = window.open("", "_blank");
+    if (!printWindow) return;
+
+    try {
+      const receiptLogs = await getReceiptLogs(user!.uid, log);
+      const receiptLogIds = receiptLogs.map((l) => l.id);
+      const duplicate = await markReceiptPrinted(user!.uid, receiptLogIds);
+      printReceipt(printWindow, receiptLogs, { duplicate });
+      setPaymentLogs((logs) =>
+        logs.map((l) =>
+          receiptLogIds.includes(l.id) ? { ...l, receiptPrintCount: (l.receiptPrintCount || 0) + 1 } : l
+        )
+      );
+    } catch (error: any) {
+      printWindow.close();
+      console.error("Error printing receipt:", error);
+      toast.error(error?.message || "Failed to print receipt");
+    }
+  };
+
+  const handleReverseClick = (log: PaymentLog) => {
+    setReversingLog(log);
+    setReversalReason("");
+    setShowReverseModal(true);
+  };
+
+  const handleCloseReverseModal = () => {
+    setShowReverseModal(false);
+    setReversingLog(null);
+    setReversingBatch(null);
+    setReversalReason("");
+  };
+
+  const handleReverseBatchClick = (batch: BulkBatch) => {
+    setReversingBatch(batch);
+    setReversalReason("");
   };
 
-  const handleCloseDeleteModal = () => {
-    setShowDeleteModal(false);
-    setDeletingLog(null);
+  const handleReverseBatch = async () => {
+    if (!reversingBatch) return;
+    if (!reversalReason.trim()) {
+      toast.error("Please enter a reason for the reversal");
+      return;
+    }
+
+    setProcessing(true);
+    try {
+      const reversedCount = await rollbackBulkPayment(user!.uid, reversingBatch.id, {
+        reason: reversalReason,
+        operatorName: user!.displayName || user!.email || "",
+      });
+      toast.success(`Reversed ${reversedCount} payment entries of the bulk payment`);
+      handleCloseReverseModal();
+      loadPaymentLogs();
+    } catch (error: any) {
+      console.error("Error reversing bulk payment:", error);
+      toast.error(error?.message || "Failed to reverse bulk payment");
+    } finally {
+      setProcessing(false);
+    }
   };
 
   const handleRollback = async () => {
-    if (!deletingLog) return;
+    if (!reversingLog) return;
+    if (!reversalReason.trim()) {
+      toast.error("Please enter a reason for the reversal");
+      return;
+    }
 
     setProcessing(true);
     try {
-      await rollbackPaymentTransaction(user!.uid, deletingLog.id);
-      toast.success("Payment transaction rolled back successfully");
-      handleCloseDeleteModal();
+      await rollbackPaymentTransaction(user!.uid, reversingLog.id, {
+        reason: reversalReason,
+        operatorName: user!.displayName || user!.email || "",
+      });
+      toast.success("Payment transaction reversed successfully");
+      handleCloseReverseModal();
       loadPaymentLogs();
     } catch (error: any) {
       console.error("Error rolling back transaction:", error);
@@ -76,6 +168,49 @@ export default function RollbackPage() {
     }
   };
 
+  // Reversal chain: reversed log ID -> its reversal, and log ID -> log
+  const reversals = useMemo(() => getPaymentLogReversals(paymentLogs), [paymentLogs]);
+  const logsById = useMemo(() => new Map(paymentLogs.map((log) => [log.id, log])), [paymentLogs]);
+
+  const bulkBatches = useMemo(() => {
+    const byId = new Map<string, PaymentLog[]>();
+    paymentLogs.forEach((log) => {
+      if (log.bulkBatchId && !log.reversalOf) {
+        byId.set(log.bulkBatchId, [...(byId.get(log.bulkBatchId) || []), log]);
+      }
+    });
+    return Array.from(byId, ([id, logs]): BulkBatch => {
+      const entries = [...logs].sort((a, b) =>
+        (a.receiptNumber || "").localeCompare(b.receiptNumber || "")
+      );
+      const reversed = entries.filter((log) => reversals.has(log.id));
+      const amount = entries.reduce((sum, log) => sum + log.amountPaid, 0);
+      return {
+        id,
+        clientName: entries[0].clientName,
+        paymentDate: entries[0].paymentDate,
+        paymentMethod: entries[0].paymentMethod,
+        collectorName: entries[0].collectorName || "",
+        entries,
+        amount,
+        reversedCount: reversed.length,
+        netAmount: amount - reversed.reduce((sum, log) => sum + log.amountPaid, 0),
+      };
+    }).sort((a, b) => b.paymentDate.toMillis() - a.paymentDate.toMillis());
+  }, [paymentLogs, reversals]);
+
+  // The batch view honours the search and client filters
+  const filteredBatches = useMemo(() => {
+    const query = searchTerm.toLowerCase();
+    return bulkBatches.filter(
+      (batch) =>
+        (clientFilter === "all" || batch.clientName === clientFilter) &&
+        (!query ||
+          batch.clientName.toLowerCase().includes(query) ||
+          batch.entries.some((log) => (log.receiptNumber || "").toLowerCase().includes(query)))
+    );
+  }, [bulkBatches, searchTerm, clientFilter]);
+
   // Derive unique groups, clients, and months for drop-down filters
   const uniqueGroups = useMemo(() => {
     const groups = [...new Set(paymentLogs.map(log => log.groupName))].sort();
@@ -111,7 +246,9 @@ export default function RollbackPage() {
         if (
           !log.clientName.toLowerCase().includes(query) &&
           !log.groupName.toLowerCase().includes(query) &&
-          !log.chitMonth.toLowerCase().includes(query)
+          !log.chitMonth.toLowerCase().includes(query) &&
+          !(log.receiptNumber || "").toLowerCase().includes(query) &&
+          !(log.reversalOf && (logsById.get(log.reversalOf)?.receiptNumber || "").toLowerCase().includes(query))
         ) {
           return false;
         }
@@ -175,7 +312,10 @@ export default function RollbackPage() {
     });
 
     return filtered;
-  }, [paymentLogs, searchTerm, groupFilter, clientFilter, monthFilter, sortField, sortDirection]);
+  }, [paymentLogs, logsById, searchTerm, groupFilter, clientFilter, monthFilter, sortField, sortDirection]);
+
+  // Reversals are negative, so the sum is what was actually collected
+  const netAmount = filteredAndSortedLogs.reduce((sum, log) => sum + log.amountPaid, 0);
 
   // Paginate sorted logs
   const totalPages = Math.ceil(filteredAndSortedLogs.length / itemsPerPage);
@@ -189,6 +329,39 @@ export default function RollbackPage() {
     setCurrentPage(1);
   }, [searchTerm, groupFilter, clientFilter, monthFilter, sortField, sortDirection]);
 
+  const handleExport = (exportFormat: ExportFormat) => {
+    exportRows(exportFormat, {
+      filename: `payment-transactions-${format(new Date(), "yyyy-MM-dd")}`,
+      title: "Payment Transactions",
+      filters: {
+        ...(searchTerm && { Search: searchTerm }),
+        ...(monthFilter !== "all" && { Month: monthFilter }),
+        ...(groupFilter !== "all" && { Group: groupFilter }),
+        ...(clientFilter !== "all" && { Client: clientFilter }),
+        "Sorted by": `${sortField} (${sortDirection})`,
+      },
+      columns: [
+        { header: "Payment Date", value: (log) => log.paymentDate },
+        { header: "Receipt No", value: (log) => log.receiptNumber },
+        { header: "Client", value: (log) => log.clientName },
+        { header: "Group", value: (log) => log.groupName },
+        { header: "Auction Month", value: (log) => log.chitMonth },
+        { header: "Amount Paid", value: (log) => log.amountPaid, type: "currency" },
+        { header: "Payment Method", value: (log) => log.paymentMethod },
+        { header: "Type", value: (log) => (log.penaltyChargeId ? "Penalty" : "Installment") },
+        { header: "Collected By", value: (log) => log.collectorName },
+        {
+          header: "Reversal Of",
+          value: (log) => (log.reversalOf ? logsById.get(log.reversalOf)?.receiptNumber || log.reversalOf : ""),
+        },
+        { header: "Reversed By", value: (log) => (reversals.has(log.id) ? reversals.get(log.id)!.id : "") },
+        { header: "Reversal Reason", value: (log) => log.reversalReason },
+        { header: "Bulk Payment", value: (log) => log.bulkBatchId },
+      ],
+      rows: filteredAndSortedLogs,
+    });
+  };
+
   const handleSort = (field: typeof sortField) => {
     if (sortField === field) {
       setSortDirection(sortDirection === "asc" ? "desc" : "asc");
@@ -212,6 +385,17 @@ export default function RollbackPage() {
     </button>
   );
 
+  if (!can("reversePayments")) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold text-gray-800">Rollback Transactions</h1>
+        <div className="card">
+          <p className="text-gray-600">Only managers and administrators can reverse payments.</p>
+        </div>
+      </div>
+    );
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -226,10 +410,34 @@ export default function RollbackPage() {
         <div>
           <h1 className="text-3xl font-bold text-gray-800">Rollback Transactions</h1>
           <p className="text-gray-600 mt-2">
-            Delete payment entries to revert payment updates. This will restore the pending amount
-            and update the payment status accordingly.
+            Reverse payment entries to revert payment updates. A negative reversal entry is posted
+            against the original, restoring the pending amount and updating the payment status.
           </p>
         </div>
+        <ExportButtons onExport={handleExport} disabled={filteredAndSortedLogs.length === 0} />
+      </div>
+
+      <div className="flex gap-2 border-b border-gray-200">
+        <button
+          onClick={() => setView("entries")}
+          className={`px-4 py-2 font-medium transition-colors ${
+            view === "entries"
+              ? "border-b-2 border-primary-600 text-primary-600"
+              : "text-gray-600 hover:text-gray-800"
+          }`}
+        >
+          Payment Entries
+        </button>
+        <button
+          onClick={() => setView("batches")}
+          className={`px-4 py-2 font-medium transition-colors ${
+            view === "batches"
+              ? "border-b-2 border-primary-600 text-primary-600"
+              : "text-gray-600 hover:text-gray-800"
+          }`}
+        >
+          Bulk Payments ({bulkBatches.length})
+        </button>
       </div>
 
       <div className="card">
@@ -240,7 +448,7 @@ export default function RollbackPage() {
               <label className="block text-sm font-medium text-gray-700 mb-2">Search</label>
               <input
                 type="text"
-                placeholder="Search by client, group, month..."
+                placeholder="Search by client, group, month, receipt..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="input-field"
@@ -345,7 +553,116 @@ export default function RollbackPage() {
           </div>
         )}
 
-        {paymentLogs.length === 0 ? (
+        {view === "batches" ? (
+          filteredBatches.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">No bulk payments found.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Payment Date</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Client Name</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Receipts</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Amount</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Net</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Status</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredBatches.map((batch) => {
+                    const expanded = expandedBatchId === batch.id;
+                    const fullyReversed = batch.reversedCount === batch.entries.length;
+                    return (
+                      <Fragment key={batch.id}>
+                        <tr className="border-b border-gray-100 hover:bg-gray-50">
+                          <td className="py-3 px-4">{formatDate(batch.paymentDate)}</td>
+                          <td className="py-3 px-4 font-medium">{batch.clientName}</td>
+                          <td className="py-3 px-4 text-sm text-gray-600">
+                            {batch.entries[0].receiptNumber || "-"}
+                            {batch.entries[batch.entries.length - 1].receiptNumber !== batch.entries[0].receiptNumber &&
+                              ` to ${batch.entries[batch.entries.length - 1].receiptNumber || "-"}`}
+                            <span className="block text-xs">{batch.entries.length} entries</span>
+                          </td>
+                          <td className="py-3 px-4 text-right">{formatCurrency(batch.amount)}</td>
+                          <td className="py-3 px-4 text-right font-semibold">{formatCurrency(batch.netAmount)}</td>
+                          <td className="py-3 px-4">
+                            <span
+                              className={`px-2 py-1 rounded-full text-xs font-semibold ${
+                                fullyReversed
+                                  ? "bg-danger-100 text-danger-700"
+                                  : batch.reversedCount > 0
+                                  ? "bg-warning-100 text-warning-700"
+                                  : "bg-success-100 text-success-700"
+                              }`}
+                            >
+                              {fullyReversed
+                                ? "Reversed"
+                                : batch.reversedCount > 0
+                                ? `${batch.reversedCount} Reversed`
+                                : "Active"}
+                            </span>
+                          </td>
+                          <td className="py-3 px-4">
+                            <div className="flex gap-3">
+                              <button
+                                onClick={() => setExpandedBatchId(expanded ? null : batch.id)}
+                                className="text-primary-600 hover:text-primary-700 font-medium"
+                              >
+                                {expanded ? "Hide" : "View"}
+                              </button>
+                              {!fullyReversed && batch.entries.some((log) => findDayClosing(dayClosings, log)) ? (
+                                <span className="text-gray-500 text-sm">Day closed</span>
+                              ) : !fullyReversed && (
+                                <button
+                                  onClick={() => handleReverseBatchClick(batch)}
+                                  className="text-danger-600 hover:text-danger-700 font-medium"
+                                >
+                                  Reverse Batch
+                                </button>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                        {expanded && (
+                          <tr className="border-b border-gray-100 bg-gray-50">
+                            <td colSpan={7} className="py-3 px-4">
+                              <table className="w-full text-sm">
+                                <tbody>
+                                  {batch.entries.map((log) => {
+                                    const reversal = reversals.get(log.id);
+                                    return (
+                                      <tr key={log.id}>
+                                        <td className="py-1 pr-4 text-gray-600">{log.receiptNumber || "-"}</td>
+                                        <td className="py-1 pr-4">{log.groupName}</td>
+                                        <td className="py-1 pr-4">
+                                          {log.chitMonth}
+                                          {log.penaltyChargeId && (
+                                            <span className="ml-2 text-xs text-danger-600">(Penalty)</span>
+                                          )}
+                                        </td>
+                                        <td className="py-1 pr-4 text-right">{formatCurrency(log.amountPaid)}</td>
+                                        <td className="py-1 text-danger-600">
+                                          {reversal &&
+                                            `Reversed on ${formatDate(reversal.paymentDate)} - ${reversal.reversalReason}`}
+                                        </td>
+                                      </tr>
+                                    );
+                                  })}
+                                </tbody>
+                              </table>
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )
+        ) : paymentLogs.length === 0 ? (
           <p className="text-gray-500 text-center py-8">No payment logs found.</p>
         ) : filteredAndSortedLogs.length === 0 ? (
           <p className="text-gray-500 text-center py-8">
@@ -353,6 +670,10 @@ export default function RollbackPage() {
           </p>
         ) : (
           <>
+            <div className="flex justify-end mb-3 text-sm text-gray-600">
+              Net amount ({filteredAndSortedLogs.length} entries):
+              <span className="ml-2 font-semibold text-gray-800">{formatCurrency(netAmount)}</span>
+            </div>
             <div className="overflow-x-auto">
               <table className="w-full">
                 <thead>
@@ -360,6 +681,7 @@ export default function RollbackPage() {
                     <th className="text-left py-3 px-4 font-semibold text-gray-700">
                       <SortButton field="paymentDate">Payment Date</SortButton>
                     </th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Receipt No</th>
                     <th className="text-left py-3 px-4 font-semibold text-gray-700">
                       <SortButton field="clientName">Client Name</SortButton>
                     </th>
@@ -379,36 +701,84 @@ export default function RollbackPage() {
                   </tr>
                 </thead>
                 <tbody>
-                  {paginatedLogs.map((log) => (
-                    <tr key={log.id} className="border-b border-gray-100 hover:bg-gray-50">
-                      <td className="py-3 px-4">{formatDate(log.paymentDate)}</td>
-                      <td className="py-3 px-4 font-medium">{log.clientName}</td>
-                      <td className="py-3 px-4">{log.groupName}</td>
-                      <td className="py-3 px-4">{log.chitMonth}</td>
-                      <td className="py-3 px-4 text-right font-semibold">
-                        {formatCurrency(log.amountPaid)}
-                      </td>
-                      <td className="py-3 px-4">
-                        <span
-                          className={`px-2 py-1 rounded-full text-xs font-medium ${
-                            log.paymentMethod === "Online"
-                              ? "bg-blue-100 text-blue-800"
-                              : "bg-gray-100 text-gray-800"
+                  {paginatedLogs.map((log) => {
+                    const reversal = reversals.get(log.id);
+                    const original = log.reversalOf ? logsById.get(log.reversalOf) : undefined;
+                    return (
+                      <tr
+                        key={log.id}
+                        className={`border-b border-gray-100 hover:bg-gray-50 ${log.reversalOf ? "bg-danger-50" : ""}`}
+                      >
+                        <td className="py-3 px-4">{formatDate(log.paymentDate)}</td>
+                        <td className="py-3 px-4 text-sm text-gray-600">
+                          {log.reversalOf ? (
+                            <>
+                              <span className="text-danger-700 font-medium">Reversal</span>
+                              <span className="block text-xs">
+                                of {original?.receiptNumber || (original ? formatDate(original.paymentDate) : "-")}
+                              </span>
+                              <span className="block text-xs text-gray-500">
+                                {log.reversalReason}
+                                {log.collectorName && ` - by ${log.collectorName}`}
+                              </span>
+                            </>
+                          ) : (
+                            <>
+                              {log.receiptNumber || "-"}
+                              {reversal && (
+                                <span className="block text-xs text-danger-600">
+                                  Reversed on {formatDate(reversal.paymentDate)}
+                                </span>
+                              )}
+                            </>
+                          )}
+                        </td>
+                        <td className="py-3 px-4 font-medium">{log.clientName}</td>
+                        <td className="py-3 px-4">{log.groupName}</td>
+                        <td className="py-3 px-4">{log.chitMonth}</td>
+                        <td
+                          className={`py-3 px-4 text-right font-semibold ${
+                            log.amountPaid < 0 ? "text-danger-600" : reversal ? "text-gray-400 line-through" : ""
                           }`}
                         >
-                          {log.paymentMethod}
-                        </span>
-                      </td>
-                      <td className="py-3 px-4">
-                        <button
-                          onClick={() => handleDeleteClick(log)}
-                          className="text-danger-600 hover:text-danger-700 font-medium"
-                        >
-                          Rollback
-                        </button>
-                      </td>
-                    </tr>
-                  ))}
+                          {formatCurrency(log.amountPaid)}
+                        </td>
+                        <td className="py-3 px-4">
+                          <span
+                            className={`px-2 py-1 rounded-full text-xs font-medium ${
+                              log.paymentMethod === "Online"
+                                ? "bg-blue-100 text-blue-800"
+                                : "bg-gray-100 text-gray-800"
+                            }`}
+                          >
+                            {log.paymentMethod}
+                          </span>
+                        </td>
+                        <td className="py-3 px-4">
+                          <div className="flex gap-3">
+                            {log.receiptNumber && !reversal && (
+                              <button
+                                onClick={() => handlePrintReceipt(log)}
+                                className="text-primary-600 hover:text-primary-700 font-medium"
+                              >
+                                {log.receiptPrintCount ? "Reprint" : "Receipt"}
+                              </button>
+                            )}
+                            {!log.reversalOf && !reversal && findDayClosing(dayClosings, log) ? (
+                              <span className="text-gray-500 text-sm">Day closed</span>
+                            ) : !log.reversalOf && !reversal && (
+                              <button
+                                onClick={() => handleReverseClick(log)}
+                                className="text-danger-600 hover:text-danger-700 font-medium"
+                              >
+                                Reverse
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
@@ -458,51 +828,130 @@ export default function RollbackPage() {
         )}
       </div>
 
-      {/* Delete Confirmation Modal */}
-      {showDeleteModal && deletingLog && (
+      {/* Reverse Confirmation Modal */}
+      {showReverseModal && reversingLog && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
           <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
-            <h2 className="text-2xl font-bold text-gray-800 mb-4">Rollback Transaction</h2>
+            <h2 className="text-2xl font-bold text-gray-800 mb-4">Reverse Transaction</h2>
             <div className="mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
               <p className="text-sm text-yellow-800 font-medium mb-2">Warning:</p>
               <p className="text-sm text-yellow-700">
-                This will reverse the payment and restore it to pending. The payment amount will be
-                added back to the pending amount.
+                This posts a negative reversal entry and restores the payment to pending. The payment
+                amount will be added back to the pending amount; the original entry is kept.
               </p>
             </div>
             <div className="mb-4 p-4 bg-gray-50 rounded-lg space-y-2">
+              {reversingLog.receiptNumber && (
+                <p className="text-sm">
+                  <span className="font-medium">Receipt No:</span> {reversingLog.receiptNumber}
+                </p>
+              )}
               <p className="text-sm">
-                <span className="font-medium">Client:</span> {deletingLog.clientName}
+                <span className="font-medium">Client:</span> {reversingLog.clientName}
               </p>
               <p className="text-sm">
-                <span className="font-medium">Group:</span> {deletingLog.groupName}
+                <span className="font-medium">Group:</span> {reversingLog.groupName}
               </p>
               <p className="text-sm">
-                <span className="font-medium">Month:</span> {deletingLog.chitMonth}
+                <span className="font-medium">Month:</span> {reversingLog.chitMonth}
               </p>
               <p className="text-sm">
-                <span className="font-medium">Payment Date:</span> {formatDate(deletingLog.paymentDate)}
+                <span className="font-medium">Payment Date:</span> {formatDate(reversingLog.paymentDate)}
               </p>
               <p className="text-sm">
-                <span className="font-medium">Amount to Rollback:</span>{" "}
+                <span className="font-medium">Amount to Reverse:</span>{" "}
                 <span className="font-semibold text-primary-700">
-                  {formatCurrency(deletingLog.amountPaid)}
+                  {formatCurrency(reversingLog.amountPaid)}
                 </span>
               </p>
             </div>
-            <p className="text-gray-600 mb-6">
-              Are you sure you want to rollback this transaction? This action cannot be undone.
-            </p>
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Reason for Reversal *
+              </label>
+              <textarea
+                value={reversalReason}
+                onChange={(e) => setReversalReason(e.target.value)}
+                className="input-field"
+                rows={3}
+                placeholder="e.g. Cheque bounced, entered against the wrong member"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Recorded on the reversal entry with your name. A reversal cannot be undone.
+              </p>
+            </div>
             <div className="flex gap-3">
               <button
                 onClick={handleRollback}
+                disabled={processing || !reversalReason.trim()}
+                className="btn-danger flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {processing ? "Reversing..." : "Reverse Transaction"}
+              </button>
+              <button
+                onClick={handleCloseReverseModal}
                 disabled={processing}
+                className="btn-secondary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Reverse Bulk Payment Modal */}
+      {reversingBatch && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+            <h2 className="text-2xl font-bold text-gray-800 mb-4">Reverse Bulk Payment</h2>
+            <div className="mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+              <p className="text-sm text-yellow-800 font-medium mb-2">Warning:</p>
+              <p className="text-sm text-yellow-700">
+                Every entry of this bulk payment that is still active is reversed together, or none
+                are. Each one gets its own negative reversal entry.
+              </p>
+            </div>
+            <div className="mb-4 p-4 bg-gray-50 rounded-lg space-y-2">
+              <p className="text-sm">
+                <span className="font-medium">Client:</span> {reversingBatch.clientName}
+              </p>
+              <p className="text-sm">
+                <span className="font-medium">Payment Date:</span> {formatDate(reversingBatch.paymentDate)}
+              </p>
+              <p className="text-sm">
+                <span className="font-medium">Entries to Reverse:</span>{" "}
+                {reversingBatch.entries.length - reversingBatch.reversedCount} of {reversingBatch.entries.length}
+              </p>
+              <p className="text-sm">
+                <span className="font-medium">Amount to Reverse:</span>{" "}
+                <span className="font-semibold text-primary-700">
+                  {formatCurrency(reversingBatch.netAmount)}
+                </span>
+              </p>
+            </div>
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Reason for Reversal *
+              </label>
+              <textarea
+                value={reversalReason}
+                onChange={(e) => setReversalReason(e.target.value)}
+                className="input-field"
+                rows={3}
+                placeholder="e.g. Amount keyed in wrongly"
+              />
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={handleReverseBatch}
+                disabled={processing || !reversalReason.trim()}
                 className="btn-danger flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                {processing ? "Rolling back..." : "Rollback Transaction"}
+                {processing ? "Reversing..." : "Reverse Bulk Payment"}
               </button>
               <button
-                onClick={handleCloseDeleteModal}
+                onClick={handleCloseReverseModal}
                 disabled={processing}
                 className="btn-secondary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
               >
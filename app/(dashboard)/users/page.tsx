@@ -0,0 +1,531 @@
+"use client";
+
+import { useEffect, useState, useMemo } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useBranch } from "@/contexts/BranchContext";
+import { getStaffUsers, updateStaffUser, sendStaffPasswordReset } from "@/lib/users";
+import { USER_ROLES, ROLE_LABELS } from "@/lib/roles";
+import { formatDate } from "@/lib/utils";
+import type { StaffUser, StaffUserAction, UserRole } from "@/types";
+import Pagination from "@/components/common/Pagination";
+import toast from "react-hot-toast";
+
+const getUserStatus = (staffUser: StaffUser): string => {
+  if (staffUser.disabled) return "Disabled";
+  if (staffUser.role) return "Active";
+  return staffUser.approval?.status === "Rejected" ? "Rejected" : "Pending";
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  Active: "bg-success-100 text-success-700",
+  Pending: "bg-warning-100 text-warning-700",
+  Rejected: "bg-danger-100 text-danger-700",
+  Disabled: "bg-gray-100 text-gray-700",
+};
+
+export default function UsersPage() {
+  const { user, isAdmin } = useAuth();
+  const { allBranches, branch: activeBranch } = useBranch();
+  const [users, setUsers] = useState<StaffUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processingUid, setProcessingUid] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [currentPage, setCurrentPage] = useState(1);
+  const itemsPerPage = 20;
+
+  // Role and branch picked for each pending request before approving it
+  const [approvalRoles, setApprovalRoles] = useState<Record<string, UserRole>>({});
+  const [approvalBranches, setApprovalBranches] = useState<Record<string, string>>({});
+  const [branchUser, setBranchUser] = useState<StaffUser | null>(null);
+  const [branchForm, setBranchForm] = useState({ branches: [] as string[], headOffice: false });
+  const [rejectingUser, setRejectingUser] = useState<StaffUser | null>(null);
+  const [rejectionReason, setRejectionReason] = useState("");
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      loadUsers();
+    }
+  }, [user, isAdmin]);
+
+  const loadUsers = async () => {
+    try {
+      setLoading(true);
+      setUsers(await getStaffUsers());
+    } catch (error: any) {
+      console.error("Error loading users:", error);
+      toast.error(error?.message || "Failed to load users");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const applyChange = async (change: StaffUserAction, successMessage: string) => {
+    setProcessingUid(change.uid);
+    try {
+      const updated = await updateStaffUser(change);
+      setUsers((current) => current.map((u) => (u.uid === updated.uid ? updated : u)));
+      toast.success(successMessage);
+      return true;
+    } catch (error: any) {
+      console.error("Error updating user:", error);
+      toast.error(error?.message || "Failed to update user");
+      return false;
+    } finally {
+      setProcessingUid(null);
+    }
+  };
+
+  const handleApprove = (staffUser: StaffUser) => {
+    const role = approvalRoles[staffUser.uid] || "readonly";
+    const branchId = approvalBranches[staffUser.uid] || activeBranch?.id;
+    applyChange(
+      { action: "approve", uid: staffUser.uid, role, branches: branchId ? [branchId] : [] },
+      `${staffUser.email} approved as ${ROLE_LABELS[role]}`
+    );
+  };
+
+  const handleOpenBranches = (staffUser: StaffUser) => {
+    setBranchUser(staffUser);
+    setBranchForm({ branches: staffUser.branches, headOffice: staffUser.headOffice });
+  };
+
+  const handleSaveBranches = async () => {
+    if (!branchUser) return;
+    const saved = await applyChange(
+      { action: "setBranches", uid: branchUser.uid, ...branchForm },
+      `Branches updated for ${branchUser.email}`
+    );
+    if (saved) {
+      setBranchUser(null);
+    }
+  };
+
+  const getBranchNames = (staffUser: StaffUser): string => {
+    if (staffUser.headOffice) return "All (head office)";
+    const names = staffUser.branches.map((id) => allBranches.find((b) => b.id === id)?.name || id);
+    return names.length > 0 ? names.join(", ") : "None";
+  };
+
+  const handleReject = async () => {
+    if (!rejectingUser) return;
+    if (!rejectionReason.trim()) {
+      toast.error("Please enter a reason");
+      return;
+    }
+    const rejected = await applyChange(
+      { action: "reject", uid: rejectingUser.uid, reason: rejectionReason },
+      `${rejectingUser.email} rejected`
+    );
+    if (rejected) {
+      setRejectingUser(null);
+      setRejectionReason("");
+    }
+  };
+
+  const handleRoleChange = (staffUser: StaffUser, role: UserRole) => {
+    if (!confirm(`Change ${staffUser.email} to ${ROLE_LABELS[role]}? They will be signed out.`)) return;
+    applyChange({ action: "setRole", uid: staffUser.uid, role }, `${staffUser.email} is now ${ROLE_LABELS[role]}`);
+  };
+
+  const handleToggleDisabled = (staffUser: StaffUser) => {
+    if (staffUser.disabled) {
+      applyChange({ action: "enable", uid: staffUser.uid }, `${staffUser.email} enabled`);
+    } else if (confirm(`Disable ${staffUser.email}? They will be signed out and unable to sign in.`)) {
+      applyChange({ action: "disable", uid: staffUser.uid }, `${staffUser.email} disabled`);
+    }
+  };
+
+  const handlePasswordReset = async (staffUser: StaffUser) => {
+    if (!confirm(`Email a password reset link to ${staffUser.email}?`)) return;
+    try {
+      await sendStaffPasswordReset(staffUser.email);
+      toast.success(`Password reset email sent to ${staffUser.email}`);
+    } catch (error: any) {
+      console.error("Error sending password reset:", error);
+      toast.error(error?.message || "Failed to send password reset");
+    }
+  };
+
+  const pendingRequests = useMemo(
+    () =>
+      users
+        .filter((u) => u.approval?.status === "Pending" && !u.role)
+        .sort((a, b) => (a.approval!.requestedAt || "").localeCompare(b.approval!.requestedAt || "")),
+    [users]
+  );
+
+  const filteredUsers = useMemo(() => {
+    const query = searchTerm.toLowerCase();
+    return users
+      .filter(
+        (u) =>
+          !query || u.email.toLowerCase().includes(query) || u.displayName.toLowerCase().includes(query)
+      )
+      .sort((a, b) => a.email.localeCompare(b.email));
+  }, [users, searchTerm]);
+
+  const totalPages = Math.ceil(filteredUsers.length / itemsPerPage);
+  const paginatedUsers = filteredUsers.slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage);
+
+  if (!isAdmin) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold text-gray-800">Users</h1>
+        <div className="card">
+          <p className="text-gray-600">Only administrators can manage users.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-800">Users</h1>
+        <p className="text-gray-600 mt-1">
+          Approve staff registrations, assign roles and manage sign-in access
+        </p>
+      </div>
+
+      {/* Pending Requests */}
+      <div className="card">
+        <h2 className="text-xl font-semibold text-gray-800 mb-4">
+          Pending Requests ({pendingRequests.length})
+        </h2>
+        {pendingRequests.length === 0 ? (
+          <p className="text-gray-500">No registrations waiting for approval.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Name</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Email</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Phone</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Requested</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Role</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Branch</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pendingRequests.map((staffUser) => (
+                  <tr key={staffUser.uid} className="border-b border-gray-100 hover:bg-gray-50">
+                    <td className="py-3 px-4 font-medium">{staffUser.displayName || "-"}</td>
+                    <td className="py-3 px-4">{staffUser.email}</td>
+                    <td className="py-3 px-4">{staffUser.approval?.phone || "-"}</td>
+                    <td className="py-3 px-4 text-sm text-gray-600">
+                      {staffUser.approval?.requestedAt ? formatDate(staffUser.approval.requestedAt) : "-"}
+                    </td>
+                    <td className="py-3 px-4">
+                      <select
+                        value={approvalRoles[staffUser.uid] || "readonly"}
+                        onChange={(e) =>
+                          setApprovalRoles({ ...approvalRoles, [staffUser.uid]: e.target.value as UserRole })
+                        }
+                        className="input-field"
+                      >
+                        {USER_ROLES.map((role) => (
+                          <option key={role} value={role}>
+                            {ROLE_LABELS[role]}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-3 px-4">
+                      <select
+                        value={approvalBranches[staffUser.uid] || activeBranch?.id || ""}
+                        onChange={(e) =>
+                          setApprovalBranches({ ...approvalBranches, [staffUser.uid]: e.target.value })
+                        }
+                        className="input-field"
+                      >
+                        {allBranches.map((branch) => (
+                          <option key={branch.id} value={branch.id}>
+                            {branch.name}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-3 px-4">
+                      <div className="flex gap-3">
+                        <button
+                          onClick={() => handleApprove(staffUser)}
+                          disabled={processingUid === staffUser.uid}
+                          className="text-success-600 hover:text-success-700 font-medium disabled:opacity-50"
+                        >
+                          Approve
+                        </button>
+                        <button
+                          onClick={() => {
+                            setRejectingUser(staffUser);
+                            setRejectionReason("");
+                          }}
+                          disabled={processingUid === staffUser.uid}
+                          className="text-danger-600 hover:text-danger-700 font-medium disabled:opacity-50"
+                        >
+                          Reject
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* All Users */}
+      <div className="card">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-800">All Users</h2>
+          <input
+            type="text"
+            placeholder="Search by name or email..."
+            value={searchTerm}
+            onChange={(e) => {
+              setSearchTerm(e.target.value);
+              setCurrentPage(1);
+            }}
+            className="input-field max-w-xs"
+          />
+        </div>
+        {filteredUsers.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">No users found.</p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">User</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Role</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Branches</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Status</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Last Sign-in</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {paginatedUsers.map((staffUser) => {
+                    const status = getUserStatus(staffUser);
+                    const isSelf = staffUser.uid === user?.uid;
+                    const processing = processingUid === staffUser.uid;
+                    return (
+                      <tr key={staffUser.uid} className="border-b border-gray-100 hover:bg-gray-50">
+                        <td className="py-3 px-4">
+                          <p className="font-medium">{staffUser.displayName || staffUser.email}</p>
+                          {staffUser.displayName && <p className="text-xs text-gray-500">{staffUser.email}</p>}
+                        </td>
+                        <td className="py-3 px-4">
+                          {staffUser.role && !isSelf ? (
+                            <select
+                              value={staffUser.role}
+                              onChange={(e) => handleRoleChange(staffUser, e.target.value as UserRole)}
+                              disabled={processing}
+                              className="input-field"
+                            >
+                              {USER_ROLES.map((role) => (
+                                <option key={role} value={role}>
+                                  {ROLE_LABELS[role]}
+                                </option>
+                              ))}
+                            </select>
+                          ) : (
+                            <span className="text-sm">{staffUser.role ? ROLE_LABELS[staffUser.role] : "-"}</span>
+                          )}
+                        </td>
+                        <td className="py-3 px-4 text-sm">
+                          {staffUser.role ? (
+                            <>
+                              {getBranchNames(staffUser)}
+                              {!isSelf && staffUser.role !== "admin" && (
+                                <button
+                                  onClick={() => handleOpenBranches(staffUser)}
+                                  disabled={processing}
+                                  className="ml-2 text-primary-600 hover:text-primary-700 font-medium disabled:opacity-50"
+                                >
+                                  Edit
+                                </button>
+                              )}
+                            </>
+                          ) : (
+                            "-"
+                          )}
+                        </td>
+                        <td className="py-3 px-4">
+                          <span className={`px-2 py-1 rounded-full text-xs font-semibold ${STATUS_STYLES[status]}`}>
+                            {status}
+                          </span>
+                          {status === "Rejected" && staffUser.approval?.rejectionReason && (
+                            <p className="text-xs text-gray-500 mt-1">{staffUser.approval.rejectionReason}</p>
+                          )}
+                        </td>
+                        <td className="py-3 px-4 text-sm text-gray-600">
+                          {staffUser.lastSignInAt ? formatDate(staffUser.lastSignInAt) : "Never"}
+                        </td>
+                        <td className="py-3 px-4">
+                          {isSelf ? (
+                            <span className="text-sm text-gray-500">You</span>
+                          ) : (
+                            <div className="flex gap-3">
+                              {!staffUser.role && staffUser.approval?.status !== "Pending" && (
+                                <button
+                                  onClick={() =>
+                                    applyChange(
+                                      { action: "setRole", uid: staffUser.uid, role: "readonly" },
+                                      `${staffUser.email} can now view the books`
+                                    )
+                                  }
+                                  disabled={processing}
+                                  className="text-success-600 hover:text-success-700 font-medium disabled:opacity-50"
+                                >
+                                  Grant Access
+                                </button>
+                              )}
+                              <button
+                                onClick={() => handleToggleDisabled(staffUser)}
+                                disabled={processing}
+                                className={`font-medium disabled:opacity-50 ${
+                                  staffUser.disabled
+                                    ? "text-success-600 hover:text-success-700"
+                                    : "text-danger-600 hover:text-danger-700"
+                                }`}
+                              >
+                                {staffUser.disabled ? "Enable" : "Disable"}
+                              </button>
+                              {staffUser.email && (
+                                <button
+                                  onClick={() => handlePasswordReset(staffUser)}
+                                  className="text-primary-600 hover:text-primary-700 font-medium"
+                                >
+                                  Reset Password
+                                </button>
+                              )}
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <Pagination
+              currentPage={currentPage}
+              totalPages={totalPages}
+              totalItems={filteredUsers.length}
+              itemsPerPage={itemsPerPage}
+              onPageChange={setCurrentPage}
+              itemName="users"
+            />
+          </>
+        )}
+      </div>
+
+      {/* Branches Modal */}
+      {branchUser && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+            <h2 className="text-2xl font-bold text-gray-800 mb-4">Branches</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Branches {branchUser.displayName || branchUser.email} can work in. Removing a branch signs them
+              out.
+            </p>
+            <div className="space-y-2 mb-4">
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={branchForm.headOffice}
+                  onChange={(e) => setBranchForm({ ...branchForm, headOffice: e.target.checked })}
+                />
+                Head office: every branch and the consolidated reports
+              </label>
+              {allBranches.map((branch) => (
+                <label key={branch.id} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={branchForm.headOffice || branchForm.branches.includes(branch.id)}
+                    disabled={branchForm.headOffice}
+                    onChange={(e) =>
+                      setBranchForm({
+                        ...branchForm,
+                        branches: e.target.checked
+                          ? [...branchForm.branches, branch.id]
+                          : branchForm.branches.filter((id) => id !== branch.id),
+                      })
+                    }
+                  />
+                  {branch.name} ({branch.code})
+                </label>
+              ))}
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={handleSaveBranches}
+                disabled={processingUid === branchUser.uid}
+                className="btn-primary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {processingUid === branchUser.uid ? "Saving..." : "Save"}
+              </button>
+              <button
+                onClick={() => setBranchUser(null)}
+                disabled={processingUid === branchUser.uid}
+                className="btn-secondary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Reject Modal */}
+      {rejectingUser && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+            <h2 className="text-2xl font-bold text-gray-800 mb-4">Reject Request</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              {rejectingUser.displayName || rejectingUser.email} ({rejectingUser.email}) will see this reason
+              when they sign in.
+            </p>
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Reason *</label>
+              <textarea
+                value={rejectionReason}
+                onChange={(e) => setRejectionReason(e.target.value)}
+                className="input-field"
+                rows={3}
+              />
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={handleReject}
+                disabled={processingUid === rejectingUser.uid || !rejectionReason.trim()}
+                className="btn-danger flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {processingUid === rejectingUser.uid ? "Rejecting..." : "Reject"}
+              </button>
+              <button
+                onClick={() => setRejectingUser(null)}
+                disabled={processingUid === rejectingUser.uid}
+                className="btn-secondary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
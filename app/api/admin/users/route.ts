@@ -0,0 +1,290 @@
+import { NextResponse } from "next/server";
+import { FieldValue, Timestamp, type DocumentData, type WriteBatch } from "firebase-admin/firestore";
+import type { DecodedIdToken, UserRecord } from "firebase-admin/auth";
+import { getAdminAuth, getAdminDb } from "@/lib/firebase-admin";
+import { getBranchAccessFromClaims, getRoleFromClaims, USER_ROLES } from "@/lib/roles";
+import type { StaffUser, StaffUserAction, UserApproval } from "@/types";
+
+// Runs on the server with the Admin SDK: reads need the auth user list and
+// writes set custom claims, neither of which the client SDK can do
+export const dynamic = "force-dynamic";
+
+class RequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+// Only signed-in admins may call this route; the caller sends its ID token
+const verifyAdmin = async (request: Request): Promise<DecodedIdToken> => {
+  const token = request.headers.get("Authorization")?.match(/^Bearer (.+)$/)?.[1];
+  if (!token) {
+    throw new RequestError("Not signed in", 401);
+  }
+  let decoded: DecodedIdToken;
+  try {
+    decoded = await getAdminAuth().verifyIdToken(token, true);
+  } catch {
+    throw new RequestError("Your session has expired, please sign in again", 401);
+  }
+  if (getRoleFromClaims(decoded) !== "admin") {
+    throw new RequestError("Only administrators can manage users", 403);
+  }
+  return decoded;
+};
+
+const toIso = (value: Timestamp | null | undefined) => (value ? value.toDate().toISOString() : null);
+
+const toStaffUser = (record: UserRecord, approval: UserApproval | undefined): StaffUser => ({
+  uid: record.uid,
+  email: record.email || "",
+  displayName: record.displayName || approval?.displayName || "",
+  disabled: record.disabled,
+  role: getRoleFromClaims(record.customClaims || {}),
+  ...getBranchAccessFromClaims(record.customClaims || {}),
+  createdAt: new Date(record.metadata.creationTime).toISOString(),
+  lastSignInAt: record.metadata.lastSignInTime ? new Date(record.metadata.lastSignInTime).toISOString() : null,
+  approval: approval
+    ? {
+        status: approval.status,
+        phone: approval.phone,
+        rejectionReason: approval.rejectionReason,
+        reviewedBy: approval.reviewedBy,
+        reviewedAt: toIso(approval.reviewedAt),
+        requestedAt: toIso(approval.createdAt) || "",
+      }
+    : null,
+});
+
+// Branch IDs must name existing branches; they end up in the user's claims
+const validateBranches = async (branches: unknown): Promise<string[]> => {
+  if (!Array.isArray(branches) || branches.some((id) => typeof id !== "string")) {
+    throw new RequestError("Branches must be a list of branch IDs", 400);
+  }
+  const ids = Array.from(new Set(branches as string[]));
+  if (ids.length === 0) return ids;
+  const snaps = await getAdminDb().getAll(...ids.map((id) => getAdminDb().collection("branches").doc(id)));
+  const missing = snaps.filter((snap) => !snap.exists).map((snap) => snap.id);
+  if (missing.length > 0) {
+    throw new RequestError(`Unknown branch ${missing.join(", ")}`, 400);
+  }
+  return ids;
+};
+
+// Same shape as the client's writeAuditEntry in lib/firestore.ts
+const writeAuditEntry = (
+  batch: WriteBatch,
+  actor: DecodedIdToken,
+  action: "create" | "update",
+  entityType: string,
+  entityId: string,
+  before: DocumentData | null,
+  after: DocumentData
+) => {
+  batch.set(getAdminDb().collection("auditLog").doc(), {
+    actorUid: actor.uid,
+    actorEmail: actor.email || "",
+    action,
+    branchId: null,
+    entityType,
+    entityId,
+    before,
+    after: action === "update" ? { ...before, ...after } : after,
+    timestamp: FieldValue.serverTimestamp(),
+  });
+};
+
+// The staff collection lets other staff pick collectors without the Admin SDK;
+// only this route writes it, so it is refreshed whenever users are listed
+const writeStaffDirectory = (batch: WriteBatch, user: StaffUser) => {
+  batch.set(getAdminDb().collection("staff").doc(user.uid), {
+    displayName: user.displayName || user.email,
+    email: user.email,
+    role: user.role,
+    branches: user.branches,
+    headOffice: user.headOffice,
+    disabled: user.disabled,
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+};
+
+export async function GET(request: Request) {
+  try {
+    await verifyAdmin(request);
+
+    const records: UserRecord[] = [];
+    let pageToken: string | undefined;
+    do {
+      const page = await getAdminAuth().listUsers(1000, pageToken);
+      records.push(...page.users);
+      pageToken = page.pageToken;
+    } while (pageToken);
+
+    const approvalsSnapshot = await getAdminDb().collection("userApprovals").get();
+    const approvals = new Map(
+      approvalsSnapshot.docs.map((snap) => [snap.id, { id: snap.id, ...snap.data() } as UserApproval])
+    );
+
+    const users = records.map((record) => toStaffUser(record, approvals.get(record.uid)));
+    for (let start = 0; start < users.length; start += 500) {
+      const batch = getAdminDb().batch();
+      users.slice(start, start + 500).forEach((user) => writeStaffDirectory(batch, user));
+      await batch.commit();
+    }
+    return NextResponse.json({ users });
+  } catch (error: any) {
+    console.error("Error listing users:", error);
+    return NextResponse.json(
+      { error: error?.message || "Failed to list users" },
+      { status: error instanceof RequestError ? error.status : 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const actor = await verifyAdmin(request);
+    const body = (await request.json()) as StaffUserAction;
+
+    if (!body?.uid) {
+      throw new RequestError("No user given", 400);
+    }
+    if ((body.action === "approve" || body.action === "setRole") && !USER_ROLES.includes(body.role)) {
+      throw new RequestError(`Unknown role "${(body as { role?: string }).role}"`, 400);
+    }
+    if (body.action === "reject" && !body.reason?.trim()) {
+      throw new RequestError("A reason is required to reject a request", 400);
+    }
+    // An admin locking themselves out leaves nobody to undo it
+    if (body.uid === actor.uid) {
+      throw new RequestError("You cannot change your own access", 400);
+    }
+
+    const auth = getAdminAuth();
+    const db = getAdminDb();
+    const record = await auth.getUser(body.uid);
+    const claims = record.customClaims || {};
+    const before = {
+      role: getRoleFromClaims(claims),
+      ...getBranchAccessFromClaims(claims),
+      disabled: record.disabled,
+    };
+
+    const approvalRef = db.collection("userApprovals").doc(body.uid);
+    const approvalSnap = await approvalRef.get();
+    const approval = approvalSnap.exists ? approvalSnap.data()! : null;
+
+    let role = before.role;
+    let branches = before.branches;
+    // The stored flag; admins are head office by role whatever it says
+    let headOffice = claims.headOffice === true;
+    let disabled = before.disabled;
+    let approvalChanges: DocumentData | null = null;
+
+    switch (body.action) {
+      case "approve":
+        if (!approval) {
+          throw new RequestError("This user has no registration request", 400);
+        }
+        role = body.role;
+        branches = await validateBranches(body.branches);
+        if (branches.length === 0 && role !== "admin") {
+          throw new RequestError("Choose the branch this user works in", 400);
+        }
+        approvalChanges = {
+          status: "Approved",
+          role,
+          rejectionReason: "",
+          reviewedBy: actor.email || actor.uid,
+          reviewedAt: Timestamp.now(),
+          updatedAt: Timestamp.now(),
+        };
+        break;
+      case "reject":
+        if (!approval) {
+          throw new RequestError("This user has no registration request", 400);
+        }
+        role = null;
+        branches = [];
+        approvalChanges = {
+          status: "Rejected",
+          role: null,
+          rejectionReason: body.reason.trim(),
+          reviewedBy: actor.email || actor.uid,
+          reviewedAt: Timestamp.now(),
+          updatedAt: Timestamp.now(),
+        };
+        break;
+      case "setRole":
+        role = body.role;
+        if (approval) {
+          approvalChanges = { role, updatedAt: Timestamp.now() };
+        }
+        break;
+      case "setBranches":
+        branches = await validateBranches(body.branches);
+        headOffice = body.headOffice === true;
+        break;
+      case "disable":
+        disabled = true;
+        break;
+      case "enable":
+        disabled = false;
+        break;
+      default:
+        throw new RequestError("Unknown action", 400);
+    }
+
+    if (role === "admin" || role === null) {
+      headOffice = false;
+    }
+    const after = { role, branches, headOffice: role === "admin" || headOffice, disabled };
+    const lostBranch =
+      (before.headOffice && !after.headOffice) || before.branches.some((id) => !branches.includes(id));
+    const branchesChanged =
+      headOffice !== (claims.headOffice === true) ||
+      branches.length !== before.branches.length ||
+      branches.some((id) => !before.branches.includes(id));
+    if (role !== before.role || branchesChanged) {
+      const nextClaims = { ...claims };
+      delete nextClaims.admin;
+      delete nextClaims.role;
+      delete nextClaims.branches;
+      delete nextClaims.headOffice;
+      await auth.setCustomUserClaims(
+        body.uid,
+        role
+          ? { ...nextClaims, admin: role === "admin", role, branches, headOffice }
+          : nextClaims
+      );
+    }
+    if (disabled !== before.disabled) {
+      await auth.updateUser(body.uid, { disabled });
+    }
+    // Sign the user out everywhere so a lost role, a lost branch or a disabled
+    // account cannot refresh their ID token. The Firestore rules keep accepting
+    // the token already issued until it expires, up to an hour later.
+    if (disabled || (before.role !== null && role !== before.role) || lostBranch) {
+      await auth.revokeRefreshTokens(body.uid);
+    }
+
+    const batch = db.batch();
+    writeAuditEntry(batch, actor, "update", "users", body.uid, before, after);
+    if (approvalChanges) {
+      batch.update(approvalRef, approvalChanges);
+      writeAuditEntry(batch, actor, "update", "userApprovals", body.uid, approval, approvalChanges);
+    }
+    const updatedApproval = approvalChanges ? { id: body.uid, ...approval, ...approvalChanges } : approval;
+    const user = toStaffUser(await auth.getUser(body.uid), (updatedApproval as UserApproval | null) || undefined);
+    writeStaffDirectory(batch, user);
+    await batch.commit();
+
+    return NextResponse.json({ user });
+  } catch (error: any) {
+    console.error("Error updating user:", error);
+    return NextResponse.json(
+      { error: error?.message || "Failed to update user" },
+      { status: error instanceof RequestError ? error.status : 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import type { ExportFormat } from "@/lib/export";
+
+interface ExportButtonsProps {
+  onExport: (format: ExportFormat) => void;
+  disabled?: boolean;
+}
+
+export default function ExportButtons({ onExport, disabled = false }: ExportButtonsProps) {
+  return (
+    <div className="flex gap-2">
+      <button
+        onClick={() => onExport("csv")}
+        disabled={disabled}
+        className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Export CSV
+      </button>
+      <button
+        onClick={() => onExport("xlsx")}
+        disabled={disabled}
+        className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Export Excel
+      </button>
+    </div>
+  );
+}
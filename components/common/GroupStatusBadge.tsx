@@ -0,0 +1,22 @@
+"use client";
+
+import type { GroupStatus } from "@/types";
+
+interface GroupStatusBadgeProps {
+  status: GroupStatus;
+}
+
+const statusStyles: Record<GroupStatus, string> = {
+  Forming: "bg-warning-100 text-warning-800",
+  Active: "bg-success-100 text-success-800",
+  Completed: "bg-primary-100 text-primary-800",
+  Closed: "bg-gray-100 text-gray-800",
+};
+
+export default function GroupStatusBadge({ status }: GroupStatusBadgeProps) {
+  return (
+    <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusStyles[status]}`}>
+      {status}
+    </span>
+  );
+}
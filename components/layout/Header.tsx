@@ -2,10 +2,13 @@
 
 import { useState, useRef, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
+import { useBranch } from "@/contexts/BranchContext";
 import Link from "next/link";
+import { ROLE_LABELS } from "@/lib/roles";
 
 export default function Header() {
-  const { user } = useAuth();
+  const { user, role } = useAuth();
+  const { branches, branch, selectBranch } = useBranch();
   const [showDropdown, setShowDropdown] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
@@ -30,8 +33,30 @@ export default function Header() {
           <p className="text-xs text-gray-500 mt-0.5">Manage your chit funds efficiently</p>
         </div>
         <div className="flex items-center gap-4">
+          {/* Everything on screen belongs to this branch */}
+          {branches.length > 1 ? (
+            <select
+              value={branch?.id || ""}
+              onChange={(e) => selectBranch(e.target.value)}
+              className="input-field py-2 text-sm w-auto"
+              aria-label="Branch"
+            >
+              {branches.map((b) => (
+                <option key={b.id} value={b.id}>
+                  {b.name} ({b.code})
+                </option>
+              ))}
+            </select>
+          ) : (
+            branch && (
+              <span className="px-3 py-1 rounded-full text-xs font-semibold bg-primary-100 text-primary-700">
+                {branch.name}
+              </span>
+            )
+          )}
           <div className="text-right hidden sm:block">
             <p className="text-sm font-medium text-gray-700">{user?.email}</p>
+            {role && <p className="text-xs text-gray-500">{ROLE_LABELS[role]}</p>}
           </div>
           <div className="relative" ref={dropdownRef}>
             <button
@@ -0,0 +1,130 @@
+"use client";
+
+import { useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useBranch } from "@/contexts/BranchContext";
+import { createBranch } from "@/lib/firestore";
+import toast from "react-hot-toast";
+
+// Shown instead of the dashboard when the user has no branch to work in. An
+// admin on a fresh install creates the first branch here.
+export default function NoBranch() {
+  const { user, isAdmin, refreshRole, signOut } = useAuth();
+  const { reloadBranches } = useBranch();
+  const [formData, setFormData] = useState({ name: "", code: "", address: "" });
+  const [saving, setSaving] = useState(false);
+  const [checking, setChecking] = useState(false);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await createBranch(user!.uid, {
+        name: formData.name.trim(),
+        code: formData.code.trim().toUpperCase(),
+        address: formData.address.trim(),
+      });
+      toast.success("Branch created");
+      await reloadBranches();
+    } catch (error: any) {
+      console.error("Error creating branch:", error);
+      toast.error(error?.message || "Failed to create branch");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCheckAgain = async () => {
+    setChecking(true);
+    try {
+      await refreshRole();
+      await reloadBranches();
+    } catch (error: any) {
+      console.error("Error refreshing access:", error);
+      toast.error(error?.message || "Failed to check access");
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-50 via-white to-gray-50 p-4">
+      <div className="card max-w-md w-full space-y-4">
+        {isAdmin ? (
+          <>
+            <h1 className="text-2xl font-bold text-gray-800 text-center">Create the First Branch</h1>
+            <p className="text-gray-600 text-center">
+              Every client, group and payment belongs to a branch. Add one to start; more can be added on
+              the Branches page.
+            </p>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Branch Name *</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  required
+                  className="input-field"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Code *</label>
+                <input
+                  type="text"
+                  value={formData.code}
+                  onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                  required
+                  maxLength={6}
+                  className="input-field"
+                  placeholder="e.g. MDU"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Address</label>
+                <textarea
+                  value={formData.address}
+                  onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                  className="input-field"
+                  rows={2}
+                />
+              </div>
+              <div className="flex gap-3">
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="btn-primary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {saving ? "Creating..." : "Create Branch"}
+                </button>
+                <button type="button" onClick={signOut} className="btn-secondary flex-1">
+                  Sign Out
+                </button>
+              </div>
+            </form>
+          </>
+        ) : (
+          <>
+            <h1 className="text-2xl font-bold text-gray-800 text-center">No Branch Assigned</h1>
+            <p className="text-gray-600 text-center">
+              {user?.email} is not assigned to any branch yet. Ask an administrator to add you to your
+              branch on the Users page.
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={handleCheckAgain}
+                disabled={checking}
+                className="btn-primary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {checking ? "Checking..." : "Check Again"}
+              </button>
+              <button onClick={signOut} className="btn-secondary flex-1">
+                Sign Out
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { getUserApproval } from "@/lib/firestore";
+import { formatDate } from "@/lib/utils";
+import type { UserApproval } from "@/types";
+import toast from "react-hot-toast";
+
+// Shown instead of the dashboard to signed-in users who have no role yet
+export default function PendingApproval() {
+  const { user, refreshRole, signOut } = useAuth();
+  const [approval, setApproval] = useState<UserApproval | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [checking, setChecking] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      loadApproval();
+    }
+  }, [user]);
+
+  const loadApproval = async () => {
+    try {
+      setApproval(await getUserApproval(user!.uid));
+    } catch (error: any) {
+      console.error("Error loading registration request:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCheckAgain = async () => {
+    setChecking(true);
+    try {
+      await refreshRole();
+      await loadApproval();
+    } catch (error: any) {
+      console.error("Error refreshing access:", error);
+      toast.error(error?.message || "Failed to check access");
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-50 via-white to-gray-50 p-4">
+      <div className="card max-w-md w-full text-center space-y-4">
+        <h1 className="text-2xl font-bold text-gray-800">
+          {approval?.status === "Rejected" ? "Access Request Rejected" : "Waiting for Approval"}
+        </h1>
+        {loading ? (
+          <div className="flex items-center justify-center h-16">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+        ) : approval?.status === "Rejected" ? (
+          <p className="text-gray-600">
+            Your request was rejected
+            {approval.reviewedAt && ` on ${formatDate(approval.reviewedAt)}`}
+            {approval.rejectionReason && `: ${approval.rejectionReason}`}. Contact your administrator if
+            this is a mistake.
+          </p>
+        ) : approval ? (
+          <p className="text-gray-600">
+            Your registration as {approval.email} was received on {formatDate(approval.createdAt)}. An
+            administrator has to approve it and assign your role before you can use the app.
+          </p>
+        ) : (
+          <p className="text-gray-600">
+            {user?.email} has no role yet. Ask an administrator to assign one on the Users page.
+          </p>
+        )}
+        <div className="flex gap-3">
+          <button
+            onClick={handleCheckAgain}
+            disabled={checking}
+            className="btn-primary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {checking ? "Checking..." : "Check Again"}
+          </button>
+          <button onClick={signOut} className="btn-secondary flex-1">
+            Sign Out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,23 +3,33 @@
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
+import type { Permission } from "@/lib/roles";
 
-const menuItems = [
+// Items with a permission are only listed for roles that have it
+const menuItems: { name: string; href: string; icon: string; permission?: Permission }[] = [
   { name: "Dashboard", href: "/", icon: "📊" },
   { name: "Reports", href: "/reports", icon: "📈" },
   { name: "Auctions", href: "/auctions", icon: "🔨" },
   { name: "Payments", href: "/payments", icon: "💰" },
-  { name: "Bulk Pay", href: "/bulk-pay", icon: "💳" },
+  { name: "Bulk Pay", href: "/bulk-pay", icon: "💳", permission: "recordPayments" },
+  { name: "My Collections", href: "/collections", icon: "🚶", permission: "recordPayments" },
+  { name: "Payouts", href: "/payouts", icon: "🏦" },
   { name: "Clients", href: "/clients", icon: "👥" },
   { name: "Groups", href: "/groups", icon: "🏢" },
-  { name: "Rollback", href: "/rollback", icon: "↩️" },
+  { name: "Rollback", href: "/rollback", icon: "↩️", permission: "reversePayments" },
+  { name: "Day-End", href: "/day-end", icon: "🧮", permission: "closeDay" },
   { name: "Memberships", href: "/memberships", icon: "🔗" },
+  { name: "Import", href: "/import", icon: "📥", permission: "manageMasterData" },
+  { name: "Audit Log", href: "/audit", icon: "📜", permission: "administer" },
+  { name: "Branches", href: "/branches", icon: "🏢", permission: "administer" },
+  { name: "Users", href: "/users", icon: "👤", permission: "administer" },
+  { name: "Backup", href: "/backup", icon: "🗄️", permission: "administer" },
   { name: "Settings", href: "/settings", icon: "⚙️" },
 ];
 
 export default function Sidebar() {
   const pathname = usePathname();
-  const { signOut } = useAuth();
+  const { signOut, can } = useAuth();
 
   return (
     <div className="w-64 bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 text-white min-h-screen flex flex-col shadow-2xl border-r border-slate-700/50">
@@ -37,7 +47,7 @@ export default function Sidebar() {
       </div>
       
       <nav className="flex-1 p-4 space-y-1.5 overflow-y-auto">
-        {menuItems.map((item) => {
+        {menuItems.filter((item) => !item.permission || can(item.permission)).map((item) => {
           const isActive = pathname === item.href || 
             (item.href !== "/" && pathname?.startsWith(item.href));
           
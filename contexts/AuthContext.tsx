@@ -1,14 +1,24 @@
 "use client";
 
 import { createContext, useContext, useEffect, useState } from "react";
-import { User, onAuthStateChanged, signInWithEmailAndPassword, signOut as firebaseSignOut, updatePassword, reauthenticateWithCredential, EmailAuthProvider } from "firebase/auth";
+import { User, onAuthStateChanged, signInWithEmailAndPassword, createUserWithEmailAndPassword, updateProfile, signOut as firebaseSignOut, updatePassword, reauthenticateWithCredential, EmailAuthProvider } from "firebase/auth";
 import { auth } from "@/lib/firebase";
+import { createUserApproval } from "@/lib/firestore";
+import { getRoleFromClaims, getBranchAccessFromClaims, hasPermission, type Permission } from "@/lib/roles";
+import type { UserRole } from "@/types";
 import { useRouter } from "next/navigation";
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
+  isAdmin: boolean; // role is admin, same as isAdmin() in firestore.rules
+  role: UserRole | null; // from the `role` custom claim, see lib/roles.ts; null until approved
+  branchIds: string[]; // branches from the `branches` claim
+  isHeadOffice: boolean; // every branch and the consolidated reports
+  can: (permission: Permission) => boolean;
+  refreshRole: () => Promise<void>;
   signIn: (email: string, password: string) => Promise<void>;
+  register: (data: { displayName: string; email: string; phone: string; password: string }) => Promise<void>;
   signOut: () => Promise<void>;
   changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
 }
@@ -17,23 +27,63 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [role, setRole] = useState<UserRole | null>(null);
+  const [branchAccess, setBranchAccess] = useState({ branches: [] as string[], headOffice: false });
   const [loading, setLoading] = useState(true);
   const router = useRouter();
 
+  const applyClaims = (claims: Record<string, unknown>) => {
+    setRole(getRoleFromClaims(claims));
+    setBranchAccess(getBranchAccessFromClaims(claims));
+  };
+
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (user) => {
+    const unsubscribe = onAuthStateChanged(auth, async (user) => {
       setUser(user);
+      if (user) {
+        try {
+          const tokenResult = await user.getIdTokenResult();
+          applyClaims(tokenResult.claims);
+        } catch (error) {
+          console.error("Error reading user claims:", error);
+          applyClaims({});
+        }
+      } else {
+        applyClaims({});
+      }
       setLoading(false);
     });
 
     return unsubscribe;
   }, []);
 
+  const isAdmin = role === "admin";
+  const can = (permission: Permission) => hasPermission(role, permission);
+
+  // Fetches a fresh ID token so a role or branch granted since sign-in is picked up
+  const refreshRole = async () => {
+    if (!auth.currentUser) return;
+    const tokenResult = await auth.currentUser.getIdTokenResult(true);
+    applyClaims(tokenResult.claims);
+  };
+
   const signIn = async (email: string, password: string) => {
     await signInWithEmailAndPassword(auth, email, password);
     // User authenticated, can now access dashboard
   };
 
+  // Staff self-registration: the account gets no role until an admin approves
+  // its userApprovals request
+  const register = async (data: { displayName: string; email: string; phone: string; password: string }) => {
+    const credential = await createUserWithEmailAndPassword(auth, data.email, data.password);
+    await updateProfile(credential.user, { displayName: data.displayName });
+    await createUserApproval(credential.user.uid, {
+      email: data.email,
+      displayName: data.displayName,
+      phone: data.phone,
+    });
+  };
+
   const signOut = async () => {
     await firebaseSignOut(auth);
     router.push("/login");
@@ -56,7 +106,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     <AuthContext.Provider value={{ 
       user, 
       loading, 
+      isAdmin,
+      role,
+      branchIds: branchAccess.branches,
+      isHeadOffice: branchAccess.headOffice,
+      can,
+      refreshRole,
       signIn, 
+      register,
       signOut,
       changePassword
     }}>
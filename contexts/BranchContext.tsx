@@ -0,0 +1,95 @@
+"use client";
+
+import { createContext, useContext, useEffect, useMemo, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { getBranches, setActiveBranch } from "@/lib/firestore";
+import type { Branch } from "@/types";
+
+interface BranchContextType {
+  branches: Branch[]; // branches the user may open
+  allBranches: Branch[]; // every branch, for admins assigning staff
+  branch: Branch | null; // the branch every query and write goes to
+  loading: boolean;
+  selectBranch: (branchId: string) => void;
+  reloadBranches: () => Promise<void>;
+}
+
+// The last branch picked on this device, reopened on the next visit
+const ACTIVE_BRANCH_KEY = "activeBranchId";
+
+const BranchContext = createContext<BranchContextType | undefined>(undefined);
+
+export function BranchProvider({ children }: { children: React.ReactNode }) {
+  const { user, role, branchIds, isHeadOffice } = useAuth();
+  const [allBranches, setAllBranches] = useState<Branch[]>([]);
+  const [branchId, setBranchId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const branches = useMemo(
+    () => (isHeadOffice ? allBranches : allBranches.filter((branch) => branchIds.includes(branch.id))),
+    [allBranches, branchIds, isHeadOffice]
+  );
+
+  // The helpers in lib/firestore.ts read the active branch when called, so it
+  // is set there before the pages that use it render
+  const applyBranch = (id: string | null) => {
+    setActiveBranch(id);
+    setBranchId(id);
+    if (id) localStorage.setItem(ACTIVE_BRANCH_KEY, id);
+  };
+
+  const reloadBranches = async () => {
+    try {
+      const loaded = await getBranches();
+      const accessible = isHeadOffice ? loaded : loaded.filter((branch) => branchIds.includes(branch.id));
+      const current = branchId || localStorage.getItem(ACTIVE_BRANCH_KEY);
+      setAllBranches(loaded);
+      applyBranch(accessible.find((branch) => branch.id === current)?.id || accessible[0]?.id || null);
+    } catch (error) {
+      console.error("Error loading branches:", error);
+      applyBranch(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (user && role) {
+      setLoading(true);
+      reloadBranches();
+    } else {
+      setAllBranches([]);
+      applyBranch(null);
+      setLoading(false);
+    }
+  }, [user, role, isHeadOffice, branchIds.join(",")]);
+
+  const selectBranch = (id: string) => {
+    if (branches.some((branch) => branch.id === id)) {
+      applyBranch(id);
+    }
+  };
+
+  return (
+    <BranchContext.Provider
+      value={{
+        branches,
+        allBranches,
+        branch: branches.find((b) => b.id === branchId) || null,
+        loading,
+        selectBranch,
+        reloadBranches,
+      }}
+    >
+      {children}
+    </BranchContext.Provider>
+  );
+}
+
+export function useBranch() {
+  const context = useContext(BranchContext);
+  if (context === undefined) {
+    throw new Error("useBranch must be used within a BranchProvider");
+  }
+  return context;
+}
@@ -0,0 +1,134 @@
+import { Timestamp } from "firebase/firestore";
+
+// Collections of one branch included in a backup, in restore order
+export const BACKUP_COLLECTIONS = [
+  "clients",
+  "groups",
+  "groupMembers",
+  "auctions",
+  "auctionSessions",
+  "payments",
+  "paymentLogs",
+  "dividends",
+  "payouts",
+  "penaltyCharges",
+  "counters",
+  "collectionVisits",
+  "collectorRoutes",
+  "dayClosings",
+] as const;
+
+export type BackupCollection = (typeof BACKUP_COLLECTIONS)[number];
+
+// Added after the first archives were taken; older archives restore them empty
+const LATER_COLLECTIONS: readonly BackupCollection[] = ["collectionVisits", "collectorRoutes", "dayClosings"];
+
+export const BACKUP_FORMAT = "chitbook-backup";
+// Bump when the archive layout changes; restore refuses newer versions
+export const BACKUP_VERSION = 1;
+
+export interface BackupDocument {
+  id: string;
+  data: Record<string, unknown>; // Timestamps encoded with encodeBackupValue
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string; // ISO date
+  createdBy: string; // email of the admin who took it
+  projectId: string;
+  branch?: { id: string; name: string }; // branch the books were read from; missing before branches
+  collections: Record<BackupCollection, BackupDocument[]>;
+}
+
+// JSON has no timestamp type, so Timestamps are written as tagged objects
+// keeping full precision: { "__type": "timestamp", seconds, nanoseconds }
+interface EncodedTimestamp {
+  __type: "timestamp";
+  seconds: number;
+  nanoseconds: number;
+}
+
+const isEncodedTimestamp = (value: unknown): value is EncodedTimestamp =>
+  typeof value === "object" &&
+  value !== null &&
+  (value as EncodedTimestamp).__type === "timestamp" &&
+  typeof (value as EncodedTimestamp).seconds === "number" &&
+  typeof (value as EncodedTimestamp).nanoseconds === "number";
+
+export const encodeBackupValue = (value: unknown): unknown => {
+  if (value instanceof Timestamp) {
+    return { __type: "timestamp", seconds: value.seconds, nanoseconds: value.nanoseconds };
+  }
+  if (Array.isArray(value)) return value.map(encodeBackupValue);
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, encodeBackupValue(v)]));
+  }
+  return value;
+};
+
+export const decodeBackupValue = (value: unknown): unknown => {
+  if (isEncodedTimestamp(value)) return new Timestamp(value.seconds, value.nanoseconds);
+  if (Array.isArray(value)) return value.map(decodeBackupValue);
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, decodeBackupValue(v)]));
+  }
+  return value;
+};
+
+/**
+ * Checks that parsed JSON is a backup archive this version can restore.
+ * Returns the archive when valid, otherwise the list of problems found.
+ */
+export const validateBackupArchive = (
+  json: unknown
+): { archive: BackupArchive | null; errors: string[] } => {
+  const errors: string[] = [];
+  const archive = json as BackupArchive;
+
+  if (typeof json !== "object" || json === null || archive.format !== BACKUP_FORMAT) {
+    return { archive: null, errors: ["The file is not a backup archive"] };
+  }
+  if (typeof archive.version !== "number" || archive.version > BACKUP_VERSION) {
+    return { archive: null, errors: [`Backup version ${archive.version} is newer than this app supports (${BACKUP_VERSION})`] };
+  }
+  if (typeof archive.collections !== "object" || archive.collections === null) {
+    return { archive: null, errors: ["The archive has no collections"] };
+  }
+
+  Object.keys(archive.collections).forEach((name) => {
+    if (!(BACKUP_COLLECTIONS as readonly string[]).includes(name)) {
+      errors.push(`Unknown collection "${name}"`);
+    }
+  });
+
+  BACKUP_COLLECTIONS.forEach((name) => {
+    if (archive.collections[name] === undefined && LATER_COLLECTIONS.includes(name)) {
+      archive.collections[name] = [];
+    }
+    const documents = archive.collections[name];
+    if (!Array.isArray(documents)) {
+      errors.push(`Collection "${name}" is missing`);
+      return;
+    }
+    const ids = new Set<string>();
+    documents.forEach((document, index) => {
+      if (typeof document?.id !== "string" || !document.id || document.id.includes("/")) {
+        errors.push(`${name} #${index + 1} has an invalid ID`);
+      } else if (ids.has(document.id)) {
+        errors.push(`${name} has the ID "${document.id}" more than once`);
+      } else {
+        ids.add(document.id);
+      }
+      if (typeof document?.data !== "object" || document.data === null || Array.isArray(document.data)) {
+        errors.push(`${name} "${document?.id}" has no data`);
+      }
+    });
+  });
+
+  return { archive: errors.length === 0 ? archive : null, errors };
+};
+
+export const getBackupDocumentCount = (archive: BackupArchive): number =>
+  BACKUP_COLLECTIONS.reduce((sum, name) => sum + archive.collections[name].length, 0);
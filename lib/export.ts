@@ -0,0 +1,327 @@
+import { format } from "date-fns";
+import { Timestamp } from "firebase/firestore";
+
+export type ExportValue = string | number | Date | Timestamp | null | undefined;
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => ExportValue;
+  // Numbers are written as numeric cells; "currency" adds the INR format in XLSX
+  type?: "text" | "number" | "currency" | "date";
+}
+
+export interface ExportOptions<T> {
+  filename: string; // without extension
+  title: string;
+  filters?: Record<string, string>; // active filters, written above the table
+  columns: ExportColumn<T>[];
+  rows: T[];
+}
+
+export type ExportFormat = "csv" | "xlsx";
+
+const toDate = (value: ExportValue): Date | null => {
+  if (value instanceof Timestamp) return value.toDate();
+  if (value instanceof Date) return value;
+  return null;
+};
+
+// Dates are written as ISO dates, numbers unformatted so spreadsheets can sum them
+const toCellText = (value: ExportValue): string => {
+  if (value == null) return "";
+  const date = toDate(value);
+  if (date) return format(date, "yyyy-MM-dd");
+  return String(value);
+};
+
+const escapeCsv = (text: string): string =>
+  /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Title, generation time and filters, one "label,value" line each
+const getHeaderBlock = (title: string, filters?: Record<string, string>): string[][] => [
+  [title],
+  ["Generated", format(new Date(), "yyyy-MM-dd HH:mm")],
+  ...Object.entries(filters || {}).map(([label, value]) => [label, value]),
+];
+
+/**
+ * Downloads rows as a CSV file with a header block above the table.
+ * Starts with a byte order mark so Excel opens it as UTF-8 (₹, Indian names).
+ */
+export const exportToCsv = <T>(options: ExportOptions<T>): void => {
+  const lines = [
+    ...getHeaderBlock(options.title, options.filters),
+    [],
+    options.columns.map((column) => column.header),
+    ...options.rows.map((row) => options.columns.map((column) => toCellText(column.value(row)))),
+  ];
+  const csv = lines.map((line) => line.map(escapeCsv).join(",")).join("\r\n");
+  downloadFile("\uFEFF" + csv, `${options.filename}.csv`, "text/csv;charset=utf-8");
+};
+
+// XLSX
+// A workbook is a zip of SpreadsheetML parts. Files are stored uncompressed,
+// which every spreadsheet app reads, so no zip library is needed.
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const createZip = (files: { name: string; content: string }[]) => {
+  const encoder = new TextEncoder();
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach((file) => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true); // local file header signature
+    lv.setUint16(4, 20, true); // version needed
+    lv.setUint16(6, 0x0800, true); // UTF-8 file names
+    lv.setUint16(8, 0, true); // stored
+    lv.setUint16(10, dosTime, true);
+    lv.setUint16(12, dosDate, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true); // central directory signature
+    cv.setUint16(4, 20, true); // version made by
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, dosTime, true);
+    cv.setUint16(14, dosDate, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    localParts.push(local, data);
+    centralParts.push(central);
+    offset += local.length + data.length;
+  });
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true); // end of central directory signature
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, end];
+  const zip = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  parts.forEach((part) => {
+    zip.set(part, position);
+    position += part.length;
+  });
+  return zip;
+};
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters are not allowed in XML
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+
+// Cell style indexes into cellXfs below
+const STYLE = { text: 0, currency: 1, date: 2, bold: 3 };
+
+// Indian digit grouping: ₹1,23,45,678.00
+const INR_FORMAT =
+  '[&gt;=10000000]&quot;₹&quot;##\\,##\\,##\\,##0.00;[&gt;=100000]&quot;₹&quot;##\\,##\\,##0.00;&quot;₹&quot;#,##0.00';
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="2"><numFmt numFmtId="164" formatCode="${INR_FORMAT}"/><numFmt numFmtId="165" formatCode="yyyy-mm-dd"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="4">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+</cellXfs>
+</styleSheet>`;
+
+// Excel stores dates as days since 30 Dec 1899
+const toExcelDate = (date: Date): number =>
+  (Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) - Date.UTC(1899, 11, 30)) / 86400000;
+
+const getColumnName = (index: number): string => {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const textCell = (ref: string, text: string, style = STYLE.text): string =>
+  `<c r="${ref}" t="inlineStr"${style ? ` s="${style}"` : ""}><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+
+const valueCell = <T>(ref: string, column: ExportColumn<T>, value: ExportValue): string => {
+  if (value == null || value === "") return "";
+  const date = toDate(value);
+  if (date) return `<c r="${ref}" s="${STYLE.date}"><v>${toExcelDate(date)}</v></c>`;
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return column.type === "currency"
+      ? `<c r="${ref}" s="${STYLE.currency}"><v>${value}</v></c>`
+      : `<c r="${ref}"><v>${value}</v></c>`;
+  }
+  return textCell(ref, String(value));
+};
+
+const buildSheetXml = <T>(options: ExportOptions<T>): string => {
+  const rows: string[] = [];
+  const addRow = (cells: string[]) => {
+    rows.push(`<row r="${rows.length + 1}">${cells.join("")}</row>`);
+  };
+
+  getHeaderBlock(options.title, options.filters).forEach((line, lineIndex) => {
+    const rowNumber = rows.length + 1;
+    addRow(
+      line.map((text, i) =>
+        textCell(`${getColumnName(i)}${rowNumber}`, text, lineIndex === 0 || i === 0 ? STYLE.bold : STYLE.text)
+      )
+    );
+  });
+  addRow([]);
+
+  const headerRowNumber = rows.length + 1;
+  addRow(
+    options.columns.map((column, i) =>
+      textCell(`${getColumnName(i)}${headerRowNumber}`, column.header, STYLE.bold)
+    )
+  );
+  options.rows.forEach((row) => {
+    const rowNumber = rows.length + 1;
+    addRow(
+      options.columns.map((column, i) =>
+        valueCell(`${getColumnName(i)}${rowNumber}`, column, column.value(row))
+      )
+    );
+  });
+
+  const cols = options.columns
+    .map((column, i) => {
+      const width = Math.min(50, Math.max(12, column.header.length + 4));
+      return `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`;
+    })
+    .join("");
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<cols>${cols}</cols>
+<sheetData>${rows.join("")}</sheetData>
+</worksheet>`;
+};
+
+/**
+ * Downloads rows as an Excel workbook with a single sheet: the header block,
+ * then the table. Amounts are numeric cells (INR format for currency columns)
+ * and dates are real date cells shown as yyyy-mm-dd.
+ */
+export const exportToXlsx = <T>(options: ExportOptions<T>): void => {
+  const sheetName = escapeXml(options.title.replace(/[\\/?*[\]:]/g, " ").slice(0, 31));
+  const zip = createZip([
+    {
+      name: "[Content_Types].xml",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`,
+    },
+    {
+      name: "_rels/.rels",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`,
+    },
+    {
+      name: "xl/workbook.xml",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${sheetName}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`,
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`,
+    },
+    { name: "xl/styles.xml", content: STYLES_XML },
+    { name: "xl/worksheets/sheet1.xml", content: buildSheetXml(options) },
+  ]);
+
+  downloadFile(
+    zip,
+    `${options.filename}.xlsx`,
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+  );
+};
+
+export const exportRows = <T>(exportFormat: ExportFormat, options: ExportOptions<T>): void => {
+  if (exportFormat === "xlsx") {
+    exportToXlsx(options);
+  } else {
+    exportToCsv(options);
+  }
+};
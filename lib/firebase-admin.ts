@@ -0,0 +1,34 @@
+import { initializeApp, getApps, cert, type App } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { getFirestore } from "firebase-admin/firestore";
+
+// Server-side only: the Admin SDK bypasses the security rules, so it must never
+// be imported from a client component. Used by the routes under app/api.
+//
+// Credentials come from FIREBASE_SERVICE_ACCOUNT_KEY, the contents of the
+// service account JSON (the same key scripts/set-admin.js reads from a file).
+// Against the emulators no key is needed.
+const USING_EMULATORS = process.env.NEXT_PUBLIC_USE_FIREBASE_EMULATORS === "true";
+
+const getAdminApp = (): App => {
+  const existing = getApps()[0];
+  if (existing) return existing;
+
+  const projectId = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+  if (USING_EMULATORS) {
+    // Ports as in firebase.json, same host as lib/firebase.ts
+    const host = process.env.NEXT_PUBLIC_FIREBASE_EMULATOR_HOST || "127.0.0.1";
+    process.env.FIREBASE_AUTH_EMULATOR_HOST ||= `${host}:9099`;
+    process.env.FIRESTORE_EMULATOR_HOST ||= `${host}:8080`;
+    return initializeApp({ projectId });
+  }
+
+  const serviceAccountKey = process.env.FIREBASE_SERVICE_ACCOUNT_KEY;
+  if (!serviceAccountKey) {
+    throw new Error("FIREBASE_SERVICE_ACCOUNT_KEY is not set on the server");
+  }
+  return initializeApp({ credential: cert(JSON.parse(serviceAccountKey)), projectId });
+};
+
+export const getAdminAuth = () => getAuth(getAdminApp());
+export const getAdminDb = () => getFirestore(getAdminApp());
@@ -3,28 +3,216 @@ import {
   doc,
   getDoc,
   getDocs,
-  addDoc,
-  updateDoc,
-  deleteDoc,
   query,
   where,
   orderBy,
   Timestamp,
   writeBatch,
+  runTransaction,
+  onSnapshot,
+  Unsubscribe,
+  DocumentSnapshot,
+  DocumentReference,
+  DocumentData,
+  Transaction,
+  WriteBatch,
+  serverTimestamp,
 } from "firebase/firestore";
-import { db } from "./firebase";
+import { db, auth } from "./firebase";
+import {
+  calculateAuctionAmounts,
+  calculateDividendPerChit,
+  getGroupTenure,
+  getGroupStatus,
+  getWinnerClientIds,
+  PAYMENT_DUE_DAYS,
+  validateAuctionWinners,
+  validateAuctionBids,
+  getBiddingEligibility,
+  getMaxBidAmount,
+  resolveAuctionBids,
+  drawLot,
+  getGroupPenaltyRule,
+  calculatePenaltyAccrual,
+  getFinancialYear,
+  formatReceiptNumber,
+  formatDate,
+  getDayKey,
+  getDayRange,
+  getDayClosingId,
+  getCountedCash,
+  summarizeDayReceipts,
+  findDayClosing,
+  CASH_DENOMINATIONS,
+  GROUP_STATUS_TRANSITIONS,
+} from "./utils";
 import type {
+  AuditLogEntry,
   Client,
   Group,
   GroupMember,
   Auction,
+  AuctionBid,
+  AuctionLotDraw,
+  AuctionSession,
   Payment,
   PaymentLog,
+  Dividend,
+  GroupStatus,
+  Payout,
+  PayoutAdjustment,
+  PenaltyCharge,
+  UserApproval,
+  Branch,
+  BranchSummary,
+  StaffMember,
+  CollectionVisit,
+  CollectorRoute,
+  DayClosing,
 } from "@/types";
+import { hasPermission } from "./roles";
+import type { ClientImportRow, HistoricalAuctionPlan } from "./import";
+import {
+  BACKUP_COLLECTIONS,
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  encodeBackupValue,
+  decodeBackupValue,
+  type BackupArchive,
+  type BackupCollection,
+} from "./backup";
+
+// Branches
+// Each branch keeps its own books under branches/{branchId}/ and staff only
+// reach the branches in their claims (see firestore.rules). The branch picked
+// in the Header is the scope of every helper below; consolidated reports pass
+// a branch explicitly. userId is the signed-in user; it is recorded as the
+// actor of every audit entry.
+let activeBranchId: string | null = null;
+
+export const setActiveBranch = (branchId: string | null): void => {
+  activeBranchId = branchId;
+};
+
+export const getActiveBranch = (): string | null => activeBranchId;
+
+const requireBranch = (branchId: string | null = activeBranchId): string => {
+  if (!branchId) {
+    throw new Error("No branch selected");
+  }
+  return branchId;
+};
+
+const getSharedCollection = (collectionName: string, branchId: string | null = activeBranchId) =>
+  `branches/${requireBranch(branchId)}/${collectionName}`;
+
+// Audit Log
+// Every write below is paired with an auditLog entry in the same batch or
+// transaction, so a change is never saved without its record. Entries are
+// append-only (see firestore.rules) and kept in one top-level log for all
+// branches, tagged with the branch of the document; a branch document is tagged
+// with itself. Receipt counters are not audited; the payment log that takes a
+// number is.
+type AuditWriter = { set: (ref: DocumentReference, data: DocumentData) => unknown };
+
+// Document data as stored, without the `id` the getters add
+const toAuditSnapshot = (data: DocumentData | null | undefined): DocumentData | null => {
+  if (!data) return null;
+  const { id, ...snapshot } = data;
+  return snapshot;
+};
+
+/**
+ * Adds the audit entry of one write to a batch or transaction. For updates,
+ * `after` may hold only the changed fields; they are merged onto `before`.
+ */
+const writeAuditEntry = (
+  writer: AuditWriter,
+  userId: string,
+  action: AuditLogEntry["action"],
+  ref: DocumentReference,
+  before: DocumentData | null | undefined,
+  after: DocumentData | null
+): void => {
+  const beforeSnapshot = toAuditSnapshot(before);
+  writer.set(doc(collection(db, "auditLog")), {
+    actorUid: userId,
+    actorEmail: auth.currentUser?.email || "",
+    action,
+    branchId: ref.parent.id === "branches" ? ref.id : ref.parent.parent?.id ?? null,
+    entityType: ref.parent.id,
+    entityId: ref.id,
+    before: beforeSnapshot,
+    after: action === "update" ? { ...beforeSnapshot, ...toAuditSnapshot(after) } : toAuditSnapshot(after),
+    timestamp: serverTimestamp(),
+  });
+};
+
+// Single-document writes with their audit entry
+const createWithAudit = async (
+  userId: string,
+  collectionName: string,
+  data: DocumentData
+): Promise<string> => {
+  const docRef = doc(collection(db, getSharedCollection(collectionName)));
+  const batch = writeBatch(db);
+  batch.set(docRef, data);
+  writeAuditEntry(batch, userId, "create", docRef, null, data);
+  await batch.commit();
+  return docRef.id;
+};
+
+const updateWithAudit = (
+  userId: string,
+  docRef: DocumentReference,
+  data: DocumentData
+): Promise<void> =>
+  runTransaction(db, async (transaction) => {
+    const docSnap = await transaction.get(docRef);
+    if (!docSnap.exists()) {
+      throw new Error("Document not found");
+    }
+    transaction.update(docRef, data);
+    writeAuditEntry(transaction, userId, "update", docRef, docSnap.data(), data);
+  });
+
+const deleteWithAudit = (userId: string, docRef: DocumentReference): Promise<void> =>
+  runTransaction(db, async (transaction) => {
+    const docSnap = await transaction.get(docRef);
+    if (!docSnap.exists()) return;
+    transaction.delete(docRef);
+    writeAuditEntry(transaction, userId, "delete", docRef, docSnap.data(), null);
+  });
 
-// Shared collections - all authenticated users can access the same data
-// userId parameter is kept for backward compatibility but is ignored
-const getSharedCollection = (collectionName: string) => collectionName;
+export const getAuditLog = async (
+  userId: string,
+  filters: {
+    from: Date;
+    to: Date;
+    actorUid?: string;
+    branchId?: string;
+    entityType?: string;
+    entityId?: string;
+  }
+): Promise<AuditLogEntry[]> => {
+  // Only the date range is queried (single-field index); the rest is filtered here
+  const q = query(
+    collection(db, "auditLog"),
+    where("timestamp", ">=", Timestamp.fromDate(filters.from)),
+    where("timestamp", "<=", Timestamp.fromDate(filters.to)),
+    orderBy("timestamp", "desc")
+  );
+  const snapshot = await getDocs(q);
+  return snapshot.docs
+    .map((doc) => ({ id: doc.id, ...doc.data() } as AuditLogEntry))
+    .filter(
+      (entry) =>
+        (!filters.actorUid || entry.actorUid === filters.actorUid) &&
+        (!filters.branchId || entry.branchId === filters.branchId) &&
+        (!filters.entityType || entry.entityType === filters.entityType) &&
+        (!filters.entityId || entry.entityId === filters.entityId)
+    );
+};
 
 // Clients
 export const getClients = async (userId: string): Promise<Client[]> => {
@@ -53,12 +241,11 @@ export const createClient = async (
   userId: string,
   data: Omit<Client, "id" | "createdAt" | "updatedAt">
 ): Promise<string> => {
-  const docRef = await addDoc(collection(db, getSharedCollection("clients")), {
+  return createWithAudit(userId, "clients", {
     ...data,
     createdAt: Timestamp.now(),
     updatedAt: Timestamp.now(),
   });
-  return docRef.id;
 };
 
 export const updateClient = async (
@@ -67,7 +254,7 @@ export const updateClient = async (
   data: Partial<Omit<Client, "id" | "createdAt" | "updatedAt">>
 ): Promise<void> => {
   const docRef = doc(db, getSharedCollection("clients"), clientId);
-  await updateDoc(docRef, {
+  await updateWithAudit(userId, docRef, {
     ...data,
     updatedAt: Timestamp.now(),
   });
@@ -78,7 +265,7 @@ export const deleteClient = async (
   clientId: string
 ): Promise<void> => {
   const docRef = doc(db, getSharedCollection("clients"), clientId);
-  await deleteDoc(docRef);
+  await deleteWithAudit(userId, docRef);
 };
 
 // Groups
@@ -106,12 +293,11 @@ export const createGroup = async (
   userId: string,
   data: Omit<Group, "id" | "createdAt" | "updatedAt">
 ): Promise<string> => {
-  const docRef = await addDoc(collection(db, getSharedCollection("groups")), {
+  return createWithAudit(userId, "groups", {
     ...data,
     createdAt: Timestamp.now(),
     updatedAt: Timestamp.now(),
   });
-  return docRef.id;
 };
 
 export const updateGroup = async (
@@ -120,12 +306,65 @@ export const updateGroup = async (
   data: Partial<Omit<Group, "id" | "createdAt" | "updatedAt">>
 ): Promise<void> => {
   const docRef = doc(db, getSharedCollection("groups"), groupId);
-  await updateDoc(docRef, {
+  await updateWithAudit(userId, docRef, {
     ...data,
     updatedAt: Timestamp.now(),
   });
 };
 
+/**
+ * Moves a group to the next lifecycle state.
+ * Only the transitions in GROUP_STATUS_TRANSITIONS are allowed, and each is guarded:
+ * - Active: members must hold at least the target number of chits (memberCount)
+ * - Completed: an auction must exist for every month of the tenure
+ * - Closed: no payment of the group may be pending or partial
+ */
+export const updateGroupStatus = async (
+  userId: string,
+  groupId: string,
+  nextStatus: GroupStatus
+): Promise<void> => {
+  const group = await getGroup(userId, groupId);
+  if (!group) {
+    throw new Error("Group not found");
+  }
+
+  const currentStatus = getGroupStatus(group);
+  if (!GROUP_STATUS_TRANSITIONS[currentStatus].includes(nextStatus)) {
+    throw new Error(`Cannot change group status from ${currentStatus} to ${nextStatus}`);
+  }
+
+  if (nextStatus === "Active") {
+    const members = await getGroupMembers(userId, groupId);
+    const chitCount = members.reduce((sum, m) => sum + m.chitCount, 0);
+    if (chitCount < group.memberCount) {
+      throw new Error(
+        `Group needs ${group.memberCount} chits subscribed before it can start (currently ${chitCount})`
+      );
+    }
+  }
+
+  if (nextStatus === "Completed") {
+    const auctions = await getAuctions(userId, groupId);
+    const tenure = getGroupTenure(group);
+    if (auctions.length < tenure) {
+      throw new Error(
+        `Group cannot be completed until all ${tenure} auctions are held (currently ${auctions.length})`
+      );
+    }
+  }
+
+  if (nextStatus === "Closed") {
+    const payments = await getPayments(userId, { groupId });
+    const unpaidCount = payments.filter((payment) => payment.status !== "Paid").length;
+    if (unpaidCount > 0) {
+      throw new Error(`Group cannot be closed with ${unpaidCount} unpaid payment(s)`);
+    }
+  }
+
+  await updateGroup(userId, groupId, { status: nextStatus });
+};
+
 /**
  * Deletes a group and all related data in cascade:
  * 1. All payment logs (payment received records) for payments related to auctions in this group
@@ -135,15 +374,22 @@ export const updateGroup = async (
  * 5. The group itself
  * 
  * Flow: Group → Auctions → Payments → Payment Logs
+ * Refused while any payment received in the group has not been reversed.
  */
 export const deleteGroup = async (
   userId: string,
   groupId: string
 ): Promise<void> => {
-  // Step 1: Get all auctions related to this group
+  // Step 1: Get the group and all auctions related to it
+  const group = await getGroup(userId, groupId);
   const auctions = await getAuctions(userId, groupId);
   
-  // Step 2: Delete all payments and payment logs for each auction
+  // Step 2: Delete all payments and payment logs for each auction, once none
+  // of them holds money that has not been reversed
+  for (const auction of auctions) {
+    const payments = await getPayments(userId, { auctionId: auction.id });
+    assertReceiptsReversed(auction, await getAuctionPaymentLogs(userId, payments));
+  }
   for (const auction of auctions) {
     await deletePaymentsByAuction(userId, auction.id);
   }
@@ -160,7 +406,8 @@ export const deleteGroup = async (
     }
     const auctionRef = doc(db, getSharedCollection("auctions"), auction.id);
     batch.delete(auctionRef);
-    operationCount++;
+    writeAuditEntry(batch, userId, "delete", auctionRef, auction, null);
+    operationCount += 2;
   }
   
   // Step 4: Get all group members
@@ -175,7 +422,8 @@ export const deleteGroup = async (
     }
     const memberRef = doc(db, getSharedCollection("groupMembers"), member.id);
     batch.delete(memberRef);
-    operationCount++;
+    writeAuditEntry(batch, userId, "delete", memberRef, member, null);
+    operationCount += 2;
   }
   
   // Step 6: Delete the group
@@ -186,7 +434,8 @@ export const deleteGroup = async (
   }
   const groupRef = doc(db, getSharedCollection("groups"), groupId);
   batch.delete(groupRef);
-  operationCount++;
+  writeAuditEntry(batch, userId, "delete", groupRef, group, null);
+  operationCount += 2;
   
   // Step 7: Commit remaining operations
   if (operationCount > 0) {
@@ -201,6 +450,68 @@ export const deleteGroup = async (
   // - The group itself
 };
 
+/**
+ * Previews how changing a group's tenure (contribution divisor) would reprice
+ * its unpaid payments. Nothing is written.
+ *
+ * Each auction's perMemberContribution is recomputed with the new tenure, and
+ * each Pending/Partial payment is scaled by its chit count (the ratio of its
+ * amountExpected to the auction's current perMemberContribution).
+ */
+export const previewGroupTenureChange = async (
+  userId: string,
+  groupId: string,
+  newTenureMonths: number
+): Promise<
+  {
+    payment: Payment;
+    currentAmountExpected: number;
+    newAmountExpected: number;
+    newPendingAmount: number;
+  }[]
+> => {
+  const group = await getGroup(userId, groupId);
+  if (!group) {
+    throw new Error("Group not found");
+  }
+
+  const [auctions, payments] = await Promise.all([
+    getAuctions(userId, groupId),
+    getPayments(userId, { groupId }),
+  ]);
+  const auctionMap = new Map(auctions.map((auction) => [auction.id, auction]));
+
+  return payments
+    .filter((payment) => payment.status !== "Paid")
+    .map((payment) => {
+      const auction = auctionMap.get(payment.auctionId);
+      if (!auction || auction.perMemberContribution <= 0) {
+        return {
+          payment,
+          currentAmountExpected: payment.amountExpected,
+          newAmountExpected: payment.amountExpected,
+          newPendingAmount: payment.pendingAmount,
+        };
+      }
+
+      const chitCount = payment.amountExpected / auction.perMemberContribution;
+      const { perMemberContribution } = calculateAuctionAmounts(
+        group.chitValue,
+        auction.bidAmount,
+        group.agentCommissionPercent,
+        newTenureMonths
+      );
+      const newAmountExpected = perMemberContribution * chitCount;
+
+      return {
+        payment,
+        currentAmountExpected: payment.amountExpected,
+        newAmountExpected,
+        newPendingAmount: Math.max(0, newAmountExpected - payment.amountPaid),
+      };
+    });
+};
+
 // Group Members
 export const getGroupMembers = async (
   userId: string,
@@ -279,15 +590,11 @@ export const createGroupMember = async (
   userId: string,
   data: Omit<GroupMember, "id" | "createdAt" | "updatedAt">
 ): Promise<string> => {
-  const docRef = await addDoc(
-    collection(db, getSharedCollection("groupMembers")),
-    {
-      ...data,
-      createdAt: Timestamp.now(),
-      updatedAt: Timestamp.now(),
-    }
-  );
-  return docRef.id;
+  return createWithAudit(userId, "groupMembers", {
+    ...data,
+    createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  });
 };
 
 export const updateGroupMember = async (
@@ -296,7 +603,7 @@ export const updateGroupMember = async (
   data: Partial<Omit<GroupMember, "id" | "createdAt" | "updatedAt">>
 ): Promise<void> => {
   const docRef = doc(db, getSharedCollection("groupMembers"), memberId);
-  await updateDoc(docRef, {
+  await updateWithAudit(userId, docRef, {
     ...data,
     updatedAt: Timestamp.now(),
   });
@@ -307,7 +614,7 @@ export const deleteGroupMember = async (
   memberId: string
 ): Promise<void> => {
   const docRef = doc(db, getSharedCollection("groupMembers"), memberId);
-  await deleteDoc(docRef);
+  await deleteWithAudit(userId, docRef);
 };
 
 // Auctions
@@ -356,26 +663,39 @@ export const createAuction = async (
   userId: string,
   data: Omit<Auction, "id" | "createdAt" | "updatedAt">
 ): Promise<string> => {
-  const docRef = await addDoc(
-    collection(db, getSharedCollection("auctions")),
-    {
-      ...data,
-      createdAt: Timestamp.now(),
-      updatedAt: Timestamp.now(),
-    }
-  );
-  return docRef.id;
+  return createWithAudit(userId, "auctions", {
+    ...data,
+    createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  });
 };
 
+/**
+ * Updates an auction. Its group and chit month make up its ID (see
+ * getAuctionIdempotencyKey), so they cannot be changed.
+ */
 export const updateAuction = async (
   userId: string,
   auctionId: string,
   data: Partial<Omit<Auction, "id" | "createdAt" | "updatedAt">>
 ): Promise<void> => {
   const docRef = doc(db, getSharedCollection("auctions"), auctionId);
-  await updateDoc(docRef, {
-    ...data,
-    updatedAt: Timestamp.now(),
+  const changes = { ...data, updatedAt: Timestamp.now() };
+
+  await runTransaction(db, async (transaction) => {
+    const auctionSnap = await transaction.get(docRef);
+    if (!auctionSnap.exists()) {
+      throw new Error("Auction not found");
+    }
+    const auction = auctionSnap.data() as Auction;
+    if (
+      (data.chitMonth !== undefined && data.chitMonth !== auction.chitMonth) ||
+      (data.groupId !== undefined && data.groupId !== auction.groupId)
+    ) {
+      throw new Error("An auction's group and month cannot be changed. Delete it and record the auction again.");
+    }
+    transaction.update(docRef, changes);
+    writeAuditEntry(transaction, userId, "update", docRef, auction, changes);
   });
 };
 
@@ -384,157 +704,1563 @@ export const deleteAuction = async (
   auctionId: string
 ): Promise<void> => {
   const docRef = doc(db, getSharedCollection("auctions"), auctionId);
-  await deleteDoc(docRef);
+  await deleteWithAudit(userId, docRef);
 };
 
-// Payments
-export const getPayments = async (
+/**
+ * Idempotency key for an auction: a group has at most one auction per chit month.
+ * Used as the auction document ID so a retried submission resumes the same
+ * auction instead of creating a duplicate.
+ */
+export const getAuctionIdempotencyKey = (groupId: string, chitMonth: string): string =>
+  `${groupId}_${chitMonth}`;
+
+/**
+ * Writes the payment entries of an auction that do not exist yet, in chunked
+ * batches (Firestore batch limit is 500). Payment IDs are derived from the
+ * auction and membership IDs, so running this again never duplicates a payment
+ * and never overwrites one that has already received money.
+ */
+const writeMissingAuctionPayments = async (
   userId: string,
-  filters?: {
-    clientId?: string;
-    groupId?: string;
-    status?: string;
-    auctionId?: string;
+  auction: Auction,
+  members: GroupMember[]
+): Promise<number> => {
+  const existingPayments = await getPayments(userId, { auctionId: auction.id });
+  const existingIds = new Set(existingPayments.map((payment) => payment.id));
+
+  let batch = writeBatch(db);
+  let operationCount = 0;
+  let createdCount = 0;
+
+  for (const member of members) {
+    const paymentId = `${auction.id}_${member.id}`;
+    if (existingIds.has(paymentId)) continue;
+
+    if (operationCount >= 500) {
+      await batch.commit();
+      batch = writeBatch(db); // Create new batch
+      operationCount = 0;
+    }
+
+    const amountExpected = auction.perMemberContribution * member.chitCount;
+    const paymentRef = doc(db, getSharedCollection("payments"), paymentId);
+    const payment = {
+      auctionId: auction.id,
+      clientId: member.clientId,
+      clientName: member.clientName,
+      groupId: auction.groupId,
+      groupName: auction.groupName,
+      chitMonth: auction.chitMonth,
+      amountExpected,
+      amountPaid: 0,
+      pendingAmount: amountExpected,
+      paymentDueDate: auction.paymentDueDate,
+      status: "Pending",
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    };
+    batch.set(paymentRef, payment);
+    writeAuditEntry(batch, userId, "create", paymentRef, null, payment);
+    operationCount += 2;
+    createdCount++;
   }
-): Promise<Payment[]> => {
-  const collectionRef = collection(db, getSharedCollection("payments"));
-  let q = query(collectionRef);
 
-  if (filters?.clientId) {
-    q = query(q, where("clientId", "==", filters.clientId));
+  if (operationCount > 0) {
+    await batch.commit();
   }
-  if (filters?.groupId) {
-    q = query(q, where("groupId", "==", filters.groupId));
+
+  return createdCount;
+};
+
+// Fields in which a stored auction differs from a request to create it again
+const getAuctionDifferences = (
+  auction: Auction,
+  data: Pick<Auction, "auctionDate" | "paymentDueDate" | "bidAmount"> & { winnerClientId: string[] }
+): string[] => {
+  const sameWinners =
+    [...getWinnerClientIds(auction)].sort().join() === [...data.winnerClientId].sort().join();
+  return [
+    !sameWinners && "winner",
+    auction.bidAmount !== data.bidAmount && "bid",
+    !auction.auctionDate.isEqual(data.auctionDate) && "auction date",
+    !auction.paymentDueDate.isEqual(data.paymentDueDate) && "payment due date",
+  ].filter((field): field is string => !!field);
+};
+
+/**
+ * Creates an auction together with one payment entry per group member.
+ *
+ * Flow:
+ * 1. The group must be Active and the winners must pass validateAuctionWinners
+ * 2. Amounts are computed with calculateAuctionAmounts
+ * 3. The auction is written with creationStatus "Pending" under its idempotency key
+ * 4. Member payments, dividend records and winner payouts are written
+ * 5. The auction is marked "Complete"
+ *
+ * If a previous attempt for the same group and month was interrupted, the
+ * call resumes it. If the auction is already complete, its ID is returned
+ * unchanged. Either way the stored auction must have the same winners, bid and
+ * dates as the request; a different auction for the month is refused.
+ * Interrupted auctions can also be fixed with repairAuctionCreation.
+ */
+export const createAuctionWithPayments = async (
+  userId: string,
+  data: {
+    group: Group;
+    members: GroupMember[];
+    chitMonth: string;
+    auctionDate: Timestamp;
+    paymentDueDate: Timestamp;
+    winnerClientId: string[];
+    winnerName: string[];
+    bidAmount: number;
+    bids?: AuctionBid[];
+    lotDraw?: AuctionLotDraw | null;
   }
-  if (filters?.status) {
-    q = query(q, where("status", "==", filters.status));
+): Promise<string> => {
+  const { group, members } = data;
+  if (getGroupStatus(group) !== "Active") {
+    throw new Error(`Auctions can only be created for active groups (${group.groupName} is ${getGroupStatus(group)})`);
   }
-  if (filters?.auctionId) {
-    q = query(q, where("auctionId", "==", filters.auctionId));
+
+  const idempotencyKey = getAuctionIdempotencyKey(group.id, data.chitMonth);
+
+  // Enforce prized-chit and group bidding rules
+  const [groupAuctions, groupPayments] = await Promise.all([
+    getAuctions(userId, group.id),
+    getPayments(userId, { groupId: group.id }),
+  ]);
+  const isCompanyBid = data.winnerName.includes("Company Bid");
+  const errors = [
+    ...validateAuctionWinners({
+      group,
+      members,
+      auctions: groupAuctions,
+      payments: groupPayments,
+      chitMonth: data.chitMonth,
+      winnerClientIds: data.winnerClientId,
+      isCompanyBid,
+      editingAuctionId: idempotencyKey,
+    }),
+    ...validateAuctionBids({
+      group,
+      bids: data.bids || [],
+      bidAmount: data.bidAmount,
+      winnerClientIds: data.winnerClientId,
+      isCompanyBid,
+      lotDraw: data.lotDraw,
+    }),
+  ];
+  if (errors.length > 0) {
+    throw new Error(errors.join(". "));
   }
 
-  // Fetch without orderBy to avoid index requirement, then sort manually
-  const snapshot = await getDocs(q);
-  const payments = snapshot.docs.map(
-    (doc) => ({ id: doc.id, ...doc.data() } as Payment)
+  const amounts = calculateAuctionAmounts(
+    group.chitValue,
+    data.bidAmount,
+    group.agentCommissionPercent,
+    getGroupTenure(group)
   );
-  
-  // Sort manually by paymentDueDate ascending
-  return payments.sort((a, b) => {
-    const aTime = a.paymentDueDate?.toMillis() || 0;
-    const bTime = b.paymentDueDate?.toMillis() || 0;
-    return aTime - bTime; // Ascending order (earliest first)
+
+  const auctionRef = doc(db, getSharedCollection("auctions"), idempotencyKey);
+
+  const auction = await runTransaction(db, async (transaction) => {
+    const auctionSnap = await transaction.get(auctionRef);
+    if (auctionSnap.exists()) {
+      const existing = { id: auctionSnap.id, ...auctionSnap.data() } as Auction;
+      if (existing.historicalImport) {
+        throw new Error(`${data.chitMonth} of ${group.groupName} was imported from the chit book`);
+      }
+      const differences = getAuctionDifferences(existing, data);
+      if (differences.length > 0) {
+        throw new Error(
+          `${group.groupName} already has an auction for ${data.chitMonth} with a different ${differences.join(", ")}. Edit that auction instead.`
+        );
+      }
+      return existing;
+    }
+
+    const newAuction = {
+      groupId: group.id,
+      groupName: group.groupName,
+      chitMonth: data.chitMonth,
+      auctionDate: data.auctionDate,
+      paymentDueDate: data.paymentDueDate,
+      winnerClientId: data.winnerClientId,
+      winnerName: data.winnerName,
+      bidAmount: data.bidAmount,
+      bids: data.bids || [],
+      lotDraw: data.lotDraw || null,
+      payoutAmount: amounts.payoutAmount,
+      agentCommission: amounts.agentCommission,
+      totalCollectionAmount: amounts.totalCollectionAmount,
+      perMemberContribution: amounts.perMemberContribution,
+      creationStatus: "Pending" as const,
+      idempotencyKey,
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    };
+    transaction.set(auctionRef, newAuction);
+    writeAuditEntry(transaction, userId, "create", auctionRef, null, newAuction);
+    return { id: auctionRef.id, ...newAuction } as Auction;
   });
+
+  if (auction.creationStatus === "Pending") {
+    await writeMissingAuctionPayments(userId, auction, members);
+    await syncAuctionDividends(userId, auction.id);
+    await syncAuctionPayouts(userId, auction.id);
+    await updateWithAudit(userId, auctionRef, {
+      creationStatus: "Complete",
+      updatedAt: Timestamp.now(),
+    });
+  }
+
+  return auction.id;
 };
 
-export const getPayment = async (
+/**
+ * Finishes or rolls back an auction whose creation was interrupted
+ * (creationStatus "Pending").
+ * - "complete": writes the payments still missing for the current group
+ *   members and marks the auction complete
+ * - "rollback": deletes the payments already written and the auction itself
+ */
+export const repairAuctionCreation = async (
   userId: string,
-  paymentId: string
-): Promise<Payment | null> => {
-  const docRef = doc(db, getSharedCollection("payments"), paymentId);
+  auctionId: string,
+  action: "complete" | "rollback"
+): Promise<void> => {
+  const auction = await getAuction(userId, auctionId);
+  if (!auction) {
+    throw new Error("Auction not found");
+  }
+  if (auction.creationStatus !== "Pending") {
+    throw new Error("Auction is not partially created");
+  }
+  if (action === "complete" && auction.historicalImport) {
+    throw new Error("Import the chit book again to finish this month, or roll it back");
+  }
+
+  if (action === "rollback") {
+    await deletePaymentsByAuction(userId, auctionId);
+    await deleteAuction(userId, auctionId);
+    return;
+  }
+
+  const members = await getGroupMembers(userId, auction.groupId);
+  await writeMissingAuctionPayments(userId, auction, members);
+  await syncAuctionDividends(userId, auctionId);
+  await syncAuctionPayouts(userId, auctionId);
+  await updateAuction(userId, auctionId, { creationStatus: "Complete" });
+};
+
+// Live Auction Sessions
+export const getAuctionSession = async (
+  userId: string,
+  sessionId: string
+): Promise<AuctionSession | null> => {
+  const docRef = doc(db, getSharedCollection("auctionSessions"), sessionId);
   const docSnap = await getDoc(docRef);
-  return docSnap.exists()
-    ? ({ id: docSnap.id, ...docSnap.data() } as Payment)
-    : null;
+  if (docSnap.exists()) {
+    return { id: docSnap.id, ...docSnap.data() } as AuctionSession;
+  }
+  return null;
 };
 
-export const createPayment = async (
+/**
+ * Listens to a live auction session. onChange receives null while the
+ * session does not exist. Returns the function that stops listening.
+ */
+export const subscribeToAuctionSession = (
+  sessionId: string,
+  onChange: (session: AuctionSession | null) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  const docRef = doc(db, getSharedCollection("auctionSessions"), sessionId);
+  return onSnapshot(
+    docRef,
+    (docSnap) => {
+      onChange(docSnap.exists() ? ({ id: docSnap.id, ...docSnap.data() } as AuctionSession) : null);
+    },
+    onError
+  );
+};
+
+/**
+ * Opens a live bidding session for a group's month.
+ * The members eligible to win and the discount ceiling are fixed when the
+ * session opens. A cancelled session for the same month can be reopened.
+ */
+export const openAuctionSession = async (
   userId: string,
-  data: Omit<Payment, "id" | "createdAt" | "updatedAt">
+  data: {
+    group: Group;
+    members: GroupMember[];
+    chitMonth: string;
+    durationMinutes: number;
+  }
 ): Promise<string> => {
-  const docRef = await addDoc(
-    collection(db, getSharedCollection("payments")),
-    {
-      ...data,
-      createdAt: Timestamp.now(),
-      updatedAt: Timestamp.now(),
+  const { group, members } = data;
+  if (getGroupStatus(group) !== "Active") {
+    throw new Error(`Auctions can only be held for active groups (${group.groupName} is ${getGroupStatus(group)})`);
+  }
+  if (!(data.durationMinutes > 0)) {
+    throw new Error("Session duration must be greater than zero");
+  }
+
+  const sessionId = getAuctionIdempotencyKey(group.id, data.chitMonth);
+  const [existingAuction, groupAuctions, groupPayments] = await Promise.all([
+    getAuction(userId, sessionId),
+    getAuctions(userId, group.id),
+    getPayments(userId, { groupId: group.id }),
+  ]);
+  if (existingAuction) {
+    throw new Error(`${group.groupName} already has an auction for ${data.chitMonth}`);
+  }
+
+  const eligibleMemberIds = getBiddingEligibility(group, members, groupAuctions, groupPayments)
+    .filter((entry) => entry.eligible)
+    .map((entry) => entry.member.id);
+  if (eligibleMemberIds.length === 0) {
+    throw new Error("No members are eligible to bid in this auction");
+  }
+
+  const sessionRef = doc(db, getSharedCollection("auctionSessions"), sessionId);
+  const now = Timestamp.now();
+
+  await runTransaction(db, async (transaction) => {
+    const sessionSnap = await transaction.get(sessionRef);
+    // Only a cancelled session can be reopened; a closed one keeps its bidding log
+    if (sessionSnap.exists() && sessionSnap.data().status !== "Cancelled") {
+      throw new Error(`A live session for ${data.chitMonth} already exists`);
     }
-  );
-  return docRef.id;
+
+    const session = {
+      groupId: group.id,
+      groupName: group.groupName,
+      chitMonth: data.chitMonth,
+      status: "Open",
+      maxBidAmount: getMaxBidAmount(group),
+      eligibleMemberIds,
+      bids: [],
+      startedAt: now,
+      endsAt: Timestamp.fromMillis(now.toMillis() + data.durationMinutes * 60 * 1000),
+      openedBy: userId,
+      closedAt: null,
+      lotDraw: null,
+      auctionId: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    transaction.set(sessionRef, session);
+    writeAuditEntry(
+      transaction,
+      userId,
+      sessionSnap.exists() ? "update" : "create",
+      sessionRef,
+      sessionSnap.data(),
+      session
+    );
+  });
+
+  return sessionId;
 };
 
-export const updatePayment = async (
+/**
+ * Places a bid in an open session on behalf of a member. Members have no
+ * accounts: the manager running the auction enters each bid as it is called.
+ * Each bid must offer a higher discount than the leading bid, up to the
+ * ceiling; once the ceiling is reached other members may only match it,
+ * and the tie is settled by a lot draw when the session closes.
+ * The security rules reject bids written after endsAt.
+ */
+export const placeLiveBid = async (
   userId: string,
-  paymentId: string,
-  data: Partial<Omit<Payment, "id" | "createdAt" | "updatedAt">>
+  sessionId: string,
+  member: GroupMember,
+  amount: number
 ): Promise<void> => {
-  const docRef = doc(db, getSharedCollection("payments"), paymentId);
-  await updateDoc(docRef, {
-    ...data,
-    updatedAt: Timestamp.now(),
+  const sessionRef = doc(db, getSharedCollection("auctionSessions"), sessionId);
+
+  await runTransaction(db, async (transaction) => {
+    const sessionSnap = await transaction.get(sessionRef);
+    if (!sessionSnap.exists()) {
+      throw new Error("Auction session not found");
+    }
+    const session = { id: sessionSnap.id, ...sessionSnap.data() } as AuctionSession;
+
+    if (session.status !== "Open") {
+      throw new Error("This auction session is not open");
+    }
+    if (Timestamp.now().toMillis() >= session.endsAt.toMillis()) {
+      throw new Error("Bidding time is over");
+    }
+    if (!session.eligibleMemberIds.includes(member.id)) {
+      throw new Error(`${member.clientName} is not eligible to bid in this auction`);
+    }
+    if (!(amount > 0)) {
+      throw new Error("Bid amount must be greater than zero");
+    }
+    if (amount > session.maxBidAmount) {
+      throw new Error(`Bid cannot exceed the ceiling of ${session.maxBidAmount}`);
+    }
+
+    const highestAmount = session.bids.reduce((max, bid) => Math.max(max, bid.amount), 0);
+    const matchesCeiling = amount === session.maxBidAmount && highestAmount === session.maxBidAmount;
+    if (amount <= highestAmount && !matchesCeiling) {
+      throw new Error(`Bid must be higher than the current discount of ${highestAmount}`);
+    }
+    if (matchesCeiling && session.bids.some((bid) => bid.clientId === member.clientId && bid.amount === amount)) {
+      throw new Error(`${member.clientName} has already bid the ceiling`);
+    }
+
+    const changes = {
+      bids: [
+        ...session.bids,
+        {
+          memberId: member.id,
+          clientId: member.clientId,
+          clientName: member.clientName,
+          amount,
+          bidTime: Timestamp.now(),
+        },
+      ],
+      updatedAt: Timestamp.now(),
+    };
+    transaction.update(sessionRef, changes);
+    writeAuditEntry(transaction, userId, "update", sessionRef, sessionSnap.data(), changes);
   });
 };
 
-export const deletePayment = async (
+export const cancelAuctionSession = async (
   userId: string,
-  paymentId: string
+  sessionId: string
 ): Promise<void> => {
-  const docRef = doc(db, getSharedCollection("payments"), paymentId);
-  await deleteDoc(docRef);
+  const sessionRef = doc(db, getSharedCollection("auctionSessions"), sessionId);
+
+  await runTransaction(db, async (transaction) => {
+    const sessionSnap = await transaction.get(sessionRef);
+    if (!sessionSnap.exists()) {
+      throw new Error("Auction session not found");
+    }
+    if (sessionSnap.data().status !== "Open") {
+      throw new Error("Only an open session can be cancelled");
+    }
+    const changes = {
+      status: "Cancelled",
+      closedAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    };
+    transaction.update(sessionRef, changes);
+    writeAuditEntry(transaction, userId, "update", sessionRef, sessionSnap.data(), changes);
+  });
 };
 
 /**
- * Deletes all data related to an auction:
- * 1. All payment logs (payment received records) for payments related to the auction
- * 2. All payment entries related to the auction
- * 
- * This ensures complete cleanup when an auction is deleted.
+ * Closes a session whose countdown has ended and creates its Auction and
+ * Payments through createAuctionWithPayments.
+ * - The session is first marked "Closed" in a transaction; a tie at the
+ *   ceiling is settled by a lot draw stored on the session at that point
+ * - The auction is then created from the winning bid, dated when the session
+ *   closed and due PAYMENT_DUE_DAYS later
+ * If auction creation fails the session stays closed without an auctionId,
+ * and calling this again retries the creation with the same result.
  */
-export const deletePaymentsByAuction = async (
+export const closeAuctionSession = async (
   userId: string,
-  auctionId: string
+  sessionId: string,
+  data: {
+    group: Group;
+    members: GroupMember[];
+  }
+): Promise<string> => {
+  const sessionRef = doc(db, getSharedCollection("auctionSessions"), sessionId);
+
+  const session = await runTransaction(db, async (transaction) => {
+    const sessionSnap = await transaction.get(sessionRef);
+    if (!sessionSnap.exists()) {
+      throw new Error("Auction session not found");
+    }
+    const current = { id: sessionSnap.id, ...sessionSnap.data() } as AuctionSession;
+
+    if (current.status === "Cancelled") {
+      throw new Error("This auction session was cancelled");
+    }
+    if (current.status === "Closed") {
+      return current;
+    }
+    if (Timestamp.now().toMillis() < current.endsAt.toMillis()) {
+      throw new Error("The countdown has not ended yet");
+    }
+    if (current.bids.length === 0) {
+      throw new Error("No bids were placed; cancel the session instead");
+    }
+
+    const { needsLotDraw, tiedBids } = resolveAuctionBids(current.bids, current.maxBidAmount);
+    const closed = {
+      ...current,
+      status: "Closed" as const,
+      closedAt: Timestamp.now(),
+      lotDraw: needsLotDraw ? drawLot(tiedBids, userId) : null,
+    };
+    const changes = {
+      status: closed.status,
+      closedAt: closed.closedAt,
+      lotDraw: closed.lotDraw,
+      updatedAt: Timestamp.now(),
+    };
+    transaction.update(sessionRef, changes);
+    writeAuditEntry(transaction, userId, "update", sessionRef, sessionSnap.data(), changes);
+    return closed;
+  });
+
+  if (session.auctionId) {
+    return session.auctionId;
+  }
+
+  const { winningBid, tiedBids, needsLotDraw } = resolveAuctionBids(session.bids, session.maxBidAmount);
+  const winner = needsLotDraw
+    ? tiedBids.find((bid) => bid.clientId === session.lotDraw?.drawnClientId)
+    : winningBid;
+  if (!winner) {
+    throw new Error("Could not determine the winning bid");
+  }
+
+  const auctionDate = session.closedAt!.toDate();
+  const paymentDueDate = new Date(auctionDate);
+  paymentDueDate.setDate(paymentDueDate.getDate() + PAYMENT_DUE_DAYS);
+
+  const auctionId = await createAuctionWithPayments(userId, {
+    group: data.group,
+    members: data.members,
+    chitMonth: session.chitMonth,
+    auctionDate: Timestamp.fromDate(auctionDate),
+    paymentDueDate: Timestamp.fromDate(paymentDueDate),
+    winnerClientId: [winner.clientId],
+    winnerName: [winner.clientName],
+    bidAmount: winner.amount,
+    bids: session.bids,
+    lotDraw: session.lotDraw,
+  });
+
+  await updateWithAudit(userId, sessionRef, {
+    auctionId,
+    updatedAt: Timestamp.now(),
+  });
+
+  return auctionId;
+};
+
+// Payments
+export const getPayments = async (
+  userId: string,
+  filters?: {
+    clientId?: string;
+    groupId?: string;
+    status?: string;
+    auctionId?: string;
+  }
+): Promise<Payment[]> => {
+  const collectionRef = collection(db, getSharedCollection("payments"));
+  let q = query(collectionRef);
+
+  if (filters?.clientId) {
+    q = query(q, where("clientId", "==", filters.clientId));
+  }
+  if (filters?.groupId) {
+    q = query(q, where("groupId", "==", filters.groupId));
+  }
+  if (filters?.status) {
+    q = query(q, where("status", "==", filters.status));
+  }
+  if (filters?.auctionId) {
+    q = query(q, where("auctionId", "==", filters.auctionId));
+  }
+
+  // Fetch without orderBy to avoid index requirement, then sort manually
+  const snapshot = await getDocs(q);
+  const payments = snapshot.docs.map(
+    (doc) => ({ id: doc.id, ...doc.data() } as Payment)
+  );
+  
+  // Sort manually by paymentDueDate ascending
+  return payments.sort((a, b) => {
+    const aTime = a.paymentDueDate?.toMillis() || 0;
+    const bTime = b.paymentDueDate?.toMillis() || 0;
+    return aTime - bTime; // Ascending order (earliest first)
+  });
+};
+
+export const getPayment = async (
+  userId: string,
+  paymentId: string
+): Promise<Payment | null> => {
+  const docRef = doc(db, getSharedCollection("payments"), paymentId);
+  const docSnap = await getDoc(docRef);
+  return docSnap.exists()
+    ? ({ id: docSnap.id, ...docSnap.data() } as Payment)
+    : null;
+};
+
+export const createPayment = async (
+  userId: string,
+  data: Omit<Payment, "id" | "createdAt" | "updatedAt">
+): Promise<string> => {
+  return createWithAudit(userId, "payments", {
+    ...data,
+    createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  });
+};
+
+export const updatePayment = async (
+  userId: string,
+  paymentId: string,
+  data: Partial<Omit<Payment, "id" | "createdAt" | "updatedAt">>
+): Promise<void> => {
+  const docRef = doc(db, getSharedCollection("payments"), paymentId);
+  await updateWithAudit(userId, docRef, {
+    ...data,
+    updatedAt: Timestamp.now(),
+  });
+};
+
+export const deletePayment = async (
+  userId: string,
+  paymentId: string
+): Promise<void> => {
+  const docRef = doc(db, getSharedCollection("payments"), paymentId);
+  await deleteWithAudit(userId, docRef);
+};
+
+// Payment logs recorded against an auction's payments
+const getAuctionPaymentLogs = async (userId: string, payments: Payment[]): Promise<PaymentLog[]> => {
+  const allPaymentLogs: PaymentLog[] = [];
+  for (const payment of payments) {
+    const logs = await getPaymentLogs(userId, { paymentId: payment.id });
+    allPaymentLogs.push(...logs);
+  }
+  return allPaymentLogs;
+};
+
+/**
+ * Refuses to delete an auction while money received against it stands:
+ * received payments are only taken back by reversing them (see
+ * reversePaymentLogs). Book entries of a chit book import that never
+ * finished may go with it.
+ */
+const assertReceiptsReversed = (auction: Auction | null, logs: PaymentLog[]): void => {
+  const unfinishedImport = !!auction?.historicalImport && auction.creationStatus === "Pending";
+  const reversedIds = new Set(logs.filter((log) => log.reversalOf).map((log) => log.reversalOf!));
+  const standing = logs.filter(
+    (log) =>
+      log.amountPaid > 0 &&
+      !log.reversalOf &&
+      !reversedIds.has(log.id) &&
+      !(unfinishedImport && log.historicalImport)
+  );
+  if (standing.length > 0) {
+    throw new Error(
+      `${standing.length} payment(s) received for ${auction?.chitMonth || "this auction"} have not been reversed. Reverse them on the rollback page first.`
+    );
+  }
+};
+
+/**
+ * Deletes all data related to an auction:
+ * 1. All payment logs (payment received records) for payments related to the auction
+ * 2. All payment entries related to the auction
+ * 3. All dividend records of the auction
+ * 4. All winner payouts of the auction
+ * 
+ * This ensures complete cleanup when an auction is deleted. Refused while any
+ * payment received for the auction has not been reversed.
+ */
+export const deletePaymentsByAuction = async (
+  userId: string,
+  auctionId: string
 ): Promise<void> => {
-  // Step 1: Get all payment entries related to this auction
+  // Step 1: Get all payment entries, dividend records and payouts related to this auction
   const payments = await getPayments(userId, { auctionId });
+  const dividends = await getDividends(userId, { auctionId });
+  const payouts = await getPayouts(userId, { auctionId });
+  const paymentIds = new Set(payments.map((payment) => payment.id));
+  const charges = payments.length > 0
+    ? (await getPenaltyCharges(userId, { groupId: payments[0].groupId })).filter((charge) => paymentIds.has(charge.id))
+    : [];
   
-  if (payments.length === 0) {
-    return; // No payments to delete - nothing to do
+  if (payments.length === 0 && dividends.length === 0 && payouts.length === 0) {
+    return; // Nothing to delete
   }
   
   // Step 2: Get all payment logs (payment received records) for these payments
   // Payment logs reference payments, so we need to get them before deleting payments
-  const allPaymentLogs: PaymentLog[] = [];
-  for (const payment of payments) {
-    const logs = await getPaymentLogs(userId, { paymentId: payment.id });
-    allPaymentLogs.push(...logs);
+  const allPaymentLogs = await getAuctionPaymentLogs(userId, payments);
+  assertReceiptsReversed(await getAuction(userId, auctionId), allPaymentLogs);
+
+  // Receipts of a closed day stay on the books
+  if (allPaymentLogs.length > 0) {
+    const closings = await getDayClosings(userId);
+    const closing = allPaymentLogs.map((log) => findDayClosing(closings, log)).find(Boolean);
+    if (closing) {
+      throw new Error(`${getDayClosedMessage(closing)}, so this auction's payments cannot be deleted`);
+    }
   }
   
-  // Step 3: Delete everything in batches (Firestore batch limit is 500 operations)
-  let batch = writeBatch(db);
-  let operationCount = 0;
+  // Step 3: Delete everything in batches sized to Firestore's write and rules lookup limits
+  const batches = createBatchQueue();
   
   // Step 3a: Delete payment logs first (since they reference payments)
   // These are the "payment received" records - all payment history
-  for (const log of allPaymentLogs) {
-    if (operationCount >= 500) {
-      await batch.commit();
-      batch = writeBatch(db); // Create new batch
-      operationCount = 0;
-    }
+  for (const log of sortByDayClosing(allPaymentLogs)) {
+    const batch = await batches.next(2, getDayClosingLookups(log.paymentDate.toDate(), log.collectedBy));
     const logRef = doc(db, getSharedCollection("paymentLogs"), log.id);
     batch.delete(logRef);
-    operationCount++;
+    writeAuditEntry(batch, userId, "delete", logRef, log, null);
   }
   
   // Step 3b: Delete payment entries (these reference the auction)
   for (const payment of payments) {
+    const batch = await batches.next(2);
+    const paymentRef = doc(db, getSharedCollection("payments"), payment.id);
+    batch.delete(paymentRef);
+    writeAuditEntry(batch, userId, "delete", paymentRef, payment, null);
+  }
+  
+  // Step 3c: Delete dividend records of the auction
+  for (const dividend of dividends) {
+    const batch = await batches.next(2);
+    const dividendRef = doc(db, getSharedCollection("dividends"), dividend.id);
+    batch.delete(dividendRef);
+    writeAuditEntry(batch, userId, "delete", dividendRef, dividend, null);
+  }
+  
+  // Step 3d: Delete winner payouts of the auction
+  for (const payout of payouts) {
+    const batch = await batches.next(2);
+    const payoutRef = doc(db, getSharedCollection("payouts"), payout.id);
+    batch.delete(payoutRef);
+    writeAuditEntry(batch, userId, "delete", payoutRef, payout, null);
+  }
+  
+  // Step 3e: Delete penalty charges (their IDs are the payment IDs; their
+  // collection logs were deleted with the payment logs in step 3a)
+  for (const charge of charges) {
+    const batch = await batches.next(2);
+    const chargeRef = doc(db, getSharedCollection("penaltyCharges"), charge.id);
+    batch.delete(chargeRef);
+    writeAuditEntry(batch, userId, "delete", chargeRef, charge, null);
+  }
+  
+  // Step 4: Commit any remaining operations
+  await batches.commit();
+  
+  // At this point, all payment logs, payments, penalties, dividends and payouts related to the auction are deleted
+  // The auction itself should be deleted separately after calling this function
+};
+
+// Dividends
+export const getDividends = async (
+  userId: string,
+  filters?: {
+    clientId?: string;
+    groupId?: string;
+    auctionId?: string;
+  }
+): Promise<Dividend[]> => {
+  const collectionRef = collection(db, getSharedCollection("dividends"));
+  let q = query(collectionRef);
+
+  if (filters?.clientId) {
+    q = query(q, where("clientId", "==", filters.clientId));
+  }
+  if (filters?.groupId) {
+    q = query(q, where("groupId", "==", filters.groupId));
+  }
+  if (filters?.auctionId) {
+    q = query(q, where("auctionId", "==", filters.auctionId));
+  }
+
+  // Fetch without orderBy to avoid index requirement, then sort manually
+  const snapshot = await getDocs(q);
+  const dividends = snapshot.docs.map(
+    (doc) => ({ id: doc.id, ...doc.data() } as Dividend)
+  );
+
+  // Sort manually by chitMonth ascending
+  return dividends.sort((a, b) => a.chitMonth.localeCompare(b.chitMonth));
+};
+
+/**
+ * Writes (or rewrites) the dividend records of an auction, one per group member.
+ * Each member's share is the dividend per chit weighted by its chitCount.
+ * A member is marked prized if its client won this auction or any earlier
+ * auction of the group. Records of members no longer in the group are removed.
+ *
+ * Safe to run repeatedly, e.g. after an auction's bid or winners are edited.
+ */
+export const syncAuctionDividends = async (
+  userId: string,
+  auctionId: string
+): Promise<void> => {
+  const auction = await getAuction(userId, auctionId);
+  if (!auction) {
+    throw new Error("Auction not found");
+  }
+  const group = await getGroup(userId, auction.groupId);
+  if (!group) {
+    throw new Error("Group not found");
+  }
+
+  const [members, groupAuctions, existingDividends] = await Promise.all([
+    getGroupMembers(userId, auction.groupId),
+    getAuctions(userId, auction.groupId),
+    getDividends(userId, { auctionId }),
+  ]);
+
+  // Clients who won this auction or an earlier one in the group
+  const prizedClientIds = new Set<string>();
+  for (const groupAuction of groupAuctions) {
+    if (groupAuction.chitMonth > auction.chitMonth) continue;
+    getWinnerClientIds(groupAuction).forEach((clientId) => prizedClientIds.add(clientId));
+  }
+
+  const dividendPerChit = calculateDividendPerChit(auction.bidAmount, getGroupTenure(group));
+  const memberIds = new Set(members.map((member) => member.id));
+
+  let batch = writeBatch(db);
+  let operationCount = 0;
+
+  for (const member of members) {
     if (operationCount >= 500) {
       await batch.commit();
       batch = writeBatch(db); // Create new batch
       operationCount = 0;
     }
-    const paymentRef = doc(db, getSharedCollection("payments"), payment.id);
-    batch.delete(paymentRef);
-    operationCount++;
+    const dividendId = `${auctionId}_${member.id}`;
+    const existing = existingDividends.find((dividend) => dividend.id === dividendId);
+    const dividendRef = doc(db, getSharedCollection("dividends"), dividendId);
+    const dividend = {
+      auctionId,
+      groupId: auction.groupId,
+      groupName: auction.groupName,
+      chitMonth: auction.chitMonth,
+      memberId: member.id,
+      clientId: member.clientId,
+      clientName: member.clientName,
+      chitCount: member.chitCount,
+      dividendPerChit,
+      dividendAmount: dividendPerChit * member.chitCount,
+      isPrized: prizedClientIds.has(member.clientId),
+      createdAt: existing?.createdAt || Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    };
+    batch.set(dividendRef, dividend);
+    writeAuditEntry(batch, userId, existing ? "update" : "create", dividendRef, existing, dividend);
+    operationCount += 2;
   }
-  
-  // Step 4: Commit any remaining operations
+
+  // Remove records of members who have left the group
+  for (const dividend of existingDividends) {
+    if (memberIds.has(dividend.memberId)) continue;
+    if (operationCount >= 500) {
+      await batch.commit();
+      batch = writeBatch(db); // Create new batch
+      operationCount = 0;
+    }
+    const dividendRef = doc(db, getSharedCollection("dividends"), dividend.id);
+    batch.delete(dividendRef);
+    writeAuditEntry(batch, userId, "delete", dividendRef, dividend, null);
+    operationCount += 2;
+  }
+
   if (operationCount > 0) {
     await batch.commit();
   }
-  
-  // At this point, all payment logs and payments related to the auction are deleted
-  // The auction itself should be deleted separately after calling this function
+};
+
+// Payouts
+export const getPayouts = async (
+  userId: string,
+  filters?: {
+    clientId?: string;
+    groupId?: string;
+    auctionId?: string;
+    status?: Payout["status"];
+  }
+): Promise<Payout[]> => {
+  const collectionRef = collection(db, getSharedCollection("payouts"));
+  let q = query(collectionRef);
+
+  if (filters?.clientId) {
+    q = query(q, where("clientId", "==", filters.clientId));
+  }
+  if (filters?.groupId) {
+    q = query(q, where("groupId", "==", filters.groupId));
+  }
+  if (filters?.auctionId) {
+    q = query(q, where("auctionId", "==", filters.auctionId));
+  }
+  if (filters?.status) {
+    q = query(q, where("status", "==", filters.status));
+  }
+
+  // Fetch without orderBy to avoid index requirement, then sort manually
+  const snapshot = await getDocs(q);
+  const payouts = snapshot.docs.map(
+    (doc) => ({ id: doc.id, ...doc.data() } as Payout)
+  );
+
+  // Sort manually by chitMonth descending (newest first)
+  return payouts.sort((a, b) => b.chitMonth.localeCompare(a.chitMonth));
+};
+
+/**
+ * Keeps an auction's payouts in line with its winners.
+ * - Each winner gets one payout (ID `${auctionId}_${clientId}`) for an equal
+ *   share of payoutAmount; a Company Bid gets none
+ * - Pending payouts are created or re-priced; paid ones are never changed
+ * - Pending payouts of clients who are no longer winners are removed
+ */
+export const syncAuctionPayouts = async (
+  userId: string,
+  auctionId: string
+): Promise<void> => {
+  const auction = await getAuction(userId, auctionId);
+  if (!auction) {
+    throw new Error("Auction not found");
+  }
+
+  const existingPayouts = await getPayouts(userId, { auctionId });
+  const winnerIds = getWinnerClientIds(auction);
+  const winnerNames = Array.isArray(auction.winnerName)
+    ? auction.winnerName
+    : auction.winnerName ? [auction.winnerName] : [];
+  const amount = winnerIds.length > 0 ? auction.payoutAmount / winnerIds.length : 0;
+
+  const batch = writeBatch(db);
+  let operationCount = 0;
+
+  winnerIds.forEach((clientId, index) => {
+    const payoutId = `${auctionId}_${clientId}`;
+    const existing = existingPayouts.find((payout) => payout.id === payoutId);
+    if (existing?.status === "Paid") return;
+
+    const payoutRef = doc(db, getSharedCollection("payouts"), payoutId);
+    const payout = {
+      auctionId,
+      groupId: auction.groupId,
+      groupName: auction.groupName,
+      chitMonth: auction.chitMonth,
+      clientId,
+      clientName: winnerNames[index] || "",
+      amount,
+      status: "Pending",
+      payoutDate: null,
+      method: null,
+      referenceNumber: "",
+      createdAt: existing?.createdAt || Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    };
+    batch.set(payoutRef, payout);
+    writeAuditEntry(batch, userId, existing ? "update" : "create", payoutRef, existing, payout);
+    operationCount += 2;
+  });
+
+  for (const payout of existingPayouts) {
+    if (payout.status === "Pending" && !winnerIds.includes(payout.clientId)) {
+      const payoutRef = doc(db, getSharedCollection("payouts"), payout.id);
+      batch.delete(payoutRef);
+      writeAuditEntry(batch, userId, "delete", payoutRef, payout, null);
+      operationCount += 2;
+    }
+  }
+
+  if (operationCount > 0) {
+    await batch.commit();
+  }
+};
+
+/**
+ * Returns a client's unpaid payments across all groups, oldest due first.
+ * These are the arrears that can be deducted from the client's prize payout.
+ */
+export const getOutstandingPayments = async (
+  userId: string,
+  clientId: string
+): Promise<Payment[]> => {
+  const payments = await getPayments(userId, { clientId });
+  return payments.filter((payment) => payment.pendingAmount > 0);
+};
+
+/**
+ * Records the disbursement of a pending payout to its winner.
+ * Arrears listed in `adjustments` are settled from the payout in the same
+ * transaction: each payment is reduced by the given amount, an "Adjusted from
+ * payout" payment log is posted for it, and the payout stores the breakdown
+ * and its net amount. A payout cannot be marked paid twice.
+ */
+export const recordPayoutDisbursement = async (
+  userId: string,
+  payoutId: string,
+  data: {
+    payoutDate: Timestamp;
+    method: NonNullable<Payout["method"]>;
+    referenceNumber: string;
+    adjustments?: { paymentId: string; amount: number }[];
+  }
+): Promise<void> => {
+  if (data.method !== "Cash" && !data.referenceNumber.trim()) {
+    throw new Error(`Reference number is required for ${data.method} payouts`);
+  }
+
+  const requestedAdjustments = (data.adjustments || []).filter((adjustment) => adjustment.amount > 0);
+  const paymentIds = requestedAdjustments.map((adjustment) => adjustment.paymentId);
+  if (new Set(paymentIds).size !== paymentIds.length) {
+    throw new Error("A payment can only be adjusted once per payout");
+  }
+
+  const payoutRef = doc(db, getSharedCollection("payouts"), payoutId);
+
+  await runTransaction(db, async (transaction) => {
+    const payoutSnap = await transaction.get(payoutRef);
+    if (!payoutSnap.exists()) {
+      throw new Error("Payout not found");
+    }
+    const payout = { id: payoutSnap.id, ...payoutSnap.data() } as Payout;
+    if (payout.status === "Paid") {
+      throw new Error("Payout has already been disbursed");
+    }
+
+    // All reads must happen before any writes in a transaction
+    const payments: Payment[] = [];
+    for (const adjustment of requestedAdjustments) {
+      const paymentRef = doc(db, getSharedCollection("payments"), adjustment.paymentId);
+      const paymentSnap = await transaction.get(paymentRef);
+      if (!paymentSnap.exists()) {
+        throw new Error("Payment record not found");
+      }
+      const payment = { id: paymentSnap.id, ...paymentSnap.data() } as Payment;
+      if (payment.clientId !== payout.clientId) {
+        throw new Error("Only the winner's own dues can be adjusted from a payout");
+      }
+      if (adjustment.amount > payment.pendingAmount) {
+        throw new Error(
+          `Adjustment for ${payment.groupName} (${payment.chitMonth}) cannot exceed pending amount (${payment.pendingAmount})`
+        );
+      }
+      payments.push(payment);
+    }
+
+    // Adjustments are receipts of the payout date, which must still be open
+    let dayCounterSnaps: DocumentSnapshot[] = [];
+    if (requestedAdjustments.length > 0) {
+      await assertDaysOpen(transaction, [{ date: data.payoutDate.toDate() }]);
+      dayCounterSnaps = await readDayCounters(transaction, [data.payoutDate.toDate()]);
+    }
+
+    const totalAdjusted = requestedAdjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0);
+    if (totalAdjusted > payout.amount) {
+      throw new Error(
+        `Adjustments (${totalAdjusted}) cannot exceed the payout amount (${payout.amount})`
+      );
+    }
+
+    const adjustments: PayoutAdjustment[] = requestedAdjustments.map((adjustment, index) => {
+      const payment = payments[index];
+      const newPendingAmount = payment.pendingAmount - adjustment.amount;
+      const logRef = doc(collection(db, getSharedCollection("paymentLogs")));
+
+      const paymentRef = doc(db, getSharedCollection("payments"), payment.id);
+      const paymentChanges = {
+        amountPaid: payment.amountPaid + adjustment.amount,
+        pendingAmount: Math.max(0, newPendingAmount),
+        status: newPendingAmount <= 0 ? "Paid" : "Partial",
+        updatedAt: Timestamp.now(),
+      };
+      transaction.update(paymentRef, paymentChanges);
+      writeAuditEntry(transaction, userId, "update", paymentRef, payment, paymentChanges);
+
+      const log = {
+        paymentId: payment.id,
+        clientId: payment.clientId,
+        clientName: payment.clientName,
+        groupName: payment.groupName,
+        chitMonth: payment.chitMonth,
+        amountPaid: adjustment.amount,
+        paymentDate: data.payoutDate,
+        paymentMethod: "Adjusted from payout",
+        payoutId: payout.id,
+        createdAt: Timestamp.now(),
+      };
+      transaction.set(logRef, log);
+      writeAuditEntry(transaction, userId, "create", logRef, null, log);
+
+      return {
+        paymentId: payment.id,
+        paymentLogId: logRef.id,
+        groupName: payment.groupName,
+        chitMonth: payment.chitMonth,
+        amount: adjustment.amount,
+      };
+    });
+
+    const payoutChanges = {
+      status: "Paid",
+      payoutDate: data.payoutDate,
+      method: data.method,
+      referenceNumber: data.referenceNumber.trim(),
+      adjustments,
+      netAmount: payout.amount - totalAdjusted,
+      updatedAt: Timestamp.now(),
+    };
+    transaction.update(payoutRef, payoutChanges);
+    writeAuditEntry(transaction, userId, "update", payoutRef, payout, payoutChanges);
+    bumpDayCounters(transaction, dayCounterSnaps);
+  });
+};
+
+// Receipts
+// Receipt numbers run without gaps within a financial year: the year's counter
+// is read and bumped in the same transaction that writes the payment log, so a
+// number is only used when the payment is saved.
+const getReceiptCounterRef = (financialYear: string) =>
+  doc(db, getSharedCollection("counters"), `receipts_${financialYear}`);
+
+const getNextReceiptNumber = (
+  counterSnap: DocumentSnapshot,
+  financialYear: string
+): { sequence: number; receiptNumber: string } => {
+  const lastNumber = counterSnap.exists() ? (counterSnap.data().lastNumber as number) : 0;
+  const sequence = lastNumber + 1;
+  return { sequence, receiptNumber: formatReceiptNumber(financialYear, sequence) };
+};
+
+const getDayClosedMessage = (closing: DayClosing): string =>
+  `${formatDate(closing.date)} has been closed${closing.scope === "collector" ? ` for ${closing.collectorName}` : ""}`;
+
+/**
+ * Refuses a receipt change on a day closed for its collector or the office.
+ * Reads the closings through the transaction, so call it before any write.
+ */
+const assertDaysOpen = async (
+  transaction: Transaction,
+  receipts: { date: Date; collectorId?: string }[]
+): Promise<void> => {
+  const closingIds = new Set<string>();
+  receipts.forEach(({ date, collectorId }) => {
+    closingIds.add(getDayClosingId(getDayKey(date), null));
+    if (collectorId) closingIds.add(getDayClosingId(getDayKey(date), collectorId));
+  });
+  for (const closingId of Array.from(closingIds)) {
+    const closingSnap = await transaction.get(doc(db, getSharedCollection("dayClosings"), closingId));
+    if (closingSnap.exists()) {
+      throw new Error(`${getDayClosedMessage(closingSnap.data() as DayClosing)}; its receipts can no longer be changed`);
+    }
+  }
+};
+
+// The security rules may look up at most 20 documents in one transaction or
+// batch. Writing or deleting a payment log looks up the closings of its day for
+// the office and its collector (isDayClosed in firestore.rules); a reversal
+// also looks up the log it reverses.
+const RULES_LOOKUP_LIMIT = 20;
+
+const getDayClosingLookups = (date: Date, collectorId: string | undefined): string[] => [
+  getDayClosingId(getDayKey(date), null),
+  getDayClosingId(getDayKey(date), collectorId || ""),
+];
+
+// Orders payment logs by day and collector, so logs sharing day closings share a batch
+const sortByDayClosing = <T extends Pick<PaymentLog, "paymentDate" | "collectedBy">>(logs: T[]): T[] =>
+  [...logs].sort(
+    (a, b) =>
+      getDayKey(a.paymentDate.toDate()).localeCompare(getDayKey(b.paymentDate.toDate())) ||
+      (a.collectedBy || "").localeCompare(b.collectedBy || "")
+  );
+
+/**
+ * Write batches for bulk deletes and restores. The current batch is committed
+ * before it would go over 500 writes or over RULES_LOOKUP_LIMIT documents
+ * looked up by the rules; each write names the documents its rules look up.
+ */
+const createBatchQueue = () => {
+  let batch = writeBatch(db);
+  let operationCount = 0;
+  let lookups = new Set<string>();
+
+  const commit = async (): Promise<void> => {
+    if (operationCount > 0) {
+      await batch.commit();
+    }
+    batch = writeBatch(db);
+    operationCount = 0;
+    lookups = new Set();
+  };
+
+  // Batch to add `operations` writes to, looking up `documents`
+  const next = async (operations: number, documents: string[] = []): Promise<WriteBatch> => {
+    const added = documents.filter((document) => !lookups.has(document));
+    if (operationCount + operations > 500 || lookups.size + added.length > RULES_LOOKUP_LIMIT) {
+      await commit();
+    }
+    operationCount += operations;
+    added.forEach((document) => lookups.add(document));
+    return batch;
+  };
+
+  return { next, commit };
+};
+
+// Bumped by every transaction that writes payment logs dated on a day, so
+// closeDay can tell whether the day's receipts moved while they were counted
+const getDayCounterRef = (date: string) => doc(db, getSharedCollection("counters"), `day_${date}`);
+
+const getDayCounterValue = (counterSnap: DocumentSnapshot): number =>
+  counterSnap.exists() ? (counterSnap.data().lastNumber as number) : 0;
+
+// Reads the day counters of the given dates; call before any write
+const readDayCounters = async (transaction: Transaction, dates: Date[]): Promise<DocumentSnapshot[]> => {
+  const days = Array.from(new Set(dates.map(getDayKey)));
+  const snapshots: DocumentSnapshot[] = [];
+  for (const day of days) {
+    snapshots.push(await transaction.get(getDayCounterRef(day)));
+  }
+  return snapshots;
+};
+
+const bumpDayCounters = (transaction: Transaction, counterSnaps: DocumentSnapshot[]): void => {
+  counterSnaps.forEach((counterSnap) => {
+    transaction.set(counterSnap.ref, {
+      date: counterSnap.id.replace("day_", ""),
+      lastNumber: getDayCounterValue(counterSnap) + 1,
+      updatedAt: Timestamp.now(),
+    });
+  });
+};
+
+/**
+ * The payment logs printed on a log's receipt: the log itself, or for a bulk
+ * payment every line of its batch that shares the receipt number, penalties
+ * first and then by chit month.
+ */
+export const getReceiptLogs = async (
+  userId: string,
+  log: PaymentLog
+): Promise<PaymentLog[]> => {
+  if (!log.bulkBatchId || !log.receiptNumber) return [log];
+
+  const logs = await getPaymentLogs(userId, { bulkBatchId: log.bulkBatchId });
+  return logs
+    .filter((entry) => entry.receiptNumber === log.receiptNumber && !entry.reversalOf)
+    .sort(
+      (a, b) =>
+        Number(!a.penaltyChargeId) - Number(!b.penaltyChargeId) ||
+        a.chitMonth.localeCompare(b.chitMonth) ||
+        a.groupName.localeCompare(b.groupName)
+    );
+};
+
+/**
+ * Records that a receipt was printed, on every payment log it covers (see
+ * getReceiptLogs). The first print is the original; every later print is a
+ * duplicate.
+ *
+ * Returns true when this print is a duplicate.
+ */
+export const markReceiptPrinted = async (
+  userId: string,
+  logIds: string[]
+): Promise<boolean> => {
+  const logRefs = logIds.map((logId) => doc(db, getSharedCollection("paymentLogs"), logId));
+
+  return runTransaction(db, async (transaction) => {
+    const logs: PaymentLog[] = [];
+    for (const logRef of logRefs) {
+      const logSnap = await transaction.get(logRef);
+      if (!logSnap.exists()) {
+        throw new Error("Payment log not found");
+      }
+      const log = { id: logSnap.id, ...logSnap.data() } as PaymentLog;
+      if (!log.receiptNumber) {
+        throw new Error("This payment has no receipt number");
+      }
+      logs.push(log);
+    }
+
+    const duplicate = logs.some((log) => (log.receiptPrintCount || 0) > 0);
+    logs.forEach((log, index) => {
+      const changes = {
+        receiptPrintCount: (log.receiptPrintCount || 0) + 1,
+        receiptPrintedAt: Timestamp.now(),
+      };
+      transaction.update(logRefs[index], changes);
+      writeAuditEntry(transaction, userId, "update", logRefs[index], log, changes);
+    });
+    return duplicate;
+  });
+};
+
+// Penalties
+export const getPenaltyCharges = async (
+  userId: string,
+  filters?: {
+    clientId?: string;
+    groupId?: string;
+    paymentId?: string;
+    status?: PenaltyCharge["status"];
+  }
+): Promise<PenaltyCharge[]> => {
+  const collectionRef = collection(db, getSharedCollection("penaltyCharges"));
+  let q = query(collectionRef);
+
+  if (filters?.clientId) {
+    q = query(q, where("clientId", "==", filters.clientId));
+  }
+  if (filters?.groupId) {
+    q = query(q, where("groupId", "==", filters.groupId));
+  }
+  if (filters?.paymentId) {
+    q = query(q, where("paymentId", "==", filters.paymentId));
+  }
+  if (filters?.status) {
+    q = query(q, where("status", "==", filters.status));
+  }
+
+  // Fetch without orderBy to avoid index requirement, then sort manually
+  const snapshot = await getDocs(q);
+  const charges = snapshot.docs.map(
+    (doc) => ({ id: doc.id, ...doc.data() } as PenaltyCharge)
+  );
+
+  // Sort manually by chitMonth ascending (oldest first)
+  return charges.sort((a, b) => a.chitMonth.localeCompare(b.chitMonth));
+};
+
+const getPenaltyChargeStatus = (
+  pendingAmount: number,
+  amountPaid: number
+): PenaltyCharge["status"] => {
+  if (pendingAmount <= 0) return "Paid";
+  return amountPaid > 0 ? "Partial" : "Pending";
+};
+
+/**
+ * Brings penalty charges up to date for overdue payments of groups that have
+ * a penalty rule. Each payment's charge (ID = payment ID) is re-read in a
+ * transaction so concurrent runs do not charge the same period twice.
+ * Waived charges stop accruing.
+ *
+ * Returns the number of charges created or increased.
+ */
+export const accruePenaltyCharges = async (
+  userId: string,
+  filters?: { clientId?: string }
+): Promise<number> => {
+  const groups = await getGroups(userId);
+  const rules = new Map(
+    groups
+      .map((group) => [group.id, getGroupPenaltyRule(group)] as const)
+      .filter(([, rule]) => rule !== null)
+  );
+  if (rules.size === 0) {
+    return 0;
+  }
+
+  const [payments, charges] = await Promise.all([
+    getPayments(userId, { clientId: filters?.clientId }),
+    getPenaltyCharges(userId, { clientId: filters?.clientId }),
+  ]);
+
+  let accrued = 0;
+  for (const payment of payments) {
+    const rule = rules.get(payment.groupId);
+    if (!rule) continue;
+    const charge = charges.find((c) => c.id === payment.id) || null;
+    if (charge?.status === "Waived") continue;
+    // Skip the transaction when nothing is due
+    if (!calculatePenaltyAccrual(rule, payment, charge)) continue;
+
+    const chargeRef = doc(db, getSharedCollection("penaltyCharges"), payment.id);
+    const paymentRef = doc(db, getSharedCollection("payments"), payment.id);
+    const added = await runTransaction(db, async (transaction) => {
+      const [chargeSnap, paymentSnap] = await Promise.all([
+        transaction.get(chargeRef),
+        transaction.get(paymentRef),
+      ]);
+      if (!paymentSnap.exists()) return false;
+      const livePayment = { id: paymentSnap.id, ...paymentSnap.data() } as Payment;
+      const liveCharge = chargeSnap.exists()
+        ? ({ id: chargeSnap.id, ...chargeSnap.data() } as PenaltyCharge)
+        : null;
+      if (liveCharge?.status === "Waived") return false;
+
+      const accrual = calculatePenaltyAccrual(rule, livePayment, liveCharge);
+      if (!accrual) return false;
+
+      const amount = (liveCharge?.amount || 0) + accrual.amount;
+      const amountPaid = liveCharge?.amountPaid || 0;
+      const waivedAmount = liveCharge?.waivedAmount || 0;
+      const pendingAmount = amount - amountPaid - waivedAmount;
+
+      const updatedCharge = {
+        paymentId: livePayment.id,
+        clientId: livePayment.clientId,
+        clientName: livePayment.clientName,
+        groupId: livePayment.groupId,
+        groupName: livePayment.groupName,
+        chitMonth: livePayment.chitMonth,
+        ruleType: rule.type,
+        amount,
+        amountPaid,
+        waivedAmount,
+        pendingAmount,
+        status: getPenaltyChargeStatus(pendingAmount, amountPaid),
+        accruedThrough: Timestamp.fromDate(accrual.accruedThrough),
+        waivedReason: liveCharge?.waivedReason || "",
+        waivedBy: liveCharge?.waivedBy || null,
+        waivedAt: liveCharge?.waivedAt || null,
+        createdAt: liveCharge?.createdAt || Timestamp.now(),
+        updatedAt: Timestamp.now(),
+      };
+      transaction.set(chargeRef, updatedCharge);
+      writeAuditEntry(transaction, userId, liveCharge ? "update" : "create", chargeRef, liveCharge, updatedCharge);
+      return true;
+    });
+    if (added) accrued++;
+  }
+
+  return accrued;
+};
+
+/**
+ * Records a penalty collected from the client. Like recordPayment, the charge
+ * is validated against its live pendingAmount and the charge update and its
+ * payment log (marked with penaltyChargeId) are written in one transaction.
+ *
+ * Returns the ID of the created payment log.
+ */
+export const recordPenaltyPayment = async (
+  userId: string,
+  chargeId: string,
+  data: {
+    amount: number;
+    paymentDate: Timestamp;
+    paymentMethod: PaymentLog["paymentMethod"];
+    collectorName?: string;
+  }
+): Promise<string> => {
+  if (!(data.amount > 0)) {
+    throw new Error("Penalty amount must be greater than zero");
+  }
+
+  const chargeRef = doc(db, getSharedCollection("penaltyCharges"), chargeId);
+  const logRef = doc(collection(db, getSharedCollection("paymentLogs")));
+  const financialYear = getFinancialYear(data.paymentDate.toDate());
+  const counterRef = getReceiptCounterRef(financialYear);
+
+  await runTransaction(db, async (transaction) => {
+    const chargeSnap = await transaction.get(chargeRef);
+    if (!chargeSnap.exists()) {
+      throw new Error("Penalty charge not found");
+    }
+    const charge = { id: chargeSnap.id, ...chargeSnap.data() } as PenaltyCharge;
+    const counterSnap = await transaction.get(counterRef);
+    const { sequence, receiptNumber } = getNextReceiptNumber(counterSnap, financialYear);
+    await assertDaysOpen(transaction, [{ date: data.paymentDate.toDate(), collectorId: userId }]);
+    const dayCounterSnaps = await readDayCounters(transaction, [data.paymentDate.toDate()]);
+
+    if (data.amount > charge.pendingAmount) {
+      throw new Error(
+        `Penalty amount cannot exceed pending penalty (${charge.pendingAmount})`
+      );
+    }
+
+    const amountPaid = charge.amountPaid + data.amount;
+    const pendingAmount = charge.pendingAmount - data.amount;
+
+    const chargeChanges = {
+      amountPaid,
+      pendingAmount: Math.max(0, pendingAmount),
+      status: getPenaltyChargeStatus(pendingAmount, amountPaid),
+      updatedAt: Timestamp.now(),
+    };
+    transaction.update(chargeRef, chargeChanges);
+    writeAuditEntry(transaction, userId, "update", chargeRef, charge, chargeChanges);
+
+    transaction.set(counterRef, {
+      financialYear,
+      lastNumber: sequence,
+      updatedAt: Timestamp.now(),
+    });
+    bumpDayCounters(transaction, dayCounterSnaps);
+
+    const log = {
+      paymentId: charge.paymentId,
+      penaltyChargeId: charge.id,
+      clientId: charge.clientId,
+      clientName: charge.clientName,
+      groupName: charge.groupName,
+      chitMonth: charge.chitMonth,
+      amountPaid: data.amount,
+      paymentDate: data.paymentDate,
+      paymentMethod: data.paymentMethod,
+      receiptNumber,
+      financialYear,
+      collectedBy: userId,
+      collectorName: data.collectorName || "",
+      receiptPrintCount: 0,
+      receiptPrintedAt: null,
+      createdAt: Timestamp.now(),
+    };
+    transaction.set(logRef, log);
+    writeAuditEntry(transaction, userId, "create", logRef, null, log);
+  });
+
+  return logRef.id;
+};
+
+/**
+ * Waives what is still pending on a penalty charge. Admin only (enforced by
+ * the security rules); a reason is required and kept on the charge.
+ */
+export const waivePenaltyCharge = async (
+  userId: string,
+  chargeId: string,
+  reason: string
+): Promise<void> => {
+  if (!reason.trim()) {
+    throw new Error("A reason is required to waive a penalty");
+  }
+
+  const chargeRef = doc(db, getSharedCollection("penaltyCharges"), chargeId);
+
+  await runTransaction(db, async (transaction) => {
+    const chargeSnap = await transaction.get(chargeRef);
+    if (!chargeSnap.exists()) {
+      throw new Error("Penalty charge not found");
+    }
+    const charge = { id: chargeSnap.id, ...chargeSnap.data() } as PenaltyCharge;
+    if (charge.status === "Waived") {
+      throw new Error("Penalty has already been waived");
+    }
+    if (charge.pendingAmount <= 0) {
+      throw new Error("Nothing is pending on this penalty");
+    }
+
+    const changes = {
+      waivedAmount: charge.waivedAmount + charge.pendingAmount,
+      pendingAmount: 0,
+      status: "Waived",
+      waivedReason: reason.trim(),
+      waivedBy: userId,
+      waivedAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    };
+    transaction.update(chargeRef, changes);
+    writeAuditEntry(transaction, userId, "update", chargeRef, charge, changes);
+  });
 };
 
 // Payment Logs
@@ -543,6 +2269,7 @@ export const getPaymentLogs = async (
   filters?: {
     clientId?: string;
     paymentId?: string;
+    bulkBatchId?: string;
     month?: string; // YYYY-MM format
   }
 ): Promise<PaymentLog[]> => {
@@ -555,10 +2282,14 @@ export const getPaymentLogs = async (
   if (filters?.paymentId) {
     q = query(q, where("paymentId", "==", filters.paymentId));
   }
+  if (filters?.bulkBatchId) {
+    q = query(q, where("bulkBatchId", "==", filters.bulkBatchId));
+  }
+  const filtered = !!(filters?.clientId || filters?.paymentId || filters?.bulkBatchId);
 
-  // Avoid index requirement by not using orderBy when filtering by clientId or paymentId
+  // Avoid index requirement by not using orderBy when filtering
   // Instead, we'll sort manually after fetching
-  if (!filters?.clientId && !filters?.paymentId) {
+  if (!filtered) {
     q = query(q, orderBy("paymentDate", "desc"));
   }
 
@@ -568,8 +2299,8 @@ export const getPaymentLogs = async (
     (doc) => ({ id: doc.id, ...doc.data() } as PaymentLog)
   );
 
-  // Sort manually if we filtered by clientId or paymentId to avoid index requirement
-  if (filters?.clientId || filters?.paymentId) {
+  // Sort manually if we filtered to avoid index requirement
+  if (filtered) {
     logs.sort((a, b) => {
       const aTime = a.paymentDate.toMillis();
       const bTime = b.paymentDate.toMillis();
@@ -592,14 +2323,270 @@ export const createPaymentLog = async (
   userId: string,
   data: Omit<PaymentLog, "id" | "createdAt">
 ): Promise<string> => {
-  const docRef = await addDoc(
-    collection(db, getSharedCollection("paymentLogs")),
-    {
-      ...data,
-      createdAt: Timestamp.now(),
+  return createWithAudit(userId, "paymentLogs", {
+    ...data,
+    createdAt: Timestamp.now(),
+  });
+};
+
+// ID shared by the payment logs of one bulk payment, so it can be reversed as a unit
+const createBulkBatchId = (): string =>
+  doc(collection(db, getSharedCollection("paymentLogs"))).id;
+
+/**
+ * Records a payment received against a payment entry atomically.
+ * The payment is re-read inside a transaction so the amount is validated
+ * against the live pendingAmount, and the payment update and its payment log
+ * are written together or not at all. Concurrent recordings for the same
+ * payment are serialized by Firestore and retried against fresh data.
+ * The log gets the next receipt number of the payment date's financial year.
+ * Payments dated on a day already closed for this collector are refused.
+ *
+ * Returns the ID of the created payment log.
+ */
+export const recordPayment = async (
+  userId: string,
+  paymentId: string,
+  data: {
+    amount: number;
+    paymentDate: Timestamp;
+    paymentMethod: PaymentLog["paymentMethod"];
+    collectorName?: string;
+  }
+): Promise<string> => {
+  if (!(data.amount > 0)) {
+    throw new Error("Payment amount must be greater than zero");
+  }
+
+  const paymentRef = doc(db, getSharedCollection("payments"), paymentId);
+  const logRef = doc(collection(db, getSharedCollection("paymentLogs")));
+  const financialYear = getFinancialYear(data.paymentDate.toDate());
+  const counterRef = getReceiptCounterRef(financialYear);
+
+  await runTransaction(db, async (transaction) => {
+    const paymentSnap = await transaction.get(paymentRef);
+    if (!paymentSnap.exists()) {
+      throw new Error("Payment record not found");
+    }
+
+    const payment = { id: paymentSnap.id, ...paymentSnap.data() } as Payment;
+    const counterSnap = await transaction.get(counterRef);
+    const { sequence, receiptNumber } = getNextReceiptNumber(counterSnap, financialYear);
+    await assertDaysOpen(transaction, [{ date: data.paymentDate.toDate(), collectorId: userId }]);
+    const dayCounterSnaps = await readDayCounters(transaction, [data.paymentDate.toDate()]);
+
+    if (data.amount > payment.pendingAmount) {
+      throw new Error(
+        `Payment amount cannot exceed pending amount (${payment.pendingAmount})`
+      );
     }
+
+    const newAmountPaid = payment.amountPaid + data.amount;
+    const newPendingAmount = payment.pendingAmount - data.amount;
+    const newStatus: Payment["status"] = newPendingAmount <= 0 ? "Paid" : "Partial";
+
+    const paymentChanges = {
+      amountPaid: newAmountPaid,
+      pendingAmount: Math.max(0, newPendingAmount),
+      status: newStatus,
+      updatedAt: Timestamp.now(),
+    };
+    transaction.update(paymentRef, paymentChanges);
+    writeAuditEntry(transaction, userId, "update", paymentRef, payment, paymentChanges);
+
+    transaction.set(counterRef, {
+      financialYear,
+      lastNumber: sequence,
+      updatedAt: Timestamp.now(),
+    });
+    bumpDayCounters(transaction, dayCounterSnaps);
+
+    const log = {
+      paymentId: payment.id,
+      clientId: payment.clientId,
+      clientName: payment.clientName,
+      groupName: payment.groupName,
+      chitMonth: payment.chitMonth,
+      amountPaid: data.amount,
+      paymentDate: data.paymentDate,
+      paymentMethod: data.paymentMethod,
+      receiptNumber,
+      financialYear,
+      collectedBy: userId,
+      collectorName: data.collectorName || "",
+      receiptPrintCount: 0,
+      receiptPrintedAt: null,
+      createdAt: Timestamp.now(),
+    };
+    transaction.set(logRef, log);
+    writeAuditEntry(transaction, userId, "create", logRef, null, log);
+  });
+
+  return logRef.id;
+};
+
+// Installments and penalties one bulk payment may settle. The receipt must be
+// reversible in one transaction, where the rules look up every reversed line
+// plus the closings of its day and of today for the office and the operator.
+export const MAX_BULK_PAYMENT_LINES = RULES_LOOKUP_LIMIT - 4;
+
+/**
+ * Records a bulk payment from one client in a single transaction under one
+ * receipt number. The amount settles the given penalty charges first, then
+ * the given payments, each in the order passed, against their live pending
+ * amounts; it may not exceed what is pending on them. Every line gets its own
+ * payment log, all sharing the receipt number and the bulk batch ID so the
+ * receipt prints and reverses as one unit. Either every line is recorded or
+ * none is.
+ *
+ * Returns the IDs of the created payment logs, in allocation order.
+ */
+export const recordBulkPayment = async (
+  userId: string,
+  data: {
+    amount: number;
+    penaltyChargeIds: string[];
+    paymentIds: string[];
+    paymentDate: Timestamp;
+    paymentMethod: PaymentLog["paymentMethod"];
+    collectorName?: string;
+  }
+): Promise<string[]> => {
+  if (!(data.amount > 0)) {
+    throw new Error("Payment amount must be greater than zero");
+  }
+
+  const chargeRefs = data.penaltyChargeIds.map((chargeId) =>
+    doc(db, getSharedCollection("penaltyCharges"), chargeId)
   );
-  return docRef.id;
+  const paymentRefs = data.paymentIds.map((paymentId) =>
+    doc(db, getSharedCollection("payments"), paymentId)
+  );
+  const bulkBatchId = createBulkBatchId();
+  const financialYear = getFinancialYear(data.paymentDate.toDate());
+  const counterRef = getReceiptCounterRef(financialYear);
+
+  return runTransaction(db, async (transaction) => {
+    const charges: PenaltyCharge[] = [];
+    for (const chargeRef of chargeRefs) {
+      const chargeSnap = await transaction.get(chargeRef);
+      if (!chargeSnap.exists()) {
+        throw new Error("Penalty charge not found");
+      }
+      charges.push({ id: chargeSnap.id, ...chargeSnap.data() } as PenaltyCharge);
+    }
+    const payments: Payment[] = [];
+    for (const paymentRef of paymentRefs) {
+      const paymentSnap = await transaction.get(paymentRef);
+      if (!paymentSnap.exists()) {
+        throw new Error("Payment record not found");
+      }
+      payments.push({ id: paymentSnap.id, ...paymentSnap.data() } as Payment);
+    }
+    const counterSnap = await transaction.get(counterRef);
+    const { sequence, receiptNumber } = getNextReceiptNumber(counterSnap, financialYear);
+    await assertDaysOpen(transaction, [{ date: data.paymentDate.toDate(), collectorId: userId }]);
+    const dayCounterSnaps = await readDayCounters(transaction, [data.paymentDate.toDate()]);
+
+    // Allocate oldest first against what is pending now
+    let remainingAmount = data.amount;
+    const allocate = (pendingAmount: number): number => {
+      const amount = Math.round(Math.min(remainingAmount, Math.max(0, pendingAmount)) * 100) / 100;
+      remainingAmount = Math.round((remainingAmount - amount) * 100) / 100;
+      return amount;
+    };
+    const chargeLines = charges
+      .map((charge) => ({ charge, amount: allocate(charge.pendingAmount) }))
+      .filter((line) => line.amount > 0);
+    const paymentLines = payments
+      .map((payment) => ({ payment, amount: allocate(payment.pendingAmount) }))
+      .filter((line) => line.amount > 0);
+    if (remainingAmount > 0) {
+      throw new Error(`Amount exceeds the total outstanding by ${remainingAmount}`);
+    }
+    if (chargeLines.length + paymentLines.length > MAX_BULK_PAYMENT_LINES) {
+      throw new Error(
+        `One receipt can settle at most ${MAX_BULK_PAYMENT_LINES} installments and penalties. Record a smaller amount.`
+      );
+    }
+
+    transaction.set(counterRef, {
+      financialYear,
+      lastNumber: sequence,
+      updatedAt: Timestamp.now(),
+    });
+    bumpDayCounters(transaction, dayCounterSnaps);
+
+    const receiptFields = {
+      paymentDate: data.paymentDate,
+      paymentMethod: data.paymentMethod,
+      receiptNumber,
+      financialYear,
+      collectedBy: userId,
+      collectorName: data.collectorName || "",
+      receiptPrintCount: 0,
+      receiptPrintedAt: null,
+      bulkBatchId,
+      createdAt: Timestamp.now(),
+    };
+    const logRefs: DocumentReference[] = [];
+    const addLog = (log: Record<string, unknown>) => {
+      const logRef = doc(collection(db, getSharedCollection("paymentLogs")));
+      transaction.set(logRef, log);
+      writeAuditEntry(transaction, userId, "create", logRef, null, log);
+      logRefs.push(logRef);
+    };
+
+    chargeLines.forEach(({ charge, amount }) => {
+      const chargeRef = doc(db, getSharedCollection("penaltyCharges"), charge.id);
+      const amountPaid = charge.amountPaid + amount;
+      const pendingAmount = charge.pendingAmount - amount;
+      const chargeChanges = {
+        amountPaid,
+        pendingAmount: Math.max(0, pendingAmount),
+        status: getPenaltyChargeStatus(pendingAmount, amountPaid),
+        updatedAt: Timestamp.now(),
+      };
+      transaction.update(chargeRef, chargeChanges);
+      writeAuditEntry(transaction, userId, "update", chargeRef, charge, chargeChanges);
+
+      addLog({
+        paymentId: charge.paymentId,
+        penaltyChargeId: charge.id,
+        clientId: charge.clientId,
+        clientName: charge.clientName,
+        groupName: charge.groupName,
+        chitMonth: charge.chitMonth,
+        amountPaid: amount,
+        ...receiptFields,
+      });
+    });
+
+    paymentLines.forEach(({ payment, amount }) => {
+      const paymentRef = doc(db, getSharedCollection("payments"), payment.id);
+      const newPendingAmount = payment.pendingAmount - amount;
+      const paymentChanges = {
+        amountPaid: payment.amountPaid + amount,
+        pendingAmount: Math.max(0, newPendingAmount),
+        status: (newPendingAmount <= 0 ? "Paid" : "Partial") as Payment["status"],
+        updatedAt: Timestamp.now(),
+      };
+      transaction.update(paymentRef, paymentChanges);
+      writeAuditEntry(transaction, userId, "update", paymentRef, payment, paymentChanges);
+
+      addLog({
+        paymentId: payment.id,
+        clientId: payment.clientId,
+        clientName: payment.clientName,
+        groupName: payment.groupName,
+        chitMonth: payment.chitMonth,
+        amountPaid: amount,
+        ...receiptFields,
+      });
+    });
+
+    return logRefs.map((logRef) => logRef.id);
+  });
 };
 
 export const deletePaymentLog = async (
@@ -607,58 +2594,929 @@ export const deletePaymentLog = async (
   logId: string
 ): Promise<void> => {
   const docRef = doc(db, getSharedCollection("paymentLogs"), logId);
-  await deleteDoc(docRef);
+  await deleteWithAudit(userId, docRef);
 };
 
+/**
+ * Reverses payment logs in one transaction. Each log gets a linked negative
+ * entry (same payment, method and month, amountPaid negated) with the
+ * deterministic ID `${logId}_reversal`, so a log can only be reversed once, and
+ * the payment or penalty charge it settled is restored. The original logs are
+ * left untouched so the collection history stays complete. Receipts of a
+ * closed day cannot be reversed. Refuses more logs than the security rules can
+ * check in one transaction.
+ */
+const reversePaymentLogs = async (
+  userId: string,
+  logIds: string[],
+  data: {
+    reason: string;
+    operatorName: string;
+  }
+): Promise<string[]> => {
+  const reason = data.reason.trim();
+  if (!reason) {
+    throw new Error("A reason is required to reverse a payment");
+  }
+
+  const logRefs = logIds.map((logId) => doc(db, getSharedCollection("paymentLogs"), logId));
+  const reversalRefs = logIds.map((logId) =>
+    doc(db, getSharedCollection("paymentLogs"), `${logId}_reversal`)
+  );
+
+  await runTransaction(db, async (transaction) => {
+    // All reads first: the logs, their reversal slots, then what they settled
+    const logs: PaymentLog[] = [];
+    for (const logRef of logRefs) {
+      const logSnap = await transaction.get(logRef);
+      if (!logSnap.exists()) {
+        throw new Error("Payment log not found");
+      }
+      const log = { id: logSnap.id, ...logSnap.data() } as PaymentLog;
+      if (log.reversalOf) {
+        throw new Error("A reversal entry cannot itself be reversed");
+      }
+      // The payout voucher already shows this deduction, so it cannot be undone on its own
+      if (log.payoutId) {
+        throw new Error("Payments adjusted from a payout cannot be rolled back");
+      }
+      logs.push(log);
+    }
+    for (const reversalRef of reversalRefs) {
+      const reversalSnap = await transaction.get(reversalRef);
+      if (reversalSnap.exists()) {
+        throw new Error("This payment has already been reversed");
+      }
+    }
+    // Neither the reversed receipts' days nor today's, where the reversal is posted, may be closed
+    const postedAt = Timestamp.now();
+    await assertDaysOpen(transaction, [
+      ...logs.map((log) => ({ date: log.paymentDate.toDate(), collectorId: log.collectedBy })),
+      { date: postedAt.toDate(), collectorId: userId },
+    ]);
+    const dayCounterSnaps = await readDayCounters(transaction, [postedAt.toDate()]);
+    const closingLookups = new Set([
+      ...logs.flatMap((log) => getDayClosingLookups(log.paymentDate.toDate(), log.collectedBy)),
+      ...getDayClosingLookups(postedAt.toDate(), userId),
+    ]);
+    if (closingLookups.size + logs.length > RULES_LOOKUP_LIMIT) {
+      throw new Error(
+        `These ${logs.length} payments cannot be reversed together. Reverse them one receipt at a time.`
+      );
+    }
+
+    // Penalty collections are reversed on the penalty charge, not the payment
+    const charges = new Map<string, PenaltyCharge>();
+    const payments = new Map<string, Payment>();
+    for (const log of logs) {
+      if (log.penaltyChargeId) {
+        if (charges.has(log.penaltyChargeId)) continue;
+        const chargeSnap = await transaction.get(
+          doc(db, getSharedCollection("penaltyCharges"), log.penaltyChargeId)
+        );
+        if (!chargeSnap.exists()) {
+          throw new Error("Penalty charge not found");
+        }
+        charges.set(chargeSnap.id, { id: chargeSnap.id, ...chargeSnap.data() } as PenaltyCharge);
+      } else {
+        if (payments.has(log.paymentId)) continue;
+        const paymentSnap = await transaction.get(
+          doc(db, getSharedCollection("payments"), log.paymentId)
+        );
+        if (!paymentSnap.exists()) {
+          throw new Error("Payment record not found");
+        }
+        payments.set(paymentSnap.id, { id: paymentSnap.id, ...paymentSnap.data() } as Payment);
+      }
+    }
+
+    // Add up what is being taken back from each charge and payment
+    const reversedByTarget = new Map<string, number>();
+    logs.forEach((log) => {
+      const key = log.penaltyChargeId || log.paymentId;
+      reversedByTarget.set(key, (reversedByTarget.get(key) || 0) + log.amountPaid);
+    });
+
+    charges.forEach((charge) => {
+      const chargeRef = doc(db, getSharedCollection("penaltyCharges"), charge.id);
+      const amountPaid = Math.max(0, charge.amountPaid - reversedByTarget.get(charge.id)!);
+      const pendingAmount = charge.amount - amountPaid - charge.waivedAmount;
+
+      const chargeChanges = {
+        amountPaid,
+        pendingAmount,
+        status:
+          charge.status === "Waived" && pendingAmount <= 0
+            ? "Waived"
+            : getPenaltyChargeStatus(pendingAmount, amountPaid),
+        updatedAt: Timestamp.now(),
+      };
+      transaction.update(chargeRef, chargeChanges);
+      writeAuditEntry(transaction, userId, "update", chargeRef, charge, chargeChanges);
+    });
+
+    payments.forEach((payment) => {
+      const paymentRef = doc(db, getSharedCollection("payments"), payment.id);
+      const reversedAmount = reversedByTarget.get(payment.id)!;
+
+      // Calculate new amounts after the reversal
+      const newAmountPaid = payment.amountPaid - reversedAmount;
+      const newPendingAmount = payment.pendingAmount + reversedAmount;
+
+      // Determine new status
+      let newStatus: "Pending" | "Partial" | "Paid";
+      if (newPendingAmount >= payment.amountExpected) {
+        newStatus = "Pending";
+      } else if (newAmountPaid > 0) {
+        newStatus = "Partial";
+      } else {
+        newStatus = "Pending";
+      }
+
+      const paymentChanges = {
+        amountPaid: Math.max(0, newAmountPaid),
+        pendingAmount: newPendingAmount,
+        status: newStatus,
+        updatedAt: Timestamp.now(),
+      };
+      transaction.update(paymentRef, paymentChanges);
+      writeAuditEntry(transaction, userId, "update", paymentRef, payment, paymentChanges);
+    });
+
+    logs.forEach((log, index) => {
+      const reversal = {
+        paymentId: log.paymentId,
+        ...(log.penaltyChargeId && { penaltyChargeId: log.penaltyChargeId }),
+        clientId: log.clientId,
+        clientName: log.clientName,
+        groupName: log.groupName,
+        chitMonth: log.chitMonth,
+        amountPaid: -log.amountPaid,
+        paymentDate: postedAt,
+        paymentMethod: log.paymentMethod,
+        reversalOf: log.id,
+        reversalReason: reason,
+        ...(log.bulkBatchId && { bulkBatchId: log.bulkBatchId }),
+        collectedBy: userId,
+        collectorName: data.operatorName,
+        createdAt: Timestamp.now(),
+      };
+      transaction.set(reversalRefs[index], reversal);
+      writeAuditEntry(transaction, userId, "create", reversalRefs[index], null, reversal);
+    });
+    bumpDayCounters(transaction, dayCounterSnaps);
+  });
+
+  return reversalRefs.map((reversalRef) => reversalRef.id);
+};
+
+/**
+ * Reverses a single payment log; a reason and the operator posting it are
+ * required. Returns the ID of the reversal entry.
+ */
 export const rollbackPaymentTransaction = async (
   userId: string,
-  logId: string
+  logId: string,
+  data: {
+    reason: string;
+    operatorName: string;
+  }
+): Promise<string> => {
+  const [reversalId] = await reversePaymentLogs(userId, [logId], data);
+  return reversalId;
+};
+
+/**
+ * Reverses every log of a bulk payment that has not been reversed yet, all or
+ * nothing. Returns the number of logs reversed.
+ */
+export const rollbackBulkPayment = async (
+  userId: string,
+  bulkBatchId: string,
+  data: {
+    reason: string;
+    operatorName: string;
+  }
+): Promise<number> => {
+  // Reversals keep the batch ID, so this also finds logs already reversed one by one
+  const logs = await getPaymentLogs(userId, { bulkBatchId });
+  const reversedIds = new Set(logs.filter((log) => log.reversalOf).map((log) => log.reversalOf!));
+  const logIds = logs
+    .filter((log) => !log.reversalOf && !reversedIds.has(log.id))
+    .map((log) => log.id);
+  if (logIds.length === 0) {
+    throw new Error("Every payment in this batch has already been reversed");
+  }
+
+  await reversePaymentLogs(userId, logIds, data);
+  return logIds.length;
+};
+
+// Collection Rounds
+// Collectors visit the clients assigned to them (Client.collectorId) in the
+// order of their saved route. Payments taken on the round are ordinary payment
+// logs; visits record the rounds that ended without one.
+
+// Staff of the active branch who may record payments, for assigning clients
+export const getCollectors = async (userId: string): Promise<StaffMember[]> => {
+  const branchId = requireBranch();
+  const snapshot = await getDocs(collection(db, "staff"));
+  return snapshot.docs
+    .map((doc) => ({ id: doc.id, ...doc.data() } as StaffMember))
+    .filter(
+      (member) =>
+        !member.disabled &&
+        hasPermission(member.role, "recordPayments") &&
+        (member.headOffice || member.branches.includes(branchId))
+    )
+    .sort((a, b) => a.displayName.localeCompare(b.displayName));
+};
+
+export const getCollectionVisits = async (
+  userId: string,
+  filters: {
+    collectorId?: string;
+    clientId?: string;
+    from?: Date;
+    to?: Date;
+  }
+): Promise<CollectionVisit[]> => {
+  let q = query(collection(db, getSharedCollection("collectionVisits")));
+  if (filters.collectorId) {
+    q = query(q, where("collectorId", "==", filters.collectorId));
+  }
+  if (filters.clientId) {
+    q = query(q, where("clientId", "==", filters.clientId));
+  }
+
+  // Dates are filtered here to avoid a composite index
+  const snapshot = await getDocs(q);
+  return snapshot.docs
+    .map((doc) => ({ id: doc.id, ...doc.data() } as CollectionVisit))
+    .filter((visit) => {
+      const visitDate = visit.visitDate.toDate();
+      return (!filters.from || visitDate >= filters.from) && (!filters.to || visitDate <= filters.to);
+    })
+    .sort((a, b) => b.visitDate.toMillis() - a.visitDate.toMillis());
+};
+
+export const recordCollectionVisit = async (
+  userId: string,
+  data: Omit<CollectionVisit, "id" | "collectorId" | "createdAt">
+): Promise<string> => {
+  if (data.outcome === "Promised to pay" && !data.promisedDate) {
+    throw new Error("Enter the date the client promised to pay");
+  }
+  return createWithAudit(userId, "collectionVisits", {
+    ...data,
+    collectorId: userId,
+    promisedDate: data.outcome === "Promised to pay" ? data.promisedDate : null,
+    notes: data.notes.trim(),
+    createdAt: Timestamp.now(),
+  });
+};
+
+export const getCollectorRoute = async (
+  userId: string,
+  collectorId: string
+): Promise<CollectorRoute | null> => {
+  const routeSnap = await getDoc(doc(db, getSharedCollection("collectorRoutes"), collectorId));
+  return routeSnap.exists() ? ({ id: routeSnap.id, ...routeSnap.data() } as CollectorRoute) : null;
+};
+
+export const saveCollectorRoute = async (
+  userId: string,
+  collectorId: string,
+  clientIds: string[]
 ): Promise<void> => {
-  // Get the payment log
-  const logRef = doc(db, getSharedCollection("paymentLogs"), logId);
-  const logSnap = await getDoc(logRef);
-  
-  if (!logSnap.exists()) {
-    throw new Error("Payment log not found");
+  const routeRef = doc(db, getSharedCollection("collectorRoutes"), collectorId);
+  await runTransaction(db, async (transaction) => {
+    const routeSnap = await transaction.get(routeRef);
+    const route = { clientIds, updatedAt: Timestamp.now() };
+    transaction.set(routeRef, route);
+    writeAuditEntry(
+      transaction,
+      userId,
+      routeSnap.exists() ? "update" : "create",
+      routeRef,
+      routeSnap.exists() ? routeSnap.data() : null,
+      route
+    );
+  });
+};
+
+// Day-End Closing
+// At the end of the day the cashier counts the cash each collector hands in
+// against that collector's receipts, then the office's cash against every
+// receipt of the day. A closing locks the receipts it covers (see
+// assertDaysOpen).
+
+export const getDayClosings = async (
+  userId: string,
+  filters?: { date?: string }
+): Promise<DayClosing[]> => {
+  let q = query(collection(db, getSharedCollection("dayClosings")));
+  if (filters?.date) {
+    q = query(q, where("date", "==", filters.date));
   }
+  const snapshot = await getDocs(q);
+  return snapshot.docs
+    .map((doc) => ({ id: doc.id, ...doc.data() } as DayClosing))
+    .sort((a, b) => b.date.localeCompare(a.date) || a.collectorName.localeCompare(b.collectorName));
+};
 
-  const log = { id: logSnap.id, ...logSnap.data() } as PaymentLog;
+// Receipts and reversals dated on a day ("YYYY-MM-DD"), optionally of one collector
+export const getDayReceipts = async (
+  userId: string,
+  date: string,
+  filters?: { collectorId?: string }
+): Promise<PaymentLog[]> => {
+  const { start, end } = getDayRange(date);
+  const q = query(
+    collection(db, getSharedCollection("paymentLogs")),
+    where("paymentDate", ">=", Timestamp.fromDate(start)),
+    where("paymentDate", "<=", Timestamp.fromDate(end)),
+    orderBy("paymentDate", "asc")
+  );
+  const snapshot = await getDocs(q);
+  // The collector is filtered here to avoid a composite index; a day is small
+  return snapshot.docs
+    .map((doc) => ({ id: doc.id, ...doc.data() } as PaymentLog))
+    .filter((log) => !filters?.collectorId || log.collectedBy === filters.collectorId);
+};
 
-  // Get the payment record
-  const payment = await getPayment(userId, log.paymentId);
-  if (!payment) {
-    throw new Error("Payment record not found");
+/**
+ * Closes a day for one collector, or for the office when collectorId is null.
+ * The receipt totals are worked out from the day's payment logs and the cash
+ * count from the denominations; the variance is counted minus expected cash.
+ * Queries cannot run inside a transaction, so the day counter is read before
+ * the logs and checked again in the transaction: a receipt posted in between
+ * fails the closing instead of being locked without being counted.
+ *
+ * Returns the ID of the closing.
+ */
+export const closeDay = async (
+  userId: string,
+  data: {
+    date: string;
+    collectorId: string | null;
+    collectorName: string;
+    denominations: Record<string, number>;
+    handedOverTo: string;
+    notes: string;
+    closedByName: string;
+  }
+): Promise<string> => {
+  if (data.date > getDayKey(new Date())) {
+    throw new Error("A day cannot be closed before it starts");
+  }
+  const handedOverTo = data.handedOverTo.trim();
+  if (!handedOverTo) {
+    throw new Error("Enter who the cash was handed over to");
   }
+  const denominations: Record<string, number> = {};
+  CASH_DENOMINATIONS.forEach((value) => {
+    const count = data.denominations[value] || 0;
+    if (!Number.isInteger(count) || count < 0) {
+      throw new Error(`Enter a whole number of ₹${value} notes or coins`);
+    }
+    if (count > 0) denominations[value] = count;
+  });
 
-  // Calculate new amounts after rollback
-  const newAmountPaid = payment.amountPaid - log.amountPaid;
-  const newPendingAmount = payment.pendingAmount + log.amountPaid;
-  
-  // Determine new status
-  let newStatus: "Pending" | "Partial" | "Paid";
-  if (newPendingAmount >= payment.amountExpected) {
-    newStatus = "Pending";
-  } else if (newAmountPaid > 0) {
-    newStatus = "Partial";
-  } else {
-    newStatus = "Pending";
+  const dayCounterRef = getDayCounterRef(data.date);
+  const countedAt = getDayCounterValue(await getDoc(dayCounterRef));
+  const receipts = await getDayReceipts(userId, data.date, { collectorId: data.collectorId ?? undefined });
+  const totals = summarizeDayReceipts(receipts);
+  const countedCash = getCountedCash(denominations);
+
+  const closingId = getDayClosingId(data.date, data.collectorId);
+  const closingRef = doc(db, getSharedCollection("dayClosings"), closingId);
+  const officeRef = doc(db, getSharedCollection("dayClosings"), getDayClosingId(data.date, null));
+
+  await runTransaction(db, async (transaction) => {
+    const closingSnap = await transaction.get(closingRef);
+    if (closingSnap.exists()) {
+      throw new Error(`${getDayClosedMessage(closingSnap.data() as DayClosing)} already`);
+    }
+    if (data.collectorId !== null && (await transaction.get(officeRef)).exists()) {
+      throw new Error(`The office day of ${formatDate(data.date)} is already closed`);
+    }
+    if (getDayCounterValue(await transaction.get(dayCounterRef)) !== countedAt) {
+      throw new Error("Receipts were posted for this day while closing it. Reload and count again.");
+    }
+
+    const closing = {
+      date: data.date,
+      scope: data.collectorId === null ? "office" : "collector",
+      collectorId: data.collectorId,
+      collectorName: data.collectorName,
+      ...totals,
+      denominations,
+      countedCash,
+      variance: Math.round((countedCash - totals.cashTotal) * 100) / 100,
+      handedOverTo,
+      notes: data.notes.trim(),
+      closedBy: userId,
+      closedByName: data.closedByName,
+      closedAt: Timestamp.now(),
+    };
+    transaction.set(closingRef, closing);
+    writeAuditEntry(transaction, userId, "create", closingRef, null, closing);
+  });
+
+  return closingId;
+};
+
+// Imports
+/**
+ * Writes the valid rows of a client/membership import plan (see
+ * planClientImport) in batches of up to 500 writes, each change next to its
+ * audit entry. New clients get their IDs up front so rows adding one client to
+ * several groups share a document. Batches commit one after another; if one
+ * fails, rerunning the import sees the rows already written as existing and
+ * skips or updates them.
+ */
+export const commitClientImport = async (
+  userId: string,
+  rows: ClientImportRow[]
+): Promise<{
+  clientsCreated: number;
+  clientsUpdated: number;
+  membershipsCreated: number;
+  membershipsUpdated: number;
+}> => {
+  const result = { clientsCreated: 0, clientsUpdated: 0, membershipsCreated: 0, membershipsUpdated: 0 };
+  const writes: { ref: DocumentReference; before: DocumentData | null; data: DocumentData }[] = [];
+  const newClientIds = new Map<string, string>();
+
+  // Current documents, for the audit entries of updates
+  const [clients, memberships] = await Promise.all([getClients(userId), getGroupMembers(userId)]);
+
+  rows
+    .filter((row) => row.errors.length === 0)
+    .forEach((row) => {
+      const now = Timestamp.now();
+
+      if (row.clientAction === "create") {
+        const clientRef = doc(collection(db, getSharedCollection("clients")));
+        newClientIds.set(row.phone, clientRef.id);
+        writes.push({
+          ref: clientRef,
+          before: null,
+          data: {
+            name: row.name,
+            phone: row.phone,
+            email: row.email,
+            notes: row.notes,
+            createdAt: now,
+            updatedAt: now,
+          },
+        });
+        result.clientsCreated++;
+      } else if (row.clientAction === "update" && row.clientId) {
+        writes.push({
+          ref: doc(db, getSharedCollection("clients"), row.clientId),
+          before: clients.find((client) => client.id === row.clientId) || null,
+          data: {
+            ...(row.name && { name: row.name }),
+            ...(row.email && { email: row.email }),
+            ...(row.notes && { notes: row.notes }),
+            updatedAt: now,
+          },
+        });
+        result.clientsUpdated++;
+      }
+
+      const clientId = row.clientId || newClientIds.get(row.phone);
+      if (!row.group || !clientId) return;
+
+      if (row.membershipAction === "create") {
+        writes.push({
+          ref: doc(collection(db, getSharedCollection("groupMembers"))),
+          before: null,
+          data: {
+            groupId: row.group.id,
+            groupName: row.group.groupName,
+            clientId,
+            clientName: row.name,
+            chitCount: row.chitCount,
+            notes: row.membershipNotes,
+            createdAt: now,
+            updatedAt: now,
+          },
+        });
+        result.membershipsCreated++;
+      } else if (row.membershipAction === "update" && row.membershipId) {
+        writes.push({
+          ref: doc(db, getSharedCollection("groupMembers"), row.membershipId),
+          before: memberships.find((membership) => membership.id === row.membershipId) || null,
+          data: {
+            chitCount: row.chitCount,
+            ...(row.membershipNotes && { notes: row.membershipNotes }),
+            updatedAt: now,
+          },
+        });
+        result.membershipsUpdated++;
+      }
+    });
+
+  // Each write takes two operations: the change and its audit entry
+  const BATCH_SIZE = 250;
+  for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    writes.slice(i, i + BATCH_SIZE).forEach(({ ref, before, data }) => {
+      if (before) {
+        batch.update(ref, data);
+        writeAuditEntry(batch, userId, "update", ref, before, data);
+      } else {
+        batch.set(ref, data);
+        writeAuditEntry(batch, userId, "create", ref, null, data);
+      }
+    });
+    await batch.commit();
   }
 
-  // Update payment and delete log in a batch
-  const batch = writeBatch(db);
-  
-  // Update payment
-  const paymentRef = doc(db, getSharedCollection("payments"), payment.id);
-  batch.update(paymentRef, {
-    amountPaid: Math.max(0, newAmountPaid),
-    pendingAmount: newPendingAmount,
-    status: newStatus,
-    updatedAt: Timestamp.now(),
+  return result;
+};
+
+/**
+ * Writes the valid months of a historical chit book import (see
+ * planHistoricalImport), oldest first. Each month follows the same flow as
+ * createAuctionWithPayments: the auction is created "Pending" under its
+ * idempotency key in a transaction, which refuses a month that already has an
+ * auction unless it is this import's own unfinished month. Payments, their
+ * logs and the winners' payouts are written under deterministic IDs,
+ * dividends are synced, then the auction is marked "Complete". An interrupted
+ * import is finished by importing the book again, or undone with the
+ * rollback of repairAuctionCreation.
+ *
+ * Imported logs carry no receipt number: receipts were issued from the book.
+ * Payments are dated on their due date, which is all the book records.
+ * Winners were paid when the auction was held, so their payouts are written
+ * as paid on the auction date.
+ */
+export const commitHistoricalImport = async (
+  userId: string,
+  group: Group,
+  plans: HistoricalAuctionPlan[],
+  paymentMethod: PaymentLog["paymentMethod"]
+): Promise<{ auctionsCreated: number; paymentsCreated: number; paymentLogsCreated: number }> => {
+  const result = { auctionsCreated: 0, paymentsCreated: 0, paymentLogsCreated: 0 };
+
+  for (const plan of plans.filter((p) => p.errors.length === 0)) {
+    const auctionId = getAuctionIdempotencyKey(group.id, plan.chitMonth);
+    const auctionRef = doc(db, getSharedCollection("auctions"), auctionId);
+    const paymentDueDate = Timestamp.fromDate(plan.paymentDueDate);
+    const now = Timestamp.now();
+
+    const auctionDate = Timestamp.fromDate(plan.auctionDate);
+    const auction = {
+      groupId: group.id,
+      groupName: group.groupName,
+      chitMonth: plan.chitMonth,
+      auctionDate,
+      paymentDueDate,
+      winnerClientId: plan.winnerClientIds,
+      winnerName: plan.winnerNames,
+      bidAmount: plan.bidAmount,
+      bids: [],
+      lotDraw: null,
+      payoutAmount: plan.amounts.payoutAmount,
+      agentCommission: plan.amounts.agentCommission,
+      totalCollectionAmount: plan.amounts.totalCollectionAmount,
+      perMemberContribution: plan.amounts.perMemberContribution,
+      creationStatus: "Pending",
+      idempotencyKey: auctionId,
+      historicalImport: true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await runTransaction(db, async (transaction) => {
+      const auctionSnap = await transaction.get(auctionRef);
+      if (auctionSnap.exists()) {
+        const existing = auctionSnap.data() as Auction;
+        if (!existing.historicalImport || existing.creationStatus !== "Pending") {
+          throw new Error(`${group.groupName} already has an auction for ${plan.chitMonth}. Run the preview again.`);
+        }
+        return; // Finishing the month an earlier import left unfinished
+      }
+      transaction.set(auctionRef, auction);
+      writeAuditEntry(transaction, userId, "create", auctionRef, null, auction);
+    });
+
+    let batch = writeBatch(db);
+    let operationCount = 0;
+
+    // Winners' prizes were paid out in the month of the auction; company months have none
+    const winnerIds = plan.winnerClientIds;
+    winnerIds.forEach((clientId, index) => {
+      const payoutRef = doc(db, getSharedCollection("payouts"), `${auctionId}_${clientId}`);
+      const amount = plan.amounts.payoutAmount / winnerIds.length;
+      const payout = {
+        auctionId,
+        groupId: group.id,
+        groupName: group.groupName,
+        chitMonth: plan.chitMonth,
+        clientId,
+        clientName: plan.winnerNames[index] || "",
+        amount,
+        status: "Paid",
+        payoutDate: auctionDate,
+        method: null,
+        referenceNumber: "",
+        adjustments: [],
+        netAmount: amount,
+        historicalImport: true,
+        createdAt: now,
+        updatedAt: now,
+      };
+      batch.set(payoutRef, payout);
+      writeAuditEntry(batch, userId, "create", payoutRef, null, payout);
+      operationCount += 2;
+    });
+
+    for (const payment of plan.payments) {
+      // A member takes up to four operations: payment, log and their audit entries
+      if (operationCount + 4 > 500) {
+        await batch.commit();
+        batch = writeBatch(db); // Create new batch
+        operationCount = 0;
+      }
+
+      const { member, amountExpected, amountPaid } = payment;
+      const paymentId = `${auctionId}_${member.id}`;
+      const pendingAmount = Math.max(0, Math.round((amountExpected - amountPaid) * 100) / 100);
+      const paymentRef = doc(db, getSharedCollection("payments"), paymentId);
+      const paymentData = {
+        auctionId,
+        clientId: member.clientId,
+        clientName: member.clientName,
+        groupId: group.id,
+        groupName: group.groupName,
+        chitMonth: plan.chitMonth,
+        amountExpected,
+        amountPaid,
+        pendingAmount,
+        paymentDueDate,
+        status: pendingAmount === 0 ? "Paid" : amountPaid > 0 ? "Partial" : "Pending",
+        createdAt: now,
+        updatedAt: now,
+      };
+      batch.set(paymentRef, paymentData);
+      writeAuditEntry(batch, userId, "create", paymentRef, null, paymentData);
+      operationCount += 2;
+      result.paymentsCreated++;
+
+      if (amountPaid > 0) {
+        // Deterministic ID so the book entry is logged once per payment
+        const logRef = doc(db, getSharedCollection("paymentLogs"), `${paymentId}_book`);
+        const log = {
+          paymentId,
+          clientId: member.clientId,
+          clientName: member.clientName,
+          groupName: group.groupName,
+          chitMonth: plan.chitMonth,
+          amountPaid,
+          paymentDate: paymentDueDate,
+          paymentMethod,
+          collectedBy: userId,
+          collectorName: "",
+          historicalImport: true,
+          createdAt: now,
+        };
+        batch.set(logRef, log);
+        writeAuditEntry(batch, userId, "create", logRef, null, log);
+        operationCount += 2;
+        result.paymentLogsCreated++;
+      }
+    }
+    await batch.commit();
+
+    await syncAuctionDividends(userId, auctionId);
+    await updateWithAudit(userId, auctionRef, {
+      creationStatus: "Complete",
+      updatedAt: Timestamp.now(),
+    });
+    result.auctionsCreated++;
+  }
+
+  return result;
+};
+
+// Backup
+/**
+ * Reads every collection of the active branch into a versioned backup archive.
+ * Timestamps are tagged so a restore writes them back as Timestamps.
+ */
+export const createBackup = async (
+  userId: string,
+  createdBy: string,
+  branch: { id: string; name: string }
+): Promise<BackupArchive> => {
+  const snapshots = await Promise.all(
+    BACKUP_COLLECTIONS.map((name) => getDocs(collection(db, getSharedCollection(name))))
+  );
+  const collections = {} as BackupArchive["collections"];
+  BACKUP_COLLECTIONS.forEach((name, index) => {
+    collections[name] = snapshots[index].docs.map((docSnap) => ({
+      id: docSnap.id,
+      data: encodeBackupValue(docSnap.data()) as Record<string, unknown>,
+    }));
+  });
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    createdBy,
+    projectId: db.app.options.projectId || "",
+    branch,
+    collections,
+  };
+};
+
+// IDs in the archive that already exist in the active branch, per collection
+export const findBackupCollisions = async (
+  userId: string,
+  archive: BackupArchive
+): Promise<Partial<Record<BackupCollection, string[]>>> => {
+  const snapshots = await Promise.all(
+    BACKUP_COLLECTIONS.map((name) => getDocs(collection(db, getSharedCollection(name))))
+  );
+  const collisions: Partial<Record<BackupCollection, string[]>> = {};
+  BACKUP_COLLECTIONS.forEach((name, index) => {
+    const existingIds = new Set(snapshots[index].docs.map((docSnap) => docSnap.id));
+    const ids = archive.collections[name].map((document) => document.id).filter((id) => existingIds.has(id));
+    if (ids.length > 0) collisions[name] = ids;
   });
+  return collisions;
+};
+
+/**
+ * Writes a validated archive (see validateBackupArchive) back into the active
+ * branch with the original document IDs, with an audit entry per document.
+ * Batches are sized to Firestore's write and rules lookup limits; payment logs
+ * go by day and collector, and reversals only after the logs they reverse are
+ * saved, since their rule reads the original. Refuses to run when any ID
+ * already exists, so a restore never overwrites live data; restore into an
+ * empty branch or the emulator.
+ */
+export const restoreBackup = async (userId: string, archive: BackupArchive): Promise<number> => {
+  const collisions = await findBackupCollisions(userId, archive);
+  const collisionCount = Object.values(collisions).reduce((sum, ids) => sum + ids.length, 0);
+  if (collisionCount > 0) {
+    throw new Error(`${collisionCount} document(s) in the backup already exist. Restore into an empty branch.`);
+  }
+
+  const batches = createBatchQueue();
+  let restoredCount = 0;
 
-  // Delete payment log
-  batch.delete(logRef);
+  const restore = async (name: BackupCollection, id: string, data: DocumentData, lookups?: string[]) => {
+    const batch = await batches.next(2, lookups);
+    const docRef = doc(db, getSharedCollection(name), id);
+    batch.set(docRef, data);
+    writeAuditEntry(batch, userId, "create", docRef, null, data);
+    restoredCount++;
+  };
 
-  // Commit the batch
+  for (const name of BACKUP_COLLECTIONS) {
+    const documents = archive.collections[name].map((document) => ({
+      id: document.id,
+      data: decodeBackupValue(document.data) as DocumentData,
+    }));
+    if (name !== "paymentLogs") {
+      for (const document of documents) {
+        await restore(name, document.id, document.data);
+      }
+      continue;
+    }
+
+    const dataById = new Map(documents.map((document) => [document.id, document.data]));
+    const logs = documents.map((document) => ({ ...(document.data as PaymentLog), id: document.id }));
+    const logsById = new Map(logs.map((log) => [log.id, log]));
+    const getLookups = (log: PaymentLog) => getDayClosingLookups(log.paymentDate.toDate(), log.collectedBy);
+    for (const log of sortByDayClosing(logs.filter((entry) => !entry.reversalOf))) {
+      await restore(name, log.id, dataById.get(log.id)!, getLookups(log));
+    }
+    await batches.commit();
+    for (const log of sortByDayClosing(logs.filter((entry) => entry.reversalOf))) {
+      const original = logsById.get(log.reversalOf!);
+      await restore(name, log.id, dataById.get(log.id)!, [
+        ...getLookups(log),
+        `paymentLogs/${log.reversalOf}`,
+        ...(original ? getLookups(original) : []),
+      ]);
+    }
+  }
+
+  await batches.commit();
+
+  return restoredCount;
+};
+
+// User Approvals
+// Registration requests live in the top-level userApprovals collection, keyed
+// by uid. Approving, rejecting and role changes go through /api/admin/users,
+// which sets the custom claims with the Admin SDK.
+export const createUserApproval = async (
+  userId: string,
+  data: { email: string; displayName: string; phone: string }
+): Promise<void> => {
+  const approvalRef = doc(db, "userApprovals", userId);
+  const approval = {
+    userId,
+    email: data.email,
+    displayName: data.displayName.trim(),
+    phone: data.phone.trim(),
+    status: "Pending",
+    role: null,
+    reviewedBy: null,
+    reviewedAt: null,
+    rejectionReason: "",
+    createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  };
+  const batch = writeBatch(db);
+  batch.set(approvalRef, approval);
+  writeAuditEntry(batch, userId, "create", approvalRef, null, approval);
+  await batch.commit();
+};
+
+export const getUserApproval = async (userId: string): Promise<UserApproval | null> => {
+  const approvalSnap = await getDoc(doc(db, "userApprovals", userId));
+  return approvalSnap.exists() ? ({ id: approvalSnap.id, ...approvalSnap.data() } as UserApproval) : null;
+};
+
+// Branch records
+// Branch documents live at branches/{branchId}, above the collections they
+// scope. Which staff may use a branch is set in their claims through
+// /api/admin/users.
+export const getBranches = async (): Promise<Branch[]> => {
+  const snapshot = await getDocs(query(collection(db, "branches"), orderBy("name")));
+  return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() } as Branch));
+};
+
+export const createBranch = async (
+  userId: string,
+  data: Omit<Branch, "id" | "createdAt" | "updatedAt">
+): Promise<string> => {
+  const branchRef = doc(collection(db, "branches"));
+  const branch = { ...data, createdAt: Timestamp.now(), updatedAt: Timestamp.now() };
+  const batch = writeBatch(db);
+  batch.set(branchRef, branch);
+  writeAuditEntry(batch, userId, "create", branchRef, null, branch);
   await batch.commit();
+  return branchRef.id;
+};
+
+export const updateBranch = async (
+  userId: string,
+  branchId: string,
+  data: Partial<Omit<Branch, "id" | "createdAt">>
+): Promise<void> =>
+  updateWithAudit(userId, doc(db, "branches", branchId), { ...data, updatedAt: Timestamp.now() });
+
+/**
+ * Head-office totals per branch: clients, running groups, receipts between
+ * `from` and `to` and what is still owed either way. Reads each branch's books
+ * directly, so it needs the head-office claim.
+ */
+export const getBranchSummaries = async (
+  branches: Branch[],
+  range: { from: Date; to: Date }
+): Promise<BranchSummary[]> => {
+  const now = new Date();
+  return Promise.all(
+    branches.map(async (branch) => {
+      const [clients, groups, payments, paymentLogs, payouts] = await Promise.all([
+        getDocs(collection(db, getSharedCollection("clients", branch.id))),
+        getDocs(collection(db, getSharedCollection("groups", branch.id))),
+        getDocs(query(collection(db, getSharedCollection("payments", branch.id)), where("status", "in", ["Pending", "Partial"]))),
+        getDocs(
+          query(
+            collection(db, getSharedCollection("paymentLogs", branch.id)),
+            where("paymentDate", ">=", Timestamp.fromDate(range.from)),
+            where("paymentDate", "<=", Timestamp.fromDate(range.to))
+          )
+        ),
+        getDocs(query(collection(db, getSharedCollection("payouts", branch.id)), where("status", "==", "Pending"))),
+      ]);
+      const pending = payments.docs.map((docSnap) => docSnap.data() as Payment);
+
+      return {
+        branchId: branch.id,
+        branchName: branch.name,
+        clientCount: clients.size,
+        // Groups saved before statuses existed have none and count as active
+        activeGroupCount: groups.docs.filter((docSnap) => getGroupStatus(docSnap.data() as Group) === "Active").length,
+        // Reversals are negative, so the sum is already net of them
+        collected: paymentLogs.docs.reduce((sum, docSnap) => sum + (docSnap.data() as PaymentLog).amountPaid, 0),
+        pendingDues: pending.reduce((sum, payment) => sum + payment.pendingAmount, 0),
+        overdueDues: pending
+          .filter((payment) => payment.paymentDueDate.toDate() < now)
+          .reduce((sum, payment) => sum + payment.pendingAmount, 0),
+        pendingPayouts: payouts.docs.reduce((sum, docSnap) => sum + (docSnap.data() as Payout).amount, 0),
+      };
+    })
+  );
 };
@@ -0,0 +1,487 @@
+import { parse, isValid, format, isFuture } from "date-fns";
+import { calculateAuctionAmounts, generateGroupSchedule, getGroupTenure, getMaxBidAmount, getPrizedChitCounts } from "./utils";
+import type { Auction, Client, Group, GroupMember, GroupScheduleEntry } from "@/types";
+
+/**
+ * Parses CSV text (RFC 4180: quoted fields, doubled quotes, CRLF or LF line
+ * breaks). A leading byte order mark and fully blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+};
+
+// Indian mobile number as 10 digits, or null when it is not one.
+// Accepts spaces, dashes and a +91 / 91 / 0 prefix.
+// Example: "+91 98765-43210" → "9876543210"
+export const normalizePhone = (phone: string): string | null => {
+  let digits = phone.replace(/\D/g, "");
+  if (digits.length === 12 && digits.startsWith("91")) digits = digits.slice(2);
+  if (digits.length === 11 && digits.startsWith("0")) digits = digits.slice(1);
+  return /^[6-9]\d{9}$/.test(digits) ? digits : null;
+};
+
+// Client and membership fields a CSV column can be mapped to
+export const CLIENT_IMPORT_FIELDS = [
+  { key: "name", label: "Client Name", required: true, aliases: ["name", "client", "client name", "member name"] },
+  { key: "phone", label: "Phone", required: true, aliases: ["phone", "mobile", "phone number", "mobile number", "contact"] },
+  { key: "email", label: "Email", required: false, aliases: ["email", "e-mail", "email address"] },
+  { key: "notes", label: "Client Notes", required: false, aliases: ["notes", "client notes", "remarks"] },
+  { key: "groupName", label: "Group", required: false, aliases: ["group", "group name", "chit group"] },
+  { key: "chitCount", label: "Chit Count", required: false, aliases: ["chits", "chit count", "no of chits", "tickets"] },
+  { key: "membershipNotes", label: "Membership Notes", required: false, aliases: ["membership notes"] },
+] as const;
+
+export type ClientImportField = (typeof CLIENT_IMPORT_FIELDS)[number]["key"];
+
+// Column index for each field, -1 when the field is not in the file
+export type ClientImportMapping = Record<ClientImportField, number>;
+
+export const guessClientImportMapping = (headers: string[]): ClientImportMapping => {
+  const normalized = headers.map((header) => header.trim().toLowerCase());
+  const mapping = {} as ClientImportMapping;
+  CLIENT_IMPORT_FIELDS.forEach((field) => {
+    mapping[field.key] = normalized.findIndex((header) =>
+      (field.aliases as readonly string[]).includes(header)
+    );
+  });
+  return mapping;
+};
+
+export type ImportAction = "create" | "update" | "unchanged";
+
+// Dry-run outcome of one CSV row
+export interface ClientImportRow {
+  rowNumber: number; // line in the file, header is line 1
+  values: string[]; // the row as read, for the error report
+  name: string;
+  phone: string; // normalized
+  email: string;
+  notes: string;
+  clientId: string | null; // existing client; null while the client is still to be created
+  clientAction: ImportAction | null; // null when a previous row already handles the client
+  group: Group | null;
+  chitCount: number;
+  membershipNotes: string;
+  membershipId: string | null; // existing membership
+  membershipAction: ImportAction | null; // null when the row has no group
+  errors: string[];
+}
+
+/**
+ * Validates every row of a client/membership CSV against the existing data
+ * and decides what importing it would do, without writing anything.
+ *
+ * Clients are matched by normalized phone: an existing client is updated with
+ * the non-empty name, email and notes from the file. Several rows may share a
+ * phone to put one client in several groups, but must agree on the name.
+ * A row with a group creates or updates (chit count, notes) the membership.
+ */
+export const planClientImport = (params: {
+  rows: string[][]; // data rows, header excluded
+  mapping: ClientImportMapping;
+  clients: Client[];
+  groups: Group[];
+  memberships: GroupMember[];
+}): ClientImportRow[] => {
+  const { mapping } = params;
+  const clientsByPhone = new Map<string, Client>();
+  params.clients.forEach((client) => {
+    const phone = normalizePhone(client.phone);
+    if (phone && !clientsByPhone.has(phone)) clientsByPhone.set(phone, client);
+  });
+  const groupsByName = new Map(params.groups.map((group) => [group.groupName.trim().toLowerCase(), group]));
+
+  // First row seen for each phone, and client/group pairs already planned
+  const rowByPhone = new Map<string, ClientImportRow>();
+  const plannedMemberships = new Map<string, number>();
+
+  return params.rows.map((values, index) => {
+    const get = (field: ClientImportField) =>
+      mapping[field] >= 0 ? (values[mapping[field]] || "").trim() : "";
+    const errors: string[] = [];
+
+    const name = get("name");
+    const rawPhone = get("phone");
+    const phone = normalizePhone(rawPhone);
+    const email = get("email");
+    const groupName = get("groupName");
+    const rawChitCount = get("chitCount");
+
+    if (!name) errors.push("Name is required");
+    if (!rawPhone) {
+      errors.push("Phone is required");
+    } else if (!phone) {
+      errors.push(`Invalid phone number "${rawPhone}"`);
+    }
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      errors.push(`Invalid email "${email}"`);
+    }
+
+    const row: ClientImportRow = {
+      rowNumber: index + 2,
+      values,
+      name,
+      phone: phone || rawPhone,
+      email,
+      notes: get("notes"),
+      clientId: null,
+      clientAction: null,
+      group: null,
+      chitCount: 1,
+      membershipNotes: get("membershipNotes"),
+      membershipId: null,
+      membershipAction: null,
+      errors,
+    };
+
+    // Client: existing (by phone), earlier row of this file, or new
+    if (phone) {
+      const existing = clientsByPhone.get(phone);
+      const earlierRow = rowByPhone.get(phone);
+      if (earlierRow) {
+        if (name && earlierRow.name && name.toLowerCase() !== earlierRow.name.toLowerCase()) {
+          errors.push(`Phone ${phone} is also used for "${earlierRow.name}" in row ${earlierRow.rowNumber}`);
+        }
+        row.clientId = earlierRow.clientId;
+      } else if (existing) {
+        row.clientId = existing.id;
+        const changed =
+          (name && name !== existing.name) ||
+          (email && email !== existing.email) ||
+          (row.notes && row.notes !== existing.notes);
+        row.clientAction = changed ? "update" : "unchanged";
+      } else {
+        row.clientAction = "create";
+      }
+    }
+
+    // Membership
+    if (groupName) {
+      const group = groupsByName.get(groupName.toLowerCase());
+      if (!group) {
+        errors.push(`Group "${groupName}" does not exist`);
+      } else {
+        row.group = group;
+      }
+    }
+    if (rawChitCount) {
+      const chitCount = Number(rawChitCount);
+      if (!Number.isInteger(chitCount) || chitCount < 1) {
+        errors.push(`Chit count must be a whole number of at least 1, got "${rawChitCount}"`);
+      } else {
+        row.chitCount = chitCount;
+      }
+    }
+    if (!groupName && (rawChitCount || row.membershipNotes)) {
+      errors.push("A group is needed for membership details");
+    }
+
+    if (row.group && phone) {
+      const key = `${phone}_${row.group.id}`;
+      const plannedRow = plannedMemberships.get(key);
+      const existing = row.clientId
+        ? params.memberships.find((m) => m.clientId === row.clientId && m.groupId === row.group!.id)
+        : undefined;
+      if (plannedRow) {
+        errors.push(`Client is already added to "${row.group.groupName}" in row ${plannedRow}`);
+      } else if (existing) {
+        row.membershipId = existing.id;
+        const changed =
+          row.chitCount !== existing.chitCount ||
+          (row.membershipNotes && row.membershipNotes !== existing.notes);
+        row.membershipAction = changed ? "update" : "unchanged";
+      } else {
+        row.membershipAction = "create";
+      }
+      if (!plannedRow && errors.length === 0) plannedMemberships.set(key, row.rowNumber);
+    }
+
+    // Only a valid row may introduce a client that later rows build on
+    if (phone && !rowByPhone.has(phone) && errors.length === 0) {
+      rowByPhone.set(phone, row);
+    }
+
+    return row;
+  });
+};
+
+// Historical chit book
+// Groups migrated mid-tenure bring their past months from two sheets:
+// - auctions: one row per month with the winner and the bid (discount)
+// - collections: a member-by-month grid, one row per member and one column per
+//   month, each cell holding what the member paid towards that month
+
+const AUCTION_SHEET_COLUMNS = {
+  month: ["month", "chit month", "installment", "auction month"],
+  winner: ["winner", "winner name", "prized member", "prized by"],
+  bid: ["bid", "bid amount", "discount"],
+} as const;
+
+const MONTH_LABEL_FORMATS = ["MMM yyyy", "MMMM yyyy", "MMM-yy", "MMM-yyyy", "MM/yyyy", "MM-yyyy"];
+
+// Chit month of a sheet label: "2025-04", an installment number ("7") or a
+// month name ("Apr 2025", "Apr-25"). Null when it is not a month of the schedule.
+export const parseChitMonthLabel = (label: string, schedule: GroupScheduleEntry[]): GroupScheduleEntry | null => {
+  const text = label.trim();
+  if (/^\d{1,3}$/.test(text)) {
+    return schedule.find((entry) => entry.installment === Number(text)) || null;
+  }
+  let chitMonth = /^\d{4}-\d{2}$/.test(text) ? text : null;
+  if (!chitMonth) {
+    const date = MONTH_LABEL_FORMATS.map((f) => parse(text, f, new Date())).find(isValid);
+    chitMonth = date ? format(date, "yyyy-MM") : null;
+  }
+  return schedule.find((entry) => entry.chitMonth === chitMonth) || null;
+};
+
+// Amount written in a chit book cell: "₹20,750", "20750.00"; blank or "-" is 0.
+// Null when the cell is not a number.
+export const parseBookAmount = (cell: string): number | null => {
+  const text = cell.replace(/[₹,\s]/g, "").replace(/^(rs\.?|inr)/i, "");
+  if (text === "" || text === "-") return 0;
+  const amount = Number(text);
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
+};
+
+export interface HistoricalPaymentPlan {
+  member: GroupMember;
+  amountExpected: number; // perMemberContribution * chitCount
+  amountPaid: number;
+  difference: number; // amountPaid - amountExpected, rounded to paise
+}
+
+// One past month to import: the auction and a payment for every member
+export interface HistoricalAuctionPlan {
+  chitMonth: string;
+  installment: number;
+  auctionDate: Date;
+  paymentDueDate: Date;
+  winnerClientIds: string[];
+  winnerNames: string[]; // ["Company Bid"] when the company took the month
+  bidAmount: number;
+  amounts: ReturnType<typeof calculateAuctionAmounts>;
+  payments: HistoricalPaymentPlan[];
+  errors: string[]; // the month is not imported when there are any
+}
+
+// Problem with a sheet row that is not tied to an importable month
+export interface HistoricalImportIssue {
+  sheet: "Auctions" | "Collections";
+  rowNumber: number; // line in the file, header is line 1
+  message: string;
+}
+
+/**
+ * Reads a group's auction sheet and collection grid and works out, without
+ * writing anything, the auctions and payments to create.
+ *
+ * Amounts follow calculateAuctionAmounts, exactly as for auctions recorded in
+ * the app. Winners must be members with an unprized chit and bids must be
+ * within the group's ceiling. Months already in the app, or still to come,
+ * are rejected, except a month an earlier import left unfinished, which is
+ * imported again to complete it. Members missing from the grid are taken to have paid nothing.
+ * A payment above the expected amount rejects its month; any other difference
+ * is imported as a partial or pending payment and shows in the mismatches.
+ */
+export const planHistoricalImport = (params: {
+  group: Group;
+  members: GroupMember[];
+  clients: Client[];
+  auctions: Auction[]; // existing auctions of the group
+  auctionRows: string[][]; // auction sheet including its header
+  collectionRows: string[][]; // collection grid including its header
+}): { plans: HistoricalAuctionPlan[]; issues: HistoricalImportIssue[] } => {
+  const { group, members } = params;
+  // Months an interrupted import left "Pending" are written again
+  const unfinished = params.auctions.filter(
+    (auction) => auction.historicalImport && auction.creationStatus === "Pending"
+  );
+  const recorded = params.auctions.filter((auction) => !unfinished.includes(auction));
+  const schedule = generateGroupSchedule(group, recorded);
+  const maxBidAmount = getMaxBidAmount(group);
+  const tenure = getGroupTenure(group);
+  const issues: HistoricalImportIssue[] = [];
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  // Sheets name members by client name or phone
+  const findMember = (label: string): GroupMember | undefined => {
+    const name = label.trim().toLowerCase();
+    const phone = normalizePhone(label);
+    const client = phone ? params.clients.find((c) => normalizePhone(c.phone) === phone) : undefined;
+    return members.find((member) =>
+      client ? member.clientId === client.id : member.clientName.trim().toLowerCase() === name
+    );
+  };
+
+  // Auction sheet
+  const [auctionHeader = [], ...auctionData] = params.auctionRows;
+  const headers = auctionHeader.map((header) => header.trim().toLowerCase());
+  const column = (key: keyof typeof AUCTION_SHEET_COLUMNS) =>
+    headers.findIndex((header) => (AUCTION_SHEET_COLUMNS[key] as readonly string[]).includes(header));
+  const monthColumn = column("month");
+  const winnerColumn = column("winner");
+  const bidColumn = column("bid");
+  if (monthColumn < 0 || winnerColumn < 0 || bidColumn < 0) {
+    issues.push({ sheet: "Auctions", rowNumber: 1, message: "The auction sheet needs Month, Winner and Bid columns" });
+    return { plans: [], issues };
+  }
+
+  const prizedCounts = getPrizedChitCounts(recorded);
+  const plans: HistoricalAuctionPlan[] = [];
+
+  auctionData.forEach((values, index) => {
+    const rowNumber = index + 2;
+    const monthLabel = (values[monthColumn] || "").trim();
+    const entry = parseChitMonthLabel(monthLabel, schedule);
+    if (!entry) {
+      issues.push({ sheet: "Auctions", rowNumber, message: `"${monthLabel}" is not a month of ${group.groupName}` });
+      return;
+    }
+    if (plans.some((plan) => plan.chitMonth === entry.chitMonth)) {
+      issues.push({ sheet: "Auctions", rowNumber, message: `${entry.chitMonth} appears more than once` });
+      return;
+    }
+
+    const errors: string[] = [];
+    if (entry.status === "Done") errors.push("An auction is already recorded for this month");
+    if (isFuture(entry.auctionDate)) errors.push("The auction date is still to come");
+
+    const bidAmount = parseBookAmount(values[bidColumn] || "");
+    if (bidAmount === null) {
+      errors.push(`Invalid bid "${values[bidColumn]}"`);
+    } else if (bidAmount > maxBidAmount) {
+      errors.push(`Bid is above the group's ceiling of ${maxBidAmount}`);
+    }
+
+    const winnerLabels = (values[winnerColumn] || "").split(";").map((label) => label.trim()).filter(Boolean);
+    const isCompanyBid = winnerLabels.length === 1 && winnerLabels[0].toLowerCase() === "company bid";
+    const winners: GroupMember[] = [];
+    if (winnerLabels.length === 0) {
+      errors.push("Winner is required");
+    } else if (!isCompanyBid) {
+      winnerLabels.forEach((label) => {
+        const member = findMember(label);
+        if (!member) {
+          errors.push(`Winner "${label}" is not a member of the group`);
+        } else if ((prizedCounts.get(member.clientId) || 0) >= member.chitCount) {
+          errors.push(`${member.clientName} has no unprized chit left`);
+        } else {
+          winners.push(member);
+          prizedCounts.set(member.clientId, (prizedCounts.get(member.clientId) || 0) + 1);
+        }
+      });
+    }
+
+    const amounts = calculateAuctionAmounts(group.chitValue, bidAmount || 0, group.agentCommissionPercent, tenure);
+    plans.push({
+      chitMonth: entry.chitMonth,
+      installment: entry.installment,
+      auctionDate: entry.auctionDate,
+      paymentDueDate: entry.paymentDueDate,
+      winnerClientIds: winners.map((member) => member.clientId),
+      winnerNames: isCompanyBid ? ["Company Bid"] : winners.map((member) => member.clientName),
+      bidAmount: bidAmount || 0,
+      amounts,
+      payments: members.map((member) => ({
+        member,
+        amountExpected: round(amounts.perMemberContribution * member.chitCount),
+        amountPaid: 0,
+        difference: 0,
+      })),
+      errors,
+    });
+  });
+
+  // Collection grid
+  const [gridHeader = [], ...gridData] = params.collectionRows;
+  const gridMonths = gridHeader.map((label, index) => {
+    if (index === 0 || !label.trim()) return null;
+    const entry = parseChitMonthLabel(label, schedule);
+    const plan = entry && plans.find((p) => p.chitMonth === entry.chitMonth);
+    if (!plan) {
+      issues.push({
+        sheet: "Collections",
+        rowNumber: 1,
+        message: entry
+          ? `Column "${label.trim()}" (${entry.chitMonth}) has no auction in the auction sheet and is skipped`
+          : `Column "${label.trim()}" is not a month of ${group.groupName} and is skipped`,
+      });
+    }
+    return plan || null;
+  });
+
+  const seenMembers = new Set<string>();
+  gridData.forEach((values, index) => {
+    const rowNumber = index + 2;
+    const label = (values[0] || "").trim();
+    const member = findMember(label);
+    if (!member) {
+      issues.push({ sheet: "Collections", rowNumber, message: `"${label}" is not a member of the group` });
+      return;
+    }
+    if (seenMembers.has(member.id)) {
+      issues.push({ sheet: "Collections", rowNumber, message: `${member.clientName} appears more than once` });
+      return;
+    }
+    seenMembers.add(member.id);
+
+    gridMonths.forEach((plan, column) => {
+      if (!plan) return;
+      const payment = plan.payments.find((p) => p.member.id === member.id)!;
+      const amountPaid = parseBookAmount(values[column] || "");
+      if (amountPaid === null) {
+        plan.errors.push(`Invalid amount "${values[column]}" for ${member.clientName}`);
+        return;
+      }
+      payment.amountPaid = amountPaid;
+      if (amountPaid > payment.amountExpected) {
+        plan.errors.push(`${member.clientName} paid ${amountPaid}, more than the expected ${payment.amountExpected}`);
+      }
+    });
+  });
+
+  plans.forEach((plan) =>
+    plan.payments.forEach((payment) => {
+      payment.difference = round(payment.amountPaid - payment.amountExpected);
+    })
+  );
+
+  return { plans: plans.sort((a, b) => a.chitMonth.localeCompare(b.chitMonth)), issues };
+};
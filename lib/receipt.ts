@@ -0,0 +1,142 @@
+import { format } from "date-fns";
+import { formatDate, amountToIndianWords, COMPANY_DETAILS } from "./utils";
+import type { PaymentLog } from "@/types";
+
+// Receipts show paise so the figures match the amount in words
+const formatReceiptAmount = (amount: number): string =>
+  new Intl.NumberFormat("en-IN", {
+    style: "currency",
+    currency: "INR",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+
+// For text from the database written into printed HTML
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const formatChitMonth = (chitMonth: string): string => format(new Date(`${chitMonth}-01`), "MMMM yyyy");
+
+const getPurpose = (log: PaymentLog): string =>
+  log.penaltyChargeId ? "Late payment penalty" : "Chit installment";
+
+/**
+ * Writes a payment receipt into a window opened by the caller and prints it.
+ * The window is opened before any await so popup blockers let it through.
+ * Reprints pass duplicate=true and are watermarked "DUPLICATE".
+ * A bulk payment passes all its logs (see getReceiptLogs) and prints as one
+ * receipt with a line per installment or penalty.
+ */
+export const printReceipt = (
+  printWindow: Window,
+  logs: PaymentLog[],
+  options: { duplicate: boolean }
+): void => {
+  const [log] = logs;
+  const total = Math.round(logs.reduce((sum, entry) => sum + entry.amountPaid, 0) * 100) / 100;
+  const contact = [COMPANY_DETAILS.address, COMPANY_DETAILS.phone && `Phone: ${COMPANY_DETAILS.phone}`]
+    .filter(Boolean)
+    .map((line) => `<p class="contact">${escapeHtml(line as string)}</p>`)
+    .join("");
+
+  const rows: [string, string][] = [
+    ["Received from", log.clientName],
+    ...(logs.length === 1
+      ? ([
+          ["Group", log.groupName],
+          ["Chit month", formatChitMonth(log.chitMonth)],
+          ["Towards", getPurpose(log)],
+        ] as [string, string][])
+      : []),
+    ["Payment method", log.paymentMethod],
+    ["Collected by", log.collectorName || "-"],
+  ];
+  const lines =
+    logs.length > 1
+      ? `
+          <table class="lines">
+            <tr><th>Group</th><th>Chit month</th><th>Towards</th><th class="figure">Amount</th></tr>
+            ${logs
+              .map(
+                (entry) =>
+                  `<tr><td>${escapeHtml(entry.groupName)}</td><td>${formatChitMonth(entry.chitMonth)}</td><td>${getPurpose(entry)}</td><td class="figure">${formatReceiptAmount(entry.amountPaid)}</td></tr>`
+              )
+              .join("")}
+          </table>`
+      : "";
+
+  const printContent = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <title>Receipt ${escapeHtml(log.receiptNumber || "")}</title>
+        <style>
+          body { font-family: Arial, sans-serif; padding: 20px; color: #333; }
+          .receipt { max-width: 640px; margin: 0 auto; border: 2px solid #333; padding: 24px; position: relative; }
+          .header { text-align: center; border-bottom: 2px solid #333; padding-bottom: 12px; margin-bottom: 16px; }
+          .header h1 { margin: 0; font-size: 24px; }
+          .contact { margin: 4px 0 0; font-size: 12px; color: #555; }
+          .title { text-align: center; font-size: 16px; font-weight: bold; letter-spacing: 2px; margin-bottom: 16px; }
+          .meta { display: flex; justify-content: space-between; font-size: 14px; margin-bottom: 16px; }
+          table { width: 100%; border-collapse: collapse; }
+          td { padding: 8px 4px; border-bottom: 1px solid #ddd; font-size: 14px; }
+          td.label { width: 40%; color: #555; }
+          .lines { margin-top: 16px; }
+          .lines th { text-align: left; padding: 8px 4px; border-bottom: 2px solid #333; font-size: 13px; }
+          .lines .figure { text-align: right; white-space: nowrap; }
+          .amount { margin-top: 16px; padding: 12px; background-color: #f2f2f2; }
+          .amount .figures { font-size: 22px; font-weight: bold; }
+          .amount .words { font-size: 13px; margin-top: 4px; font-style: italic; }
+          .signature { margin-top: 48px; text-align: right; font-size: 13px; }
+          .duplicate { position: absolute; top: 40%; left: 0; right: 0; text-align: center; font-size: 72px; font-weight: bold; color: rgba(220, 38, 38, 0.18); transform: rotate(-20deg); pointer-events: none; }
+          .duplicate-tag { color: #dc2626; font-weight: bold; }
+          @media print { body { padding: 0; } }
+        </style>
+      </head>
+      <body>
+        <div class="receipt">
+          ${options.duplicate ? '<div class="duplicate">DUPLICATE</div>' : ""}
+          <div class="header">
+            <h1>${escapeHtml(COMPANY_DETAILS.name)}</h1>
+            ${contact}
+          </div>
+          <div class="title">
+            PAYMENT RECEIPT${options.duplicate ? ' <span class="duplicate-tag">(DUPLICATE)</span>' : ""}
+          </div>
+          <div class="meta">
+            <span><strong>Receipt No:</strong> ${escapeHtml(log.receiptNumber || "-")}</span>
+            <span><strong>Date:</strong> ${formatDate(log.paymentDate)}</span>
+          </div>
+          <table>
+            ${rows
+              .map(
+                ([label, value]) =>
+                  `<tr><td class="label">${label}</td><td>${escapeHtml(value)}</td></tr>`
+              )
+              .join("")}
+          </table>
+          ${lines}
+          <div class="amount">
+            <div class="figures">${formatReceiptAmount(total)}</div>
+            <div class="words">${amountToIndianWords(total)}</div>
+          </div>
+          <div class="signature">
+            <p>Authorised Signatory</p>
+          </div>
+        </div>
+      </body>
+    </html>
+  `;
+
+  printWindow.document.write(printContent);
+  printWindow.document.close();
+  printWindow.focus();
+  setTimeout(() => {
+    printWindow.print();
+    printWindow.close();
+  }, 250);
+};
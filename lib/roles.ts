@@ -0,0 +1,68 @@
+import type { UserRole } from "@/types";
+
+export const USER_ROLES: UserRole[] = ["admin", "manager", "cashier", "collector", "readonly"];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Admin",
+  manager: "Manager",
+  cashier: "Cashier",
+  collector: "Collector",
+  readonly: "Read-only",
+};
+
+// What a role may do in the UI. firestore.rules enforces the same split per
+// collection, so keep the two in step.
+export type Permission =
+  | "manageMasterData" // add and edit clients, groups and memberships, imports
+  | "deleteRecords" // delete clients, groups, memberships and auctions
+  | "manageAuctions" // record auctions and run live auction sessions
+  | "recordPayments" // record payments and bulk payments, print receipts
+  | "managePayouts" // disburse prize payouts
+  | "reversePayments" // post reversals on the rollback page
+  | "waivePenalties"
+  | "closeDay" // count cash and close a collector's or the office's day
+  | "administer"; // audit log, backup and restore
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: [
+    "manageMasterData",
+    "deleteRecords",
+    "manageAuctions",
+    "recordPayments",
+    "managePayouts",
+    "reversePayments",
+    "waivePenalties",
+    "closeDay",
+    "administer",
+  ],
+  manager: [
+    "manageMasterData",
+    "deleteRecords",
+    "manageAuctions",
+    "recordPayments",
+    "managePayouts",
+    "reversePayments",
+    "closeDay",
+  ],
+  cashier: ["recordPayments", "managePayouts", "closeDay"],
+  collector: ["recordPayments"],
+  readonly: [],
+};
+
+// Reads the role from ID token claims; null until an admin approves the user
+export const getRoleFromClaims = (claims: Record<string, unknown>): UserRole | null => {
+  if (claims.admin === true) return "admin";
+  return USER_ROLES.includes(claims.role as UserRole) ? (claims.role as UserRole) : null;
+};
+
+export const hasPermission = (role: UserRole | null, permission: Permission): boolean =>
+  role !== null && ROLE_PERMISSIONS[role].includes(permission);
+
+// Branches a user may open, from the `branches` and `headOffice` claims. Head
+// office (admins always) works in every branch and sees consolidated reports.
+export const getBranchAccessFromClaims = (
+  claims: Record<string, unknown>
+): { branches: string[]; headOffice: boolean } => ({
+  branches: Array.isArray(claims.branches) ? claims.branches.filter((id): id is string => typeof id === "string") : [],
+  headOffice: getRoleFromClaims(claims) === "admin" || claims.headOffice === true,
+});
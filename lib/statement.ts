@@ -0,0 +1,153 @@
+import { format } from "date-fns";
+import { formatCurrency, COMPANY_DETAILS } from "./utils";
+import { exportRows, type ExportFormat } from "./export";
+import { escapeHtml } from "./receipt";
+import type { ClientStatement, StatementEntry } from "@/types";
+
+type StatementRow = Pick<StatementEntry, "groupName" | "chitMonth" | "description" | "reference"> & {
+  date: Date | null;
+  debit: number | null;
+  credit: number | null;
+  balance: number;
+};
+
+// Statement lines framed by the opening and closing balances
+const getStatementRows = (statement: ClientStatement): StatementRow[] => [
+  {
+    date: statement.from,
+    groupName: "",
+    chitMonth: "",
+    description: "Opening balance",
+    reference: "",
+    debit: null,
+    credit: null,
+    balance: statement.openingBalance,
+  },
+  ...statement.entries,
+  {
+    date: statement.to,
+    groupName: "",
+    chitMonth: "",
+    description: "Closing balance",
+    reference: "",
+    debit: statement.totalDebit,
+    credit: statement.totalCredit,
+    balance: statement.closingBalance,
+  },
+];
+
+// Positive balances are owed by the client, negative ones by the company
+export const formatStatementBalance = (balance: number): string =>
+  balance < 0 ? `${formatCurrency(-balance)} Cr` : `${formatCurrency(balance)} Dr`;
+
+const getStatementPeriod = (statement: ClientStatement): string =>
+  `${format(statement.from, "dd MMM yyyy")} to ${format(statement.to, "dd MMM yyyy")}`;
+
+/**
+ * Writes a client's account statement into a window opened by the caller and
+ * opens the print dialog, from which it can be saved as a PDF.
+ */
+export const printClientStatement = (printWindow: Window, statement: ClientStatement): void => {
+  const contact = [COMPANY_DETAILS.address, COMPANY_DETAILS.phone && `Phone: ${COMPANY_DETAILS.phone}`]
+    .filter(Boolean)
+    .map((line) => escapeHtml(line as string))
+    .join(" | ");
+
+  const printContent = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <title>Statement - ${escapeHtml(statement.clientName)}</title>
+        <style>
+          body { font-family: Arial, sans-serif; padding: 20px; color: #333; }
+          .company { text-align: center; border-bottom: 2px solid #333; padding-bottom: 10px; }
+          .company h1 { margin: 0; }
+          .company p { margin: 4px 0 0; font-size: 12px; color: #555; }
+          h2 { margin: 16px 0 4px; }
+          table { width: 100%; border-collapse: collapse; margin-top: 16px; font-size: 12px; }
+          th, td { border: 1px solid #ddd; padding: 6px; text-align: left; }
+          th { background-color: #f2f2f2; font-weight: bold; }
+          .amount { text-align: right; white-space: nowrap; }
+          .total-row { font-weight: bold; background-color: #e3f2fd; }
+          .footer { margin-top: 20px; font-size: 11px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="company">
+          <h1>${escapeHtml(COMPANY_DETAILS.name)}</h1>
+          ${contact ? `<p>${contact}</p>` : ""}
+        </div>
+        <h2>Account Statement</h2>
+        <p><strong>Client:</strong> ${escapeHtml(statement.clientName)}</p>
+        <p><strong>Period:</strong> ${getStatementPeriod(statement)}</p>
+        <table>
+          <thead>
+            <tr>
+              <th>Date</th>
+              <th>Group</th>
+              <th>Month</th>
+              <th>Particulars</th>
+              <th>Reference</th>
+              <th class="amount">Debit</th>
+              <th class="amount">Credit</th>
+              <th class="amount">Balance</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${getStatementRows(statement)
+              .map((row, index, rows) => {
+                const isTotal = index === 0 || index === rows.length - 1;
+                return `
+                  <tr class="${isTotal ? "total-row" : ""}">
+                    <td>${row.date ? format(row.date, "dd MMM yyyy") : ""}</td>
+                    <td>${escapeHtml(row.groupName)}</td>
+                    <td>${escapeHtml(row.chitMonth)}</td>
+                    <td>${escapeHtml(row.description)}</td>
+                    <td>${escapeHtml(row.reference)}</td>
+                    <td class="amount">${row.debit ? formatCurrency(row.debit) : ""}</td>
+                    <td class="amount">${row.credit ? formatCurrency(row.credit) : ""}</td>
+                    <td class="amount">${formatStatementBalance(row.balance)}</td>
+                  </tr>
+                `;
+              })
+              .join("")}
+          </tbody>
+        </table>
+        <div class="footer">
+          <p>Dr: payable by the client. Cr: payable to the client.</p>
+          <p>Generated: ${new Date().toLocaleString()}</p>
+        </div>
+      </body>
+    </html>
+  `;
+
+  printWindow.document.write(printContent);
+  printWindow.document.close();
+  printWindow.focus();
+  setTimeout(() => {
+    printWindow.print();
+    printWindow.close();
+  }, 250);
+};
+
+export const exportClientStatement = (statement: ClientStatement, exportFormat: ExportFormat): void => {
+  exportRows<StatementRow>(exportFormat, {
+    filename: `statement-${statement.clientName.replace(/\s+/g, "-").toLowerCase()}-${format(statement.to, "yyyy-MM-dd")}`,
+    title: "Account Statement",
+    filters: {
+      Client: statement.clientName,
+      Period: getStatementPeriod(statement),
+    },
+    columns: [
+      { header: "Date", value: (row) => row.date },
+      { header: "Group", value: (row) => row.groupName },
+      { header: "Month", value: (row) => row.chitMonth },
+      { header: "Particulars", value: (row) => row.description },
+      { header: "Reference", value: (row) => row.reference },
+      { header: "Debit", value: (row) => row.debit, type: "currency" },
+      { header: "Credit", value: (row) => row.credit, type: "currency" },
+      { header: "Balance", value: (row) => row.balance, type: "currency" },
+    ],
+    rows: getStatementRows(statement),
+  });
+};
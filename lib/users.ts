@@ -0,0 +1,35 @@
+import { sendPasswordResetEmail } from "firebase/auth";
+import { auth } from "./firebase";
+import type { StaffUser, StaffUserAction } from "@/types";
+
+// Client side of app/api/admin/users/route.ts. Requests carry the signed-in
+// admin's ID token; the route checks the admin claim before doing anything.
+const callUsersApi = async <T>(init?: RequestInit): Promise<T> => {
+  if (!auth.currentUser) {
+    throw new Error("User not authenticated");
+  }
+  const token = await auth.currentUser.getIdToken();
+  const response = await fetch("/api/admin/users", {
+    ...init,
+    headers: {
+      ...init?.headers,
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed (${response.status})`);
+  }
+  return body as T;
+};
+
+export const getStaffUsers = async (): Promise<StaffUser[]> =>
+  (await callUsersApi<{ users: StaffUser[] }>()).users;
+
+export const updateStaffUser = async (change: StaffUserAction): Promise<StaffUser> =>
+  (await callUsersApi<{ user: StaffUser }>({ method: "POST", body: JSON.stringify(change) })).user;
+
+// Firebase emails the user a link to choose a new password
+export const sendStaffPasswordReset = (email: string): Promise<void> =>
+  sendPasswordResetEmail(auth, email);
@@ -1,5 +1,24 @@
-import { format, parseISO, startOfMonth, endOfMonth, isPast } from "date-fns";
+import { format, parseISO, startOfMonth, endOfMonth, isPast, addMonths, addDays, differenceInMonths } from "date-fns";
 import { Timestamp } from "firebase/firestore";
+import type {
+  AuditLogEntry,
+  Auction,
+  AuctionBid,
+  AuctionLotDraw,
+  BiddingEligibility,
+  ClientStatement,
+  DayClosing,
+  Group,
+  GroupMember,
+  GroupScheduleEntry,
+  GroupStatus,
+  Payment,
+  PaymentLog,
+  Payout,
+  PenaltyCharge,
+  PenaltyRule,
+  StatementEntry,
+} from "@/types";
 
 export const formatDate = (timestamp: Timestamp | Date | string): string => {
   let date: Date;
@@ -25,6 +44,13 @@ export const formatDateTime = (timestamp: Timestamp | Date | string): string =>
   return format(date, "dd MMM yyyy HH:mm");
 };
 
+// Company details printed on receipts and statements
+export const COMPANY_DETAILS = {
+  name: process.env.NEXT_PUBLIC_COMPANY_NAME || "ChitBook Pro",
+  address: process.env.NEXT_PUBLIC_COMPANY_ADDRESS || "",
+  phone: process.env.NEXT_PUBLIC_COMPANY_PHONE || "",
+};
+
 export const formatCurrency = (amount: number): string => {
   return new Intl.NumberFormat("en-IN", {
     style: "currency",
@@ -65,23 +91,34 @@ export const getCurrentMonth = (): string => {
   return format(new Date(), "yyyy-MM");
 };
 
+// Default tenure for groups created before tenure was configurable per group
+export const DEFAULT_TENURE_MONTHS = 20;
+
+// Contribution divisor for a group: its tenure, or the legacy default of 20
+export const getGroupTenure = (group: { tenureMonths?: number }): number => {
+  return group.tenureMonths && group.tenureMonths > 0
+    ? group.tenureMonths
+    : DEFAULT_TENURE_MONTHS;
+};
+
 // Calculate auction amounts
-// Auction calculation update: perMemberContribution is calculated by dividing totalCollectionAmount 
-// by a static value of 20, regardless of the actual number of members in the group.
-// Formula: perMemberContribution = (payoutAmount + agentCommission) / 20
-// Example: If chitValue=500000, bidAmount=100000, commission=3%:
+// perMemberContribution is calculated by dividing totalCollectionAmount by the
+// group's tenure (number of monthly installments), e.g. 20, 25 or 40.
+// Formula: perMemberContribution = (payoutAmount + agentCommission) / tenureMonths
+// Example: If chitValue=500000, bidAmount=100000, commission=3%, tenure=20:
 //   payoutAmount = 400000, agentCommission = 15000, totalCollectionAmount = 415000
 //   perMemberContribution = 415000 / 20 = 20750
 export const calculateAuctionAmounts = (
   chitValue: number,
   bidAmount: number,
   agentCommissionPercent: number,
-  memberCount: number
+  tenureMonths: number
 ) => {
+  const divisor = tenureMonths > 0 ? tenureMonths : DEFAULT_TENURE_MONTHS;
   const payoutAmount = chitValue - bidAmount;
   const agentCommission = (chitValue * agentCommissionPercent) / 100;
   const totalCollectionAmount = payoutAmount + agentCommission;
-  const perMemberContribution = totalCollectionAmount / 20; // Divide by static 20, not based on member count
+  const perMemberContribution = totalCollectionAmount / divisor;
 
   return {
     payoutAmount,
@@ -91,6 +128,663 @@ export const calculateAuctionAmounts = (
   };
 };
 
+// Groups created before lifecycle states existed are treated as running
+export const getGroupStatus = (group: { status?: GroupStatus }): GroupStatus => {
+  return group.status || "Active";
+};
+
+// Allowed lifecycle transitions: Forming → Active → Completed → Closed
+export const GROUP_STATUS_TRANSITIONS: Record<GroupStatus, GroupStatus[]> = {
+  Forming: ["Active"],
+  Active: ["Completed"],
+  Completed: ["Closed"],
+  Closed: [],
+};
+
+// Days between an auction and its payment due date
+export const PAYMENT_DUE_DAYS = 5;
+
+// Month-by-month schedule of a group from its start date and tenure.
+// Auctions fall on the start date's day of month (clamped to the month's last day),
+// with payment due PAYMENT_DUE_DAYS later. A month is "Done" when an auction exists
+// for it, "Missed" when its auction date has passed without one, else "Upcoming".
+export const generateGroupSchedule = (
+  group: { startDate: Timestamp; tenureMonths?: number },
+  auctions: Pick<Auction, "id" | "chitMonth">[]
+): GroupScheduleEntry[] => {
+  const startDate = group.startDate.toDate();
+  const auctionByMonth = new Map(auctions.map((auction) => [auction.chitMonth, auction]));
+  const schedule: GroupScheduleEntry[] = [];
+
+  for (let i = 0; i < getGroupTenure(group); i++) {
+    const auctionDate = addMonths(startDate, i);
+    const chitMonth = format(auctionDate, "yyyy-MM");
+    const auction = auctionByMonth.get(chitMonth);
+
+    schedule.push({
+      installment: i + 1,
+      chitMonth,
+      auctionDate,
+      paymentDueDate: addDays(auctionDate, PAYMENT_DUE_DAYS),
+      status: auction ? "Done" : isPast(auctionDate) ? "Missed" : "Upcoming",
+      auctionId: auction?.id,
+    });
+  }
+
+  return schedule;
+};
+
+// Last auction date of a group's tenure
+export const getGroupEndDate = (group: { startDate: Timestamp; tenureMonths?: number }): Date => {
+  return addMonths(group.startDate.toDate(), getGroupTenure(group) - 1);
+};
+
+// Winner client IDs of an auction (older auctions store a single ID)
+export const getWinnerClientIds = (auction: Pick<Auction, "winnerClientId">): string[] => {
+  if (Array.isArray(auction.winnerClientId)) return auction.winnerClientId;
+  return auction.winnerClientId ? [auction.winnerClientId] : [];
+};
+
+// Number of chits already prized per client, from a group's auction history.
+// Each win prizes one chit of the winning membership.
+export const getPrizedChitCounts = (
+  auctions: Pick<Auction, "id" | "winnerClientId">[],
+  excludeAuctionId?: string
+): Map<string, number> => {
+  const counts = new Map<string, number>();
+  auctions.forEach((auction) => {
+    if (auction.id === excludeAuctionId) return;
+    getWinnerClientIds(auction).forEach((clientId) => {
+      counts.set(clientId, (counts.get(clientId) || 0) + 1);
+    });
+  });
+  return counts;
+};
+
+// Which members of a group may win an auction.
+// A member needs at least one unprized chit and, unless the group allows it,
+// no overdue pending payment in the group. The auction being edited (if any)
+// is left out of both the prize history and the arrears check.
+export const getBiddingEligibility = (
+  group: Pick<Group, "allowBiddingWithArrears">,
+  members: GroupMember[],
+  auctions: Pick<Auction, "id" | "winnerClientId">[],
+  payments: Payment[],
+  editingAuctionId?: string
+): BiddingEligibility[] => {
+  const prizedCounts = getPrizedChitCounts(auctions, editingAuctionId);
+
+  return members.map((member) => {
+    const prizedChitCount = prizedCounts.get(member.clientId) || 0;
+    const unprizedChitCount = Math.max(0, member.chitCount - prizedChitCount);
+    const hasArrears = payments.some(
+      (payment) =>
+        payment.clientId === member.clientId &&
+        payment.auctionId !== editingAuctionId &&
+        payment.pendingAmount > 0 &&
+        isOverdue(payment.paymentDueDate)
+    );
+
+    let reason: string | undefined;
+    if (unprizedChitCount <= 0) {
+      reason = `All ${member.chitCount} chit(s) already prized`;
+    } else if (hasArrears && !group.allowBiddingWithArrears) {
+      reason = "Has overdue payments";
+    }
+
+    return {
+      member,
+      prizedChitCount,
+      unprizedChitCount,
+      hasArrears,
+      eligible: !reason,
+      reason,
+    };
+  });
+};
+
+// Validates the winners of an auction against the group's rules.
+// Returns a list of error messages; empty when the auction is valid.
+export const validateAuctionWinners = (params: {
+  group: Group;
+  members: GroupMember[];
+  auctions: Auction[];
+  payments: Payment[];
+  chitMonth: string;
+  winnerClientIds: string[];
+  isCompanyBid: boolean;
+  editingAuctionId?: string;
+}): string[] => {
+  const { group, chitMonth, winnerClientIds, isCompanyBid, editingAuctionId } = params;
+  const errors: string[] = [];
+
+  if (isCompanyBid) {
+    if (!group.companyBidInstallment) {
+      errors.push(`${group.groupName} has no Company Bid month. Set one on the group to record a Company Bid.`);
+      return errors;
+    }
+    const entry = generateGroupSchedule(group, []).find((e) => e.chitMonth === chitMonth);
+    if (!entry || entry.installment !== group.companyBidInstallment) {
+      errors.push(
+        `Company Bid is only allowed in month ${group.companyBidInstallment} of ${group.groupName}`
+      );
+    }
+    return errors;
+  }
+
+  if (winnerClientIds.length === 0) {
+    errors.push("Please select at least one winner or mark as Company Bid");
+    return errors;
+  }
+
+  const eligibility = getBiddingEligibility(
+    group,
+    params.members,
+    params.auctions.filter((auction) => auction.groupId === group.id),
+    params.payments.filter((payment) => payment.groupId === group.id),
+    editingAuctionId
+  );
+
+  winnerClientIds.forEach((clientId) => {
+    const entry = eligibility.find((e) => e.member.clientId === clientId);
+    if (!entry) {
+      errors.push("Selected winner is not a member of this group");
+    } else if (!entry.eligible) {
+      errors.push(`${entry.member.clientName} cannot win: ${entry.reason}`);
+    }
+  });
+
+  return errors;
+};
+
+// Dividend per chit for an auction
+// The bid discount is shared by all chits over the tenure: every chit's contribution
+// is lowered by bidAmount / tenureMonths compared with a zero-discount auction.
+// Example: bidAmount=100000, tenure=20 → dividendPerChit = 5000
+export const calculateDividendPerChit = (bidAmount: number, tenureMonths: number): number => {
+  const divisor = tenureMonths > 0 ? tenureMonths : DEFAULT_TENURE_MONTHS;
+  return bidAmount / divisor;
+};
+
+// Statutory ceiling on the discount (Chit Funds Act), used when a group has no limit of its own
+export const DEFAULT_MAX_DISCOUNT_PERCENT = 40;
+
+export const getGroupMaxDiscountPercent = (group: { maxDiscountPercent?: number }): number => {
+  return group.maxDiscountPercent && group.maxDiscountPercent > 0
+    ? group.maxDiscountPercent
+    : DEFAULT_MAX_DISCOUNT_PERCENT;
+};
+
+// Highest discount (bid amount) allowed in an auction of the group
+// Example: chitValue=500000, maxDiscountPercent=40 → 200000
+export const getMaxBidAmount = (group: { chitValue: number; maxDiscountPercent?: number }): number => {
+  return (group.chitValue * getGroupMaxDiscountPercent(group)) / 100;
+};
+
+// Works out the winner of an auction session from its bids.
+// The highest discount wins; between equal bids the earliest one wins, except
+// when the tie is at the ceiling - nobody can outbid it there, so the tied
+// members go to a lot draw (needsLotDraw) and winningBid is null.
+export const resolveAuctionBids = (
+  bids: AuctionBid[],
+  maxBidAmount: number
+): { winningBid: AuctionBid | null; tiedBids: AuctionBid[]; needsLotDraw: boolean } => {
+  if (bids.length === 0) {
+    return { winningBid: null, tiedBids: [], needsLotDraw: false };
+  }
+
+  const highestAmount = Math.max(...bids.map((bid) => bid.amount));
+  const leadingBids = bids
+    .filter((bid) => bid.amount === highestAmount)
+    .sort((a, b) => a.bidTime.toMillis() - b.bidTime.toMillis());
+
+  // One entry per member: their first bid at the highest amount
+  const tiedBids = leadingBids.filter(
+    (bid, index) => leadingBids.findIndex((other) => other.clientId === bid.clientId) === index
+  );
+
+  if (tiedBids.length > 1 && highestAmount >= maxBidAmount) {
+    return { winningBid: null, tiedBids, needsLotDraw: true };
+  }
+  return { winningBid: leadingBids[0], tiedBids, needsLotDraw: false };
+};
+
+// Draws a lot between members tied at the ceiling.
+// Candidates are sorted by clientId and the drawn index is randomValue modulo the
+// number of candidates, so anyone can check the result from the stored record.
+export const drawLot = (tiedBids: AuctionBid[], drawnBy: string): AuctionLotDraw => {
+  const candidates = [...tiedBids].sort((a, b) => a.clientId.localeCompare(b.clientId));
+  const values = new Uint32Array(1);
+  crypto.getRandomValues(values);
+  const drawnIndex = values[0] % candidates.length;
+
+  return {
+    candidateClientIds: candidates.map((bid) => bid.clientId),
+    candidateNames: candidates.map((bid) => bid.clientName),
+    randomValue: values[0],
+    drawnIndex,
+    drawnClientId: candidates[drawnIndex].clientId,
+    drawnAt: Timestamp.now(),
+    drawnBy,
+  };
+};
+
+// Checks an auction's bids against the group's discount ceiling and that the
+// saved winner and bid amount are the ones the bids produce.
+// Returns a list of error messages; empty when the bids are valid.
+export const validateAuctionBids = (params: {
+  group: Group;
+  bids: AuctionBid[];
+  bidAmount: number;
+  winnerClientIds: string[];
+  isCompanyBid: boolean;
+  lotDraw?: AuctionLotDraw | null;
+}): string[] => {
+  const { group, bids, bidAmount, winnerClientIds, isCompanyBid, lotDraw } = params;
+  const errors: string[] = [];
+  const maxBidAmount = getMaxBidAmount(group);
+  const ceilingLabel = `${formatCurrency(maxBidAmount)} (${getGroupMaxDiscountPercent(group)}% of chit value)`;
+
+  if (bidAmount < 0) {
+    errors.push("Discount cannot be negative");
+  } else if (bidAmount > maxBidAmount) {
+    errors.push(`Discount cannot exceed ${ceilingLabel}`);
+  }
+
+  if (bids.length === 0) {
+    return errors;
+  }
+  if (isCompanyBid) {
+    errors.push("A Company Bid auction cannot have member bids");
+    return errors;
+  }
+
+  bids.forEach((bid) => {
+    if (!(bid.amount > 0)) {
+      errors.push(`Bid by ${bid.clientName} must be greater than zero`);
+    } else if (bid.amount > maxBidAmount) {
+      errors.push(`Bid by ${bid.clientName} exceeds the ceiling of ${ceilingLabel}`);
+    }
+  });
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  const { winningBid, tiedBids, needsLotDraw } = resolveAuctionBids(bids, maxBidAmount);
+  let winnerClientId = winningBid?.clientId;
+
+  if (needsLotDraw) {
+    const tiedClientIds = tiedBids.map((bid) => bid.clientId).sort();
+    const drawIsValid =
+      !!lotDraw &&
+      lotDraw.candidateClientIds.join(",") === tiedClientIds.join(",") &&
+      lotDraw.drawnIndex === lotDraw.randomValue % lotDraw.candidateClientIds.length &&
+      lotDraw.candidateClientIds[lotDraw.drawnIndex] === lotDraw.drawnClientId;
+    if (!drawIsValid) {
+      errors.push("Bids are tied at the ceiling - draw a lot to decide the winner");
+      return errors;
+    }
+    winnerClientId = lotDraw!.drawnClientId;
+  }
+
+  if (winnerClientIds.length !== 1 || winnerClientIds[0] !== winnerClientId) {
+    errors.push("Winner must be the member with the winning bid");
+  }
+  if (bidAmount !== tiedBids[0].amount) {
+    errors.push("Discount must equal the winning bid");
+  }
+
+  return errors;
+};
+
+// Penalty rule of a group, or null when the group charges no penalty
+export const getGroupPenaltyRule = (group: { penaltyRule?: PenaltyRule | null }): PenaltyRule | null => {
+  return group.penaltyRule && group.penaltyRule.type !== "None" ? group.penaltyRule : null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Penalty to add to a payment's charge as of `asOf`, or null when nothing is due yet.
+// Interest accrues on the current pendingAmount from the later of the end of the
+// grace period and the charge's accruedThrough date, in whole days or months only.
+// Example: pendingAmount=20000, DailyInterest 0.1%, 10 days past grace → 200
+export const calculatePenaltyAccrual = (
+  rule: PenaltyRule,
+  payment: Pick<Payment, "paymentDueDate" | "pendingAmount">,
+  charge: Pick<PenaltyCharge, "accruedThrough"> | null,
+  asOf: Date = new Date()
+): { amount: number; accruedThrough: Date } | null => {
+  const penaltyStart = addDays(payment.paymentDueDate.toDate(), rule.graceDays || 0);
+  if (payment.pendingAmount <= 0 || asOf <= penaltyStart) {
+    return null;
+  }
+
+  if (rule.type === "Flat") {
+    return charge || !(rule.flatAmount > 0) ? null : { amount: rule.flatAmount, accruedThrough: asOf };
+  }
+
+  const accruedThrough = charge?.accruedThrough.toDate();
+  const from = accruedThrough && accruedThrough > penaltyStart ? accruedThrough : penaltyStart;
+  const periods =
+    rule.type === "DailyInterest"
+      ? Math.floor((asOf.getTime() - from.getTime()) / DAY_MS)
+      : differenceInMonths(asOf, from);
+  if (periods < 1 || !(rule.ratePercent > 0)) {
+    return null;
+  }
+
+  const amount = Math.round(payment.pendingAmount * (rule.ratePercent / 100) * periods * 100) / 100;
+  return {
+    amount,
+    accruedThrough: rule.type === "DailyInterest" ? addDays(from, periods) : addMonths(from, periods),
+  };
+};
+
+// Maps the ID of every reversed payment log to the reversal entry that cancels it
+export const getPaymentLogReversals = (logs: PaymentLog[]): Map<string, PaymentLog> =>
+  new Map(logs.filter((log) => log.reversalOf).map((log) => [log.reversalOf!, log]));
+
+// Same-day lines are listed demands first, then what settles them
+const STATEMENT_TYPE_ORDER: StatementEntry["type"][] = [
+  "Installment",
+  "Penalty",
+  "Prize",
+  "Payout",
+  "Receipt",
+  "Reversal",
+  "Penalty Waiver",
+];
+
+// Builds a client's account statement for [from, to] across all memberships.
+// Lines before `from` make up the opening balance. Installments are demanded
+// on their due date and penalties on the date they were accrued through; a
+// prize is credited on the auction date and debited again when paid out, so
+// payout deductions show up only as receipts.
+export const buildClientStatement = (params: {
+  clientId: string;
+  clientName: string;
+  from: Date;
+  to: Date;
+  payments: Payment[];
+  paymentLogs: PaymentLog[];
+  penaltyCharges: PenaltyCharge[];
+  payouts: Payout[];
+  auctions: Auction[];
+}): ClientStatement => {
+  const { clientId, clientName, from, to } = params;
+  const lines: Omit<StatementEntry, "balance">[] = [];
+
+  params.payments
+    .filter((p) => p.clientId === clientId)
+    .forEach((p) => {
+      lines.push({
+        date: p.paymentDueDate.toDate(),
+        type: "Installment",
+        groupName: p.groupName,
+        chitMonth: p.chitMonth,
+        description: "Installment demanded",
+        reference: "",
+        debit: p.amountExpected,
+        credit: 0,
+      });
+    });
+
+  params.paymentLogs
+    .filter((log) => log.clientId === clientId)
+    .forEach((log) => {
+      // A reversal takes back what its receipt credited
+      if (log.reversalOf) {
+        const original = params.paymentLogs.find((l) => l.id === log.reversalOf);
+        lines.push({
+          date: log.paymentDate.toDate(),
+          type: "Reversal",
+          groupName: log.groupName,
+          chitMonth: log.chitMonth,
+          description: `Receipt reversed - ${log.reversalReason}`,
+          reference: original?.receiptNumber || "",
+          debit: -log.amountPaid,
+          credit: 0,
+        });
+        return;
+      }
+      lines.push({
+        date: log.paymentDate.toDate(),
+        type: "Receipt",
+        groupName: log.groupName,
+        chitMonth: log.chitMonth,
+        description: log.penaltyChargeId
+          ? `Penalty received (${log.paymentMethod})`
+          : `Payment received (${log.paymentMethod})`,
+        reference: log.receiptNumber || "",
+        debit: 0,
+        credit: log.amountPaid,
+      });
+    });
+
+  params.penaltyCharges
+    .filter((charge) => charge.clientId === clientId)
+    .forEach((charge) => {
+      lines.push({
+        date: charge.accruedThrough.toDate(),
+        type: "Penalty",
+        groupName: charge.groupName,
+        chitMonth: charge.chitMonth,
+        description: "Late payment penalty",
+        reference: "",
+        debit: charge.amount,
+        credit: 0,
+      });
+      if (charge.waivedAmount > 0) {
+        lines.push({
+          date: (charge.waivedAt || charge.updatedAt).toDate(),
+          type: "Penalty Waiver",
+          groupName: charge.groupName,
+          chitMonth: charge.chitMonth,
+          description: charge.waivedReason ? `Penalty waived - ${charge.waivedReason}` : "Penalty waived",
+          reference: "",
+          debit: 0,
+          credit: charge.waivedAmount,
+        });
+      }
+    });
+
+  params.payouts
+    .filter((payout) => payout.clientId === clientId)
+    .forEach((payout) => {
+      const auction = params.auctions.find((a) => a.id === payout.auctionId);
+      lines.push({
+        date: (auction?.auctionDate || payout.createdAt).toDate(),
+        type: "Prize",
+        groupName: payout.groupName,
+        chitMonth: payout.chitMonth,
+        description: "Prize amount won",
+        reference: "",
+        debit: 0,
+        credit: payout.amount,
+      });
+      if (payout.status === "Paid") {
+        lines.push({
+          date: (payout.payoutDate || payout.updatedAt).toDate(),
+          type: "Payout",
+          groupName: payout.groupName,
+          chitMonth: payout.chitMonth,
+          description: payout.method ? `Payout disbursed (${payout.method})` : "Payout disbursed",
+          reference: payout.referenceNumber,
+          debit: payout.amount,
+          credit: 0,
+        });
+      }
+    });
+
+  lines.sort(
+    (a, b) =>
+      a.date.getTime() - b.date.getTime() ||
+      STATEMENT_TYPE_ORDER.indexOf(a.type) - STATEMENT_TYPE_ORDER.indexOf(b.type) ||
+      a.groupName.localeCompare(b.groupName)
+  );
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  let openingBalance = 0;
+  let balance = 0;
+  let totalDebit = 0;
+  let totalCredit = 0;
+  const entries: StatementEntry[] = [];
+
+  lines.forEach((line) => {
+    if (line.date < from) {
+      openingBalance = round(openingBalance + line.debit - line.credit);
+      balance = openingBalance;
+      return;
+    }
+    if (line.date > to) return;
+    balance = round(balance + line.debit - line.credit);
+    totalDebit += line.debit;
+    totalCredit += line.credit;
+    entries.push({ ...line, balance });
+  });
+
+  return {
+    clientId,
+    clientName,
+    from,
+    to,
+    openingBalance,
+    entries,
+    totalDebit: round(totalDebit),
+    totalCredit: round(totalCredit),
+    closingBalance: balance,
+  };
+};
+
+// Indian financial year (April to March) a date falls in
+// Example: 15 Feb 2026 → "2025-26", 1 Apr 2026 → "2026-27"
+export const getFinancialYear = (date: Date): string => {
+  const startYear = getFinancialYearStart(date).getFullYear();
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`;
+};
+
+// 1 April of the financial year a date falls in
+export const getFinancialYearStart = (date: Date = new Date()): Date => {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return new Date(startYear, 3, 1);
+};
+
+// Example: ("2025-26", 42) → "RCPT/2025-26/000042"
+export const formatReceiptNumber = (financialYear: string, sequence: number): string => {
+  return `RCPT/${financialYear}/${String(sequence).padStart(6, "0")}`;
+};
+
+// Notes and coins counted at the day-end closing, largest first
+export const CASH_DENOMINATIONS = [500, 200, 100, 50, 20, 10, 5, 2, 1];
+
+// Business days run on Indian Standard Time whatever the device's time zone,
+// because the Firestore rules work out the same day to enforce closings
+const BUSINESS_DAY_OFFSET_MS = 330 * 60 * 1000; // UTC+5:30
+
+// Business day a receipt belongs to, e.g. "2026-10-19"
+export const getDayKey = (date: Date): string =>
+  new Date(date.getTime() + BUSINESS_DAY_OFFSET_MS).toISOString().slice(0, 10);
+
+// First and last instant of a business day ("YYYY-MM-DD")
+export const getDayRange = (date: string): { start: Date; end: Date } => {
+  const start = new Date(Date.parse(`${date}T00:00:00Z`) - BUSINESS_DAY_OFFSET_MS);
+  return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000 - 1) };
+};
+
+// Closing document ID; the office closing covers every collector of the day
+export const getDayClosingId = (date: string, collectorId: string | null): string =>
+  `${date}_${collectorId ?? "office"}`;
+
+export const getCountedCash = (denominations: Record<string, number>): number =>
+  Object.entries(denominations).reduce((sum, [value, count]) => sum + Number(value) * (count || 0), 0);
+
+// Closing that locks a receipt: its collector's or the office's closing of its day
+export const findDayClosing = (
+  closings: DayClosing[],
+  log: Pick<PaymentLog, "paymentDate" | "collectedBy">
+): DayClosing | undefined => {
+  const date = getDayKey(log.paymentDate.toDate());
+  return closings.find(
+    (closing) => closing.date === date && (closing.scope === "office" || closing.collectorId === log.collectedBy)
+  );
+};
+
+/**
+ * Totals the receipts of a day by payment method. Reversal entries are
+ * negative, so a receipt reversed the same day nets out and one reversed later
+ * is paid back out of that day's cash.
+ */
+export const summarizeDayReceipts = (
+  logs: PaymentLog[]
+): { receiptCount: number; cashTotal: number; onlineTotal: number; adjustedTotal: number } => ({
+  // The lines of a bulk payment share one receipt
+  receiptCount: new Set(logs.filter((log) => !log.reversalOf).map((log) => log.receiptNumber || log.id)).size,
+  ...logs.reduce(
+    (totals, log) => ({
+      cashTotal: totals.cashTotal + (log.paymentMethod === "Cash" ? log.amountPaid : 0),
+      onlineTotal: totals.onlineTotal + (log.paymentMethod === "Online" ? log.amountPaid : 0),
+      adjustedTotal: totals.adjustedTotal + (log.paymentMethod === "Adjusted from payout" ? log.amountPaid : 0),
+    }),
+    { cashTotal: 0, onlineTotal: 0, adjustedTotal: 0 }
+  ),
+});
+
+const ONES = [
+  "", "One", "Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine", "Ten",
+  "Eleven", "Twelve", "Thirteen", "Fourteen", "Fifteen", "Sixteen", "Seventeen", "Eighteen", "Nineteen",
+];
+const TENS = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"];
+
+// Words for 0-999
+const hundredsToWords = (n: number): string => {
+  const words: string[] = [];
+  if (n >= 100) {
+    words.push(`${ONES[Math.floor(n / 100)]} Hundred`);
+    n %= 100;
+  }
+  if (n >= 20) {
+    words.push(n % 10 ? `${TENS[Math.floor(n / 10)]} ${ONES[n % 10]}` : TENS[Math.floor(n / 10)]);
+  } else if (n > 0) {
+    words.push(ONES[n]);
+  }
+  return words.join(" ");
+};
+
+// Whole number in words using the Indian system (thousand, lakh, crore)
+const integerToIndianWords = (n: number): string => {
+  if (n === 0) return "Zero";
+  const parts: string[] = [];
+  const crore = Math.floor(n / 10000000);
+  if (crore > 0) {
+    parts.push(`${integerToIndianWords(crore)} Crore`);
+    n %= 10000000;
+  }
+  const units: [number, string][] = [[100000, "Lakh"], [1000, "Thousand"]];
+  for (const [size, name] of units) {
+    if (n >= size) {
+      parts.push(`${hundredsToWords(Math.floor(n / size))} ${name}`);
+      n %= size;
+    }
+  }
+  if (n > 0) {
+    parts.push(hundredsToWords(n));
+  }
+  return parts.join(" ");
+};
+
+// Amount in words as printed on receipts
+// Example: 1250050.5 → "Rupees Twelve Lakh Fifty Thousand Fifty and Fifty Paise Only"
+export const amountToIndianWords = (amount: number): string => {
+  const paiseTotal = Math.round(Math.abs(amount) * 100);
+  const rupees = Math.floor(paiseTotal / 100);
+  const paise = paiseTotal % 100;
+  let words = `Rupees ${integerToIndianWords(rupees)}`;
+  if (paise > 0) {
+    words += ` and ${hundredsToWords(paise)} Paise`;
+  }
+  return `${words} Only`;
+};
+
 // Generic sort function for arrays
 export const sortArray = <T>(
   array: T[],
@@ -124,4 +818,38 @@ export const sortArray = <T>(
   });
   
   return sorted;
-};
\ No newline at end of file
+};
+
+// Audit value as text: Timestamps as date and time, nested values as JSON
+export const formatAuditValue = (value: unknown): string => {
+  if (value == null) return "";
+  if (value instanceof Timestamp) return formatDateTime(value);
+  if (typeof value === "object") {
+    return JSON.stringify(value, (_key, v) =>
+      v && typeof v === "object" && typeof v.seconds === "number" && typeof v.nanoseconds === "number"
+        ? formatDateTime(new Timestamp(v.seconds, v.nanoseconds))
+        : v
+    );
+  }
+  return String(value);
+};
+
+// Fields an audit entry changed, with their values before and after the write.
+// updatedAt is left out: every update changes it.
+export const getAuditChanges = (
+  entry: Pick<AuditLogEntry, "before" | "after">
+): { field: string; before: string; after: string }[] => {
+  const before = entry.before || {};
+  const after = entry.after || {};
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter((field) => field !== "updatedAt")
+    .sort();
+
+  return fields
+    .map((field) => ({
+      field,
+      before: formatAuditValue(before[field]),
+      after: formatAuditValue(after[field]),
+    }))
+    .filter((change) => change.before !== change.after);
+};
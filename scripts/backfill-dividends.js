@@ -0,0 +1,152 @@
+/**
+ * Migration Script: Build dividend records for existing auctions
+ *
+ * Auctions created before the dividend ledger existed have no records in the
+ * dividends collection. This script writes one record per group member for
+ * every auction, using the same rules as syncAuctionDividends in lib/firestore.ts:
+ *   dividendPerChit = bidAmount / tenureMonths (tenure defaults to 20)
+ *   dividendAmount  = dividendPerChit * chitCount
+ *   isPrized        = member's client won this or an earlier auction of the group
+ *
+ * Record IDs are `${auctionId}_${memberId}`, so running the script again
+ * rewrites the same records instead of duplicating them.
+ *
+ * SETUP:
+ * 1. Install dependencies: npm install firebase-admin
+ * 2. Ensure serviceAccountKey.json exists in scripts/ directory
+ *
+ * USAGE:
+ * node scripts/backfill-dividends.js
+ */
+
+const admin = require('firebase-admin');
+const fs = require('fs');
+const path = require('path');
+
+// Configuration
+const SERVICE_ACCOUNT_PATH = path.join(__dirname, 'serviceAccountKey.json');
+const DEFAULT_TENURE_MONTHS = 20;
+
+// Initialize Firebase Admin SDK
+let db;
+
+function initializeApp() {
+  try {
+    if (!fs.existsSync(SERVICE_ACCOUNT_PATH)) {
+      throw new Error(`Service account file not found: ${SERVICE_ACCOUNT_PATH}`);
+    }
+
+    const serviceAccount = require(SERVICE_ACCOUNT_PATH);
+
+    admin.initializeApp({
+      credential: admin.credential.cert(serviceAccount)
+    });
+
+    db = admin.firestore();
+    console.log('✓ Firebase Admin initialized successfully');
+  } catch (error) {
+    console.error('✗ Error initializing Firebase Admin:', error.message);
+    process.exit(1);
+  }
+}
+
+function toArray(value) {
+  if (Array.isArray(value)) return value;
+  return value ? [value] : [];
+}
+
+/**
+ * Main migration function
+ */
+async function runBackfill() {
+  console.log('🚀 Building dividend records for existing auctions...\n');
+
+  const [groupsSnapshot, membersSnapshot, auctionsSnapshot] = await Promise.all([
+    db.collection('groups').get(),
+    db.collection('groupMembers').get(),
+    db.collection('auctions').get()
+  ]);
+
+  const groups = new Map(groupsSnapshot.docs.map(doc => [doc.id, doc.data()]));
+  const auctions = auctionsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+
+  let written = 0;
+  let skippedAuctions = 0;
+
+  // Firestore batch limit is 500 operations
+  let batch = db.batch();
+  let operationCount = 0;
+
+  for (const auction of auctions) {
+    const group = groups.get(auction.groupId);
+    if (!group) {
+      console.log(`  ⚠️  Skipping auction ${auction.id}: group ${auction.groupId} not found`);
+      skippedAuctions++;
+      continue;
+    }
+
+    const tenure = group.tenureMonths > 0 ? group.tenureMonths : DEFAULT_TENURE_MONTHS;
+    const dividendPerChit = (auction.bidAmount || 0) / tenure;
+
+    const prizedClientIds = new Set();
+    auctions
+      .filter(a => a.groupId === auction.groupId && a.chitMonth <= auction.chitMonth)
+      .forEach(a => toArray(a.winnerClientId).forEach(id => prizedClientIds.add(id)));
+
+    const members = membersSnapshot.docs.filter(doc => doc.data().groupId === auction.groupId);
+    for (const memberDoc of members) {
+      const member = memberDoc.data();
+      if (operationCount >= 500) {
+        await batch.commit();
+        batch = db.batch();
+        operationCount = 0;
+      }
+      const dividendRef = db.collection('dividends').doc(`${auction.id}_${memberDoc.id}`);
+      batch.set(dividendRef, {
+        auctionId: auction.id,
+        groupId: auction.groupId,
+        groupName: auction.groupName,
+        chitMonth: auction.chitMonth,
+        memberId: memberDoc.id,
+        clientId: member.clientId,
+        clientName: member.clientName,
+        chitCount: member.chitCount,
+        dividendPerChit,
+        dividendAmount: dividendPerChit * member.chitCount,
+        isPrized: prizedClientIds.has(member.clientId),
+        createdAt: admin.firestore.Timestamp.now(),
+        updatedAt: admin.firestore.Timestamp.now()
+      });
+      operationCount++;
+      written++;
+    }
+  }
+
+  if (operationCount > 0) {
+    await batch.commit();
+  }
+
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 BACKFILL SUMMARY');
+  console.log('='.repeat(50));
+  console.log(`Auctions processed: ${auctions.length - skippedAuctions}`);
+  console.log(`Auctions skipped: ${skippedAuctions}`);
+  console.log(`Dividend records written: ${written}`);
+}
+
+// Run migration
+if (require.main === module) {
+  initializeApp();
+  runBackfill()
+    .then(() => {
+      console.log('\n✅ Script completed');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('\n❌ Script failed:', error);
+      process.exit(1);
+    });
+}
+
+module.exports = { runBackfill };
@@ -0,0 +1,117 @@
+/**
+ * Migration Script: Backfill tenureMonths on existing groups
+ *
+ * Per member contribution used to be calculated by dividing the total
+ * collection amount by a fixed value of 20. Groups now carry their own
+ * tenure (tenureMonths), which is used as the divisor instead.
+ *
+ * This script sets tenureMonths = 20 on every group that does not have it,
+ * so existing groups keep their current contribution amounts.
+ * Groups that already have a tenure are left untouched.
+ *
+ * SETUP:
+ * 1. Install dependencies: npm install firebase-admin
+ * 2. Ensure serviceAccountKey.json exists in scripts/ directory
+ *
+ * USAGE:
+ * node scripts/backfill-group-tenure.js            # apply changes
+ * node scripts/backfill-group-tenure.js --dry-run  # only report what would change
+ */
+
+const admin = require('firebase-admin');
+const fs = require('fs');
+const path = require('path');
+
+// Configuration
+const SERVICE_ACCOUNT_PATH = path.join(__dirname, 'serviceAccountKey.json');
+const DEFAULT_TENURE_MONTHS = 20;
+const DRY_RUN = process.argv.includes('--dry-run');
+
+// Initialize Firebase Admin SDK
+let db;
+
+function initializeApp() {
+  try {
+    if (!fs.existsSync(SERVICE_ACCOUNT_PATH)) {
+      throw new Error(`Service account file not found: ${SERVICE_ACCOUNT_PATH}`);
+    }
+
+    const serviceAccount = require(SERVICE_ACCOUNT_PATH);
+
+    admin.initializeApp({
+      credential: admin.credential.cert(serviceAccount)
+    });
+
+    db = admin.firestore();
+    console.log('✓ Firebase Admin initialized successfully');
+  } catch (error) {
+    console.error('✗ Error initializing Firebase Admin:', error.message);
+    process.exit(1);
+  }
+}
+
+/**
+ * Main migration function
+ */
+async function runBackfill() {
+  console.log(`🚀 Backfilling group tenure${DRY_RUN ? ' (dry run)' : ''}...\n`);
+
+  const snapshot = await db.collection('groups').get();
+  let updated = 0;
+  let skipped = 0;
+
+  // Firestore batch limit is 500 operations
+  let batch = db.batch();
+  let operationCount = 0;
+
+  for (const doc of snapshot.docs) {
+    const data = doc.data();
+    if (typeof data.tenureMonths === 'number' && data.tenureMonths > 0) {
+      skipped++;
+      continue;
+    }
+
+    console.log(`  - ${data.groupName || doc.id}: tenureMonths → ${DEFAULT_TENURE_MONTHS}`);
+    updated++;
+
+    if (DRY_RUN) continue;
+
+    if (operationCount >= 500) {
+      await batch.commit();
+      batch = db.batch();
+      operationCount = 0;
+    }
+    batch.update(doc.ref, {
+      tenureMonths: DEFAULT_TENURE_MONTHS,
+      updatedAt: admin.firestore.Timestamp.now()
+    });
+    operationCount++;
+  }
+
+  if (!DRY_RUN && operationCount > 0) {
+    await batch.commit();
+  }
+
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 BACKFILL SUMMARY');
+  console.log('='.repeat(50));
+  console.log(`Groups ${DRY_RUN ? 'to update' : 'updated'}: ${updated}`);
+  console.log(`Groups already set: ${skipped}`);
+}
+
+// Run migration
+if (require.main === module) {
+  initializeApp();
+  runBackfill()
+    .then(() => {
+      console.log('\n✅ Script completed');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('\n❌ Script failed:', error);
+      process.exit(1);
+    });
+}
+
+module.exports = { runBackfill };
@@ -0,0 +1,208 @@
+/**
+ * Migration Script: Move the shared collections into a branch
+ *
+ * This script migrates data from:
+ *   clients → branches/{branchId}/clients
+ *   groups → branches/{branchId}/groups
+ *   ... and the other collections listed below
+ *
+ * It creates the branch document if it does not exist yet and adds the branch
+ * to the `branches` claim of every user who has a role, so existing staff keep
+ * working in it. Document IDs are kept as they are. The old top-level
+ * documents are left in place; the Firestore rules no longer allow reading
+ * them, so delete them once the migration is verified.
+ *
+ * SETUP:
+ * 1. Install dependencies: npm install firebase-admin
+ * 2. Ensure serviceAccountKey.json exists in scripts/ directory
+ *
+ * USAGE:
+ * node scripts/migrate-to-branches.js <branchId> "<Branch Name>" <CODE>
+ * e.g. node scripts/migrate-to-branches.js main "Head Office" HO
+ */
+
+const admin = require('firebase-admin');
+const fs = require('fs');
+const path = require('path');
+
+// Configuration
+const SERVICE_ACCOUNT_PATH = path.join(__dirname, 'serviceAccountKey.json');
+
+// Keep in step with BACKUP_COLLECTIONS in lib/backup.ts
+const COLLECTIONS_TO_MIGRATE = [
+  'clients',
+  'groups',
+  'groupMembers',
+  'auctions',
+  'auctionSessions',
+  'payments',
+  'paymentLogs',
+  'dividends',
+  'payouts',
+  'penaltyCharges',
+  'counters'
+];
+
+const BATCH_LIMIT = 500;
+
+// Initialize Firebase Admin SDK
+let db;
+
+function initializeApp() {
+  try {
+    if (!fs.existsSync(SERVICE_ACCOUNT_PATH)) {
+      throw new Error(`Service account file not found: ${SERVICE_ACCOUNT_PATH}`);
+    }
+
+    const serviceAccount = require(SERVICE_ACCOUNT_PATH);
+
+    admin.initializeApp({
+      credential: admin.credential.cert(serviceAccount)
+    });
+
+    db = admin.firestore();
+    console.log('✓ Firebase Admin initialized successfully');
+  } catch (error) {
+    console.error('✗ Error initializing Firebase Admin:', error.message);
+    process.exit(1);
+  }
+}
+
+/**
+ * Create the branch document unless it already exists
+ */
+async function ensureBranch(branchId, name, code) {
+  const branchRef = db.collection('branches').doc(branchId);
+  const branchSnap = await branchRef.get();
+  if (branchSnap.exists) {
+    console.log(`✓ Branch ${branchId} already exists (${branchSnap.data().name})`);
+    return;
+  }
+  const now = admin.firestore.Timestamp.now();
+  await branchRef.set({ name, code, address: '', createdAt: now, updatedAt: now });
+  console.log(`✓ Created branch ${branchId} (${name})`);
+}
+
+/**
+ * Copy one top-level collection into the branch, skipping IDs already there
+ */
+async function migrateCollection(branchId, collectionName) {
+  const sourceSnapshot = await db.collection(collectionName).get();
+  if (sourceSnapshot.empty) {
+    return { migrated: 0, skipped: 0 };
+  }
+
+  console.log(`  📦 Migrating ${sourceSnapshot.size} documents from ${collectionName}...`);
+
+  const destRef = db.collection(`branches/${branchId}/${collectionName}`);
+  const existingIds = new Set((await destRef.select().get()).docs.map(doc => doc.id));
+  let batch = db.batch();
+  let batchCount = 0;
+  let migrated = 0;
+  let skipped = 0;
+
+  for (const sourceDoc of sourceSnapshot.docs) {
+    if (existingIds.has(sourceDoc.id)) {
+      skipped++;
+      continue;
+    }
+    batch.set(destRef.doc(sourceDoc.id), sourceDoc.data());
+    batchCount++;
+    migrated++;
+
+    // Commit batch if we reach the limit
+    if (batchCount >= BATCH_LIMIT) {
+      await batch.commit();
+      console.log(`    ✓ Committed batch of ${batchCount} documents`);
+      batch = db.batch();
+      batchCount = 0;
+    }
+  }
+
+  // Commit remaining documents
+  if (batchCount > 0) {
+    await batch.commit();
+    console.log(`    ✓ Committed final batch of ${batchCount} documents`);
+  }
+  if (skipped > 0) {
+    console.log(`    ⚠️  Skipped ${skipped} documents already in the branch`);
+  }
+
+  return { migrated, skipped };
+}
+
+/**
+ * Add the branch to the claims of every user with a role
+ */
+async function assignStaff(branchId) {
+  let assigned = 0;
+  let pageToken;
+  do {
+    const page = await admin.auth().listUsers(1000, pageToken);
+    for (const user of page.users) {
+      const claims = user.customClaims || {};
+      if (!claims.role && claims.admin !== true) continue;
+      const branches = Array.isArray(claims.branches) ? claims.branches : [];
+      if (branches.includes(branchId)) continue;
+      await admin.auth().setCustomUserClaims(user.uid, { ...claims, branches: [...branches, branchId] });
+      console.log(`  👤 ${user.email} → ${branchId}`);
+      assigned++;
+    }
+    pageToken = page.pageToken;
+  } while (pageToken);
+  return assigned;
+}
+
+/**
+ * Main migration function
+ */
+async function runMigration(branchId, name, code) {
+  console.log(`🚀 Moving the shared collections into branch ${branchId}...\n`);
+
+  await ensureBranch(branchId, name, code);
+
+  let totalMigrated = 0;
+  let totalSkipped = 0;
+  for (const collectionName of COLLECTIONS_TO_MIGRATE) {
+    const result = await migrateCollection(branchId, collectionName);
+    totalMigrated += result.migrated;
+    totalSkipped += result.skipped;
+  }
+
+  console.log('\n👥 Assigning existing staff to the branch...');
+  const assigned = await assignStaff(branchId);
+
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 MIGRATION SUMMARY');
+  console.log('='.repeat(50));
+  console.log(`Total Documents Migrated: ${totalMigrated}`);
+  console.log(`Total Documents Skipped: ${totalSkipped}`);
+  console.log(`Staff Assigned: ${assigned}`);
+  console.log('\n⚠️  IMPORTANT: Staff have to sign in again to pick up the branch.');
+  console.log('   After verifying the migration, delete the old top-level collections.');
+  console.log('   Old paths: {collection}');
+  console.log(`   New paths: branches/${branchId}/{collection}`);
+}
+
+// Run migration
+if (require.main === module) {
+  const [branchId, name, code] = process.argv.slice(2);
+  if (!branchId || !name || !code) {
+    console.error('Usage: node scripts/migrate-to-branches.js <branchId> "<Branch Name>" <CODE>');
+    process.exit(1);
+  }
+
+  initializeApp();
+  runMigration(branchId, name, code.toUpperCase())
+    .then(() => {
+      console.log('\n✅ Script completed');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('\n❌ Script failed:', error);
+      process.exit(1);
+    });
+}
+
+module.exports = { runMigration, migrateCollection };
@@ -3,6 +3,9 @@
  * 
  * This script sets the admin custom claim on a Firebase user, which allows them
  * to access and delete all users' data according to Firestore security rules.
+ * It can also give a user one of the staff roles (see lib/roles.ts) through the
+ * `role` claim. Users without a role have no access until an admin approves
+ * them. Once there is one admin, roles are managed on the Users page instead.
  * 
  * SETUP:
  * 1. Install dependencies: npm install firebase-admin
@@ -12,6 +15,7 @@
  * 
  * USAGE:
  * node scripts/set-admin.js
+ * node scripts/set-admin.js role <email> <admin|manager|cashier|collector|readonly>
  */
 
 const admin = require('firebase-admin');
@@ -24,6 +28,9 @@ const SERVICE_ACCOUNT_PATH = path.join(__dirname, 'serviceAccountKey.json');
 // Email of the user you want to make admin
 const ADMIN_USER_EMAIL = 'admin@example.com'; // ⚠️ CHANGE THIS TO YOUR ADMIN EMAIL
 
+// Keep in step with USER_ROLES in lib/roles.ts
+const ROLES = ['admin', 'manager', 'cashier', 'collector', 'readonly'];
+
 // Initialize Firebase Admin SDK
 function initializeAdmin() {
   try {
@@ -60,7 +67,7 @@ async function setAdminClaim(email) {
     console.log(`Found user: ${user.email} (UID: ${user.uid})`);
     
     // Set custom claim
-    await admin.auth().setCustomUserClaims(user.uid, { admin: true });
+    await admin.auth().setCustomUserClaims(user.uid, { ...user.customClaims, admin: true, role: 'admin' });
     
     console.log(`✓ Admin claim set successfully for ${email}`);
     console.log('\n⚠️  IMPORTANT: User needs to sign out and sign back in for changes to take effect!');
@@ -84,8 +91,8 @@ async function removeAdminClaim(email) {
     
     console.log(`Found user: ${user.email} (UID: ${user.uid})`);
     
-    // Remove admin claim
-    await admin.auth().setCustomUserClaims(user.uid, { admin: false });
+    // Remove admin claim; the user is left read-only until given another role
+    await admin.auth().setCustomUserClaims(user.uid, { ...user.customClaims, admin: false, role: 'readonly' });
     
     console.log(`✓ Admin claim removed successfully for ${email}`);
     console.log('\n⚠️  IMPORTANT: User needs to sign out and sign back in for changes to take effect!');
@@ -101,6 +108,33 @@ async function removeAdminClaim(email) {
   }
 }
 
+async function setRoleClaim(email, role) {
+  if (!ROLES.includes(role)) {
+    console.error(`✗ Unknown role "${role}". Use one of: ${ROLES.join(', ')}`);
+    return false;
+  }
+
+  try {
+    const user = await admin.auth().getUserByEmail(email);
+
+    console.log(`Found user: ${user.email} (UID: ${user.uid})`);
+
+    await admin.auth().setCustomUserClaims(user.uid, { ...user.customClaims, admin: role === 'admin', role });
+
+    console.log(`✓ Role "${role}" set successfully for ${email}`);
+    console.log('\n⚠️  IMPORTANT: User needs to sign out and sign back in for changes to take effect!');
+
+    return true;
+  } catch (error) {
+    if (error.code === 'auth/user-not-found') {
+      console.error(`✗ User with email "${email}" not found in Firebase Authentication`);
+    } else {
+      console.error('✗ Error setting role:', error.message);
+    }
+    return false;
+  }
+}
+
 async function checkAdminStatus(email) {
   try {
     const user = await admin.auth().getUserByEmail(email);
@@ -109,6 +143,7 @@ async function checkAdminStatus(email) {
     console.log(`\nUser: ${user.email}`);
     console.log(`UID: ${user.uid}`);
     console.log(`Admin Status: ${claims.admin === true ? '✅ Admin' : '❌ Not Admin'}`);
+    console.log(`Role: ${claims.admin === true ? 'admin' : claims.role || 'none (awaiting approval)'}`);
     console.log(`Custom Claims:`, JSON.stringify(claims, null, 2));
     
     return claims.admin === true;
@@ -128,8 +163,9 @@ async function main() {
   
   // Check command line arguments
   const args = process.argv.slice(2);
-  const command = args[0]; // 'set', 'remove', or 'check'
+  const command = args[0]; // 'set', 'remove', 'check' or 'role'
   const email = args[1] || ADMIN_USER_EMAIL;
+  const role = args[2];
   
   if (!email || email === 'admin@example.com') {
     console.error('\n✗ Error: No email provided');
@@ -137,6 +173,7 @@ async function main() {
     console.log('  node scripts/set-admin.js set <email>     # Make user admin');
     console.log('  node scripts/set-admin.js remove <email>  # Remove admin status');
     console.log('  node scripts/set-admin.js check <email>   # Check admin status');
+    console.log('  node scripts/set-admin.js role <email> <role>  # Set a staff role');
     console.log('\nOr update ADMIN_USER_EMAIL in the script file.\n');
     process.exit(1);
   }
@@ -158,6 +195,11 @@ async function main() {
       case 'check':
         await checkAdminStatus(email);
         break;
+      case 'role':
+        if (!(await setRoleClaim(email, role))) {
+          process.exit(1);
+        }
+        break;
       default:
         // Default to 'set' if no command provided
         await setAdminClaim(email);
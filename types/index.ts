@@ -6,21 +6,51 @@ export interface Client {
   phone: string;
   email: string;
   notes: string;
+  collectorId?: string | null; // uid of the collector who visits the client
+  collectorName?: string;
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
 
+export type GroupStatus = "Forming" | "Active" | "Completed" | "Closed";
+
 export interface Group {
   id: string;
   groupName: string;
+  status: GroupStatus;
   startDate: Timestamp;
   memberCount: number; // target number
   chitValue: number;
   agentCommissionPercent: number;
+  tenureMonths: number; // number of monthly installments; divisor for perMemberContribution
+  companyBidInstallment?: number | null; // month number (1-based) in which a Company Bid is allowed; none without it
+  allowBiddingWithArrears?: boolean; // members with overdue payments may win when true
+  maxDiscountPercent?: number; // statutory ceiling on the bid discount, as % of chitValue
+  penaltyRule?: PenaltyRule | null; // late-payment penalty; none when missing
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
 
+// One month of a group's auction schedule, derived from startDate and tenure
+export interface GroupScheduleEntry {
+  installment: number; // 1-based month number within the tenure
+  chitMonth: string; // "YYYY-MM" format
+  auctionDate: Date;
+  paymentDueDate: Date;
+  status: "Done" | "Upcoming" | "Missed";
+  auctionId?: string;
+}
+
+// Whether a membership may win the next auction of its group
+export interface BiddingEligibility {
+  member: GroupMember;
+  prizedChitCount: number; // auctions already won by the member's client in the group
+  unprizedChitCount: number;
+  hasArrears: boolean;
+  eligible: boolean;
+  reason?: string;
+}
+
 export interface GroupMember {
   id: string;
   groupId: string;
@@ -47,10 +77,56 @@ export interface Auction {
   agentCommission: number;
   totalCollectionAmount: number;
   perMemberContribution: number;
+  // Set by createAuctionWithPayments: "Pending" until every member payment is written
+  creationStatus?: "Pending" | "Complete";
+  idempotencyKey?: string;
+  historicalImport?: boolean; // brought in from a chit book by commitHistoricalImport
+  bids?: AuctionBid[]; // Every bid made in the auction session, in the order recorded
+  lotDraw?: AuctionLotDraw | null; // Set when the highest bid was tied at the ceiling
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface AuctionBid {
+  memberId: string;
+  clientId: string;
+  clientName: string;
+  amount: number; // Discount offered
+  bidTime: Timestamp;
+}
+
+// Live bidding session for one group and month. Its ID is the same
+// `${groupId}_${chitMonth}` key as the Auction created when it closes.
+export interface AuctionSession {
+  id: string;
+  groupId: string;
+  groupName: string;
+  chitMonth: string; // "YYYY-MM" format
+  status: "Open" | "Closed" | "Cancelled";
+  maxBidAmount: number; // Discount ceiling when the session was opened
+  eligibleMemberIds: string[]; // Members allowed to bid in this session
+  bids: AuctionBid[];
+  startedAt: Timestamp;
+  endsAt: Timestamp;
+  openedBy: string;
+  closedAt: Timestamp | null;
+  lotDraw: AuctionLotDraw | null;
+  auctionId: string | null; // Set once the Auction and its Payments are created
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
 
+// Record of a lot drawn between members tied at the discount ceiling
+export interface AuctionLotDraw {
+  candidateClientIds: string[]; // Sorted by clientId so the draw can be replayed
+  candidateNames: string[];
+  randomValue: number; // Unsigned 32-bit value from crypto.getRandomValues
+  drawnIndex: number; // randomValue % candidateClientIds.length
+  drawnClientId: string;
+  drawnAt: Timestamp;
+  drawnBy: string; // User ID of the operator who drew the lot
+}
+
 export interface Payment {
   id: string;
   auctionId: string;
@@ -77,6 +153,275 @@ export interface PaymentLog {
   chitMonth: string; // "YYYY-MM" format
   amountPaid: number;
   paymentDate: Timestamp;
-  paymentMethod: "Online" | "Cash";
+  paymentMethod: "Online" | "Cash" | "Adjusted from payout";
+  payoutId?: string; // Set when the dues were settled from a prize payout
+  penaltyChargeId?: string; // Set when the log collects a penalty instead of the installment
+  receiptNumber?: string; // "RCPT/2025-26/000001", gap-free within financialYear
+  financialYear?: string; // "2025-26" (April to March) of paymentDate
+  collectedBy?: string; // uid of the user who recorded the payment
+  collectorName?: string;
+  receiptPrintCount?: number; // prints after the first are marked DUPLICATE
+  receiptPrintedAt?: Timestamp | null;
+  historicalImport?: boolean; // brought in from a chit book, no receipt issued
+  bulkBatchId?: string; // shared by every log of one bulk payment, reversals included
+  reversalOf?: string; // set on a reversal entry: ID of the log it cancels (amountPaid is negative)
+  reversalReason?: string; // why the reversal was posted; collectedBy/collectorName is the operator
+  createdAt: Timestamp;
+}
+
+// Dividend earned by a membership in one auction. The bid discount lowers every
+// chit's contribution by bidAmount / tenureMonths; that saving is the dividend.
+export interface Dividend {
+  id: string;
+  auctionId: string;
+  groupId: string;
+  groupName: string;
+  chitMonth: string; // "YYYY-MM" format
+  memberId: string;
+  clientId: string;
+  clientName: string;
+  chitCount: number;
+  dividendPerChit: number;
+  dividendAmount: number; // dividendPerChit * chitCount
+  isPrized: boolean; // member had already won (or won in this auction) at the time
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// Late-payment penalty applied to a group's overdue payments
+// - Flat: flatAmount charged once when the payment is still unpaid graceDays after its due date
+// - DailyInterest / MonthlyInterest: ratePercent of pendingAmount per full day / month after the grace days
+export interface PenaltyRule {
+  type: "None" | "Flat" | "DailyInterest" | "MonthlyInterest";
+  graceDays: number;
+  flatAmount: number;
+  ratePercent: number;
+}
+
+// Penalty accrued on one payment. ID is the payment ID, so each payment has at most one charge.
+export interface PenaltyCharge {
+  id: string;
+  paymentId: string;
+  clientId: string;
+  clientName: string;
+  groupId: string;
+  groupName: string;
+  chitMonth: string; // "YYYY-MM" format
+  ruleType: PenaltyRule["type"];
+  amount: number; // Total accrued so far
+  amountPaid: number;
+  waivedAmount: number;
+  pendingAmount: number; // amount - amountPaid - waivedAmount
+  status: "Pending" | "Partial" | "Paid" | "Waived";
+  accruedThrough: Timestamp; // Interest has been charged up to this date
+  waivedReason: string;
+  waivedBy: string | null;
+  waivedAt: Timestamp | null;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// Prize money disbursed to an auction winner. Multiple winners share the
+// auction's payoutAmount equally; a Company Bid has no payout.
+export interface Payout {
+  id: string;
+  auctionId: string;
+  groupId: string;
+  groupName: string;
+  chitMonth: string; // "YYYY-MM" format
+  clientId: string;
+  clientName: string;
+  amount: number;
+  status: "Pending" | "Paid";
+  payoutDate: Timestamp | null;
+  method: "Cash" | "Cheque" | "NEFT" | null;
+  referenceNumber: string;
+  adjustments?: PayoutAdjustment[]; // Arrears deducted when the payout was disbursed
+  netAmount?: number; // amount minus adjustments; set when paid
+  historicalImport?: boolean; // paid out before the books moved into the app
   createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface PayoutAdjustment {
+  paymentId: string;
+  paymentLogId: string;
+  groupName: string;
+  chitMonth: string; // "YYYY-MM" format
+  amount: number;
+}
+
+// One line of a client's account statement. The balance is what the client
+// owes after the line: demands and payouts disbursed are debits, receipts,
+// waivers and prize amounts won are credits.
+export interface StatementEntry {
+  date: Date;
+  type: "Installment" | "Receipt" | "Reversal" | "Penalty" | "Penalty Waiver" | "Prize" | "Payout";
+  groupName: string;
+  chitMonth: string; // "YYYY-MM" format
+  description: string;
+  reference: string; // receipt number, payout reference, etc.
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface ClientStatement {
+  clientId: string;
+  clientName: string;
+  from: Date;
+  to: Date;
+  openingBalance: number;
+  entries: StatementEntry[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+}
+
+// Append-only record of one write, saved in the same batch or transaction as the write
+export interface AuditLogEntry {
+  id: string;
+  actorUid: string;
+  actorEmail: string;
+  action: "create" | "update" | "delete";
+  branchId?: string | null; // branch of the document, or the branch itself; null for users and approvals
+  entityType: string; // collection name, e.g. "payments"
+  entityId: string;
+  before: Record<string, unknown> | null; // null for a create
+  after: Record<string, unknown> | null; // null for a delete
+  timestamp: Timestamp; // server time of the write
+}
+
+// Staff role, stored as the `role` custom claim (the legacy `admin: true` claim
+// also means "admin"). Users without a role are waiting for approval and have
+// no access to the books.
+export type UserRole = "admin" | "manager" | "cashier" | "collector" | "readonly";
+
+// Staff registration request, keyed by the user's uid. Created by the user on
+// sign-up; approved or rejected by an admin through /api/admin/users.
+export interface UserApproval {
+  id: string;
+  userId: string;
+  email: string;
+  displayName: string;
+  phone: string;
+  status: "Pending" | "Approved" | "Rejected";
+  role: UserRole | null; // role granted on approval
+  reviewedBy: string | null; // email of the admin who decided
+  reviewedAt: Timestamp | null;
+  rejectionReason: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// A sign-in account as listed on the user management page
+export interface StaffUser {
+  uid: string;
+  email: string;
+  displayName: string;
+  disabled: boolean;
+  role: UserRole | null;
+  branches: string[]; // branch IDs from the `branches` claim
+  headOffice: boolean; // every branch and the consolidated reports; always true for admins
+  createdAt: string; // ISO date
+  lastSignInAt: string | null; // ISO date
+  // Registration request, null for accounts created before self-registration
+  approval: {
+    status: UserApproval["status"];
+    phone: string;
+    rejectionReason: string;
+    reviewedBy: string | null;
+    reviewedAt: string | null; // ISO date
+    requestedAt: string; // ISO date
+  } | null;
+}
+
+// Changes an admin can make on the user management page (POST /api/admin/users)
+export type StaffUserAction =
+  | { action: "approve"; uid: string; role: UserRole; branches: string[] }
+  | { action: "reject"; uid: string; reason: string }
+  | { action: "setRole"; uid: string; role: UserRole }
+  | { action: "setBranches"; uid: string; branches: string[]; headOffice: boolean }
+  | { action: "disable"; uid: string }
+  | { action: "enable"; uid: string };
+
+// A branch keeps its own books under branches/{id}/ in Firestore. Staff see
+// the branches in their `branches` claim; head office sees all of them.
+export interface Branch {
+  id: string;
+  name: string;
+  code: string; // short label shown in the Header, e.g. "MDU"
+  address: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// One branch's line in the consolidated report
+export interface BranchSummary {
+  branchId: string;
+  branchName: string;
+  clientCount: number;
+  activeGroupCount: number;
+  collected: number; // receipts in the period, net of reversals
+  pendingDues: number; // installments not yet paid in full
+  overdueDues: number; // part of pendingDues past its due date
+  pendingPayouts: number; // prize money not yet disbursed
+}
+
+// Staff listed for picking collectors, kept in the top-level staff collection
+// by /api/admin/users whenever an admin lists or changes users
+export interface StaffMember {
+  id: string; // uid
+  displayName: string;
+  email: string;
+  role: UserRole | null;
+  branches: string[];
+  headOffice: boolean;
+  disabled: boolean;
+}
+
+// A doorstep visit that did not end in a payment; payments are the receipts
+// themselves
+export interface CollectionVisit {
+  id: string;
+  clientId: string;
+  clientName: string;
+  collectorId: string;
+  collectorName: string;
+  visitDate: Timestamp;
+  outcome: "Not available" | "Promised to pay";
+  promisedDate: Timestamp | null; // set when the client promised to pay
+  notes: string;
+  createdAt: Timestamp;
+}
+
+// A collector's saved visiting order, keyed by the collector's uid. Clients
+// missing from it are visited last, by name.
+export interface CollectorRoute {
+  id: string;
+  clientIds: string[];
+  updatedAt: Timestamp;
+}
+
+// Day-end closing of one collector's receipts or of the whole office, keyed
+// `${date}_${collectorId}` or `${date}_office`. Once it exists the day's
+// receipts it covers can no longer be added, reversed or deleted.
+export interface DayClosing {
+  id: string;
+  date: string; // "YYYY-MM-DD", local day of paymentDate
+  scope: "collector" | "office";
+  collectorId: string | null; // null for the office closing
+  collectorName: string;
+  receiptCount: number;
+  cashTotal: number;
+  onlineTotal: number;
+  adjustedTotal: number; // dues settled from payouts; no money changes hands
+  denominations: Record<string, number>; // note or coin value → count
+  countedCash: number;
+  variance: number; // countedCash - cashTotal; negative is a shortage
+  handedOverTo: string; // cashier who received the cash
+  notes: string;
+  closedBy: string;
+  closedByName: string;
+  closedAt: Timestamp;
 }